@@ -24,8 +24,10 @@
  *   }
  */
 
-import { ToolLoopAgent, type InferAgentUIMessage, stepCountIs } from "ai";
+import { ToolLoopAgent, type InferAgentUIMessage, type LanguageModel, stepCountIs } from "ai";
 import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createGroq } from "@ai-sdk/groq";
 
 // =============================================================================
 // TOOL IMPORTS
@@ -34,30 +36,56 @@ import { createAnthropic } from "@ai-sdk/anthropic";
 // Import tools from the tools directory
 import { createTools } from "@/tools";
 
-// =============================================================================
-// AGENT FACTORY
-// =============================================================================
-
 // =============================================================================
 // MODEL CONFIGURATION
 // =============================================================================
 
-/** Available model options for the chat agent */
-export type ModelTier = "haiku" | "sonnet" | "opus";
+import { getModel, MODEL_PROVIDERS, DEFAULT_MODEL_ID, type ModelEntry } from "./model-registry";
+import { createLazyMockLanguageModel } from "./lazy-mock-model";
+import { createLocalLanguageModel } from "./local-model";
+import type { LocalEndpointConfig } from "@/lib/local-endpoint";
+import type { ServerKnowledgeStore } from "@/knowledge/server/store";
+import type { ApprovalPolicies } from "@/lib/approval-policies";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+
+/**
+ * Instantiate the provider model for a registry entry.
+ *
+ * @param model - Registry entry to instantiate
+ * @param apiKey - API key for the entry's provider
+ * @param localEndpoint - Base URL and model name for the "local" provider
+ */
+export function createLanguageModel(
+  model: ModelEntry,
+  apiKey: string,
+  localEndpoint?: LocalEndpointConfig
+): LanguageModel {
+  switch (model.provider) {
+    case "anthropic":
+      return createAnthropic({ apiKey })(model.modelId);
+    case "openai":
+      return createOpenAI({ apiKey })(model.modelId);
+    case "groq":
+      return createGroq({ apiKey })(model.modelId);
+    case "local":
+      // The route resolves the endpoint per request (lib/local-endpoint.ts)
+      return createLocalLanguageModel({ baseUrl: "", model: model.modelId, ...localEndpoint, apiKey });
+  }
+}
 
-/** Model identifiers for each tier - using aliases for latest versions */
-export const MODEL_IDS: Record<ModelTier, string> = {
-  haiku: "claude-haiku-4-5-20251001",
-  sonnet: "claude-sonnet-4-5-20250929",
-  opus: "claude-opus-4-5-20251101",
-};
+// =============================================================================
+// AGENT FACTORY
+// =============================================================================
 
-/** Display names for the model selector */
-export const MODEL_DISPLAY_NAMES: Record<ModelTier, string> = {
-  haiku: "apprentice",
-  sonnet: "master",
-  opus: "grandmaster",
-};
+/** Optional per-request settings for createChatAgent */
+export interface ChatAgentOptions {
+  /** Endpoint for the "local" provider (see lib/local-endpoint.ts) */
+  localEndpoint?: LocalEndpointConfig;
+  /** Server knowledge store - kb_* tools execute on the server when set */
+  knowledgeStore?: ServerKnowledgeStore;
+  /** User's tool approval policies (lib/approval-policies.ts) */
+  approvalPolicies?: ApprovalPolicies;
+}
 
 /**
  * Creates a chat agent with the provided API key and Knowledge Filesystem context.
@@ -70,20 +98,24 @@ export const MODEL_DISPLAY_NAMES: Record<ModelTier, string> = {
  * 3. Hybrid preload strategy (summary + just-in-time retrieval)
  * 4. Clear section hierarchy with semantic XML tags
  *
- * @param apiKey - Anthropic API key
+ * @param apiKey - API key for the selected model's provider
  * @param rootFolders - List of root folder names in the Knowledge Base
  * @param kbSummary - Pre-generated summary of KB contents for hybrid preload
- * @param modelTier - Which model tier to use ("sonnet" or "opus")
+ * @param modelId - Registry id of the model to use (see model-registry.ts)
+ * @param options - Local endpoint and server knowledge store, if used
  * @returns Configured ToolLoopAgent instance
  */
 export function createChatAgent(
   apiKey: string,
   rootFolders: string[] = [],
   kbSummary: string = "",
-  modelTier: ModelTier = "sonnet"
+  modelId: string = DEFAULT_MODEL_ID,
+  options: ChatAgentOptions = {}
 ) {
-  const anthropic = createAnthropic({ apiKey });
-  const mainModel = MODEL_IDS[modelTier];
+  const { localEndpoint, knowledgeStore, approvalPolicies } = options;
+  const model = getModel(modelId);
+  const providerName = MODEL_PROVIDERS[model.provider].name;
+  const modelName = model.provider === "local" && localEndpoint ? localEndpoint.model : model.displayName;
 
   // Build XML-structured folder list
   const folderXml =
@@ -115,7 +147,9 @@ ${folderXml}
 </knowledge_base>
 
 <assistant_identity>
-You are Claude (${modelTier === "opus" ? "Opus 4.5" : modelTier === "sonnet" ? "Sonnet 4.5" : "Haiku 4.5"}), a helpful AI assistant made by Anthropic.
+${model.provider === "anthropic"
+  ? `You are Claude (${model.displayName.replace(/^Claude /, "")}), a helpful AI assistant made by Anthropic.`
+  : `You are a helpful AI assistant running on ${modelName} (served by ${providerName}).`}
 Be helpful, warm, and expressive. Your personality should shine through in every response.
 </assistant_identity>
 
@@ -190,6 +224,9 @@ You have FOUR ways to access stored information:
 - Uses Reciprocal Rank Fusion (RRF) to combine lexical and semantic results
 - RRF rewards documents that rank highly in BOTH search methods
 - Best for: finding saved info by exact terms OR by meaning, code identifiers, error codes, concepts
+- Filters: \`tags\`, \`alias\`, \`status\`, \`source\`, \`excludeExpired\` narrow the search to files whose YAML frontmatter matches, e.g. \`kb_search("pricing", tags: ["client/globex"])\`. The knowledge base summary shows each file's tags.
+
+- For EVERY occurrence of an exact string or pattern ("all files that mention TODO(alex)"), use \`kb_grep(pattern, regex?, ignoreCase?, path?)\` instead - it lists each matching line with its file and line number, but doesn't rank or match by meaning.
 
 **2. Chat History Search (chat_search) - For Past Conversations**
 - \`chat_search(query, topK?)\` - Semantic search across all past chat history
@@ -200,7 +237,7 @@ You have FOUR ways to access stored information:
 
 **3. Document Search (document_search) - For Large Uploaded Documents**
 - \`document_search(query, topK?, documentId?)\` - Semantic search across uploaded large documents
-- Returns: matching chunks with scores (0-1), document filename, heading context
+- Returns: matching chunks with scores (0-1), document filename, heading context, and page range for PDFs
 - Source: LARGE DOCUMENTS (user-uploaded files for RAG search)
 - Best for: answering questions about PDFs, long text files, papers, manuals
 - Use when user references "the document", "that file I uploaded", "the paper", etc.
@@ -228,6 +265,7 @@ You have FOUR ways to access stored information:
 | Need to verify exact details | kb_read the file |
 | Chunk has high score (>0.7) but need full context | kb_read that file |
 | Browsing/exploring what's saved | kb_list + kb_read |
+| "Every note that mentions X" / exact pattern | kb_grep |
 | Answering from multiple files | kb_search, then kb_read top results |
 | Recalling a past conversation | chat_search |
 | "What documents do I have?" | document_list |
@@ -247,7 +285,7 @@ User: "What did we talk about yesterday regarding the API?"
 **Example - Document search:**
 User: "What does the research paper say about neural networks?"
 1. \`document_search("neural networks research findings")\` → finds relevant chunks from uploaded documents
-2. Returns with filename so you can cite which document the info came from
+2. Returns with filename (and page range for PDFs) so you can cite where the info came from, e.g. "(paper.pdf, p. 12–13)"
 
 **Example - Comprehensive lookup:**
 User: "What do I know about authentication?"
@@ -258,8 +296,13 @@ User: "What do I know about authentication?"
 
 **Other Reading Tools:**
 - \`kb_list(path)\` - List folder contents. Returns XML-formatted folder listing.
+- \`kb_edit(path, oldText, newText)\` or \`kb_edit(path, patch)\` - Change part of a file in place. Prefer this over rewriting a long file with kb_write. oldText must match exactly once; re-read the file if the edit is rejected.
 - \`kb_mkdir(path)\` - Create a folder.
-- \`kb_delete(path)\` - Delete a file or folder.
+- \`kb_delete(path)\` - Delete a file or folder (it goes to the trash, so the user can restore it).
+- \`kb_move(from, to)\` - Move or rename a file or folder. Use this to reorganize - it keeps history and links, unlike rewriting and deleting.
+- \`kb_copy(from, to)\` - Copy a file or folder.
+- \`kb_history(path, revisionId?)\` - List a file's revisions, or show one as a diff.
+- \`kb_restore(revisionId, state?)\` - Restore a file from a revision. Use state="before" to undo a write or delete you made by mistake.
 
 **Quote-Grounding Pattern (IMPORTANT - improves accuracy):**
 When answering questions using retrieved files:
@@ -277,7 +320,7 @@ Based on your notes, the API uses JWT authentication with 1-hour token expiry.
 **Saving Information (use PARALLEL context savers):**
 - \`save_to_context(information, context?)\` - Spawns a background agent to save information. Each call runs independently in parallel.
 
-**IMPORTANT: Call save_to_context MULTIPLE TIMES for different categories (MAX 6 agents)!**
+**IMPORTANT: Call save_to_context MULTIPLE TIMES for different categories!**
 Each call spawns a separate parallel agent. This is FASTER and creates better organization.
 The UI shows a beautiful slot-based progress indicator that fills as agents complete.
 
@@ -288,7 +331,7 @@ You should call save_to_context THREE times in parallel:
 3. \`save_to_context("User prefers dark mode and uses vim editor", "preferences")\`
 
 **Rules for parallel savers:**
-- MAXIMUM 6 parallel agents - combine related info if you'd exceed this
+- Saves are queued and run a few at a time, so there is no hard limit - but combine closely related info into one call
 - Different CATEGORIES = separate calls (personal, work, preferences, projects, skills, notes)
 - The orchestrator shows slots that fill with checkmarks as agents complete
 - Say "Spinning up X context agents..." when you call multiple
@@ -362,7 +405,7 @@ You can create semantic links between files to build a knowledge graph. This tra
 **IMPORTANT - Automatically Create Links When Saving:**
 When using \`save_to_context\` or \`kb_write\`, ALSO create links if you detect relationships:
 - User mentions one topic builds on another → \`extends\`
-- User references related documents → \`references\`
+- User references related documents → \`references\` (or write a \`[[note-name]]\` wiki link in the file - it becomes a \`references\` link automatically, marked \`derived\`, and goes away if the text is removed)
 - User's thinking has evolved (old vs new info) → \`contradicts\`
 - Topic requires prerequisite knowledge → \`requires\`
 - One task blocks another → \`blocks\`
@@ -380,6 +423,7 @@ The knowledge graph is your secret weapon for comprehensive answers. USE IT PROA
 - When answering questions, use \`kb_graph\` to find related context automatically
 - When user asks about prerequisites, traverse with \`relationship="requires"\`
 - When detecting conflicts, check for \`contradicts\` relationships  
+  (conflicting statements are also linked automatically after files change - the link notes say what conflicts)
 - Use \`kb_links\` to show how a piece of knowledge connects to the broader context
 - **After kb_search finds a file**, check \`kb_links\` to discover related files worth reading
 - **For complex topics**, traverse the graph to pull in connected concepts the user might not have mentioned
@@ -430,20 +474,37 @@ This applies to:
 - Any discrete answer the user might want to copy
 
 **If the question has multiple answers (like a list of problems), put EACH answer in its own code block.** Don't just show the work - the final answer must always be in a copyable code block.
-</formatting_rules>`;
-
-  // Create tools with web search capability
-  const tools = createTools(apiKey);
+</formatting_rules>${model.capabilities.webSearch ? "" : `
+
+<tool_availability>
+The web_search tool is NOT available with this model. Ignore any instructions above that mention it.
+When current information would be needed, rely on kb_search, chat_search and document_search, and tell the user that live web results are unavailable.
+</tool_availability>`}${knowledgeStore ? `
+
+<knowledge_graph_availability>
+The kb_link, kb_unlink, kb_links and kb_graph tools are NOT available with this knowledge base. Ignore any instructions above that mention them.
+[[wiki]] links written into files are not turned into graph links either.
+</knowledge_graph_availability>` : ""}`;
+
+  // Web search is an Anthropic provider-executed tool, so it is only
+  // included for models whose registry entry supports it
+  const tools = createTools(
+    model.capabilities.webSearch ? apiKey : undefined,
+    knowledgeStore,
+    approvalPolicies
+  );
 
   return new ToolLoopAgent({
-    // The model to use - Claude Sonnet 4.5
-    model: anthropic(mainModel),
+    // The model selected from the registry (or the scripted mock in mock mode)
+    model: isMockLlmEnabled()
+      ? createLazyMockLanguageModel("chat")
+      : createLanguageModel(model, apiKey, localEndpoint),
 
     // System instructions for the agent
     instructions,
 
-    // Tools available to the agent (including web search)
-    tools,
+    // Tools available to the agent (including web search when supported)
+    tools: model.capabilities.tools ? tools : {},
 
     // Stop condition: limit tool execution steps to prevent infinite loops
     // The agent will stop after 10 tool execution steps
@@ -9,19 +9,45 @@
  *
  * The agent streams its "thinking" to the UI so users can see what it's doing.
  *
+ * The agent reads before it writes: it searches and lists the knowledge base,
+ * reads the files it might update, and then merges new facts in with kb_edit
+ * or kb_append instead of overwriting or creating near-duplicates.
+ *
  * AI SDK v6 ARCHITECTURE NOTE:
  * ----------------------------
  * We DON'T use ToolLoopAgent here because the kb_* tools need to execute
  * client-side (IndexedDB). ToolLoopAgent requires tools to have server-side
  * execute functions to continue the loop, which doesn't work for client-side tools.
  *
- * Instead, we export the config for use with streamText. The client handles
- * tool execution and can drive multi-step logic if needed via addToolOutput.
+ * Instead, we export the config for use with streamText and the client drives
+ * the loop: the route runs one step, the client executes the tool calls and
+ * posts the assistant message (with tool outputs) back for the next step,
+ * up to CONTEXT_SAVER_MAX_STEPS.
+ *
+ * In server knowledge mode (lib/knowledge-mode.ts) the tools execute on the
+ * server instead, so the route runs all steps in a single request.
+ *
+ * In review mode the write tools require approval: the client shows each
+ * proposed change as a diff and the user accepts, edits or rejects it before
+ * anything is written.
+ *
+ * The user's tool approval policies apply as well. The client holds the
+ * calls they cover for review (lib/context-saver-runner.ts); in server mode
+ * there is no one to ask mid-loop, so a held call is refused and the model
+ * is told why.
  */
 
 import { createAnthropic } from "@ai-sdk/anthropic";
-import { tool } from "ai";
+import { createLazyMockLanguageModel } from "./lazy-mock-model";
+import { createLocalLanguageModel } from "./local-model";
+import type { LocalEndpointConfig } from "@/lib/local-endpoint";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+import { tool, type ToolSet } from "ai";
 import { z } from "zod";
+import { createServerKnowledgeTools } from "@/tools/server-knowledge-tools";
+import { kbEditTool } from "@/tools/knowledge-tools";
+import type { ServerKnowledgeStore } from "@/knowledge/server/store";
+import { isApprovalRequired, countContentLines, type ApprovalPolicies } from "@/lib/approval-policies";
 
 // =============================================================================
 // CONTEXT SAVER TOOLS
@@ -45,6 +71,14 @@ export const contextSaverTools = {
     }),
   }),
 
+  kb_search: tool({
+    description: "Search the knowledge base for existing notes on a topic. Returns matching chunks with their file paths.",
+    inputSchema: z.object({
+      query: z.string().describe("What to look for, e.g. 'where the user works'"),
+      topK: z.number().optional().default(5).describe("Number of results (default: 5)"),
+    }),
+  }),
+
   kb_write: tool({
     description: "Create or overwrite a file in the knowledge base. Parent folders are created automatically.",
     inputSchema: z.object({
@@ -61,6 +95,8 @@ export const contextSaverTools = {
     }),
   }),
 
+  kb_edit: kbEditTool,
+
   kb_mkdir: tool({
     description: "Create a folder in the knowledge base. Parent folders are created automatically.",
     inputSchema: z.object({
@@ -69,6 +105,53 @@ export const contextSaverTools = {
   }),
 };
 
+/**
+ * contextSaverTools with approval required for every change to a file.
+ */
+export const contextSaverReviewTools = {
+  ...contextSaverTools,
+  kb_write: { ...contextSaverTools.kb_write, needsApproval: true },
+  kb_append: { ...contextSaverTools.kb_append, needsApproval: true },
+  kb_edit: { ...contextSaverTools.kb_edit, needsApproval: true },
+};
+
+/**
+ * Server-executed versions of contextSaverTools, bound to a user's store.
+ * Calls the approval policies hold are refused instead of run.
+ */
+function createServerContextSaverTools(store: ServerKnowledgeStore, policies: ApprovalPolicies = {}) {
+  const { kb_list, kb_read, kb_search, kb_write, kb_append, kb_edit, kb_mkdir } =
+    createServerKnowledgeTools(store);
+  const tools: ToolSet = { kb_list, kb_read, kb_search, kb_write, kb_append, kb_edit, kb_mkdir };
+
+  const countLines = async (path: string) => {
+    try {
+      return countContentLines(await store.readFile(path));
+    } catch {
+      return null; // No file to overwrite
+    }
+  };
+
+  const result: ToolSet = {};
+  for (const [name, serverTool] of Object.entries(tools)) {
+    const execute = serverTool.execute;
+    result[name] =
+      policies[name] && execute
+        ? {
+            ...serverTool,
+            execute: async (input, options) =>
+              (await isApprovalRequired(policies, name, (input ?? {}) as Record<string, unknown>, countLines))
+                ? { error: `${name} needs the user's approval (Settings → Tool Approvals), which background saves can't ask for in server knowledge mode.` }
+                : execute(input, options),
+          }
+        : serverTool;
+  }
+  return result;
+}
+
+/** Step budget: search/list, read, write, confirm - plus slack for a retry */
+export const CONTEXT_SAVER_MAX_STEPS = 6;
+
 // =============================================================================
 // AGENT CONFIGURATION
 // =============================================================================
@@ -81,12 +164,21 @@ export const contextSaverTools = {
  *
  * @param apiKey - Anthropic API key
  * @param rootFolders - Current root folders in the Knowledge Base
- * @returns { model, system } for use with streamText
+ * @param knowledgeStore - Server knowledge store; tools execute against it server-side
+ * @param options.review - Require user approval for writes (client-executed tools only)
+ * @param options.approvalPolicies - The user's approval policies; calls they
+ *   hold are refused by the server-executed tools
+ * @param options.localEndpoint - Use this local model instead of Anthropic
+ * @returns { model, system, tools } for use with streamText
  */
 export function getContextSaverConfig(
   apiKey: string,
-  rootFolders: string[] = []
+  rootFolders: string[] = [],
+  knowledgeStore?: ServerKnowledgeStore,
+  options: { review?: boolean; localEndpoint?: LocalEndpointConfig; approvalPolicies?: ApprovalPolicies } = {}
 ) {
+  const review = Boolean(options.review) && !knowledgeStore;
+
   const anthropic = createAnthropic({ apiKey });
   // Use a faster/cheaper model for background tasks
   const modelName = process.env.CONTEXT_SAVER_MODEL || "claude-sonnet-4-5";
@@ -117,41 +209,69 @@ You are a Context Saver assistant. Your job is to organize and save information
 <instructions>
 ## Available Tools
 
-- \`kb_write(path, content)\` - Create or overwrite a file
+- \`kb_search(query)\` - Find existing notes on a topic
+- \`kb_list(path)\` - List a folder
+- \`kb_read(path)\` - Read a file
+- \`kb_edit(path, oldText, newText)\` - Change part of a file in place
 - \`kb_append(path, content)\` - Append to a file
+- \`kb_write(path, content)\` - Create a new file (or rewrite one you have read)
 - \`kb_mkdir(path)\` - Create a folder
 
-## CRITICAL: Single-Step Saving
+## Read Before Writing
 
-You must save the information in a SINGLE response. Do NOT call kb_list or kb_read first.
-Based on the root folders shown in <knowledge_base_state> above, decide immediately where to save and call kb_write or kb_append.
+You can take up to ${CONTEXT_SAVER_MAX_STEPS} steps. The knowledge base probably already has a file for
+this topic - find it before writing, so you merge with what is there instead of
+overwriting it or creating a near-duplicate.
 
 ## Instructions
 
-1. Analyze the information and determine the best file path
-2. Call kb_write (for new files) or kb_append (to add to existing files)
-3. Write a brief confirmation of what you saved
+1. kb_search for the topic and/or kb_list the folder you would use (both in one step)
+2. kb_read the file you are going to update
+3. Merge the new facts into it:
+   - kb_edit to update a fact that changed or add a line to the right section
+   - kb_append to add a new section at the end
+   - kb_write only for a brand-new file
+4. Skip facts the file already states
+5. Write a brief confirmation of what you saved and where
+${review ? `
+## User Review
 
+The user reviews every kb_write, kb_append and kb_edit before it is saved and
+may edit or reject it. If a change is rejected, do not retry it - say in your
+confirmation that it was not saved.
+` : ""}
 ## Organization Guidelines
 
 - Use clear folder names: \`about-me/\`, \`projects/\`, \`work/\`, \`preferences/\`, \`notes/\`
 - Use descriptive file names: \`background.md\`, \`skills.md\`, \`current-projects.md\`
 - Use \`.md\` extension for all files
 - Format content with markdown: headers, lists, bold for emphasis
+- Keep a file's YAML frontmatter (\`tags\`, \`aliases\`, \`status\`, \`source\`, \`expires\`) when editing it;
+  give a new file about a specific project or client a frontmatter block with \`tags: [project/name]\`
 
 ## Example
 
-User: "Save this: User works at Google as a software engineer"
-You: "Saving to about-me/work.md"
-[call kb_write with path="about-me/work.md" and formatted content]
+User: "Save this: User now works at Google as a software engineer"
+You: [call kb_search("user work job employer") and kb_list("about-me")]
+You: [call kb_read("about-me/work.md")]
+You: [call kb_edit on the line "Works at Acme" → "Works at Google as a software engineer"]
+You: "Updated about-me/work.md with the new job."
 
-Be efficient. Just save and confirm.
+Be efficient: batch independent calls into one step.
 </instructions>`;
 
   return {
-    model: anthropic(modelName),
+    model: isMockLlmEnabled()
+      ? createLazyMockLanguageModel("contextSaver")
+      : options.localEndpoint
+        ? createLocalLanguageModel(options.localEndpoint)
+        : anthropic(modelName),
     system,
-    tools: contextSaverTools,
+    tools: knowledgeStore
+      ? createServerContextSaverTools(knowledgeStore, options.approvalPolicies)
+      : review
+        ? contextSaverReviewTools
+        : contextSaverTools,
   };
 }
 
@@ -0,0 +1,85 @@
+/**
+ * Contradiction Judge Agent - Decides whether two notes conflict
+ *
+ * Runs in the background after a knowledge base file changes (see
+ * knowledge/contradictions). The client pairs each changed chunk with
+ * semantically close chunks in other files; this agent reads the pairs and
+ * says which ones make incompatible claims. Similar is not the same as
+ * conflicting - most pairs are about the same topic and agree.
+ *
+ * The agent has no tools: the client links each conflict ("contradicts")
+ * and lists it in the inbox for the user to resolve.
+ */
+
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { z } from "zod";
+import { createLazyMockLanguageModel } from "./lazy-mock-model";
+import { createLocalLanguageModel } from "./local-model";
+import type { LocalEndpointConfig } from "@/lib/local-endpoint";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+
+// =============================================================================
+// OUTPUT SCHEMA
+// =============================================================================
+
+export const contradictionVerdictsSchema = z.object({
+  verdicts: z
+    .array(
+      z.object({
+        pairId: z.string().describe("The id of the pair being judged"),
+        contradicts: z.boolean().describe("Whether the two notes make incompatible claims"),
+        explanation: z
+          .string()
+          .describe("One sentence: what conflicts, or why the notes are compatible"),
+      })
+    )
+    .describe("One verdict per pair"),
+});
+
+export type ContradictionJudgeVerdict = z.infer<typeof contradictionVerdictsSchema>["verdicts"][number];
+
+// =============================================================================
+// AGENT CONFIGURATION
+// =============================================================================
+
+/**
+ * Get the model and system prompt for the Contradiction Judge.
+ * Used by /api/check-contradictions with generateText and Output.object.
+ *
+ * @param apiKey - Anthropic API key
+ * @param localEndpoint - Use this local model instead of Anthropic
+ * @returns { model, system, schema }
+ */
+export function getContradictionJudgeConfig(apiKey: string, localEndpoint?: LocalEndpointConfig) {
+  const anthropic = createAnthropic({ apiKey });
+  // Background task - same cheaper model as the Context Saver
+  const modelName = process.env.CONTEXT_SAVER_MODEL || "claude-sonnet-4-5";
+
+  const system = `<assistant_role>
+You check a personal knowledge base for contradictions. You are given pairs of notes from different files that are about similar topics, and decide for each pair whether they conflict.
+</assistant_role>
+
+<instructions>
+A pair contradicts when both notes cannot be true at the same time about the same subject:
+- Different values for the same thing ("Uses PostgreSQL" vs "Uses MySQL" for the same project)
+- A reversed preference or decision ("Prefers tabs" vs "Prefers spaces")
+- A status that was superseded ("Lives in Berlin" vs "Moved to Lisbon")
+
+A pair does NOT contradict when:
+- The notes cover different aspects of the topic, or add detail to each other
+- They are about different subjects (different projects, people or time periods stated explicitly)
+- One is a question, idea or option rather than a claim
+
+Return exactly one verdict per pair, using its id. When in doubt, say the pair does not contradict - a false alarm costs the user more than a missed one.
+</instructions>`;
+
+  return {
+    model: isMockLlmEnabled()
+      ? createLazyMockLanguageModel("contradictionJudge")
+      : localEndpoint
+        ? createLocalLanguageModel(localEndpoint)
+        : anthropic(modelName),
+    system,
+    schema: contradictionVerdictsSchema,
+  };
+}
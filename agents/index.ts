@@ -8,8 +8,33 @@
  *   export { createCodingAgent } from "./coding-agent";
  */
 
-export { createChatAgent, MODEL_IDS, MODEL_DISPLAY_NAMES } from "./chat-agent";
-export type { ChatAgentUIMessage, ModelTier } from "./chat-agent";
+export { createChatAgent, createLanguageModel } from "./chat-agent";
+export type { ChatAgentUIMessage, ChatAgentOptions } from "./chat-agent";
+
+// Model registry - pure data, safe to import from client components directly
+// via "@/agents/model-registry" to avoid bundling provider SDKs
+export {
+  MODEL_REGISTRY,
+  MODEL_PROVIDERS,
+  DEFAULT_MODEL_ID,
+  FREE_TRIAL_MODEL_ID,
+  findModel,
+  getModel,
+  getModelsByProvider,
+} from "./model-registry";
+export type { ModelEntry, ModelProvider, ModelCapabilities, ProviderInfo } from "./model-registry";
 
 // Context Saver - uses streamText for single-pass saving with client-side tool execution
 export { getContextSaverConfig, createContextSaverAgent } from "./context-saver-agent";
+
+// Memory Extractor - proposes facts from idle conversations for the memory inbox
+export {
+  getMemoryExtractorConfig,
+  MEMORY_CATEGORIES,
+  MAX_EXTRACTED_MEMORIES,
+} from "./memory-extractor-agent";
+export type { MemoryCategory, ExtractedMemory } from "./memory-extractor-agent";
+
+// Contradiction Judge - decides which similar notes conflict after a KB change
+export { getContradictionJudgeConfig } from "./contradiction-judge-agent";
+export type { ContradictionJudgeVerdict } from "./contradiction-judge-agent";
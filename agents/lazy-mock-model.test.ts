@@ -0,0 +1,13 @@
+import { generateText } from "ai";
+import { describe, expect, it } from "vitest";
+import { createLazyMockLanguageModel } from "./lazy-mock-model";
+
+describe("createLazyMockLanguageModel", () => {
+  it("replays the fixture once it's called", async () => {
+    const model = createLazyMockLanguageModel("title");
+
+    expect(model.modelId).toBe("mock-title");
+    const { text } = await generateText({ model, prompt: "User: Planning a trip" });
+    expect(text).toBe("Mock Chat Planning a trip");
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Lazy Mock Model
+ *
+ * The scripted mock model (agents/mock-model.ts) pulls in `ai/test` and
+ * `fs`. Agent factories are synchronous, so in mock mode they get this
+ * stand-in instead, which loads the mock model on its first call. Outside
+ * mock mode the mock model is never loaded.
+ */
+
+import type { LanguageModel } from "ai";
+import type { MockScript } from "./mock-model";
+
+type LanguageModelV3 = Extract<LanguageModel, { specificationVersion: "v3" }>;
+
+/**
+ * Create a model that replays a mock fixture script, loading the mock
+ * model when it is first called.
+ *
+ * @param script - Which fixture section to replay
+ */
+export function createLazyMockLanguageModel(script: MockScript): LanguageModelV3 {
+  let model: Promise<LanguageModelV3> | undefined;
+  const load = () => {
+    if (!model) {
+      model = import("./mock-model").then((mock) => mock.createMockLanguageModel(script));
+    }
+    return model;
+  };
+
+  return {
+    specificationVersion: "v3",
+    provider: "mock",
+    modelId: `mock-${script}`,
+    supportedUrls: {},
+    doGenerate: async (options) => (await load()).doGenerate(options),
+    doStream: async (options) => (await load()).doStream(options),
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Local Model
+ *
+ * Provider models for the "local" OpenAI-compatible endpoint
+ * (lib/local-endpoint.ts). The chat agent uses the language model; the
+ * background routes (titles, Context Saver, memory extraction,
+ * contradiction checks, embeddings) use both while the local model is
+ * selected, so nothing is sent to a cloud provider.
+ */
+
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import type { LocalEndpointConfig } from "@/lib/local-endpoint";
+
+function createLocalProvider(endpoint: LocalEndpointConfig) {
+  return createOpenAI({ name: "local", baseURL: endpoint.baseUrl, apiKey: endpoint.apiKey });
+}
+
+/**
+ * The endpoint's chat model. OpenAI-compatible servers implement Chat
+ * Completions, not the Responses API the default OpenAI model uses.
+ */
+export function createLocalLanguageModel(endpoint: LocalEndpointConfig): LanguageModel {
+  return createLocalProvider(endpoint).chat(endpoint.model);
+}
+
+/**
+ * The endpoint's embedding model.
+ *
+ * @returns The model, or null if no embedding model is configured
+ */
+export function createLocalEmbeddingModel(endpoint: LocalEndpointConfig) {
+  return endpoint.embeddingModel
+    ? createLocalProvider(endpoint).embedding(endpoint.embeddingModel)
+    : null;
+}
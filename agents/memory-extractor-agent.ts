@@ -0,0 +1,95 @@
+/**
+ * Memory Extractor Agent - Proposes durable facts from a finished conversation
+ *
+ * Runs in the background when a conversation goes idle (see
+ * lib/memory-extraction.ts). It reads the messages added since the last
+ * extraction and returns a short list of facts worth remembering:
+ * preferences, project decisions, people - not one-off requests or
+ * anything the assistant merely suggested.
+ *
+ * The agent has no tools and never writes: the client checks each fact
+ * against the knowledge base and puts the novel ones in the memory inbox,
+ * where the user decides which go to the Context Saver.
+ */
+
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { z } from "zod";
+import { createLazyMockLanguageModel } from "./lazy-mock-model";
+import { createLocalLanguageModel } from "./local-model";
+import type { LocalEndpointConfig } from "@/lib/local-endpoint";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+
+// =============================================================================
+// OUTPUT SCHEMA
+// =============================================================================
+
+export const MEMORY_CATEGORIES = ["preference", "decision", "person", "fact"] as const;
+
+export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number];
+
+export const extractedMemoriesSchema = z.object({
+  facts: z
+    .array(
+      z.object({
+        text: z.string().describe("The fact as one self-contained sentence about the user"),
+        category: z.enum(MEMORY_CATEGORIES).describe("What kind of fact this is"),
+        context: z
+          .string()
+          .describe("Short topic label used to file it, e.g. 'work', 'preferences', 'project: chatnoire'"),
+      })
+    )
+    .describe("Durable facts worth remembering; empty if there are none"),
+});
+
+export type ExtractedMemory = z.infer<typeof extractedMemoriesSchema>["facts"][number];
+
+/** Upper bound on facts per extraction, to keep the inbox reviewable */
+export const MAX_EXTRACTED_MEMORIES = 8;
+
+// =============================================================================
+// AGENT CONFIGURATION
+// =============================================================================
+
+/**
+ * Get the model and system prompt for the Memory Extractor.
+ * Used by /api/extract-memories with generateText and Output.object.
+ *
+ * @param apiKey - Anthropic API key
+ * @param localEndpoint - Use this local model instead of Anthropic
+ * @returns { model, system, schema }
+ */
+export function getMemoryExtractorConfig(apiKey: string, localEndpoint?: LocalEndpointConfig) {
+  const anthropic = createAnthropic({ apiKey });
+  // Background task - same cheaper model as the Context Saver
+  const modelName = process.env.CONTEXT_SAVER_MODEL || "claude-sonnet-4-5";
+
+  const system = `<assistant_role>
+You read a conversation between a user and an assistant and pick out facts about the user that are worth remembering in their personal knowledge base.
+</assistant_role>
+
+<instructions>
+Extract only durable facts - things that will still be true and useful in future conversations:
+- preference: how the user likes things done (tools, style, formats)
+- decision: choices made about the user's projects (stack, naming, scope)
+- person: people the user mentions and their relation to the user
+- fact: other stable facts about the user (job, location, background)
+
+Do NOT extract:
+- One-off requests or questions ("user asked how to sort a list")
+- Things the assistant suggested that the user did not confirm
+- Anything temporary ("user is tired today")
+
+Write each fact as one self-contained sentence ("Prefers TypeScript over JavaScript for new projects").
+Return at most ${MAX_EXTRACTED_MEMORIES} facts. Return an empty list when there is nothing worth remembering - that is the common case.
+</instructions>`;
+
+  return {
+    model: isMockLlmEnabled()
+      ? createLazyMockLanguageModel("memoryExtractor")
+      : localEndpoint
+        ? createLocalLanguageModel(localEndpoint)
+        : anthropic(modelName),
+    system,
+    schema: extractedMemoriesSchema,
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Mock Model - Scripted stand-in for real providers
+ *
+ * When mock mode is on (NEXT_PUBLIC_MOCK_LLM=true, see lib/mock-mode.ts),
+ * createChatAgent, getContextSaverConfig, getMemoryExtractorConfig,
+ * getContradictionJudgeConfig and the title route use this model instead of Anthropic. It replays responses and
+ * tool calls from a JSON fixture, so the full UI - including client-executed kb_* tools,
+ * KnowledgeToolView and AgentOrchestratorView - runs with no keys and no
+ * network. The embed route uses createMockEmbedding, so kb_search works too.
+ *
+ * This module imports `ai/test` and `fs`: load it only in mock mode, with a
+ * dynamic import or through agents/lazy-mock-model.ts.
+ *
+ * FIXTURE FORMAT (fixtures/mock-llm.json, override with MOCK_LLM_FIXTURE):
+ * ------------------------------------------------------------------------
+ *   {
+ *     "chat":         [scenario, ...],
+ *     "contextSaver": [scenario, ...],
+ *     "title":        [scenario, ...],
+ *     "memoryExtractor": [scenario, ...],
+ *     "contradictionJudge": [scenario, ...]
+ *   }
+ *
+ *   scenario = {
+ *     "match": "regex tested against the last user message (case-insensitive)",
+ *     "steps": [
+ *       { "text": "...", "toolCalls": [{ "toolName": "kb_list", "input": { "path": "/" } }] },
+ *       { "text": "..." }
+ *     ]
+ *   }
+ *
+ * The first scenario whose `match` hits is used; a scenario without `match`
+ * is the fallback. Step N is replayed when the prompt already holds N
+ * assistant turns after the last user message, so a script continues
+ * correctly when the client resends the conversation with tool results.
+ *
+ * Strings in `text` and tool `input` may use {{input}} (the last user
+ * message) and {{1}}, {{2}}, ... (capture groups from `match`).
+ */
+
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A tool call the mock model should emit */
+export interface MockToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+/** One model step: optional text followed by optional tool calls */
+export interface MockStep {
+  text?: string;
+  toolCalls?: MockToolCall[];
+}
+
+/** A scripted exchange selected by matching the last user message */
+export interface MockScenario {
+  match?: string;
+  steps: MockStep[];
+}
+
+/** Fixture file contents, one script list per call site */
+export interface MockFixture {
+  chat?: MockScenario[];
+  contextSaver?: MockScenario[];
+  title?: MockScenario[];
+  /** Step text is the JSON object the extractor returns */
+  memoryExtractor?: MockScenario[];
+  /** Step text is the JSON object the judge returns */
+  contradictionJudge?: MockScenario[];
+}
+
+/** Which call site a mock model is standing in for */
+export type MockScript = keyof MockFixture;
+
+type CallOptions = Parameters<MockLanguageModelV3["doStream"]>[0];
+type StreamResult = Awaited<ReturnType<MockLanguageModelV3["doStream"]>>;
+type StreamPart = StreamResult["stream"] extends ReadableStream<infer P> ? P : never;
+type GenerateResult = Awaited<ReturnType<MockLanguageModelV3["doGenerate"]>>;
+
+const DEFAULT_FIXTURE_PATH = "fixtures/mock-llm.json";
+
+const EMPTY_USAGE: GenerateResult["usage"] = {
+  inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 0, text: 0, reasoning: 0 },
+};
+
+// =============================================================================
+// FIXTURE HELPERS
+// =============================================================================
+
+/**
+ * Load the fixture file. Read on every call so fixtures can be edited
+ * while the dev server is running.
+ */
+function loadFixture(): MockFixture {
+  const fixturePath = resolve(
+    process.cwd(),
+    process.env.MOCK_LLM_FIXTURE || DEFAULT_FIXTURE_PATH
+  );
+  try {
+    return JSON.parse(readFileSync(fixturePath, "utf8")) as MockFixture;
+  } catch (error) {
+    throw new Error(
+      `Failed to load mock LLM fixture at ${fixturePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Text of the last user message, plus how many assistant turns follow it.
+ */
+function inspectPrompt(prompt: CallOptions["prompt"]) {
+  let lastUserIndex = -1;
+  prompt.forEach((message, index) => {
+    if (message.role === "user") lastUserIndex = index;
+  });
+
+  const lastUser = prompt[lastUserIndex];
+  const input =
+    lastUser && lastUser.role === "user"
+      ? lastUser.content
+          .map((part) => (part.type === "text" ? part.text : ""))
+          .join(" ")
+          .trim()
+      : "";
+
+  const stepIndex = prompt
+    .slice(lastUserIndex + 1)
+    .filter((message) => message.role === "assistant").length;
+  const turnIndex = prompt.filter((message) => message.role === "user").length;
+
+  return { input, stepIndex, turnIndex };
+}
+
+/**
+ * Pick the scenario for a message and the regex captures it produced.
+ */
+function selectScenario(
+  scenarios: MockScenario[],
+  input: string
+): { scenario: MockScenario; captures: string[] } | null {
+  for (const scenario of scenarios) {
+    if (!scenario.match) continue;
+    const result = new RegExp(scenario.match, "i").exec(input);
+    if (result) {
+      return { scenario, captures: result.slice(1).map((c) => c ?? "") };
+    }
+  }
+  const fallback = scenarios.find((scenario) => !scenario.match);
+  return fallback ? { scenario: fallback, captures: [] } : null;
+}
+
+/**
+ * Replace {{input}} and {{N}} placeholders, recursing into tool inputs.
+ */
+function fillTemplate<T>(value: T, input: string, captures: string[]): T {
+  if (typeof value === "string") {
+    return value.replace(/\{\{(input|\d+)\}\}/g, (_, key: string) =>
+      key === "input" ? input : captures[Number(key) - 1] ?? ""
+    ) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => fillTemplate(item, input, captures)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fillTemplate(item, input, captures)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Resolve the step to replay for a call.
+ */
+function resolveStep(script: MockScript, options: CallOptions) {
+  const { input, stepIndex, turnIndex } = inspectPrompt(options.prompt);
+  const selected = selectScenario(loadFixture()[script] ?? [], input);
+
+  if (!selected) {
+    return {
+      step: stepIndex === 0 ? { text: `[mock] No ${script} script matches: "${input}"` } : {},
+      turnIndex,
+      stepIndex,
+    };
+  }
+
+  const step = selected.scenario.steps[stepIndex] ?? {};
+  return { step: fillTemplate(step, input, selected.captures), turnIndex, stepIndex };
+}
+
+// =============================================================================
+// MODEL FACTORY
+// =============================================================================
+
+/**
+ * Create a scripted model for one call site.
+ *
+ * Streaming delay per chunk can be set with MOCK_LLM_CHUNK_DELAY_MS
+ * (default 0) to make streaming visible in the UI.
+ *
+ * @param script - Which fixture section to replay
+ */
+export function createMockLanguageModel(script: MockScript) {
+  const chunkDelayInMs = Number(process.env.MOCK_LLM_CHUNK_DELAY_MS) || 0;
+
+  return new MockLanguageModelV3({
+    provider: "mock",
+    modelId: `mock-${script}`,
+
+    doStream: async (options) => {
+      const { step, turnIndex, stepIndex } = resolveStep(script, options);
+      const toolCalls = step.toolCalls ?? [];
+      const textId = `mock-text-${turnIndex}-${stepIndex}`;
+
+      const chunks: StreamPart[] = [{ type: "stream-start", warnings: [] }];
+      if (step.text) {
+        chunks.push({ type: "text-start", id: textId });
+        for (const delta of step.text.match(/\S+\s*|\s+/g) ?? []) {
+          chunks.push({ type: "text-delta", id: textId, delta });
+        }
+        chunks.push({ type: "text-end", id: textId });
+      }
+      toolCalls.forEach((call, index) => {
+        chunks.push({
+          type: "tool-call",
+          toolCallId: `mock-call-${turnIndex}-${stepIndex}-${index}`,
+          toolName: call.toolName,
+          input: JSON.stringify(call.input ?? {}),
+        });
+      });
+      chunks.push({
+        type: "finish",
+        finishReason: toolCalls.length > 0
+          ? { unified: "tool-calls", raw: "tool_use" }
+          : { unified: "stop", raw: "end_turn" },
+        usage: EMPTY_USAGE,
+      });
+
+      return { stream: simulateReadableStream({ chunks, chunkDelayInMs }) };
+    },
+
+    doGenerate: async (options) => {
+      const { step } = resolveStep(script, options);
+      return {
+        content: step.text ? [{ type: "text", text: step.text }] : [],
+        finishReason: { unified: "stop", raw: "end_turn" },
+        usage: EMPTY_USAGE,
+        warnings: [],
+      };
+    },
+  });
+}
+
+// =============================================================================
+// EMBEDDINGS
+// =============================================================================
+
+/**
+ * Deterministic stand-in for an embedding: each word is hashed into one of
+ * the dimensions, then the vector is normalized. Texts that share words get
+ * similar vectors, which is enough for semantic search to return sensible
+ * results in mock mode.
+ *
+ * @param text - Text to embed
+ * @param dimensions - Length of the vector
+ */
+export function createMockEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    // FNV-1a
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    vector[(hash >>> 0) % dimensions] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    // No words - any fixed unit vector will do
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
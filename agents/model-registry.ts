@@ -0,0 +1,212 @@
+/**
+ * Model Registry
+ *
+ * Single source of truth for every chat model the app can talk to.
+ * Each entry records which provider serves it, the provider's model id,
+ * its context window and what it is capable of. The model selector,
+ * the /api/chat route and BYOK key resolution all read from here.
+ *
+ * This module is pure data so it can be imported from client components
+ * without pulling provider SDKs into the browser bundle. Provider
+ * instances are created server-side in chat-agent.ts.
+ *
+ * HOW TO ADD A MODEL:
+ * -------------------
+ * Append an entry to MODEL_REGISTRY. If it belongs to a new provider,
+ * add the provider to ModelProvider and MODEL_PROVIDERS as well, then
+ * teach createLanguageModel() in chat-agent.ts how to instantiate it.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Providers with an AI SDK integration installed.
+ * "local" is any OpenAI-compatible server (llama.cpp, Ollama, vLLM, ...).
+ */
+export type ModelProvider = "anthropic" | "openai" | "groq" | "local";
+
+/** What a model can do - used to gate tools and UI affordances */
+export interface ModelCapabilities {
+  /** Supports tool calling (required for Knowledge Base tools) */
+  tools: boolean;
+  /** Accepts image inputs */
+  vision: boolean;
+  /** Supports the provider-executed Anthropic web_search tool */
+  webSearch: boolean;
+  /** Produces extended reasoning before answering */
+  reasoning: boolean;
+}
+
+/** A single selectable chat model */
+export interface ModelEntry {
+  /** Stable registry id - persisted in localStorage and sent to /api/chat */
+  id: string;
+  /** Provider that serves the model */
+  provider: ModelProvider;
+  /** Model id as the provider's API expects it */
+  modelId: string;
+  /** Short label for the model selector */
+  label: string;
+  /** Full name used in the system prompt */
+  displayName: string;
+  /** Maximum input context in tokens */
+  contextWindow: number;
+  capabilities: ModelCapabilities;
+}
+
+/** Provider metadata for prompts, settings and server-side key lookup */
+export interface ProviderInfo {
+  /** Human-readable provider name */
+  name: string;
+  /** Environment variable holding the owner's key */
+  envKey: string;
+  /** Whether requests fail without a key (local servers usually need none) */
+  requiresApiKey: boolean;
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+export const MODEL_PROVIDERS: Record<ModelProvider, ProviderInfo> = {
+  anthropic: { name: "Anthropic", envKey: "ANTHROPIC_API_KEY", requiresApiKey: true },
+  openai: { name: "OpenAI", envKey: "OPENAI_API_KEY", requiresApiKey: true },
+  groq: { name: "Groq", envKey: "GROQ_API_KEY", requiresApiKey: true },
+  local: { name: "Local", envKey: "LOCAL_LLM_API_KEY", requiresApiKey: false },
+};
+
+export const MODEL_REGISTRY: readonly ModelEntry[] = [
+  {
+    id: "claude-haiku-4-5",
+    provider: "anthropic",
+    modelId: "claude-haiku-4-5-20251001",
+    label: "Haiku",
+    displayName: "Claude Haiku 4.5",
+    contextWindow: 200_000,
+    capabilities: { tools: true, vision: true, webSearch: true, reasoning: false },
+  },
+  {
+    id: "claude-sonnet-4-5",
+    provider: "anthropic",
+    modelId: "claude-sonnet-4-5-20250929",
+    label: "Sonnet",
+    displayName: "Claude Sonnet 4.5",
+    contextWindow: 200_000,
+    capabilities: { tools: true, vision: true, webSearch: true, reasoning: false },
+  },
+  {
+    id: "claude-opus-4-5",
+    provider: "anthropic",
+    modelId: "claude-opus-4-5-20251101",
+    label: "Opus",
+    displayName: "Claude Opus 4.5",
+    contextWindow: 200_000,
+    capabilities: { tools: true, vision: true, webSearch: true, reasoning: false },
+  },
+  {
+    id: "gpt-4.1",
+    provider: "openai",
+    modelId: "gpt-4.1",
+    label: "GPT-4.1",
+    displayName: "GPT-4.1",
+    contextWindow: 1_047_576,
+    capabilities: { tools: true, vision: true, webSearch: false, reasoning: false },
+  },
+  {
+    id: "gpt-4.1-mini",
+    provider: "openai",
+    modelId: "gpt-4.1-mini",
+    label: "GPT-4.1 mini",
+    displayName: "GPT-4.1 mini",
+    contextWindow: 1_047_576,
+    capabilities: { tools: true, vision: true, webSearch: false, reasoning: false },
+  },
+  {
+    id: "gpt-5",
+    provider: "openai",
+    modelId: "gpt-5",
+    label: "GPT-5",
+    displayName: "GPT-5",
+    contextWindow: 400_000,
+    capabilities: { tools: true, vision: true, webSearch: false, reasoning: true },
+  },
+  {
+    id: "llama-3.3-70b",
+    provider: "groq",
+    modelId: "llama-3.3-70b-versatile",
+    label: "Llama 3.3",
+    displayName: "Llama 3.3 70B",
+    contextWindow: 131_072,
+    capabilities: { tools: true, vision: false, webSearch: false, reasoning: false },
+  },
+  {
+    id: "gpt-oss-120b",
+    provider: "groq",
+    modelId: "openai/gpt-oss-120b",
+    label: "GPT-OSS",
+    displayName: "GPT-OSS 120B",
+    contextWindow: 131_072,
+    capabilities: { tools: true, vision: false, webSearch: false, reasoning: true },
+  },
+  {
+    // Base URL and model name are resolved per request from env or Settings
+    // (see lib/local-endpoint.ts); modelId is only a fallback
+    id: "local",
+    provider: "local",
+    modelId: "local-model",
+    label: "Local",
+    displayName: "Local model",
+    contextWindow: 32_768,
+    capabilities: { tools: true, vision: false, webSearch: false, reasoning: false },
+  },
+];
+
+/** Model used when nothing (or something unknown) is selected */
+export const DEFAULT_MODEL_ID = "claude-sonnet-4-5";
+
+/**
+ * The only model free trial chats may use - they run on the owner's
+ * Anthropic key, so other models need the user's own key.
+ */
+export const FREE_TRIAL_MODEL_ID = "claude-sonnet-4-5";
+
+/**
+ * Registry ids for the old haiku/sonnet/opus tiers, so selections stored
+ * by earlier versions of the app (and older clients) keep working.
+ */
+const LEGACY_TIER_IDS: Record<string, string> = {
+  haiku: "claude-haiku-4-5",
+  sonnet: "claude-sonnet-4-5",
+  opus: "claude-opus-4-5",
+};
+
+// =============================================================================
+// LOOKUP
+// =============================================================================
+
+/**
+ * Find a model by registry id. Accepts legacy tier names.
+ *
+ * @returns The entry, or undefined if the id is not registered
+ */
+export function findModel(id: string | null | undefined): ModelEntry | undefined {
+  if (!id) return undefined;
+  const resolvedId = LEGACY_TIER_IDS[id] ?? id;
+  return MODEL_REGISTRY.find((model) => model.id === resolvedId);
+}
+
+/**
+ * Resolve a model by registry id, falling back to the default model.
+ */
+export function getModel(id: string | null | undefined): ModelEntry {
+  return findModel(id) ?? findModel(DEFAULT_MODEL_ID)!;
+}
+
+/**
+ * All registered models for a provider, in registry order.
+ */
+export function getModelsByProvider(provider: ModelProvider): ModelEntry[] {
+  return MODEL_REGISTRY.filter((model) => model.provider === provider);
+}
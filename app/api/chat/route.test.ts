@@ -0,0 +1,152 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const auth = vi.hoisted(() => ({ isOwner: false }));
+
+vi.mock("@/lib/auth-helper", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth-helper")>()),
+  getAuthContext: async () => ({
+    session: null,
+    isOwner: auth.isOwner,
+    userEmail: null,
+    isAuthenticated: auth.isOwner,
+  }),
+}));
+
+import { POST } from "./route";
+
+/** A request received by the stand-in server */
+interface ReceivedRequest {
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: { model?: string };
+}
+
+/**
+ * A stand-in OpenAI-compatible server: answers every chat completion with a
+ * short streamed reply.
+ */
+function startServer(received: ReceivedRequest[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ url: req.url ?? "", headers: req.headers, body: JSON.parse(body || "{}") });
+      const chunk = (delta: object, finishReason: string | null) =>
+        `data: ${JSON.stringify({
+          id: "chatcmpl-1",
+          object: "chat.completion.chunk",
+          created: 0,
+          model: "stand-in",
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+        })}\n\n`;
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write(chunk({ role: "assistant", content: "Hello from the stand-in" }, null));
+      res.write(chunk({}, "stop"));
+      res.end("data: [DONE]\n\n");
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+function chatRequest(body: object): Request {
+  return new Request("http://localhost/api/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      modelId: "local",
+      messages: [{ id: "m1", role: "user", parts: [{ type: "text", text: "Hi" }] }],
+      ...body,
+    }),
+  });
+}
+
+describe("POST /api/chat with the local provider", () => {
+  const received: ReceivedRequest[] = [];
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startServer(received);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    auth.isOwner = false;
+    vi.stubEnv("LOCAL_LLM_BASE_URL", baseUrl);
+    vi.stubEnv("LOCAL_LLM_MODEL", "owner-model");
+    vi.stubEnv("LOCAL_LLM_API_KEY", "owner-secret");
+    vi.stubEnv("NEXT_PUBLIC_MOCK_LLM", "");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("doesn't let anonymous users fall back to the owner's endpoint", async () => {
+    const response = await POST(chatRequest({}));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "LOCAL_ENDPOINT_REQUIRED" });
+    expect(received).toHaveLength(0);
+  });
+
+  it("uses the env endpoint and key for owners", async () => {
+    auth.isOwner = true;
+
+    const response = await POST(chatRequest({}));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain("Hello from the stand-in");
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe("/v1/chat/completions");
+    expect(received[0].body.model).toBe("owner-model");
+    expect(received[0].headers.authorization).toBe("Bearer owner-secret");
+  });
+
+  it("sends other users to their own endpoint without the owner's key", async () => {
+    const response = await POST(
+      chatRequest({ localEndpoint: { baseUrl, model: "my-model" } })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain("Hello from the stand-in");
+    expect(received).toHaveLength(1);
+    expect(received[0].body.model).toBe("my-model");
+    expect(received[0].headers.authorization).not.toContain("owner-secret");
+  });
+});
+
+describe("POST /api/chat free trial", () => {
+  beforeEach(() => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "owner-anthropic");
+    vi.stubEnv("OPENAI_API_KEY", "owner-openai");
+    vi.stubEnv("GROQ_API_KEY", "owner-groq");
+    vi.stubEnv("NEXT_PUBLIC_MOCK_LLM", "");
+    auth.isOwner = false;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it.each(["gpt-5", "gpt-4.1", "llama-3.3-70b", "claude-opus-4-5"])(
+    "doesn't unlock the owner's key for %s",
+    async (modelId) => {
+      const response = await POST(chatRequest({ modelId, useFreeTrial: true }));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ code: "API_KEY_REQUIRED" });
+    }
+  );
+});
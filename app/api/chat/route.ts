@@ -17,15 +17,50 @@
  * These are included in Claude's system prompt with XML structure at the top
  * for improved retrieval accuracy (research shows up to 30% improvement).
  *
+ * SERVER KNOWLEDGE MODE:
+ * ----------------------
+ * With NEXT_PUBLIC_KNOWLEDGE_STORE=server the signed-in user's server store
+ * (knowledge/server/store.ts) replaces the client's rootFolders/kbSummary,
+ * and the core kb_* tools execute inside the agent loop. The client's
+ * `approvalPolicies` (Settings) decide which of those calls stop for
+ * approval first (lib/approval-policies.ts).
+ *
+ * MODEL SELECTION:
+ * ----------------
+ * The client sends `modelId`, a registry id from agents/model-registry.ts.
+ * The registry entry decides which provider serves the request, so a single
+ * conversation can switch between Anthropic, OpenAI and Groq models.
+ *
+ * The "local" provider targets any OpenAI-compatible server. Its base URL
+ * and model come from `localEndpoint` in the body (Settings), or from env
+ * for owners; see lib/local-endpoint.ts. Local models need no free trial.
+ *
+ * MOCK MODE:
+ * ----------
+ * With NEXT_PUBLIC_MOCK_LLM=true every model replays the "chat" scripts from
+ * the mock fixture (agents/mock-model.ts) and no API key is required.
+ *
  * AUTHENTICATION & BYOK:
  * ----------------------
  * - Owner emails (set in OWNER_EMAILS env var) get free access using env API keys
- * - Other users must provide their own API keys via the request body
+ * - Other users must provide their own key for the selected model's provider
+ * - Free trial chats (`useFreeTrial`) use the env Anthropic key, and only
+ *   with FREE_TRIAL_MODEL_ID
  */
 
 import { createAgentUIStreamResponse, smoothStream } from "ai";
-import { createChatAgent } from "@/agents";
-import { getAuthContext, resolveApiKey, createApiKeyRequiredResponse } from "@/lib/auth-helper";
+import { createChatAgent, getModel, MODEL_PROVIDERS, FREE_TRIAL_MODEL_ID } from "@/agents";
+import {
+  getAuthContext,
+  resolveApiKey,
+  createApiKeyRequiredResponse,
+  createSignInRequiredResponse,
+} from "@/lib/auth-helper";
+import { resolveLocalEndpoint, createLocalEndpointRequiredResponse } from "@/lib/local-endpoint";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+import { isServerKnowledgeEnabled } from "@/lib/knowledge-mode";
+import { getServerKnowledgeStore, type ServerKnowledgeStore } from "@/knowledge/server/store";
+import { generateKBSummary } from "@/knowledge/kb-summary";
 
 // Maximum duration for the API route (in seconds)
 // Increase this if your agent performs long-running operations
@@ -34,25 +69,71 @@ export const maxDuration = 60;
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    const { messages, rootFolders, kbSummary, modelTier, anthropicApiKey: userKey, useFreeTrial } = body;
-    
-    console.log("[Chat API] Received modelTier:", modelTier, "useFreeTrial:", useFreeTrial);
+    const { messages, rootFolders, kbSummary, modelId, modelTier, providerApiKey, anthropicApiKey, localEndpoint, useFreeTrial, approvalPolicies } = body;
 
-    // Check authentication and owner status
-    const { isOwner } = await getAuthContext();
+    // Older clients send the legacy haiku/sonnet/opus tier instead of a registry id
+    const model = getModel(modelId ?? modelTier);
+    const provider = MODEL_PROVIDERS[model.provider];
 
-    // Resolve which API key to use
-    // Free trial users (useFreeTrial=true) get to use the environment key
-    const apiKey = resolveApiKey(isOwner, userKey, process.env.ANTHROPIC_API_KEY, useFreeTrial === true);
+    console.log("[Chat API] Received model:", model.id, `(${provider.name})`, "useFreeTrial:", useFreeTrial);
 
-    if (!apiKey) {
-      return createApiKeyRequiredResponse();
+    // Check authentication and owner status
+    const { isOwner, session } = await getAuthContext();
+
+    // Server knowledge mode: the user's server store is the source of truth
+    let knowledgeStore: ServerKnowledgeStore | undefined;
+    let promptFolders: string[] = rootFolders ?? [];
+    let promptSummary: string = kbSummary ?? "";
+    if (isServerKnowledgeEnabled()) {
+      const userId = session?.user?.id;
+      if (!userId) {
+        return createSignInRequiredResponse("Server-side knowledge base");
+      }
+      knowledgeStore = getServerKnowledgeStore(userId);
+      promptFolders = await knowledgeStore.getRootFolders();
+      promptSummary = await generateKBSummary(knowledgeStore);
     }
 
-    // Create the agent with the API key, Knowledge Base root folders, KB summary, and model tier
-    // The kbSummary enables hybrid preload strategy (summary at prompt start, full retrieval on-demand)
-    // The modelTier allows switching between Sonnet (master) and Opus (grandmaster)
-    const agent = createChatAgent(apiKey, rootFolders ?? [], kbSummary ?? "", modelTier ?? "sonnet");
+    let agent: ReturnType<typeof createChatAgent>;
+
+    if (isMockLlmEnabled()) {
+      // Scripted mock model - no keys, no network
+      agent = createChatAgent("mock", promptFolders, promptSummary, model.id, {
+        knowledgeStore,
+        approvalPolicies,
+      });
+    } else if (model.provider === "local") {
+      // The env endpoint is the owner's; everyone else brings their own
+      const endpoint = resolveLocalEndpoint(localEndpoint, providerApiKey, isOwner);
+      if (!endpoint) {
+        return createLocalEndpointRequiredResponse();
+      }
+
+      console.log("[Chat API] Local endpoint:", endpoint.baseUrl, "model:", endpoint.model);
+      agent = createChatAgent(endpoint.apiKey ?? "", promptFolders, promptSummary, model.id, {
+        localEndpoint: endpoint,
+        knowledgeStore,
+        approvalPolicies,
+      });
+    } else {
+      // Resolve which API key to use for the model's provider
+      // Free trial users (useFreeTrial=true) get to use the environment key,
+      // but only for the trial model - the flag comes from the client
+      const userKey = providerApiKey ?? (model.provider === "anthropic" ? anthropicApiKey : undefined);
+      const freeTrial = useFreeTrial === true && model.id === FREE_TRIAL_MODEL_ID;
+      const apiKey = resolveApiKey(isOwner, userKey, process.env[provider.envKey], freeTrial);
+
+      if (!apiKey) {
+        return createApiKeyRequiredResponse(provider.name);
+      }
+
+      // Create the agent with the API key, Knowledge Base root folders, KB summary, and model
+      // The kbSummary enables hybrid preload strategy (summary at prompt start, full retrieval on-demand)
+      agent = createChatAgent(apiKey, promptFolders, promptSummary, model.id, {
+        knowledgeStore,
+        approvalPolicies,
+      });
+    }
 
     const uiMessages = Array.isArray(messages) ? messages : [];
 
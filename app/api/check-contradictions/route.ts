@@ -0,0 +1,115 @@
+/**
+ * Check Contradictions API Route
+ *
+ * Runs the Contradiction Judge (agents/contradiction-judge-agent.ts) over
+ * pairs of similar knowledge base chunks from different files and returns
+ * which pairs conflict. Called by the client after a file changes (see
+ * knowledge/contradictions); the client links and lists the conflicts.
+ *
+ * MOCK MODE:
+ * ----------
+ * With NEXT_PUBLIC_MOCK_LLM=true the verdicts come from the
+ * "contradictionJudge" scripts in the mock fixture and no API key is required.
+ *
+ * LOCAL MODEL:
+ * ------------
+ * A `localEndpoint` in the body (sent while the local model is selected)
+ * has that server judge the pairs instead of Anthropic.
+ *
+ * AUTHENTICATION & BYOK:
+ * ----------------------
+ * - Owner emails (set in OWNER_EMAILS env var) get free access using env API keys
+ * - Other users must provide their own API keys via the request body
+ */
+
+import { generateText, Output } from "ai";
+import { getContradictionJudgeConfig } from "@/agents/contradiction-judge-agent";
+import { getAuthContext, resolveApiKey, createApiKeyRequiredResponse } from "@/lib/auth-helper";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+import { resolveBackgroundLocalEndpoint, createLocalEndpointRequiredResponse } from "@/lib/local-endpoint";
+
+// Maximum duration for the API route (in seconds)
+export const maxDuration = 30;
+
+/** Most pairs judged per request (the client sends at most 8) */
+const MAX_PAIRS = 10;
+
+/** Per-note character cap; chunks are small, this guards against misuse */
+const MAX_NOTE_CHARS = 2000;
+
+interface NoteInput {
+  path: string;
+  headingPath?: string;
+  text: string;
+}
+
+function formatNote(tag: string, note: NoteInput): string {
+  const text = note.text.length > MAX_NOTE_CHARS ? note.text.slice(0, MAX_NOTE_CHARS) + "..." : note.text;
+  const heading = note.headingPath ? ` heading="${note.headingPath}"` : "";
+  return `<${tag} file="${note.path}"${heading}>\n${text}\n</${tag}>`;
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { pairs, anthropicApiKey: userKey } = body;
+
+    // Check authentication and owner status
+    const { isOwner } = await getAuthContext();
+
+    // The local model, if the client has it selected
+    const localEndpoint = isMockLlmEnabled()
+      ? undefined
+      : resolveBackgroundLocalEndpoint(body.localEndpoint, isOwner);
+    if (localEndpoint === null) {
+      return createLocalEndpointRequiredResponse();
+    }
+
+    // Resolve which API key to use (mock mode and local models need none)
+    const apiKey = isMockLlmEnabled()
+      ? "mock"
+      : localEndpoint
+        ? "local"
+        : resolveApiKey(isOwner, userKey, process.env.ANTHROPIC_API_KEY);
+
+    if (!apiKey) {
+      return createApiKeyRequiredResponse();
+    }
+
+    if (!pairs || !Array.isArray(pairs) || pairs.length === 0) {
+      return new Response(
+        JSON.stringify({
+          error: "No pairs provided.",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const prompt = (pairs as Array<{ pairId: string; a: NoteInput; b: NoteInput }>)
+      .slice(0, MAX_PAIRS)
+      .map((pair) => `<pair id="${pair.pairId}">\n${formatNote("note_a", pair.a)}\n${formatNote("note_b", pair.b)}\n</pair>`)
+      .join("\n\n");
+
+    const { model, system, schema } = getContradictionJudgeConfig(apiKey, localEndpoint);
+
+    const result = await generateText({
+      model,
+      system,
+      prompt: `Decide which of these pairs contradict:\n\n${prompt}`,
+      output: Output.object({ schema }),
+    });
+
+    return new Response(
+      JSON.stringify({ verdicts: result.output.verdicts }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[Check Contradictions API] Error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
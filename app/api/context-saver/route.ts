@@ -8,12 +8,37 @@
  * AI SDK v6 ARCHITECTURE:
  * -----------------------
  * We use streamText instead of ToolLoopAgent because the kb_* tools need to
- * execute client-side (IndexedDB). streamText with maxSteps:1 makes a single
- * pass, streaming tool calls to the client which executes them.
+ * execute client-side (IndexedDB). Each request runs ONE step and streams
+ * its tool calls to the client, which executes them and posts the assistant
+ * message back (as `messages`, with tool outputs filled in) to run the next
+ * step. That lets the agent search and read before it writes.
  *
- * The model is instructed to save in a single step (no read-before-write)
- * to avoid the need for multi-step tool loops that require bidirectional
- * communication.
+ * The step budget is enforced here: once the assistant message holds
+ * CONTEXT_SAVER_MAX_STEPS - 1 steps (counting the steps run in this
+ * request), tools are disabled so the final step can only confirm.
+ *
+ * With `review: true` the write tools need approval. The step ends with an
+ * approval request instead of a tool call; the client shows the diff, and
+ * posts the user's decision (plus the tool output if it was accepted) back
+ * like any other step. Review mode only applies to client-executed tools.
+ *
+ * `approvalPolicies` (Settings) are checked by the client for the calls it
+ * executes. In server mode the route checks them, and refuses the calls
+ * they hold (there is no one to approve them mid-loop).
+ *
+ * In server knowledge mode (NEXT_PUBLIC_KNOWLEDGE_STORE=server) the tools
+ * execute against the user's server store, so the whole loop runs in a
+ * single request.
+ *
+ * MOCK MODE:
+ * ----------
+ * With NEXT_PUBLIC_MOCK_LLM=true the model replays the "contextSaver"
+ * scripts from the mock fixture and no API key is required.
+ *
+ * LOCAL MODEL:
+ * ------------
+ * While the local model is selected the client sends `localEndpoint`, and
+ * the agent runs on that server instead of Anthropic (lib/local-endpoint.ts).
  *
  * AUTHENTICATION & BYOK:
  * ----------------------
@@ -21,9 +46,18 @@
  * - Other users must provide their own API keys via the request body
  */
 
-import { streamText } from "ai";
-import { getContextSaverConfig } from "@/agents/context-saver-agent";
-import { getAuthContext, resolveApiKey, createApiKeyRequiredResponse } from "@/lib/auth-helper";
+import { streamText, stepCountIs, convertToModelMessages, type UIMessage } from "ai";
+import { getContextSaverConfig, CONTEXT_SAVER_MAX_STEPS } from "@/agents/context-saver-agent";
+import {
+  getAuthContext,
+  resolveApiKey,
+  createApiKeyRequiredResponse,
+  createSignInRequiredResponse,
+} from "@/lib/auth-helper";
+import { isServerKnowledgeEnabled } from "@/lib/knowledge-mode";
+import { getServerKnowledgeStore, type ServerKnowledgeStore } from "@/knowledge/server/store";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+import { resolveBackgroundLocalEndpoint, createLocalEndpointRequiredResponse } from "@/lib/local-endpoint";
 
 // Maximum duration for the API route (in seconds)
 export const maxDuration = 30;
@@ -31,7 +65,7 @@ export const maxDuration = 30;
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    const { information, context, rootFolders, taskId, anthropicApiKey: userKey } = body;
+    const { information, context, rootFolders, taskId, messages, review, approvalPolicies, anthropicApiKey: userKey } = body;
 
     if (!information) {
       return new Response(
@@ -41,31 +75,75 @@ export async function POST(req: Request) {
     }
 
     // Check authentication and owner status
-    const { isOwner } = await getAuthContext();
+    const { isOwner, session } = await getAuthContext();
+
+    // The local model, if the client has it selected
+    const localEndpoint = isMockLlmEnabled()
+      ? undefined
+      : resolveBackgroundLocalEndpoint(body.localEndpoint, isOwner);
+    if (localEndpoint === null) {
+      return createLocalEndpointRequiredResponse();
+    }
 
-    // Resolve which API key to use
-    const apiKey = resolveApiKey(isOwner, userKey, process.env.ANTHROPIC_API_KEY);
+    // Resolve which API key to use (mock mode and local models need none)
+    const apiKey = isMockLlmEnabled()
+      ? "mock"
+      : localEndpoint
+        ? "local"
+        : resolveApiKey(isOwner, userKey, process.env.ANTHROPIC_API_KEY);
 
     if (!apiKey) {
       return createApiKeyRequiredResponse();
     }
 
+    // Server knowledge mode: tools run against the user's server store
+    let knowledgeStore: ServerKnowledgeStore | undefined;
+    let folders: string[] = rootFolders ?? [];
+    if (isServerKnowledgeEnabled()) {
+      const userId = session?.user?.id;
+      if (!userId) {
+        return createSignInRequiredResponse("Server-side knowledge base");
+      }
+      knowledgeStore = getServerKnowledgeStore(userId);
+      folders = await knowledgeStore.getRootFolders();
+    }
+
     // Get the model configuration
-    const { model, system, tools } = getContextSaverConfig(apiKey, rootFolders ?? []);
+    const { model, system, tools } = getContextSaverConfig(apiKey, folders, knowledgeStore, {
+      review: review === true,
+      localEndpoint,
+      approvalPolicies,
+    });
 
     // Build the user message
     const contextSection = context ? `\n\nContext: ${context}` : "";
     const userMessage = `Save this information to the knowledge base:\n\n${information}${contextSection}`;
 
-    // Use streamText for a single-pass response with tool calls
-    // The client will receive the tool calls and execute them
+    // Steps taken so far: the client sends back the assistant message it has
+    // been building, with the outputs of the tools it executed
+    const previous: UIMessage[] = Array.isArray(messages) ? messages : [];
+    const stepsTaken = previous
+      .flatMap((message) => message.parts)
+      .filter((part) => part.type === "step-start").length;
+
+    const modelMessages = await convertToModelMessages([
+      { role: "user", parts: [{ type: "text", text: userMessage }] },
+      ...previous,
+    ]);
+
+    // Client mode: one step per request, the client executes the tool calls
+    // Server mode: tools execute here, so run the whole loop
     const result = streamText({
       model,
       system,
       tools,
-      messages: [{ role: "user", content: userMessage }],
-      // Single step - model should save directly without read-first patterns
-      maxSteps: 1,
+      messages: modelMessages,
+      stopWhen: stepCountIs(knowledgeStore ? CONTEXT_SAVER_MAX_STEPS : 1),
+      // Out of steps - make the model wrap up instead of calling more tools
+      prepareStep: ({ stepNumber }) =>
+        stepsTaken + stepNumber >= CONTEXT_SAVER_MAX_STEPS - 1
+          ? { toolChoice: "none" }
+          : undefined,
     });
 
     // Return the stream as a Response with custom headers
@@ -0,0 +1,140 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/auth-helper", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth-helper")>()),
+  getAuthContext: async () => ({
+    session: null,
+    isOwner: false,
+    userEmail: null,
+    isAuthenticated: false,
+  }),
+}));
+
+import { POST } from "./route";
+
+function embedRequest(body: object): Request {
+  return new Request("http://localhost/api/embed", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe("POST /api/embed in mock mode", () => {
+  beforeEach(() => {
+    vi.stubEnv("NEXT_PUBLIC_MOCK_LLM", "true");
+    vi.stubEnv("OPENAI_API_KEY", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("embeds without an API key, deterministically", async () => {
+    const texts = ["Prefers TypeScript for new projects", "Lives in Lisbon"];
+    const first = await (await POST(embedRequest({ texts, dimensions: 256 }))).json();
+    const second = await (await POST(embedRequest({ texts, dimensions: 256 }))).json();
+
+    expect(first.dimensions).toBe(256);
+    expect(first.embeddings).toHaveLength(2);
+    expect(first.embeddings[0]).toHaveLength(256);
+    expect(second.embeddings).toEqual(first.embeddings);
+  });
+
+  it("puts texts that share words closer together", async () => {
+    const { embedding: query } = await (
+      await POST(embedRequest({ texts: ["typescript projects"], single: true }))
+    ).json();
+    const { embeddings } = await (
+      await POST(embedRequest({ texts: ["Prefers TypeScript for new projects", "Lives in Lisbon"] }))
+    ).json();
+
+    expect(query).toHaveLength(1536);
+    expect(cosine(query, embeddings[0])).toBeGreaterThan(cosine(query, embeddings[1]));
+  });
+});
+
+/**
+ * A stand-in OpenAI-compatible server: embeds every text as [length, 1, 0].
+ */
+function startEmbeddingServer(received: Array<{ url: string; body: { model?: string } }>): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const parsed = JSON.parse(body || "{}");
+      received.push({ url: req.url ?? "", body: parsed });
+      const inputs: string[] = Array.isArray(parsed.input) ? parsed.input : [parsed.input];
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          object: "list",
+          data: inputs.map((input, index) => ({ object: "embedding", index, embedding: [input.length, 1, 0] })),
+          model: parsed.model,
+          usage: { prompt_tokens: 1, total_tokens: 1 },
+        })
+      );
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("POST /api/embed with the local endpoint", () => {
+  const received: Array<{ url: string; body: { model?: string } }> = [];
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startEmbeddingServer(received);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    vi.stubEnv("NEXT_PUBLIC_MOCK_LLM", "");
+    vi.stubEnv("OPENAI_API_KEY", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("embeds with the local embedding model instead of OpenAI", async () => {
+    const response = await POST(
+      embedRequest({
+        texts: ["Lives in Lisbon", "Hi"],
+        localEndpoint: { baseUrl, model: "llama3.1:8b", embeddingModel: "nomic-embed-text" },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      embeddings: [[15, 1, 0], [2, 1, 0]],
+      model: "nomic-embed-text",
+      dimensions: 3,
+    });
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe("/v1/embeddings");
+    expect(received[0].body.model).toBe("nomic-embed-text");
+  });
+
+  it("asks for an embedding model when the endpoint has none", async () => {
+    const response = await POST(
+      embedRequest({ texts: ["Lives in Lisbon"], localEndpoint: { baseUrl, model: "llama3.1:8b" } })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "LOCAL_EMBEDDING_MODEL_REQUIRED" });
+    expect(received).toHaveLength(0);
+  });
+});
@@ -10,7 +10,7 @@
  * - Other users must provide their own API keys via the request body
  *
  * Endpoints:
- * - POST with { texts: string[], single?: boolean, openaiApiKey?: string, model?: string, dimensions?: number }
+ * - POST with { texts: string[], single?: boolean, openaiApiKey?: string, model?: string, dimensions?: number, localEndpoint?: object }
  *   - If single=true: Returns { embedding: number[] } for a query
  *   - Otherwise: Returns { embeddings: number[][] } for batch embedding
  *
@@ -21,11 +21,30 @@
  * Dimension Reduction:
  * - Using "text-embedding-3-large" with dimensions=1024 often yields better
  *   accuracy than "small" at 1536, while using less storage.
+ *
+ * MOCK MODE:
+ * ----------
+ * With NEXT_PUBLIC_MOCK_LLM=true embeddings are deterministic word hashes
+ * (createMockEmbedding in agents/mock-model.ts) and no API key is required.
+ *
+ * LOCAL MODEL:
+ * ------------
+ * While the local model is selected the client sends `localEndpoint`, and
+ * texts are embedded by that server's embedding model (`embeddingModel`,
+ * or LOCAL_LLM_EMBEDDING_MODEL for owners) instead of OpenAI. Without an
+ * embedding model the request fails, and search falls back to keywords.
  */
 
 import { createOpenAI } from "@ai-sdk/openai";
-import { embedMany, embed } from "ai";
+import { embedMany, embed, type EmbeddingModel as ProviderEmbeddingModel } from "ai";
 import { getAuthContext, resolveApiKey, createApiKeyRequiredResponse } from "@/lib/auth-helper";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+import { createLocalEmbeddingModel } from "@/agents/local-model";
+import {
+  resolveBackgroundLocalEndpoint,
+  createLocalEndpointRequiredResponse,
+  createLocalEmbeddingModelRequiredResponse,
+} from "@/lib/local-endpoint";
 
 export const maxDuration = 30;
 
@@ -47,6 +66,7 @@ export async function POST(req: Request) {
       openaiApiKey: userKey,
       model: requestedModel,
       dimensions: requestedDimensions,
+      localEndpoint: requestedLocalEndpoint,
     } = await req.json();
 
     if (!texts || !Array.isArray(texts) || texts.length === 0) {
@@ -69,9 +89,33 @@ export async function POST(req: Request) {
         ? requestedDimensions
         : modelConfig.defaultDimensions;
 
+    if (isMockLlmEnabled()) {
+      // Loaded only in mock mode (the module pulls in ai/test and fs)
+      const { createMockEmbedding } = await import("@/agents/mock-model");
+      const embeddings = (texts as string[]).map((text) => createMockEmbedding(String(text), dimensions));
+      return Response.json(
+        single
+          ? { embedding: embeddings[0], model, dimensions }
+          : { embeddings, model, dimensions }
+      );
+    }
+
     // Check authentication and owner status
     const { isOwner } = await getAuthContext();
 
+    // The local server's embedding model, if the client has the local model selected
+    const localEndpoint = resolveBackgroundLocalEndpoint(requestedLocalEndpoint, isOwner);
+    if (localEndpoint === null) {
+      return createLocalEndpointRequiredResponse();
+    }
+    if (localEndpoint) {
+      const localModel = createLocalEmbeddingModel(localEndpoint);
+      if (!localModel) {
+        return createLocalEmbeddingModelRequiredResponse();
+      }
+      return embedResponse(localModel, texts, single, localEndpoint.embeddingModel!);
+    }
+
     // Resolve which API key to use
     const apiKey = resolveApiKey(isOwner, userKey, process.env.OPENAI_API_KEY);
 
@@ -89,29 +133,7 @@ export async function POST(req: Request) {
       dimensions: dimensions !== modelConfig.defaultDimensions ? dimensions : undefined,
     });
 
-    if (single) {
-      // Single query embedding
-      const { embedding } = await embed({
-        model: embeddingModel,
-        value: texts[0],
-      });
-      return Response.json({
-        embedding,
-        model,
-        dimensions: embedding.length,
-      });
-    }
-
-    // Batch embedding for document chunks
-    const { embeddings } = await embedMany({
-      model: embeddingModel,
-      values: texts,
-    });
-    return Response.json({
-      embeddings,
-      model,
-      dimensions: embeddings[0]?.length ?? dimensions,
-    });
+    return embedResponse(embeddingModel, texts, single, model);
   } catch (error) {
     console.error("[Embed API] Error:", error);
     return Response.json(
@@ -120,3 +142,40 @@ export async function POST(req: Request) {
     );
   }
 }
+
+/**
+ * Embed the texts and respond with the vectors.
+ *
+ * @param single - Embed one query and return `embedding` instead of `embeddings`
+ * @param model - Model name reported back to the client
+ */
+async function embedResponse(
+  embeddingModel: ProviderEmbeddingModel,
+  texts: string[],
+  single: boolean | undefined,
+  model: string
+): Promise<Response> {
+  if (single) {
+    // Single query embedding
+    const { embedding } = await embed({
+      model: embeddingModel,
+      value: texts[0],
+    });
+    return Response.json({
+      embedding,
+      model,
+      dimensions: embedding.length,
+    });
+  }
+
+  // Batch embedding for document chunks
+  const { embeddings } = await embedMany({
+    model: embeddingModel,
+    values: texts,
+  });
+  return Response.json({
+    embeddings,
+    model,
+    dimensions: embeddings[0]?.length ?? 0,
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Extract Memories API Route
+ *
+ * Runs the Memory Extractor (agents/memory-extractor-agent.ts) over the
+ * messages a conversation gained since its last extraction and returns the
+ * durable facts it found. Called by the client when a conversation goes
+ * idle; the client filters out facts the knowledge base already has and
+ * puts the rest in the memory inbox.
+ *
+ * MOCK MODE:
+ * ----------
+ * With NEXT_PUBLIC_MOCK_LLM=true the facts come from the "memoryExtractor"
+ * scripts in the mock fixture and no API key is required.
+ *
+ * LOCAL MODEL:
+ * ------------
+ * A `localEndpoint` in the body (sent while the local model is selected)
+ * runs the extractor on that server instead of Anthropic.
+ *
+ * AUTHENTICATION & BYOK:
+ * ----------------------
+ * - Owner emails (set in OWNER_EMAILS env var) get free access using env API keys
+ * - Other users must provide their own API keys via the request body
+ */
+
+import { generateText, Output } from "ai";
+import { getMemoryExtractorConfig, MAX_EXTRACTED_MEMORIES } from "@/agents/memory-extractor-agent";
+import { getAuthContext, resolveApiKey, createApiKeyRequiredResponse } from "@/lib/auth-helper";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+import { resolveBackgroundLocalEndpoint, createLocalEndpointRequiredResponse } from "@/lib/local-endpoint";
+
+// Maximum duration for the API route (in seconds)
+export const maxDuration = 30;
+
+/** Per-message character cap, so one pasted document can't crowd out the rest */
+const MAX_MESSAGE_CHARS = 2000;
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { messages, anthropicApiKey: userKey } = body;
+
+    // Check authentication and owner status
+    const { isOwner } = await getAuthContext();
+
+    // The local model, if the client has it selected
+    const localEndpoint = isMockLlmEnabled()
+      ? undefined
+      : resolveBackgroundLocalEndpoint(body.localEndpoint, isOwner);
+    if (localEndpoint === null) {
+      return createLocalEndpointRequiredResponse();
+    }
+
+    // Resolve which API key to use (mock mode and local models need none)
+    const apiKey = isMockLlmEnabled()
+      ? "mock"
+      : localEndpoint
+        ? "local"
+        : resolveApiKey(isOwner, userKey, process.env.ANTHROPIC_API_KEY);
+
+    if (!apiKey) {
+      return createApiKeyRequiredResponse();
+    }
+
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      return new Response(
+        JSON.stringify({
+          error: "No messages provided.",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Text-only transcript; tool calls and files carry no new user facts
+    const transcript = messages
+      .map((msg: { role: string; parts?: Array<{ type: string; text?: string }> }) => {
+        const role = msg.role === "user" ? "User" : "Assistant";
+        const text = msg.parts
+          ?.filter((p) => p.type === "text")
+          .map((p) => p.text)
+          .join(" ") ?? "";
+        const truncated = text.length > MAX_MESSAGE_CHARS ? text.slice(0, MAX_MESSAGE_CHARS) + "..." : text;
+        return truncated ? `${role}: ${truncated}` : "";
+      })
+      .filter(Boolean)
+      .join("\n\n");
+
+    if (!transcript) {
+      return new Response(
+        JSON.stringify({ facts: [] }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { model, system, schema } = getMemoryExtractorConfig(apiKey, localEndpoint);
+
+    const result = await generateText({
+      model,
+      system,
+      prompt: `Extract facts worth remembering from this conversation:\n\n${transcript}`,
+      output: Output.object({ schema }),
+    });
+
+    const facts = result.output.facts.slice(0, MAX_EXTRACTED_MEMORIES);
+
+    return new Response(
+      JSON.stringify({ facts }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[Extract Memories API] Error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/auth-helper", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth-helper")>()),
+  getAuthContext: async () => ({
+    session: null,
+    isOwner: false,
+    userEmail: null,
+    isAuthenticated: false,
+  }),
+}));
+
+import { POST } from "./route";
+
+/** A request received by the stand-in server */
+interface ReceivedRequest {
+  url: string;
+  body: { model?: string };
+}
+
+/**
+ * A stand-in OpenAI-compatible server: answers every chat completion with
+ * the same title.
+ */
+function startServer(received: ReceivedRequest[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ url: req.url ?? "", body: JSON.parse(body || "{}") });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-1",
+          object: "chat.completion",
+          created: 0,
+          model: "stand-in",
+          choices: [{ index: 0, message: { role: "assistant", content: "Trip To Lisbon" }, finish_reason: "stop" }],
+          usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+        })
+      );
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+function titleRequest(body: object): Request {
+  return new Request("http://localhost/api/generate-title", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      messages: [
+        { id: "m1", role: "user", parts: [{ type: "text", text: "Plan a trip to Lisbon" }] },
+        { id: "m2", role: "assistant", parts: [{ type: "text", text: "Here is a plan" }] },
+      ],
+      ...body,
+    }),
+  });
+}
+
+describe("POST /api/generate-title with the local endpoint", () => {
+  const received: ReceivedRequest[] = [];
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startServer(received);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    vi.stubEnv("NEXT_PUBLIC_MOCK_LLM", "");
+    vi.stubEnv("ANTHROPIC_API_KEY", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("generates the title on the local model without an Anthropic key", async () => {
+    const response = await POST(titleRequest({ localEndpoint: { baseUrl, model: "llama3.1:8b" } }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ title: "Trip To Lisbon" });
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe("/v1/chat/completions");
+    expect(received[0].body.model).toBe("llama3.1:8b");
+  });
+
+  it("doesn't fall back to Anthropic when the local endpoint isn't configured", async () => {
+    const response = await POST(titleRequest({ localEndpoint: {} }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "LOCAL_ENDPOINT_REQUIRED" });
+    expect(received).toHaveLength(0);
+  });
+});
@@ -7,6 +7,16 @@
  * This endpoint is called at the end of each chat response to update
  * the conversation title based on the full content of the chat.
  *
+ * MOCK MODE:
+ * ----------
+ * With NEXT_PUBLIC_MOCK_LLM=true the title comes from the "title" scripts
+ * in the mock fixture and no API key is required.
+ *
+ * LOCAL MODEL:
+ * ------------
+ * While the local model is selected the client sends `localEndpoint`, and
+ * the title comes from that server instead (lib/local-endpoint.ts).
+ *
  * AUTHENTICATION & BYOK:
  * ----------------------
  * - Owner emails (set in OWNER_EMAILS env var) get free access using env API keys
@@ -15,7 +25,10 @@
 
 import { generateText } from "ai";
 import { createAnthropic } from "@ai-sdk/anthropic";
+import { createLocalLanguageModel } from "@/agents/local-model";
 import { getAuthContext, resolveApiKey, createApiKeyRequiredResponse } from "@/lib/auth-helper";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+import { resolveBackgroundLocalEndpoint, createLocalEndpointRequiredResponse } from "@/lib/local-endpoint";
 
 // Maximum duration for the API route (in seconds)
 export const maxDuration = 30;
@@ -28,8 +41,20 @@ export async function POST(req: Request) {
     // Check authentication and owner status
     const { isOwner } = await getAuthContext();
 
-    // Resolve which API key to use
-    const apiKey = resolveApiKey(isOwner, userKey, process.env.ANTHROPIC_API_KEY);
+    // The local model, if the client has it selected
+    const localEndpoint = isMockLlmEnabled()
+      ? undefined
+      : resolveBackgroundLocalEndpoint(body.localEndpoint, isOwner);
+    if (localEndpoint === null) {
+      return createLocalEndpointRequiredResponse();
+    }
+
+    // Resolve which API key to use (mock mode and local models need none)
+    const apiKey = isMockLlmEnabled()
+      ? "mock"
+      : localEndpoint
+        ? "local"
+        : resolveApiKey(isOwner, userKey, process.env.ANTHROPIC_API_KEY);
 
     if (!apiKey) {
       return createApiKeyRequiredResponse();
@@ -61,9 +86,16 @@ export async function POST(req: Request) {
       })
       .join("\n\n");
 
+    // The mock model is only loaded in mock mode (it pulls in ai/test and fs)
+    const model = isMockLlmEnabled()
+      ? (await import("@/agents/mock-model")).createMockLanguageModel("title")
+      : localEndpoint
+        ? createLocalLanguageModel(localEndpoint)
+        : anthropic("claude-sonnet-4-20250514");
+
     // Use generateText for a simple, non-streaming response
     const result = await generateText({
-      model: anthropic("claude-sonnet-4-20250514"),
+      model,
       system: `You are a title generator for chat conversations. Generate a concise, descriptive title (3-7 words) that captures the main topic or purpose of the conversation. 
 
 Rules:
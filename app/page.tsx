@@ -25,8 +25,10 @@ import Chat from "@/components/ai-chat";
 import { ChatSidebar, type SidebarTab, type ChatSidebarRef } from "@/components/chat-sidebar";
 import { useChatHistory } from "@/lib/use-chat-history";
 import { useSession } from "@/lib/auth-client";
-import { getApiKeys, type StoredApiKeys } from "@/lib/api-keys";
+import { getApiKeys, setCurrentApiKeyUser, type StoredApiKeys } from "@/lib/api-keys";
 import type { UIMessage } from "ai";
+import type { ChatMessageNode } from "@/lib/chat-types";
+import { buildMessageTree } from "@/lib/chat-tree";
 import type { KnowledgeBrowserRef } from "@/components/knowledge-browser";
 
 // Represents an active chat session that should stay mounted
@@ -34,6 +36,8 @@ interface ActiveChatSession {
   chatId: string;
   conversationId: string | null;
   initialMessages: UIMessage[];
+  initialTree: ChatMessageNode[];
+  initialModelId?: string;
   isStreaming: boolean;
 }
 
@@ -45,10 +49,13 @@ export default function Home() {
     activeConversation,
     isHydrated,
     createConversation,
+    forkConversation,
     setActiveConversation,
     updateConversationMessages,
+    loadConversation,
     renameConversation,
     updateConversationTitle, // AI-generated title updates
+    setConversationModel,
     deleteConversation,
     clearAllConversations,
   } = useChatHistory();
@@ -75,6 +82,8 @@ export default function Home() {
   
   // Load API keys when user changes
   useEffect(() => {
+    // Background requests (embedding, contradiction checks) use this user's keys too
+    setCurrentApiKeyUser(userId);
     const keys = getApiKeys(userId);
     setApiKeys(keys);
   }, [userId]);
@@ -153,6 +162,8 @@ export default function Home() {
           chatId: initialChatId,
           conversationId: activeConversationId,
           initialMessages: activeConversation?.messages ?? [],
+          initialTree: activeConversation?.tree ?? [],
+          initialModelId: activeConversation?.modelId,
           isStreaming: false,
         },
       ]);
@@ -161,7 +172,7 @@ export default function Home() {
         chatToConversationRef.current.set(initialChatId, activeConversationId);
       }
     }
-  }, [activeConversationId, activeConversation?.messages, isHydrated]);
+  }, [activeConversationId, activeConversation?.messages, activeConversation?.tree, activeConversation?.modelId, isHydrated]);
 
   // Persist sidebar state
   const handleToggleSidebar = useCallback(() => {
@@ -186,6 +197,7 @@ export default function Home() {
         chatId: newChatId,
         conversationId: null,
         initialMessages: [],
+        initialTree: [],
         isStreaming: false,
       }];
     });
@@ -206,28 +218,35 @@ export default function Home() {
         // Switch to existing session
         setVisibleChatId(existingSession.chatId);
       } else {
-        // Create a new session for this conversation
-        const conversation = conversations.find(c => c.id === id);
-        const newSession: ActiveChatSession = {
-          chatId: id, // Use conversation ID as chat ID for existing conversations
-          conversationId: id,
-          initialMessages: conversation?.messages ?? [],
-          isStreaming: false,
-        };
-        
-        setActiveSessions(prev => {
-          // Keep streaming sessions, remove idle non-visible sessions
-          const sessionsToKeep = prev.filter(s => s.isStreaming || s.chatId === visibleChatId);
-          return [...sessionsToKeep, newSession];
-        });
-        
-        chatToConversationRef.current.set(id, id);
-        setVisibleChatId(id);
+        // Load the conversation's messages, then create a session for it
+        loadConversation(id)
+          .then((conversation) => {
+            const newSession: ActiveChatSession = {
+              chatId: id, // Use conversation ID as chat ID for existing conversations
+              conversationId: id,
+              initialMessages: conversation?.messages ?? [],
+              initialTree: conversation?.tree ?? [],
+              initialModelId: conversation?.modelId,
+              isStreaming: false,
+            };
+
+            setActiveSessions(prev => {
+              // Keep streaming sessions, remove idle non-visible sessions
+              const sessionsToKeep = prev.filter(s => s.isStreaming || s.chatId === visibleChatId);
+              return [...sessionsToKeep, newSession];
+            });
+
+            chatToConversationRef.current.set(id, id);
+            setVisibleChatId(id);
+          })
+          .catch((error) => {
+            console.error("[Page] Failed to load conversation:", error);
+          });
       }
       
       setActiveConversation(id);
     },
-    [activeSessions, conversations, setActiveConversation, visibleChatId]
+    [activeSessions, loadConversation, setActiveConversation, visibleChatId]
   );
 
   // Ref to track the current visible chat ID for use in callbacks
@@ -255,26 +274,34 @@ export default function Home() {
         // Clean up the deleted session from activeSessions
         // and create a fresh session for the new active conversation (or empty state)
         if (activeConversationId && currentIds.has(activeConversationId)) {
-          // There's another conversation to show - switch to it
-          const conversation = conversations.find(c => c.id === activeConversationId);
-          const newSession: ActiveChatSession = {
-            chatId: activeConversationId,
-            conversationId: activeConversationId,
-            initialMessages: conversation?.messages ?? [],
-            isStreaming: false,
-          };
-          
-          setActiveSessions(prev => {
-            // Remove the deleted session and add the new one
-            const filtered = prev.filter(s => {
-              const convId = chatToConversationRef.current.get(s.chatId) ?? s.chatId;
-              return !deletedIds.includes(convId) && s.isStreaming;
+          // There's another conversation to show - load it and switch to it
+          const nextId = activeConversationId;
+          loadConversation(nextId)
+            .then((conversation) => {
+              const newSession: ActiveChatSession = {
+                chatId: nextId,
+                conversationId: nextId,
+                initialMessages: conversation?.messages ?? [],
+                initialTree: conversation?.tree ?? [],
+                initialModelId: conversation?.modelId,
+                isStreaming: false,
+              };
+
+              setActiveSessions(prev => {
+                // Remove the deleted session and add the new one
+                const filtered = prev.filter(s => {
+                  const convId = chatToConversationRef.current.get(s.chatId) ?? s.chatId;
+                  return !deletedIds.includes(convId) && s.isStreaming;
+                });
+                return [...filtered, newSession];
+              });
+
+              chatToConversationRef.current.set(nextId, nextId);
+              setVisibleChatId(nextId);
+            })
+            .catch((error) => {
+              console.error("[Page] Failed to load conversation:", error);
             });
-            return [...filtered, newSession];
-          });
-          
-          chatToConversationRef.current.set(activeConversationId, activeConversationId);
-          setVisibleChatId(activeConversationId);
         } else {
           // No conversations left - reset to empty state
           const newChatId = `new-${Date.now()}`;
@@ -282,6 +309,7 @@ export default function Home() {
             chatId: newChatId,
             conversationId: null,
             initialMessages: [],
+            initialTree: [],
             isStreaming: false,
           }]);
           setVisibleChatId(newChatId);
@@ -295,22 +323,28 @@ export default function Home() {
     }
     
     prevConversationIdsRef.current = currentIds;
-  }, [conversations, visibleChatId, activeConversationId]);
+  }, [conversations, visibleChatId, activeConversationId, loadConversation]);
 
   // Refs for stable callback access (avoid stale closures)
   const createConversationRef = useRef(createConversation);
+  const forkConversationRef = useRef(forkConversation);
   const updateConversationMessagesRef = useRef(updateConversationMessages);
   const updateConversationTitleRef = useRef(updateConversationTitle);
+  const setConversationModelRef = useRef(setConversationModel);
   useEffect(() => {
     createConversationRef.current = createConversation;
+    forkConversationRef.current = forkConversation;
     updateConversationMessagesRef.current = updateConversationMessages;
     updateConversationTitleRef.current = updateConversationTitle;
-  }, [createConversation, updateConversationMessages, updateConversationTitle]);
+    setConversationModelRef.current = setConversationModel;
+  }, [createConversation, forkConversation, updateConversationMessages, updateConversationTitle, setConversationModel]);
 
   // Stable callback cache - persists across renders
   // We use a ref to store callbacks so they maintain referential equality
   const callbackCacheRef = useRef<Map<string, {
-    onMessagesChange: (messages: UIMessage[]) => void;
+    onMessagesChange: (messages: UIMessage[], tree: ChatMessageNode[]) => void;
+    onFork: (messages: UIMessage[], modelId: string) => void;
+    onModelChange: (modelId: string) => void;
     onStreamingChange: (isStreaming: boolean) => void;
     onKnowledgeChange: () => void;
     onTitleChange: (title: string) => void;
@@ -322,7 +356,7 @@ export default function Home() {
     
     if (!callbacks) {
       callbacks = {
-        onMessagesChange: (messages: UIMessage[]) => {
+        onMessagesChange: (messages: UIMessage[], tree: ChatMessageNode[]) => {
           let convId = chatToConversationRef.current.get(chatId);
           
           if (!convId && messages.length > 0) {
@@ -337,10 +371,42 @@ export default function Home() {
           }
           
           if (convId) {
-            updateConversationMessagesRef.current(convId, messages);
+            updateConversationMessagesRef.current(convId, messages, tree);
           }
         },
         
+        onFork: (messages: UIMessage[], modelId: string) => {
+          const convId = chatToConversationRef.current.get(chatId);
+          if (!convId || messages.length === 0) return;
+
+          // Create the fork and open it in a new session
+          const forkId = forkConversationRef.current(convId, messages, modelId);
+          const newSession: ActiveChatSession = {
+            chatId: forkId,
+            conversationId: forkId,
+            initialMessages: messages,
+            initialTree: buildMessageTree(messages),
+            initialModelId: modelId,
+            isStreaming: false,
+          };
+
+          setActiveSessions(prev => {
+            // Keep streaming sessions, remove idle non-visible sessions
+            const sessionsToKeep = prev.filter(s => s.isStreaming || s.chatId === visibleChatIdRef.current);
+            return [...sessionsToKeep, newSession];
+          });
+
+          chatToConversationRef.current.set(forkId, forkId);
+          setVisibleChatId(forkId);
+        },
+
+        onModelChange: (modelId: string) => {
+          const convId = chatToConversationRef.current.get(chatId);
+          if (convId) {
+            setConversationModelRef.current(convId, modelId);
+          }
+        },
+
         onStreamingChange: (isStreaming: boolean) => {
           setActiveSessions(prev => {
             const updated = prev.map(s => 
@@ -411,7 +477,11 @@ export default function Home() {
                 chatId={session.chatId}
                 conversationId={session.conversationId}
                 initialMessages={session.initialMessages}
+                initialTree={session.initialTree}
                 onMessagesChange={callbacks.onMessagesChange}
+                onFork={callbacks.onFork}
+                initialModelId={session.initialModelId}
+                onModelChange={callbacks.onModelChange}
                 onStreamingChange={callbacks.onStreamingChange}
                 onKnowledgeChange={callbacks.onKnowledgeChange}
                 onTitleChange={callbacks.onTitleChange}
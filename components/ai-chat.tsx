@@ -25,12 +25,34 @@
 import React from "react";
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useChat } from "@ai-sdk/react";
-import { DefaultChatTransport, lastAssistantMessageIsCompleteWithToolCalls } from "ai";
+import {
+  DefaultChatTransport,
+  lastAssistantMessageIsCompleteWithToolCalls,
+  lastAssistantMessageIsCompleteWithApprovalResponses,
+} from "ai";
 import type { UIMessage } from "ai";
-import type { ChatAgentUIMessage, ModelTier } from "@/agents";
+import type { ChatAgentUIMessage } from "@/agents";
+import {
+  MODEL_PROVIDERS,
+  DEFAULT_MODEL_ID,
+  FREE_TRIAL_MODEL_ID,
+  findModel,
+  getModel,
+  getModelsByProvider,
+  type ModelProvider,
+} from "@/agents/model-registry";
 import * as kb from "@/knowledge";
-import { getApiKeys, hasApiKeys, type StoredApiKeys } from "@/lib/api-keys";
+import {
+  getApiKeys,
+  getProviderApiKey,
+  hasApiKeys,
+  getLocalEndpointRequest,
+  setLocalModelSelected,
+  type StoredApiKeys,
+} from "@/lib/api-keys";
 import { useSession } from "@/lib/auth-client";
+import { isMockLlmEnabled } from "@/lib/mock-mode";
+import { isServerKnowledgeTool } from "@/lib/knowledge-mode";
 import { 
   getFreeChatsRemaining, 
   incrementFreeChatCount, 
@@ -1131,7 +1153,20 @@ import { ChatSearchView } from "@/components/tools/chat-search-view";
 import { DocumentSearchView, DocumentListView } from "@/components/tools/document-search-view";
 import { GenericToolView } from "@/components/tools/generic-tool-view";
 import { ContextSaverView, type ParallelTask } from "@/components/tools/context-saver-view";
-import { AgentOrchestratorView, MAX_AGENTS, type OrchestratorState, type AgentTask, type AgentStatus } from "@/components/tools/agent-orchestrator-view";
+import {
+  configureContextSaverQueue,
+  startContextSaverQueue,
+  subscribeToContextSaverQueue,
+  enqueueContextSave,
+  resolveContextSaverReview,
+} from "@/lib/context-saver-queue";
+import { loadAppSettings } from "@/lib/app-settings";
+import { isApprovalRequired, withoutAllowedTools, countContentLines } from "@/lib/approval-policies";
+import { extractMemories, MEMORY_IDLE_MS } from "@/lib/memory-extraction";
+import { isAttachmentUrl, resolveAttachmentUrl, resolveMessageAttachments } from "@/lib/storage/attachment-store";
+import { mergeBranch, getBranchSiblings, getBranchThrough } from "@/lib/chat-tree";
+import type { ChatMessageNode } from "@/lib/chat-types";
+import { AgentOrchestratorView, type OrchestratorState, type AgentTask, type AgentStatus } from "@/components/tools/agent-orchestrator-view";
 
 // =============================================================================
 // INLINE ICON SUPPORT FOR MARKDOWN
@@ -2707,6 +2742,9 @@ async function getImageTokensFromUrl(dataUrl: string): Promise<number> {
   if (imageTokenCache.has(dataUrl)) {
     return imageTokenCache.get(dataUrl)!;
   }
+
+  // Stored attachments load from IndexedDB first
+  const src = isAttachmentUrl(dataUrl) ? await resolveAttachmentUrl(dataUrl) : dataUrl;
   
   return new Promise((resolve) => {
     const img = new Image();
@@ -2721,10 +2759,62 @@ async function getImageTokensFromUrl(dataUrl: string): Promise<number> {
       imageTokenCache.set(dataUrl, fallbackTokens);
       resolve(fallbackTokens);
     };
-    img.src = dataUrl;
+    img.src = src ?? "";
   });
 }
 
+/**
+ * Resolve a message file URL for display. Stored attachments
+ * ("attachment:<hash>") are loaded from IndexedDB; other URLs pass through.
+ * Null while loading or if the attachment is gone.
+ */
+function useAttachmentUrl(url: string): string | null {
+  const [resolved, setResolved] = useState<string | null>(() =>
+    isAttachmentUrl(url) ? null : url
+  );
+
+  useEffect(() => {
+    if (!isAttachmentUrl(url)) {
+      setResolved(url);
+      return;
+    }
+    let cancelled = false;
+    setResolved(null);
+    resolveAttachmentUrl(url)
+      .then((dataUrl) => {
+        if (!cancelled) setResolved(dataUrl);
+      })
+      .catch((error) => {
+        console.error("[Chat] Failed to load attachment:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return resolved;
+}
+
+/**
+ * An attached image, inline or from the attachment store.
+ */
+function AttachmentImage({ src, ...props }: Omit<React.ImgHTMLAttributes<HTMLImageElement>, "src"> & { src: string }) {
+  const resolved = useAttachmentUrl(src);
+  if (!resolved) {
+    return <div className={cn(props.className, "w-24 h-24 bg-gray-100 dark:bg-neutral-800 animate-pulse")} />;
+  }
+  return <img {...props} src={resolved} alt={props.alt ?? ""} />;
+}
+
+/**
+ * An attached PDF, inline or from the attachment store.
+ */
+function AttachmentPdf({ src, className }: { src: string; className?: string }) {
+  const resolved = useAttachmentUrl(src);
+  if (!resolved) return null;
+  return <iframe src={resolved} className={className} title="PDF document" />;
+}
+
 /**
  * Extract all image URLs from messages for token calculation
  */
@@ -2801,6 +2891,13 @@ function estimateTokenCount(
   return totalTokens;
 }
 
+/**
+ * Short description of a context save for the orchestrator.
+ */
+function describeContextSave(information: string): string {
+  return information.slice(0, 50) + (information.length > 50 ? "..." : "");
+}
+
 /**
  * Format token count for display (e.g., "1.2k" for 1200)
  */
@@ -2920,7 +3017,16 @@ interface ChatProps {
   chatId: string;
   conversationId: string | null;
   initialMessages?: UIMessage[];
-  onMessagesChange?: (messages: UIMessage[]) => void;
+  /** Every message on every branch (initialMessages is the viewed branch) */
+  initialTree?: ChatMessageNode[];
+  /** Called with the viewed branch and the whole message tree */
+  onMessagesChange?: (messages: UIMessage[], tree: ChatMessageNode[]) => void;
+  /** Called with the viewed branch up to a message and the chosen model, to fork a new conversation from it */
+  onFork?: (messages: UIMessage[], modelId: string) => void;
+  /** The model chosen for this conversation, if any */
+  initialModelId?: string;
+  /** Called when a model is chosen for the conversation */
+  onModelChange?: (modelId: string) => void;
   /** Called when streaming status changes - used to keep chat alive during streaming */
   onStreamingChange?: (isStreaming: boolean) => void;
   /** Called when the knowledge base changes - used to refresh the sidebar */
@@ -2935,6 +3041,57 @@ interface ChatProps {
   onApiKeysChange?: (keys: StoredApiKeys) => void;
 }
 
+// =============================================================================
+// BRANCH NAVIGATOR COMPONENT
+// =============================================================================
+
+interface BranchNavigatorProps {
+  /** The message and its siblings (other versions), in creation order */
+  siblingIds: string[];
+  currentId: string;
+  onSelect: (messageId: string) => void;
+}
+
+/**
+ * "< 2/3 >" switcher between the versions of a message (edits and
+ * regenerations each start a new branch)
+ */
+const BranchNavigator = React.memo(function BranchNavigator({
+  siblingIds,
+  currentId,
+  onSelect,
+}: BranchNavigatorProps) {
+  const index = siblingIds.indexOf(currentId);
+  const buttonClass =
+    "p-0.5 rounded hover:text-gray-700 dark:hover:text-neutral-300 disabled:opacity-40 disabled:pointer-events-none transition-colors";
+
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-gray-500 dark:text-neutral-500">
+      <button
+        type="button"
+        onClick={() => onSelect(siblingIds[index - 1])}
+        disabled={index <= 0}
+        className={buttonClass}
+        title="Previous version"
+      >
+        <IoChevronBack className="w-3 h-3" />
+      </button>
+      <span className="tabular-nums">
+        {index + 1}/{siblingIds.length}
+      </span>
+      <button
+        type="button"
+        onClick={() => onSelect(siblingIds[index + 1])}
+        disabled={index >= siblingIds.length - 1}
+        className={buttonClass}
+        title="Next version"
+      >
+        <IoChevronForward className="w-3 h-3" />
+      </button>
+    </div>
+  );
+});
+
 // =============================================================================
 // MESSAGE EDITOR COMPONENT
 // =============================================================================
@@ -3106,14 +3263,14 @@ const MessageEditor = React.memo(function MessageEditor({
         onChange={handleImageInputChange}
       />
       
-      {/* Warning banner if there are messages after this one */}
+      {/* Note if there are messages after this one (they stay on the current branch) */}
       {messagesAfterCount > 0 && (
         <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700/50 rounded-lg text-amber-800 dark:text-amber-200">
           <IoAlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
           <div className="text-sm">
-            <span className="font-medium">Editing will restart the conversation from here.</span>
+            <span className="font-medium">Editing starts a new branch from here.</span>
             <span className="text-amber-600 dark:text-amber-300 ml-1">
-              {messagesAfterCount} {messagesAfterCount === 1 ? 'message' : 'messages'} after this will be removed.
+              The {messagesAfterCount} {messagesAfterCount === 1 ? 'message' : 'messages'} after this stay on the current branch.
             </span>
           </div>
         </div>
@@ -3127,7 +3284,7 @@ const MessageEditor = React.memo(function MessageEditor({
               key={`edit-img-${index}`}
               className="relative group"
             >
-              <img
+              <AttachmentImage
                 src={img.dataUrl}
                 alt={img.file?.name || `Image ${index + 1}`}
                 className="h-16 w-auto rounded-lg border border-gray-200 dark:border-neutral-700 object-cover"
@@ -3222,7 +3379,11 @@ export default function Chat({
   chatId,
   conversationId,
   initialMessages = [],
+  initialTree = [],
   onMessagesChange,
+  onFork,
+  initialModelId,
+  onModelChange,
   onStreamingChange,
   onKnowledgeChange,
   onTitleChange,
@@ -3260,23 +3421,33 @@ export default function Chat({
   // This summary is included in the system prompt so Claude knows what's available
   const [kbSummary, setKbSummary] = useState<string>("");
   
-  // Parallel Context Saver tasks - tracks background agents saving to KB
+  // Parallel Context Saver tasks - tracks background agents saving to KB.
+  // Mirrors this chat's tasks in the persistent context saver queue.
   const [parallelTasks, setParallelTasks] = useState<Map<string, ParallelTask>>(new Map());
+  const chatSaveIdsRef = useRef<Set<string>>(new Set());
   
   // Agent Orchestrator - unified view of all agents being spawned
   const [orchestratorState, setOrchestratorState] = useState<OrchestratorState | null>(null);
   
-  // Model selection state - persisted to localStorage
-  // "haiku" = apprentice, "sonnet" = master, "opus" = grandmaster
-  const [modelTier, setModelTier] = useState<ModelTier>(() => {
+  // Model selection state - a registry id from agents/model-registry.ts.
+  // Saved with the conversation; the last model picked (in localStorage) is
+  // the default for new conversations.
+  const [modelId, setModelId] = useState<string>(() => {
+    const conversationModel = findModel(initialModelId);
+    if (conversationModel) {
+      return conversationModel.id;
+    }
     if (typeof window !== "undefined") {
-      const stored = localStorage.getItem("model-tier");
-      if (stored === "haiku" || stored === "sonnet" || stored === "opus") {
-        return stored;
+      // findModel also accepts the legacy haiku/sonnet/opus tiers stored under "model-tier"
+      const stored = findModel(localStorage.getItem("model-id") ?? localStorage.getItem("model-tier"));
+      if (stored) {
+        return stored.id;
       }
     }
-    return "sonnet"; // default
+    return DEFAULT_MODEL_ID;
   });
+  const [showModelDropdown, setShowModelDropdown] = useState(false);
+  const selectedModel = getModel(modelId);
   
   // Image token cache for token count calculation
   // Maps image URLs to their calculated token counts
@@ -3285,13 +3456,29 @@ export default function Chat({
   // Dark mode detection for blob cat styling
   const [isDarkMode, setIsDarkMode] = useState(false);
   
-  // Ref to always have latest modelTier available (avoids stale closure in transport)
-  const modelTierRef = useRef<ModelTier>(modelTier);
+  // Ref to always have latest modelId available (avoids stale closure in transport)
+  const modelIdRef = useRef<string>(modelId);
+  useEffect(() => {
+    modelIdRef.current = modelId;
+  }, [modelId]);
+
+  // Save the model with the conversation - once it exists, for a new chat
+  const savedModelIdRef = useRef<string | null>(conversationId ? modelId : null);
+  const onModelChangeRef = useRef(onModelChange);
+  useEffect(() => {
+    onModelChangeRef.current = onModelChange;
+  }, [onModelChange]);
   useEffect(() => {
-    modelTierRef.current = modelTier;
-    // Persist to localStorage
-    localStorage.setItem("model-tier", modelTier);
-  }, [modelTier]);
+    if (!conversationId || savedModelIdRef.current === modelId) return;
+    savedModelIdRef.current = modelId;
+    onModelChangeRef.current?.(modelId);
+  }, [conversationId, modelId]);
+
+  // Background requests (embeddings, contradiction checks) go to the local
+  // endpoint too while the local model is selected
+  useEffect(() => {
+    setLocalModelSelected(selectedModel.provider === "local");
+  }, [selectedModel.provider]);
   
   // Detect dark mode for blob cat styling
   useEffect(() => {
@@ -3326,6 +3513,16 @@ export default function Chat({
   useEffect(() => {
     apiKeysRef.current = apiKeys;
   }, [apiKeys]);
+
+  // The local endpoint for titles, saves and memory extraction, if this
+  // chat runs on the local model - they go to Anthropic otherwise
+  const getLocalEndpoint = useCallback(
+    () =>
+      getModel(modelIdRef.current).provider === "local"
+        ? getLocalEndpointRequest(apiKeysRef.current)
+        : undefined,
+    []
+  );
   
   // Load API keys from localStorage on mount and when user changes
   useEffect(() => {
@@ -3337,8 +3534,8 @@ export default function Chat({
   const handleApiKeysChange = useCallback((keys: StoredApiKeys) => {
     setApiKeys(keys);
     onApiKeysChange?.(keys);
-    // If user adds API key, hide trial exhausted message
-    if (keys.anthropicApiKey) {
+    // If user adds a key for the selected model's provider, hide trial exhausted message
+    if (getProviderApiKey(keys, getModel(modelIdRef.current).provider)) {
       setShowTrialExhausted(false);
     }
   }, [onApiKeysChange]);
@@ -3350,11 +3547,13 @@ export default function Chat({
   const canSendMessage = useCallback((): boolean => {
     // Owners always have access
     if (isOwner) return true;
-    // Users with their own API key have access
-    if (apiKeys.anthropicApiKey) return true;
-    // Check free trial
-    return hasFreeChatRemaining();
-  }, [isOwner, apiKeys.anthropicApiKey]);
+    // Self-hosted providers (local endpoint) and mock mode need no key or free trial
+    if (!MODEL_PROVIDERS[selectedModel.provider].requiresApiKey || isMockLlmEnabled()) return true;
+    // Users with their own key for the selected model's provider have access
+    if (getProviderApiKey(apiKeys, selectedModel.provider)) return true;
+    // Check free trial (only the trial model runs on the owner's key)
+    return selectedModel.id === FREE_TRIAL_MODEL_ID && hasFreeChatRemaining();
+  }, [isOwner, apiKeys, selectedModel.provider, selectedModel.id]);
   
   // Handle access check before sending - returns true if allowed
   // Also sets the useFreeTrialRef for the transport to use
@@ -3364,12 +3563,14 @@ export default function Chat({
     
     // Owners always have access (uses env key)
     if (isOwner) return true;
+    // Self-hosted providers (local endpoint) and mock mode need no key or free trial
+    if (!MODEL_PROVIDERS[selectedModel.provider].requiresApiKey || isMockLlmEnabled()) return true;
     
-    // Users with their own API key have access
-    if (apiKeys.anthropicApiKey) return true;
+    // Users with their own key for the selected model's provider have access
+    if (getProviderApiKey(apiKeys, selectedModel.provider)) return true;
     
-    // Check free trial
-    if (hasFreeChatRemaining()) {
+    // Check free trial (only the trial model runs on the owner's key)
+    if (selectedModel.id === FREE_TRIAL_MODEL_ID && hasFreeChatRemaining()) {
       // Use owner's API key for free trial
       useFreeTrialRef.current = true;
       // Increment free chat count
@@ -3378,11 +3579,11 @@ export default function Chat({
       return true;
     }
     
-    // Free trial exhausted - show settings
+    // Free trial exhausted (or another model) - show settings
     setShowTrialExhausted(true);
     onRequestSettings?.();
     return false;
-  }, [isOwner, apiKeys.anthropicApiKey, onRequestSettings]);
+  }, [isOwner, apiKeys, selectedModel.provider, selectedModel.id, onRequestSettings]);
 
   // ---------------------------------------------------------------------------
   // FILE HANDLING
@@ -3396,30 +3597,9 @@ export default function Chat({
     });
 
   const readPdfAsText = async (file: File) => {
-    const pdfjs = await import("pdfjs-dist/legacy/build/pdf");
-    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
-      pdfjs.GlobalWorkerOptions.workerSrc = new URL(
-        "pdfjs-dist/legacy/build/pdf.worker.min.mjs",
-        import.meta.url
-      ).toString();
-    }
-    const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjs.getDocument({ data: arrayBuffer });
-    const pdf = await loadingTask.promise;
-    const maxPages = Math.min(pdf.numPages, 30);
-    const pageTexts: string[] = [];
-
-    for (let pageIndex = 1; pageIndex <= maxPages; pageIndex += 1) {
-      const page = await pdf.getPage(pageIndex);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item) => ("str" in item ? item.str : ""))
-        .filter(Boolean)
-        .join(" ");
-      pageTexts.push(pageText);
-    }
-
-    return pageTexts.join("\n");
+    const { extractPdfPages } = await import("@/knowledge/large-documents/pdf-extract");
+    const { pages } = await extractPdfPages(await file.arrayBuffer(), { maxPages: 30 });
+    return pages.join("\n");
   };
 
   const buildAttachmentContext = async (files: File[]) => {
@@ -3527,7 +3707,7 @@ export default function Chat({
   /**
    * Register an agent with the orchestrator.
    * Dynamically increases totalAgents count as new agents are added.
-   * Enforces MAX_AGENTS cap (currently 6).
+   * There is no cap - the context saver queue limits how many run at once.
    */
   const registerAgent = useCallback((agent: AgentTask) => {
     // Ensure we have an orchestrator
@@ -3540,16 +3720,10 @@ export default function Chat({
       const exists = prev.agents.some((a) => a.id === agent.id);
       if (exists) return prev;
       
-      // Enforce MAX_AGENTS cap
-      if (prev.agents.length >= MAX_AGENTS) {
-        console.warn(`[Orchestrator] Max agents (${MAX_AGENTS}) reached, skipping registration`);
-        return prev;
-      }
-      
       // Add agent and increment total count
       return {
         ...prev,
-        totalAgents: Math.min(prev.totalAgents + 1, MAX_AGENTS),
+        totalAgents: prev.totalAgents + 1,
         agents: [...prev.agents, agent],
       };
     });
@@ -3586,7 +3760,12 @@ export default function Chat({
 
   /**
    * Spawn a parallel Context Saver agent to save information in the background.
-   * This fires off a request to /api/context-saver and processes the streaming response.
+   * The task goes into the persistent context saver queue, which runs it when a
+   * slot is free and retries rate limits and network errors; the queue
+   * subscription below mirrors its progress into parallelTasks and the orchestrator.
+   *
+   * With "Review Knowledge Saves" on, writes wait in the task's pendingChanges
+   * until the user accepts, edits or rejects them.
    */
   const spawnContextSaver = useCallback(
     async (taskId: string, information: string, context?: string) => {
@@ -3596,12 +3775,13 @@ export default function Chat({
         : "Context Saver";
 
       // Register this context saver as an agent (auto-creates orchestrator if needed)
+      chatSaveIdsRef.current.add(taskId);
       registerAgent({
         id: taskId,
         name: agentName,
         type: "context-saver",
-        status: "running",
-        description: information.slice(0, 50) + (information.length > 50 ? "..." : ""),
+        status: "pending",
+        description: describeContextSave(information),
       });
 
       // Initialize the task
@@ -3610,196 +3790,95 @@ export default function Chat({
         next.set(taskId, {
           taskId,
           type: "context-save",
-          status: "running",
+          status: "queued",
           streamedText: "",
+          steps: [],
+          pendingChanges: [],
         });
         return next;
       });
 
       try {
-        const response = await fetch("/api/context-saver", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            information,
-            context,
-            rootFolders,
-            taskId,
-            // BYOK: Include user's API key if they have one
-            anthropicApiKey: apiKeysRef.current.anthropicApiKey,
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const reader = response.body?.getReader();
-        if (!reader) {
-          throw new Error("No response body");
-        }
-
-        const decoder = new TextDecoder();
-        let savedPath: string | undefined;
-
-        // Process the streaming response
-        // AI SDK v6 streamText uses SSE format with "data:" prefix
-        // Events include: text-delta (text), tool-input-available (tool calls)
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          
-          // Parse SSE events from the chunk
-          const lines = chunk.split("\n");
-          for (const line of lines) {
-            // Handle standard SSE data: prefix
-            let jsonStr: string | null = null;
-            if (line.startsWith("data:")) {
-              jsonStr = line.slice(5).trim();
-            } else if (line.startsWith("d:")) {
-              // Legacy/alternate format
-              jsonStr = line.slice(2).trim();
-            }
-            
-            if (!jsonStr || jsonStr === "[DONE]") continue;
-            
-            try {
-              const data = JSON.parse(jsonStr);
-              
-              // Extract text content from the message
-              // AI SDK v6 uses text-delta with delta field
-              if (data.type === "text-delta") {
-                const text = data.delta || data.textDelta || "";
-                if (text) {
-                  setParallelTasks((prev) => {
-                    const next = new Map(prev);
-                    const task = next.get(taskId);
-                    if (task) {
-                      next.set(taskId, {
-                        ...task,
-                        streamedText: task.streamedText + text,
-                      });
-                    }
-                    return next;
-                  });
-                }
-              }
-              
-              // Handle tool input available - this is when tool call args are ready
-              // AI SDK v6 uses tool-input-available with input field
-              if (data.type === "tool-input-available") {
-                const toolName = data.toolName as string;
-                const args = data.input || {};
-                
-                // Extract saved path for UI
-                if (toolName === "kb_write" || toolName === "kb_append") {
-                  savedPath = args.path as string;
-                }
-                
-                // Execute the tool client-side
-                try {
-                  switch (toolName) {
-                    case "kb_list":
-                      await kb.listFolder(args.path as string);
-                      break;
-                    case "kb_read":
-                      await kb.readFile(args.path as string);
-                      break;
-                    case "kb_write":
-                      await kb.writeFile(args.path as string, args.content as string);
-                      refreshRootFolders();
-                      break;
-                    case "kb_append":
-                      await kb.appendFile(args.path as string, args.content as string);
-                      break;
-                    case "kb_mkdir":
-                      await kb.mkdir(args.path as string);
-                      refreshRootFolders();
-                      break;
-                  }
-                } catch (err) {
-                  console.error(`[Context Saver] Tool ${toolName} failed:`, err);
-                }
-              }
-              
-              // Also handle legacy tool-call format for backwards compatibility
-              if (data.type === "tool-call") {
-                const toolName = data.toolName as string;
-                const args = data.args || data.input || {};
-                
-                if (toolName === "kb_write" || toolName === "kb_append") {
-                  savedPath = args.path as string;
-                }
-                
-                try {
-                  switch (toolName) {
-                    case "kb_list":
-                      await kb.listFolder(args.path as string);
-                      break;
-                    case "kb_read":
-                      await kb.readFile(args.path as string);
-                      break;
-                    case "kb_write":
-                      await kb.writeFile(args.path as string, args.content as string);
-                      refreshRootFolders();
-                      break;
-                    case "kb_append":
-                      await kb.appendFile(args.path as string, args.content as string);
-                      break;
-                    case "kb_mkdir":
-                      await kb.mkdir(args.path as string);
-                      refreshRootFolders();
-                      break;
-                  }
-                } catch (err) {
-                  console.error(`[Context Saver] Tool ${toolName} failed:`, err);
-                }
-              }
-            } catch {
-              // Ignore JSON parse errors for incomplete chunks
-            }
-          }
-        }
-
-        // Mark task as complete
-        setParallelTasks((prev) => {
-          const next = new Map(prev);
-          const task = next.get(taskId);
-          if (task) {
-            next.set(taskId, {
-              ...task,
-              status: "complete",
-              savedPath,
-            });
-          }
-          return next;
-        });
-        // Update orchestrator
-        updateAgentStatus(taskId, "complete", savedPath ? `Saved to ${savedPath}` : undefined);
+        await enqueueContextSave({ id: taskId, information, context, conversationId });
       } catch (error) {
-        // Mark task as error
+        // Couldn't even queue it (storage unavailable)
+        const message = error instanceof Error ? error.message : String(error);
         setParallelTasks((prev) => {
           const next = new Map(prev);
           const task = next.get(taskId);
           if (task) {
-            next.set(taskId, {
-              ...task,
-              status: "error",
-              error: error instanceof Error ? error.message : String(error),
-            });
+            next.set(taskId, { ...task, status: "error", error: message });
           }
           return next;
         });
-        // Update orchestrator
-        updateAgentStatus(taskId, "error", error instanceof Error ? error.message : String(error));
-        console.error("[Context Saver] Error:", error);
+        updateAgentStatus(taskId, "error", message);
+        console.error("[Context Saver] Failed to queue task:", error);
       }
     },
-    [rootFolders, refreshRootFolders, registerAgent, updateAgentStatus]
+    [conversationId, registerAgent, updateAgentStatus]
   );
 
+  // Run the context saver queue: resumes saves a reload interrupted
+  useEffect(() => {
+    configureContextSaverQueue({
+      getAnthropicApiKey: () => apiKeysRef.current.anthropicApiKey,
+      getLocalEndpoint,
+      onFoldersChange: refreshRootFolders,
+    });
+    startContextSaverQueue();
+  }, [refreshRootFolders, getLocalEndpoint]);
+
+  // Mirror queue progress of the tasks this chat spawned
+  useEffect(() => {
+    return subscribeToContextSaverQueue((event) => {
+      if (event.type !== "update") return;
+      const { save, live } = event;
+      if (!chatSaveIdsRef.current.has(save.id)) return;
+
+      setParallelTasks((prev) => {
+        const task = prev.get(save.id);
+        if (!task) return prev;
+        const next = new Map(prev);
+        next.set(save.id, {
+          ...task,
+          status: save.status,
+          streamedText: live?.streamedText ?? task.streamedText,
+          steps: live?.steps ?? (save.steps.length > 0 ? save.steps : task.steps),
+          pendingChanges: live?.pendingChanges ?? [],
+          savedPath: save.savedPath,
+          error: save.status === "error" ? save.lastError : undefined,
+        });
+        return next;
+      });
+
+      const pendingReview = live?.pendingChanges[0];
+      switch (save.status) {
+        case "queued":
+          updateAgentStatus(
+            save.id,
+            "pending",
+            save.lastError
+              ? `Retrying (attempt ${save.attempts + 1}): ${save.lastError}`
+              : describeContextSave(save.information)
+          );
+          break;
+        case "running":
+          updateAgentStatus(
+            save.id,
+            "running",
+            pendingReview ? `Waiting for review: ${pendingReview.path}` : describeContextSave(save.information)
+          );
+          break;
+        case "complete":
+          updateAgentStatus(save.id, "complete", save.savedPath ? `Saved to ${save.savedPath}` : undefined);
+          break;
+        case "error":
+          updateAgentStatus(save.id, "error", save.lastError);
+          break;
+      }
+    });
+  }, [updateAgentStatus]);
+
   // Tool output function - will be set after useChat initializes
   const addToolOutputRef = useRef<((params: { tool: string; toolCallId: string; output: unknown }) => void) | null>(null);
 
@@ -3868,6 +3947,14 @@ ${content}
             output = { success: true };
             break;
           }
+          case "kb_edit": {
+            const result = await kb.editFile(
+              args.path as string,
+              kb.toFileEdit(args as Parameters<typeof kb.toFileEdit>[0])
+            );
+            output = { success: true, path: result.path, replacements: result.replacements, diff: result.diff };
+            break;
+          }
           case "kb_mkdir": {
             await kb.mkdir(args.path as string);
             refreshRootFolders();
@@ -3880,6 +3967,18 @@ ${content}
             output = { success: true };
             break;
           }
+          case "kb_move": {
+            const result = await kb.moveNode(args.from as string, args.to as string);
+            refreshRootFolders();
+            output = { success: true, ...result };
+            break;
+          }
+          case "kb_copy": {
+            const result = await kb.copyNode(args.from as string, args.to as string);
+            refreshRootFolders();
+            output = { success: true, ...result };
+            break;
+          }
           case "kb_search": {
             // keyword + vector search -> reciprocal rank fusion -> llm reranking
             const query = args.query as string;
@@ -3888,6 +3987,13 @@ ${content}
               topK, 
               includeBreakdown: true,
               rerank: true, // Auto-detect reranker availability
+              filter: {
+                tags: args.tags as string[] | undefined,
+                alias: args.alias as string | undefined,
+                status: args.status as string | undefined,
+                source: args.source as string | undefined,
+                excludeExpired: args.excludeExpired as boolean | undefined,
+              },
             });
             
             if (results.length === 0) {
@@ -3915,6 +4021,22 @@ ${r.chunkText}
             }
             break;
           }
+          case "kb_grep": {
+            // Exhaustive line matches (no ranking), grouped by file in the XML
+            const pattern = args.pattern as string;
+            const result = await kb.grepFiles(pattern, {
+              regex: args.regex as boolean | undefined,
+              ignoreCase: args.ignoreCase as boolean | undefined,
+              path: args.path as string | undefined,
+              context: args.context as number | undefined,
+              maxMatches: args.maxMatches as number | undefined,
+            });
+            output =
+              result.matches.length === 0
+                ? { ...result, message: `No lines match "${pattern}".` }
+                : { grep_results: kb.formatGrepResults(pattern, result), ...result };
+            break;
+          }
           case "chat_search": {
             // keyword + vector search -> reciprocal rank fusion -> llm reranking
             const { chatHybridSearch } = await import("@/lib/storage/chat-hybrid-search");
@@ -3953,7 +4075,7 @@ ${r.chunkText}
           }
           case "document_search": {
             // keyword + vector search -> reciprocal rank fusion -> llm reranking
-            const { searchLargeDocuments, searchLargeDocument } = await import("@/knowledge/large-documents");
+            const { searchLargeDocuments, searchLargeDocument, formatPageRange } = await import("@/knowledge/large-documents");
             const query = args.query as string;
             const topK = Math.min((args.topK as number) || 10, 25);
             const documentId = args.documentId as string | undefined;
@@ -3982,7 +4104,9 @@ ${results.map((r) => {
     ? ` matched_terms="${r.matchedTerms.join(', ')}"` 
     : '';
   const rerankedAttr = r.reranked ? ' reranked="true"' : '';
-  return `<result score="${r.score}" document="${r.filename}" heading="${r.headingPath}"${matchedTermsAttr}${rerankedAttr}>
+  const pageLabel = formatPageRange(r.pageStart, r.pageEnd);
+  const pagesAttr = pageLabel ? ` pages="${pageLabel}"` : '';
+  return `<result score="${r.score}" document="${r.filename}" heading="${r.headingPath}"${pagesAttr}${matchedTermsAttr}${rerankedAttr}>
 <chunk_text>
 ${r.chunkText}
 </chunk_text>
@@ -4007,7 +4131,8 @@ ${r.chunkText}
               // XML-formatted output for document list
               const xmlOutput = `<documents count="${documents.length}">
 ${documents.map((d) => {
-  return `<document id="${d.id}" filename="${d.filename}" status="${d.status}" chunks="${d.chunkCount}" size="${d.fileSize}" />`;
+  const pagesAttr = d.pageCount !== undefined ? ` pages="${d.pageCount}"` : '';
+  return `<document id="${d.id}" filename="${d.filename}" status="${d.status}" chunks="${d.chunkCount}"${pagesAttr} size="${d.fileSize}" />`;
 }).join("\n")}
 </documents>`;
               output = { documents_xml: xmlOutput, documents };
@@ -4078,6 +4203,49 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
             output = { graph_xml: xmlOutput, ...result };
             break;
           }
+          // =============================================================================
+          // FILE HISTORY TOOLS
+          // =============================================================================
+          case "kb_history": {
+            const path = args.path as string;
+            const summarize = (r: kb.FileRevision) => ({
+              id: r.id,
+              action: r.action,
+              createdAt: r.createdAt,
+              ...kb.getDiffStats(kb.diffLines(r.previousContent ?? "", r.content ?? "")),
+            });
+
+            if (args.revisionId) {
+              const revision = await kb.getRevision(args.revisionId as string);
+              if (!revision) {
+                output = { error: `Revision not found: ${args.revisionId}` };
+                break;
+              }
+              const lines = kb.diffLines(revision.previousContent ?? "", revision.content ?? "");
+              output = {
+                revision: summarize(revision),
+                diff: kb.formatUnifiedDiff(lines, revision.path) || "(no changes)",
+              };
+              break;
+            }
+
+            const history = await kb.getFileHistory(path);
+            const revisions = history.slice(0, (args.limit as number | undefined) || 10).map(summarize);
+            const xmlOutput = `<file_history path="${path}" total="${history.length}">
+${revisions.map((r) => `<revision id="${r.id}" action="${r.action}" time="${new Date(r.createdAt).toISOString()}" added="${r.added}" removed="${r.removed}" />`).join("\n")}
+</file_history>`;
+            output = { history: xmlOutput, revisions, total: history.length };
+            break;
+          }
+          case "kb_restore": {
+            const result = await kb.restoreRevision(
+              args.revisionId as string,
+              (args.state as kb.RestoreState | undefined) ?? "before"
+            );
+            refreshRootFolders();
+            output = { success: true, path: result.path, deleted: result.content === null };
+            break;
+          }
           default:
             output = { error: `Unknown tool: ${toolName}` };
         }
@@ -4093,6 +4261,73 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
     [refreshRootFolders, spawnContextSaver]
   );
 
+  // ---------------------------------------------------------------------------
+  // TOOL APPROVAL POLICIES
+  // ---------------------------------------------------------------------------
+
+  // Client-executed calls held for approval: toolCallId -> approval
+  const [pendingApprovals, setPendingApprovals] = useState<
+    Record<string, { approvalId: string; toolName: string }>
+  >({});
+  const approvalResolversRef = useRef(new Map<string, (approved: boolean) => void>());
+  // Tools the user allowed for the rest of this conversation (the component
+  // is keyed by chatId, so this starts empty for every conversation)
+  const allowedToolsRef = useRef(new Set<string>());
+
+  /**
+   * Run a client-executed tool call, first asking for approval when the
+   * user's policies (Settings) require it. A denied call gets an error output
+   * so the model can carry on.
+   */
+  const runToolCall = useCallback(
+    async (toolName: string, toolCallId: string, args: Record<string, unknown>) => {
+      let needsApproval = false;
+      if (!allowedToolsRef.current.has(toolName)) {
+        try {
+          needsApproval = await isApprovalRequired(
+            loadAppSettings().approvalPolicies,
+            toolName,
+            args,
+            async (path) => {
+              try {
+                return countContentLines(await kb.readFile(path));
+              } catch {
+                return null; // No file to overwrite
+              }
+            }
+          );
+        } catch (err) {
+          console.warn("[Chat] Failed to evaluate approval policy:", err);
+        }
+      }
+
+      if (needsApproval) {
+        const approvalId = `approval-${toolCallId}`;
+        setPendingApprovals((prev) => ({ ...prev, [toolCallId]: { approvalId, toolName } }));
+        const approved = await new Promise<boolean>((resolve) => {
+          approvalResolversRef.current.set(approvalId, resolve);
+        });
+        setPendingApprovals((prev) => {
+          const next = { ...prev };
+          delete next[toolCallId];
+          return next;
+        });
+
+        if (!approved) {
+          addToolOutputRef.current?.({
+            tool: toolName,
+            toolCallId,
+            output: { error: "The user denied this tool call." },
+          });
+          return;
+        }
+      }
+
+      await executeToolAsync(toolName, toolCallId, args);
+    },
+    [executeToolAsync]
+  );
+
   /**
    * Handle tool calls from the AI model.
    * 
@@ -4109,13 +4344,16 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
       const toolCallId = toolCall.toolCallId as string;
       const args = (toolCall.input ?? {}) as Record<string, unknown>;
 
+      // Server knowledge mode: the server already executed this tool
+      if (isServerKnowledgeTool(toolName)) return;
+
       // Fire-and-forget: start execution but don't await
       // This enables parallel execution of multiple tool calls
-      executeToolAsync(toolName, toolCallId, args);
+      runToolCall(toolName, toolCallId, args);
       
       // Return immediately - the SDK will wait for addToolOutput to be called
     },
-    [executeToolAsync]
+    [runToolCall]
   );
 
   // ---------------------------------------------------------------------------
@@ -4136,7 +4374,7 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
     () =>
       new DefaultChatTransport({
         api: "/api/chat",
-        prepareSendMessagesRequest: ({
+        prepareSendMessagesRequest: async ({
           id,
           messages,
           trigger,
@@ -4144,24 +4382,45 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
         }: any) => ({
           body: {
             id,
-            messages,
+            // Attachments of saved messages are stored by hash; send the files
+            messages: await resolveMessageAttachments(messages),
             trigger,
             messageId,
             chatId,
             rootFolders,
             kbSummary,
-            // Use ref to always get latest modelTier (avoids stale closure)
-            modelTier: modelTierRef.current,
-            // BYOK: Include user's API key if they have one
-            anthropicApiKey: apiKeysRef.current.anthropicApiKey,
+            // Use ref to always get latest modelId (avoids stale closure)
+            modelId: modelIdRef.current,
+            // BYOK: Include user's key for the selected model's provider if they have one
+            providerApiKey: getProviderApiKey(
+              apiKeysRef.current,
+              getModel(modelIdRef.current).provider
+            ),
+            // Local endpoint from Settings (owners fall back to the server's LOCAL_LLM_* env)
+            localEndpoint: {
+              baseUrl: apiKeysRef.current.localBaseUrl,
+              model: apiKeysRef.current.localModel,
+            },
             // Free trial: use owner's API key for first 5 chats
             useFreeTrial: useFreeTrialRef.current,
+            // Approval policies for server-executed tools, minus the ones
+            // allowed for this conversation
+            approvalPolicies: withoutAllowedTools(
+              loadAppSettings().approvalPolicies,
+              allowedToolsRef.current
+            ),
           },
         }),
       } as any),
     [chatId, rootFolders, kbSummary]
   );
 
+  // Every message on every branch. useChat only holds the viewed branch, so
+  // each version of it is merged in here before the view moves elsewhere.
+  const messageTreeRef = useRef<ChatMessageNode[]>(initialTree);
+  const addBranchToTree = (branch: UIMessage[]): ChatMessageNode[] =>
+    (messageTreeRef.current = mergeBranch(messageTreeRef.current, branch));
+
   /**
    * useChat hook with typed messages for full type safety.
    *
@@ -4181,6 +4440,7 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
     messages,
     setMessages,
     sendMessage,
+    regenerate,
     status,
     error,
     addToolApprovalResponse,
@@ -4191,15 +4451,18 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
     messages: initialMessages as ChatAgentUIMessage[], // v6 uses 'messages' instead of 'initialMessages'
     onToolCall: handleToolCall,
     // CRITICAL: This tells useChat to automatically continue the conversation
-    // after all tool outputs are provided, enabling multi-step tool chains
-    sendAutomaticallyWhen: lastAssistantMessageIsCompleteWithToolCalls,
+    // after all tool outputs are provided, enabling multi-step tool chains.
+    // Approval responses for server-executed tools also continue it.
+    sendAutomaticallyWhen: (options) =>
+      lastAssistantMessageIsCompleteWithToolCalls(options) ||
+      lastAssistantMessageIsCompleteWithApprovalResponses(options),
     onError: (err) => {
       console.error("Chat error:", err);
     },
     onFinish: async ({ messages: finishedMessages }) => {
       // Sync messages to parent after AI response completes
       if (onMessagesChange) {
-        onMessagesChange(finishedMessages);
+        onMessagesChange(finishedMessages, addBranchToTree(finishedMessages));
       }
 
       // Generate an AI title for the conversation after each response
@@ -4213,6 +4476,7 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
               messages: finishedMessages,
               // BYOK: Include user's API key if they have one
               anthropicApiKey: apiKeysRef.current.anthropicApiKey,
+              localEndpoint: getLocalEndpoint(),
             }),
           });
           
@@ -4237,6 +4501,17 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
 
   const isLoading = status === "streaming" || status === "submitted";
 
+  // The message tree with the viewed branch merged in, and the versions of
+  // each message on the branch for "< 2/3 >" navigation
+  const messageTree = useMemo(
+    () => (messageTreeRef.current = mergeBranch(messageTreeRef.current, messages)),
+    [messages]
+  );
+  const branchSiblings = useMemo(
+    () => getBranchSiblings(messageTree, messages),
+    [messageTree, messages]
+  );
+
   // Calculate estimated token count for the current conversation
   const tokenCount = useMemo(() => estimateTokenCount(messages, imageTokens), [messages, imageTokens]);
   
@@ -4368,6 +4643,26 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
     onTitleChangeRef.current = onTitleChange;
   }, [onTitleChange]);
 
+  // Memory extraction: once the conversation has been idle for MEMORY_IDLE_MS,
+  // propose durable facts from its new messages for the memory inbox
+  useEffect(() => {
+    if (isLoading || !conversationId || messages.length === 0) return;
+    if (!loadAppSettings().extractMemories) return;
+
+    const timer = setTimeout(() => {
+      extractMemories({
+        conversationId,
+        messages,
+        anthropicApiKey: apiKeysRef.current.anthropicApiKey,
+        localEndpoint: getLocalEndpoint(),
+      }).catch((error) => {
+        // Non-critical - the same messages are retried next time
+        console.warn("[Chat] Memory extraction failed:", error);
+      });
+    }, MEMORY_IDLE_MS);
+    return () => clearTimeout(timer);
+  }, [isLoading, conversationId, messages]);
+
   // Track the last synced message count to avoid duplicate syncs
   const lastSyncedLengthRef = useRef(initialMessages.length);
 
@@ -4386,7 +4681,7 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
       status === "submitted"
     ) {
       lastSyncedLengthRef.current = messages.length;
-      onMessagesChangeRef.current(messages);
+      onMessagesChangeRef.current(messages, addBranchToTree(messages));
     }
   }, [messages.length, status, messages, initialMessages.length]);
 
@@ -4404,7 +4699,7 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
           const currentContent = JSON.stringify(messages);
           if (currentContent !== lastStreamingSaveRef.current) {
             lastStreamingSaveRef.current = currentContent;
-            onMessagesChangeRef.current(messages);
+            onMessagesChangeRef.current(messages, addBranchToTree(messages));
           }
         }
       }, 2000); // Save every 2 seconds during streaming
@@ -4681,19 +4976,23 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
   /**
    * Handle editing a user message.
    * When a user edits a message, we:
-   * 1. Remove all messages after the edited one
-   * 2. Update the edited message's text and images
-   * 3. Re-submit to get a new response
+   * 1. View the branch up to (not including) the edited message
+   * 2. Send the new text and images as a new message there
+   * 3. Get a new response
+   * The edited message becomes a sibling of the original, so the original
+   * and everything after it stay in the tree (see lib/chat-tree.ts).
    */
   const handleEditMessage = useCallback(
     (messageId: string, newText: string, images: { file?: File; dataUrl: string; mediaType: string }[] = []) => {
       const messageIndex = messages.findIndex((m) => m.id === messageId);
       if (messageIndex === -1) return;
 
-      // Get messages up to and including the edited message
+      // Get messages before the edited message
       const messagesUpToEdit = messages.slice(0, messageIndex);
 
-      // Set messages to just before the edit point
+      // Set messages to just before the edit point (the current branch is
+      // already in the tree)
+      addBranchToTree(messages);
       setMessages(messagesUpToEdit);
 
       // Send the edited message content
@@ -4728,30 +5027,44 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
   );
 
   /**
-   * Regenerate the last assistant response
+   * Regenerate the last assistant response. The new response is a sibling
+   * of the old one, which stays in the tree.
    */
   const handleRegenerate = useCallback(() => {
-    if (messages.length < 2) return;
-
-    // Find the last user message
-    const lastUserMessageIndex = messages
-      .map((m, i) => ({ role: m.role, index: i }))
-      .filter((m) => m.role === "user")
-      .pop()?.index;
-
-    if (lastUserMessageIndex === undefined) return;
+    if (messages[messages.length - 1]?.role !== "assistant") return;
+    addBranchToTree(messages);
+    regenerate();
+  }, [messages, regenerate]);
 
-    const lastUserMessage = messages[lastUserMessageIndex];
-    const messagesBeforeResponse = messages.slice(0, lastUserMessageIndex);
-    const userText = getMessageText(lastUserMessage);
+  /**
+   * View another version of a message: the branch through it, continuing
+   * with its most recent replies.
+   */
+  const handleSelectBranch = useCallback(
+    (messageId: string) => {
+      if (isLoading) return;
+      const tree = addBranchToTree(messages);
+      const branch = getBranchThrough(tree, messageId);
+      if (branch.length === 0) return;
 
-    // Remove the response and re-send
-    setMessages(messagesBeforeResponse);
+      setEditingMessageId(null);
+      setMessages(branch as ChatAgentUIMessage[]);
+      lastSyncedLengthRef.current = branch.length;
+      onMessagesChangeRef.current?.(branch, tree);
+    },
+    [isLoading, messages, setMessages]
+  );
 
-    setTimeout(() => {
-      sendMessage({ text: userText });
-    }, 50);
-  }, [messages, setMessages, sendMessage, getMessageText]);
+  /**
+   * Fork a new conversation from a message: it starts with a copy of the
+   * messages up to and including this one, and this chat is left as it is.
+   */
+  const handleFork = useCallback(
+    (messageIndex: number) => {
+      onFork?.(messages.slice(0, messageIndex + 1), modelIdRef.current);
+    },
+    [messages, onFork]
+  );
 
   /**
    * Memoized callback to cancel editing - prevents inline function recreation
@@ -4783,10 +5096,20 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
 
   /**
    * Handle tool approval responses for human-in-the-loop workflows.
-   * Called when user approves or denies a tool execution.
+   * Called when user approves or denies a tool execution, or reviews a
+   * context saver write (`content` is the user's edited version, if any).
    */
   const handleToolApproval = useCallback(
-    (approvalId: string, approved: boolean) => {
+    (approvalId: string, approved: boolean, content?: string) => {
+      // Context saver reviews are awaited by the context saver queue, not by useChat
+      if (resolveContextSaverReview(approvalId, approved, content)) return;
+      // Client-executed calls held by an approval policy are awaited by runToolCall
+      const resolve = approvalResolversRef.current.get(approvalId);
+      if (resolve) {
+        approvalResolversRef.current.delete(approvalId);
+        resolve(approved);
+        return;
+      }
       addToolApprovalResponse({
         id: approvalId,
         approved,
@@ -4795,6 +5118,23 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
     [addToolApprovalResponse]
   );
 
+  /**
+   * Approve a call and stop asking about this tool for the rest of the
+   * conversation, approving its other calls that are already waiting.
+   */
+  const handleAllowToolForConversation = useCallback(
+    (toolName: string, approvalId: string) => {
+      allowedToolsRef.current.add(toolName);
+      handleToolApproval(approvalId, true);
+      for (const pending of Object.values(pendingApprovals)) {
+        if (pending.toolName === toolName && pending.approvalId !== approvalId) {
+          handleToolApproval(pending.approvalId, true);
+        }
+      }
+    },
+    [handleToolApproval, pendingApprovals]
+  );
+
   // ---------------------------------------------------------------------------
   // TOOL UI RENDERING
   // ---------------------------------------------------------------------------
@@ -4830,8 +5170,13 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
       approval?: { id: string };
     };
 
-    // Handle approval-requested state (human-in-the-loop)
-    if (invocation.state === "approval-requested" && invocation.approval) {
+    // Handle approval-requested state (human-in-the-loop): server-executed
+    // tools with needsApproval, or client-executed calls held by runToolCall
+    const approvalId =
+      invocation.state === "approval-requested"
+        ? invocation.approval?.id
+        : pendingApprovals[invocation.toolCallId]?.approvalId;
+    if (approvalId) {
       return (
         <div
           key={index}
@@ -4851,17 +5196,27 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
                   size="sm"
                   variant="neumorphic-success"
                   onClick={() =>
-                    handleToolApproval(invocation.approval!.id, true)
+                    handleToolApproval(approvalId, true)
                   }
                 >
                   <IoCheckmark className="w-4 h-4 mr-1" />
                   Approve
                 </Button>
+                <Button
+                  size="sm"
+                  variant="neumorphic-secondary"
+                  onClick={() =>
+                    handleAllowToolForConversation(toolName, approvalId)
+                  }
+                >
+                  <IoCheckmarkDone className="w-4 h-4 mr-1" />
+                  Always allow in this chat
+                </Button>
                 <Button
                   size="sm"
                   variant="neumorphic-destructive"
                   onClick={() =>
-                    handleToolApproval(invocation.approval!.id, false)
+                    handleToolApproval(approvalId, false)
                   }
                 >
                   <IoClose className="w-4 h-4 mr-1" />
@@ -4875,7 +5230,8 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
     }
 
     // save_to_context tool - progress is shown in the unified AgentOrchestratorView
-    // Only render the orchestrator on the FIRST save_to_context call in this message
+    // Only render the orchestrator on the FIRST save_to_context call in this message,
+    // followed by any of this message's tasks that have writes waiting for review
     if (toolName === "save_to_context") {
       // Check if this is the first save_to_context in the message parts
       if (allParts) {
@@ -4889,12 +5245,21 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
         // Only render orchestrator at the position of the first save_to_context call
         // Pass the count of save_to_context calls so all slots render immediately
         if (firstSaveContextIndex === index && orchestratorState) {
+          const reviewTasks = saveContextParts.flatMap((p) => {
+            const taskId = (p as { output?: { taskId?: string } }).output?.taskId;
+            const task = taskId ? parallelTasks.get(taskId) : undefined;
+            return task && task.pendingChanges.length > 0 ? [task] : [];
+          });
           return (
-            <AgentOrchestratorView 
-              key={index} 
-              state={orchestratorState} 
-              expectedAgentCount={saveContextParts.length}
-            />
+            <React.Fragment key={index}>
+              <AgentOrchestratorView 
+                state={orchestratorState} 
+                expectedAgentCount={saveContextParts.length}
+              />
+              {reviewTasks.map((task) => (
+                <ContextSaverView key={task.taskId} task={task} onReview={handleToolApproval} />
+              ))}
+            </React.Fragment>
           );
         }
       }
@@ -4910,7 +5275,12 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
       "kb_append",
       "kb_mkdir",
       "kb_delete",
+      "kb_move",
+      "kb_copy",
       "kb_search",
+      "kb_grep",
+      "kb_history",
+      "kb_restore",
     ];
 
     if (knowledgeTools.includes(toolName)) {
@@ -4970,40 +5340,75 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
         {/* Left side: Model selector + Token count */}
         <div className="flex items-center gap-3">
           {/* Model selector - neumorphic button (outset by default, level on hover, inset on click) */}
-          <button
-            onClick={() => {
-              // Cycle through: haiku -> sonnet -> opus -> haiku
-              const nextTier: ModelTier = modelTier === "haiku" ? "sonnet" : modelTier === "sonnet" ? "opus" : "haiku";
-              console.log("[Model Selector] Switching from", modelTier, "to", nextTier);
-              setModelTier(nextTier);
-            }}
-            className={cn(
-              "neu-tile neu-button",
-              "px-4 py-1.5 text-xs font-semibold uppercase tracking-wider select-none"
+          {/* Lists every model in the registry, grouped by provider */}
+          <div className="relative">
+            <button
+              onClick={() => setShowModelDropdown(!showModelDropdown)}
+              className={cn(
+                "neu-tile neu-button",
+                "px-4 py-1.5 text-xs font-semibold uppercase tracking-wider select-none"
+              )}
+              title={`${selectedModel.displayName} (${MODEL_PROVIDERS[selectedModel.provider].name}) - click to switch models`}
+            >
+              <div className="neu-inner">
+                <span className="neu-content inline-flex items-center gap-1 text-gray-500 dark:text-neutral-400">
+                  {selectedModel.label}
+                  <IoChevronDown className="w-3 h-3" />
+                </span>
+              </div>
+            </button>
+
+            {showModelDropdown && (
+              <div className="absolute left-0 top-full mt-2 w-64 max-h-96 overflow-y-auto bg-white dark:bg-neutral-800 rounded-xl border border-gray-200 dark:border-neutral-700 shadow-lg p-1 z-20">
+                {(Object.keys(MODEL_PROVIDERS) as ModelProvider[]).map((provider) => (
+                  <div key={provider}>
+                    <div className="px-3 py-2 text-xs font-medium text-gray-500 dark:text-neutral-500 border-b border-gray-100 dark:border-neutral-700">
+                      {MODEL_PROVIDERS[provider].name}
+                      {!isOwner && MODEL_PROVIDERS[provider].requiresApiKey && !getProviderApiKey(apiKeys, provider) && (
+                        <span className="ml-1 text-gray-400 dark:text-neutral-600">· needs API key</span>
+                      )}
+                    </div>
+                    {getModelsByProvider(provider).map((model) => (
+                      <button
+                        key={model.id}
+                        type="button"
+                        title={model.provider === "local" && apiKeys.localModel ? apiKeys.localModel : undefined}
+                        onClick={() => {
+                          console.log("[Model Selector] Switching from", modelId, "to", model.id);
+                          setModelId(model.id);
+                          localStorage.setItem("model-id", model.id);
+                          setShowModelDropdown(false);
+                        }}
+                        className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-neutral-700 rounded-lg transition-colors"
+                      >
+                        <div className="flex flex-col">
+                          <span className="text-sm text-gray-900 dark:text-neutral-400 font-medium">
+                            {model.displayName}
+                          </span>
+                          <span className="text-xs text-gray-400 dark:text-neutral-500">
+                            {Math.round(model.contextWindow / 1000)}k context
+                            {model.capabilities.vision && " · vision"}
+                            {model.capabilities.webSearch && " · web search"}
+                            {model.capabilities.reasoning && " · reasoning"}
+                          </span>
+                        </div>
+                        {model.id === selectedModel.id && (
+                          <IoCheckmark className="w-4 h-4 text-gray-900 dark:text-neutral-500" />
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
             )}
-            title={`Click to switch to ${modelTier === "haiku" ? "Sonnet" : modelTier === "sonnet" ? "Opus" : "Haiku"}`}
-          >
-            <div className="neu-inner">
-              <span className={cn(
-                "neu-content",
-                // Text color - lighter for Haiku, dark grey for Sonnet, black for Opus
-                modelTier === "haiku"
-                  ? "text-gray-400 dark:text-neutral-500"
-                  : modelTier === "sonnet"
-                    ? "text-gray-500 dark:text-neutral-400"
-                    : "text-black dark:text-white"
-              )}>
-                {modelTier === "haiku" ? "Haiku" : modelTier === "sonnet" ? "Sonnet" : "Opus"}
-              </span>
-            </div>
-          </button>
+          </div>
           
           {/* Token count display */}
           <span 
             className="text-xs text-gray-400 dark:text-neutral-500 font-mono tabular-nums"
-            title={`Estimated ${tokenCount.toLocaleString()} tokens in this conversation`}
+            title={`Estimated ${tokenCount.toLocaleString()} of ${selectedModel.contextWindow.toLocaleString()} tokens in ${selectedModel.displayName}'s context window`}
           >
-            ~{formatTokenCount(tokenCount)} tokens
+            ~{formatTokenCount(tokenCount)} / {formatTokenCount(selectedModel.contextWindow)} tokens
           </span>
         </div>
         
@@ -5026,16 +5431,25 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
       )}
       
       {/* Free Trial Exhausted Warning */}
-      {showTrialExhausted && !isOwner && !apiKeys.anthropicApiKey && (
+      {showTrialExhausted && !canSendMessage() && (
         <div className="mx-8 mt-4 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-amber-700 dark:text-amber-400 text-sm flex-shrink-0">
-          <strong>Free trial ended!</strong> You&apos;ve used all {5} free chats.
+          {hasFreeChatRemaining() ? (
+            <>
+              <strong>Free chats use {getModel(FREE_TRIAL_MODEL_ID).displayName} only.</strong> Switch
+              to it to keep using your free chats.
+            </>
+          ) : (
+            <>
+              <strong>Free trial ended!</strong> You&apos;ve used all {5} free chats.
+            </>
+          )}
           <p className="mt-2 text-xs">
             To continue, please open <button 
               onClick={() => onRequestSettings?.()} 
               className="font-medium underline hover:no-underline"
             >
               Settings
-            </button> in the sidebar to add your API key or sign in with an owner account.
+            </button> in the sidebar to add your {MODEL_PROVIDERS[selectedModel.provider].name} API key or sign in with an owner account.
           </p>
         </div>
       )}
@@ -5174,6 +5588,14 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
           {messages.map((message, messageIndex) => {
             const isEditing = editingMessageId === message.id;
             const messagesAfterCount = messages.length - messageIndex - 1;
+            const siblingIds = branchSiblings.get(message.id) ?? [message.id];
+            const branchNavigator = siblingIds.length > 1 && (
+              <BranchNavigator
+                siblingIds={siblingIds}
+                currentId={message.id}
+                onSelect={handleSelectBranch}
+              />
+            );
             
             return (
             <div
@@ -5263,7 +5685,7 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
                           if (imageUrl) {
                             return (
                               <div key={index} className="my-2">
-                                <img
+                                <AttachmentImage
                                   src={imageUrl}
                                   alt="Attached image"
                                   className="max-w-full max-h-96 rounded-lg border border-gray-200 dark:border-neutral-700 object-contain"
@@ -5278,10 +5700,9 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
                         if (filePart.mediaType === "application/pdf" && filePart.url) {
                           return (
                             <div key={index} className="my-2">
-                              <iframe
+                              <AttachmentPdf
                                 src={filePart.url}
                                 className="w-full h-96 rounded-lg border border-gray-200 dark:border-neutral-700"
-                                title="PDF document"
                               />
                             </div>
                           );
@@ -5308,16 +5729,29 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
                       </div>
                     )}
                     
-                    {/* Edit button for user messages - now inside the bubble */}
+                    {/* Version switcher and edit button for user messages - inside the bubble */}
                     {message.role === "user" && !isLoading && (
-                      <button
-                        onClick={() => handleStartEdit(message.id)}
-                        className="mt-2 -mb-0.5 flex items-center gap-1 text-xs text-gray-400 dark:text-neutral-500 hover:text-gray-600 dark:hover:text-neutral-300 transition-colors opacity-0 group-hover:opacity-100"
-                        title="Edit and resend this message"
-                      >
-                        <IoPencil className="w-3 h-3" />
-                        <span>Edit</span>
-                      </button>
+                      <div className="mt-2 -mb-0.5 flex items-center gap-3">
+                        {branchNavigator}
+                        <button
+                          onClick={() => handleStartEdit(message.id)}
+                          className="flex items-center gap-1 text-xs text-gray-400 dark:text-neutral-500 hover:text-gray-600 dark:hover:text-neutral-300 transition-colors opacity-0 group-hover:opacity-100"
+                          title="Edit and resend this message"
+                        >
+                          <IoPencil className="w-3 h-3" />
+                          <span>Edit</span>
+                        </button>
+                        {onFork && conversationId && (
+                          <button
+                            onClick={() => handleFork(messageIndex)}
+                            className="flex items-center gap-1 text-xs text-gray-400 dark:text-neutral-500 hover:text-gray-600 dark:hover:text-neutral-300 transition-colors opacity-0 group-hover:opacity-100"
+                            title="Continue from here in a new chat"
+                          >
+                            <IoGitBranchOutline className="w-3 h-3" />
+                            <span>Fork</span>
+                          </button>
+                        )}
+                      </div>
                     )}
                   </>
                 )}
@@ -5325,6 +5759,8 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
                 {/* Action buttons for assistant messages */}
                 {message.role === "assistant" && !isLoading && (
                   <div className="mt-2 -mb-1 flex items-center gap-3">
+                    {branchNavigator}
+
                     {/* Copy as markdown button */}
                     <button
                       onClick={() => handleCopyMessage(message)}
@@ -5355,6 +5791,18 @@ ${n.links.incoming.length > 0 ? `<incoming>${n.links.incoming.map((l) => `<link
                         Regenerate
                       </button>
                     )}
+
+                    {/* Fork button - new chat from this point */}
+                    {onFork && conversationId && (
+                      <button
+                        onClick={() => handleFork(messageIndex)}
+                        className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:text-neutral-500 dark:hover:text-neutral-300 transition-colors"
+                        title="Continue from here in a new chat"
+                      >
+                        <IoGitBranchOutline className="w-3 h-3" />
+                        Fork
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -44,11 +44,26 @@ import {
   CheckCircle,
   AlertTriangle,
   FileStack,
+  Server,
+  Inbox,
+  ShieldCheck,
+  Wrench,
+  GitBranch,
 } from "lucide-react";
 import { IoLogoGithub, IoLogoGoogle } from "react-icons/io5";
 import { cn } from "@/lib/utils";
-import type { ChatConversation } from "@/lib/chat-types";
+import type { ChatSummary } from "@/lib/chat-types";
 import { KnowledgeBrowser, type KnowledgeBrowserRef } from "./knowledge-browser";
+import { MemoryInbox } from "./memory-inbox";
+import { ContextSaverHistory } from "./context-saver-history";
+import { ContradictionInbox } from "./contradiction-inbox";
+import { getOpenMemoryProposals, onMemoryInboxChange } from "@/lib/storage/memory-inbox";
+import {
+  getContradictions,
+  onContradictionsChange,
+  checkKnowledgeIntegrity,
+  type IntegrityReport,
+} from "@/knowledge";
 import { EmbeddingsViewer } from "./embeddings-viewer";
 import { ChatEmbeddingsViewer } from "./chat-embeddings-viewer";
 import { DocumentEmbeddingsViewer } from "./document-embeddings-viewer";
@@ -57,28 +72,22 @@ import { KnowledgeGraphViewer } from "./knowledge-graph-viewer";
 import { useSession, signIn, signOut } from "@/lib/auth-client";
 import { getApiKeys, saveApiKeys, clearApiKeys, migrateAnonymousKeys, type StoredApiKeys } from "@/lib/api-keys";
 import { getFreeChatsRemaining, getFreeChatLimit } from "@/lib/free-trial";
-
-// =============================================================================
-// SETTINGS TYPES
-// =============================================================================
-
-type ThemeMode = "light" | "dark" | "system";
-
-interface AppSettings {
-  theme: ThemeMode;
-  fontSize: "small" | "medium" | "large";
-  sendWithEnter: boolean;
-  showTimestamps: boolean;
-}
+import { loadAppSettings, saveAppSettings, type AppSettings, type ThemeMode } from "@/lib/app-settings";
+import {
+  APPROVAL_TOOLS,
+  DEFAULT_OVERWRITE_LINES,
+  type ApprovalMode,
+  type ApprovalPolicy,
+} from "@/lib/approval-policies";
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-export type SidebarTab = "chats" | "knowledge" | "large-documents" | "embeddings";
+export type SidebarTab = "chats" | "knowledge" | "inbox" | "large-documents" | "embeddings";
 
 interface ChatSidebarProps {
-  conversations: ChatConversation[];
+  conversations: ChatSummary[];
   activeConversationId: string | null;
   onSelectConversation: (id: string) => void;
   onNewChat: () => void;
@@ -148,10 +157,10 @@ function formatTimestamp(timestamp: number): string {
  * Group conversations by time period
  */
 function groupConversations(
-  conversations: ChatConversation[]
-): Map<string, ChatConversation[]> {
+  conversations: ChatSummary[]
+): Map<string, ChatSummary[]> {
   const now = Date.now();
-  const groups = new Map<string, ChatConversation[]>();
+  const groups = new Map<string, ChatSummary[]>();
 
   const dayMs = 24 * 60 * 60 * 1000;
   const weekMs = 7 * dayMs;
@@ -181,10 +190,31 @@ function groupConversations(
   return groups;
 }
 
+/**
+ * Lineage line for a forked conversation: the title of the conversation it
+ * was forked from (as it is now, or as it was if that one is deleted)
+ */
+function getForkSourceLabel(
+  conversation: ChatSummary,
+  titlesById: Map<string, string>
+): string | undefined {
+  const origin = conversation.forkedFrom;
+  if (!origin) return undefined;
+  return titlesById.get(origin.conversationId) ?? `${origin.title} (deleted)`;
+}
+
 // =============================================================================
 // SETTINGS PANEL
 // =============================================================================
 
+/** Choices for how long deleted knowledge stays in the trash (0 = until emptied) */
+const TRASH_RETENTION_OPTIONS = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 0, label: "Forever" },
+];
+
 interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
@@ -203,13 +233,24 @@ function SettingsPanel({
   onApiKeysChange,
 }: SettingsPanelProps) {
   const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [isCheckingIntegrity, setIsCheckingIntegrity] = useState(false);
+  const [integrityError, setIntegrityError] = useState<string | null>(null);
   const { data: session, isPending: isSessionPending } = useSession();
   
   // API keys state
   const [anthropicKey, setAnthropicKey] = useState("");
   const [openaiKey, setOpenaiKey] = useState("");
+  const [groqKey, setGroqKey] = useState("");
   const [keysSaved, setKeysSaved] = useState(false);
   
+  // Local OpenAI-compatible endpoint state
+  const [localBaseUrl, setLocalBaseUrl] = useState("");
+  const [localModel, setLocalModel] = useState("");
+  const [localApiKey, setLocalApiKey] = useState("");
+  const [localEmbeddingModel, setLocalEmbeddingModel] = useState("");
+  const [localSaved, setLocalSaved] = useState(false);
+  
   // Get user info
   const isAuthenticated = Boolean(session?.user);
   const userId = session?.user?.id;
@@ -227,6 +268,11 @@ function SettingsPanel({
     const keys = getApiKeys(userId);
     setAnthropicKey(keys.anthropicApiKey || "");
     setOpenaiKey(keys.openaiApiKey || "");
+    setGroqKey(keys.groqApiKey || "");
+    setLocalBaseUrl(keys.localBaseUrl || "");
+    setLocalModel(keys.localModel || "");
+    setLocalApiKey(keys.localApiKey || "");
+    setLocalEmbeddingModel(keys.localEmbeddingModel || "");
   }, [userId, isOpen]);
   
   // Migrate anonymous keys when user logs in
@@ -241,6 +287,7 @@ function SettingsPanel({
     const keys: StoredApiKeys = {};
     if (anthropicKey.trim()) keys.anthropicApiKey = anthropicKey.trim();
     if (openaiKey.trim()) keys.openaiApiKey = openaiKey.trim();
+    if (groqKey.trim()) keys.groqApiKey = groqKey.trim();
     
     saveApiKeys(keys, userId);
     setKeysSaved(true);
@@ -248,16 +295,35 @@ function SettingsPanel({
     
     // Reset saved indicator after 2 seconds
     setTimeout(() => setKeysSaved(false), 2000);
-  }, [anthropicKey, openaiKey, userId, onApiKeysChange]);
+  }, [anthropicKey, openaiKey, groqKey, userId, onApiKeysChange]);
   
   // Handle clear keys
   const handleClearKeys = useCallback(() => {
     clearApiKeys(userId);
     setAnthropicKey("");
     setOpenaiKey("");
+    setGroqKey("");
     onApiKeysChange?.({});
   }, [userId, onApiKeysChange]);
   
+  // Handle save local endpoint (empty fields clear the stored value)
+  const handleSaveLocalEndpoint = useCallback(() => {
+    saveApiKeys(
+      {
+        localBaseUrl: localBaseUrl.trim(),
+        localModel: localModel.trim(),
+        localApiKey: localApiKey.trim(),
+        localEmbeddingModel: localEmbeddingModel.trim(),
+      },
+      userId
+    );
+    setLocalSaved(true);
+    onApiKeysChange?.(getApiKeys(userId));
+    
+    // Reset saved indicator after 2 seconds
+    setTimeout(() => setLocalSaved(false), 2000);
+  }, [localBaseUrl, localModel, localApiKey, localEmbeddingModel, userId, onApiKeysChange]);
+  
   // Handle sign in
   const handleSignIn = useCallback(async (provider: "github" | "google") => {
     await signIn.social({
@@ -271,24 +337,7 @@ function SettingsPanel({
     await signOut();
   }, []);
 
-  const [settings, setSettings] = useState<AppSettings>(() => {
-    if (typeof window !== "undefined") {
-      const stored = localStorage.getItem("app-settings");
-      if (stored) {
-        try {
-          return JSON.parse(stored);
-        } catch {
-          // Fall through to defaults
-        }
-      }
-    }
-    return {
-      theme: "system" as ThemeMode,
-      fontSize: "medium" as const,
-      sendWithEnter: true,
-      showTimestamps: true,
-    };
-  });
+  const [settings, setSettings] = useState<AppSettings>(loadAppSettings);
 
   const panelRef = useRef<HTMLDivElement>(null);
 
@@ -318,9 +367,7 @@ function SettingsPanel({
 
   // Persist settings
   useEffect(() => {
-    if (typeof window !== "undefined") {
-      localStorage.setItem("app-settings", JSON.stringify(settings));
-    }
+    saveAppSettings(settings);
   }, [settings]);
 
   // Close on click outside
@@ -360,6 +407,27 @@ function SettingsPanel({
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  const runIntegrityCheck = async (repair: boolean) => {
+    setIsCheckingIntegrity(true);
+    setIntegrityError(null);
+    try {
+      setIntegrityReport(await checkKnowledgeIntegrity({ repair }));
+    } catch (err) {
+      setIntegrityError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsCheckingIntegrity(false);
+    }
+  };
+
+  const updateApprovalPolicy = (toolName: string, policy: ApprovalPolicy | null) => {
+    setSettings(prev => {
+      const approvalPolicies = { ...prev.approvalPolicies };
+      if (policy) approvalPolicies[toolName] = policy;
+      else delete approvalPolicies[toolName];
+      return { ...prev, approvalPolicies };
+    });
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
       <div
@@ -511,7 +579,7 @@ function SettingsPanel({
                     className="bg-white dark:bg-neutral-800"
                   />
                   <p className="text-xs text-gray-500 dark:text-neutral-500 mt-1">
-                    Required for semantic search. Get your key at{" "}
+                    Required for semantic search and GPT models. Get your key at{" "}
                     <a
                       href="https://platform.openai.com/api-keys"
                       target="_blank"
@@ -523,12 +591,36 @@ function SettingsPanel({
                   </p>
                 </div>
 
+                <div>
+                  <label className="text-sm font-medium text-gray-900 dark:text-neutral-300 mb-1.5 block">
+                    Groq API Key
+                  </label>
+                  <Input
+                    type="password"
+                    placeholder="gsk_..."
+                    value={groqKey}
+                    onChange={(e) => setGroqKey(e.target.value)}
+                    className="bg-white dark:bg-neutral-800"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-neutral-500 mt-1">
+                    Optional, for Groq-hosted models. Get your key at{" "}
+                    <a
+                      href="https://console.groq.com/keys"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-500 hover:underline"
+                    >
+                      console.groq.com
+                    </a>
+                  </p>
+                </div>
+
                 <div className="flex gap-2 pt-2">
                   <Button
                     onClick={handleSaveKeys}
                     variant="neumorphic-primary"
                     className="flex-1"
-                    disabled={!anthropicKey.trim() && !openaiKey.trim()}
+                    disabled={!anthropicKey.trim() && !openaiKey.trim() && !groqKey.trim()}
                   >
                     {keysSaved ? (
                       <>
@@ -542,7 +634,7 @@ function SettingsPanel({
                   <Button
                     variant="neumorphic-secondary"
                     onClick={handleClearKeys}
-                    disabled={!anthropicKey && !openaiKey}
+                    disabled={!anthropicKey && !openaiKey && !groqKey}
                   >
                     Clear
                   </Button>
@@ -551,6 +643,93 @@ function SettingsPanel({
             </div>
           )}
 
+          {/* Local Model Section - OpenAI-compatible server (llama.cpp, Ollama, ...) */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Server className="w-4 h-4 text-gray-500 dark:text-neutral-500" />
+              <h3 className="text-sm font-medium text-gray-900 dark:text-neutral-500">Local Model</h3>
+            </div>
+
+            <p className="text-xs text-gray-500 dark:text-neutral-500 mb-3">
+              Used when &quot;Local&quot; is selected in the model menu - for chats, and for
+              titles, saves, memory extraction, contradiction checks and search embeddings
+              too. Owners can leave it empty to use the server&apos;s LOCAL_LLM_* settings.
+            </p>
+
+            <div className="space-y-3">
+              <div>
+                <label className="text-sm font-medium text-gray-900 dark:text-neutral-300 mb-1.5 block">
+                  Base URL
+                </label>
+                <Input
+                  type="url"
+                  placeholder="http://localhost:11434/v1"
+                  value={localBaseUrl}
+                  onChange={(e) => setLocalBaseUrl(e.target.value)}
+                  className="bg-white dark:bg-neutral-800"
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-900 dark:text-neutral-300 mb-1.5 block">
+                  Model
+                </label>
+                <Input
+                  type="text"
+                  placeholder="llama3.1:8b"
+                  value={localModel}
+                  onChange={(e) => setLocalModel(e.target.value)}
+                  className="bg-white dark:bg-neutral-800"
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-900 dark:text-neutral-300 mb-1.5 block">
+                  API Key
+                </label>
+                <Input
+                  type="password"
+                  placeholder="Optional"
+                  value={localApiKey}
+                  onChange={(e) => setLocalApiKey(e.target.value)}
+                  className="bg-white dark:bg-neutral-800"
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-900 dark:text-neutral-300 mb-1.5 block">
+                  Embedding Model
+                </label>
+                <Input
+                  type="text"
+                  placeholder="nomic-embed-text (optional)"
+                  value={localEmbeddingModel}
+                  onChange={(e) => setLocalEmbeddingModel(e.target.value)}
+                  className="bg-white dark:bg-neutral-800"
+                />
+                <p className="text-xs text-gray-500 dark:text-neutral-500 mt-1.5">
+                  Without one, search uses keywords only. Reindex the Knowledge Base after
+                  switching embedding models.
+                </p>
+              </div>
+
+              <Button
+                onClick={handleSaveLocalEndpoint}
+                variant="neumorphic-primary"
+                className="w-full"
+              >
+                {localSaved ? (
+                  <>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Saved!
+                  </>
+                ) : (
+                  "Save Local Model"
+                )}
+              </Button>
+            </div>
+          </div>
+
           {/* Appearance Section */}
           <div>
             <div className="flex items-center gap-2 mb-3">
@@ -692,6 +871,242 @@ function SettingsPanel({
                   />
                 </div>
               </label>
+
+              {/* Review Knowledge Saves */}
+              <label className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-neutral-800 cursor-pointer hover:bg-gray-100 dark:hover:bg-neutral-700 transition-colors">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-neutral-500">Review Knowledge Saves</p>
+                  <p className="text-xs text-gray-500 dark:text-neutral-500">Approve, edit or reject each write from context savers</p>
+                </div>
+                <div
+                  onClick={() => updateSetting("reviewContextSaves", !settings.reviewContextSaves)}
+                  className={cn(
+                    "w-10 h-6 rounded-full transition-colors relative cursor-pointer",
+                    settings.reviewContextSaves ? "bg-fuchsia-500 dark:bg-[#ff00ff]" : "bg-gray-300 dark:bg-neutral-600"
+                  )}
+                >
+                  <div
+                    className={cn(
+                      "absolute top-1 w-4 h-4 rounded-full bg-white shadow-sm transition-transform",
+                      settings.reviewContextSaves ? "translate-x-5" : "translate-x-1"
+                    )}
+                  />
+                </div>
+              </label>
+
+              {/* Extract Memories */}
+              <label className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-neutral-800 cursor-pointer hover:bg-gray-100 dark:hover:bg-neutral-700 transition-colors">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-neutral-500">Extract Memories</p>
+                  <p className="text-xs text-gray-500 dark:text-neutral-500">Suggest facts from idle chats in the memory inbox</p>
+                </div>
+                <div
+                  onClick={() => updateSetting("extractMemories", !settings.extractMemories)}
+                  className={cn(
+                    "w-10 h-6 rounded-full transition-colors relative cursor-pointer",
+                    settings.extractMemories ? "bg-fuchsia-500 dark:bg-[#ff00ff]" : "bg-gray-300 dark:bg-neutral-600"
+                  )}
+                >
+                  <div
+                    className={cn(
+                      "absolute top-1 w-4 h-4 rounded-full bg-white shadow-sm transition-transform",
+                      settings.extractMemories ? "translate-x-5" : "translate-x-1"
+                    )}
+                  />
+                </div>
+              </label>
+
+              {/* Detect Contradictions */}
+              <label className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-neutral-800 cursor-pointer hover:bg-gray-100 dark:hover:bg-neutral-700 transition-colors">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-neutral-500">Detect Contradictions</p>
+                  <p className="text-xs text-gray-500 dark:text-neutral-500">Flag saved notes that conflict with other files</p>
+                </div>
+                <div
+                  onClick={() => updateSetting("detectContradictions", !settings.detectContradictions)}
+                  className={cn(
+                    "w-10 h-6 rounded-full transition-colors relative cursor-pointer",
+                    settings.detectContradictions ? "bg-fuchsia-500 dark:bg-[#ff00ff]" : "bg-gray-300 dark:bg-neutral-600"
+                  )}
+                >
+                  <div
+                    className={cn(
+                      "absolute top-1 w-4 h-4 rounded-full bg-white shadow-sm transition-transform",
+                      settings.detectContradictions ? "translate-x-5" : "translate-x-1"
+                    )}
+                  />
+                </div>
+              </label>
+
+              {/* Trash Retention */}
+              <div className="p-3 rounded-lg bg-gray-50 dark:bg-neutral-800 space-y-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-neutral-500">Keep Deleted Files</p>
+                  <p className="text-xs text-gray-500 dark:text-neutral-500">How long deleted knowledge stays in the trash</p>
+                </div>
+                <div className="flex gap-2">
+                  {TRASH_RETENTION_OPTIONS.map(({ days, label }) => (
+                    <button
+                      key={days}
+                      onClick={() => updateSetting("trashRetentionDays", days)}
+                      className={cn(
+                        "flex-1 py-1.5 px-2 rounded-lg text-xs font-medium transition-all",
+                        settings.trashRetentionDays === days
+                          ? "bg-gray-900 text-white dark:bg-white dark:text-neutral-900"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-neutral-700 dark:text-neutral-500 dark:hover:bg-neutral-600"
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Tool Approvals Section */}
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <ShieldCheck className="w-4 h-4 text-gray-500 dark:text-neutral-500" />
+              <h3 className="text-sm font-medium text-gray-900 dark:text-neutral-500">Tool Approvals</h3>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-neutral-500 mb-3">
+              Choose which actions wait for your OK. Web search runs at the provider and never asks.
+            </p>
+
+            <div className="space-y-2">
+              {APPROVAL_TOOLS.map((tool) => {
+                const policy = settings.approvalPolicies[tool.name];
+                const mode: ApprovalMode = policy?.mode ?? "never";
+                const modes: { value: ApprovalMode; label: string }[] = [
+                  { value: "never", label: "Never" },
+                  { value: "always", label: "Always" },
+                  ...(tool.overwrites ? [{ value: "overwrite" as const, label: "Large files" }] : []),
+                ];
+
+                return (
+                  <div key={tool.name} className="p-3 rounded-lg bg-gray-50 dark:bg-neutral-800 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-neutral-500">{tool.label}</p>
+                        <p className="text-xs font-mono text-gray-500 dark:text-neutral-500">{tool.name}</p>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        {modes.map(({ value, label }) => (
+                          <button
+                            key={value}
+                            onClick={() =>
+                              updateApprovalPolicy(
+                                tool.name,
+                                value === "never"
+                                  ? null
+                                  : value === "overwrite"
+                                    ? { mode: value, minLines: policy?.minLines ?? DEFAULT_OVERWRITE_LINES }
+                                    : { mode: value }
+                              )
+                            }
+                            className={cn(
+                              "py-1 px-2 rounded-lg text-xs font-medium transition-all",
+                              mode === value
+                                ? "bg-gray-900 text-white dark:bg-white dark:text-neutral-900"
+                                : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-neutral-700 dark:text-neutral-500 dark:hover:bg-neutral-600"
+                            )}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {mode === "overwrite" && (
+                      <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-neutral-500">
+                        Ask when replacing a file over
+                        <Input
+                          type="number"
+                          min={1}
+                          value={policy?.minLines ?? DEFAULT_OVERWRITE_LINES}
+                          onChange={(e) =>
+                            updateApprovalPolicy(tool.name, {
+                              mode: "overwrite",
+                              minLines: Math.max(1, Number(e.target.value) || 1),
+                            })
+                          }
+                          className="h-7 w-20 text-xs"
+                        />
+                        lines
+                      </label>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Knowledge Base Maintenance Section */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Wrench className="w-4 h-4 text-gray-500 dark:text-neutral-500" />
+              <h3 className="text-sm font-medium text-gray-900 dark:text-neutral-500">Knowledge Base</h3>
+            </div>
+
+            <div className="p-3 rounded-lg bg-gray-50 dark:bg-neutral-800 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-neutral-500">Check Knowledge Base</p>
+                  <p className="text-xs text-gray-500 dark:text-neutral-500">
+                    Find broken folders, stale embeddings, dangling links and caches
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="neumorphic-secondary"
+                  disabled={isCheckingIntegrity}
+                  onClick={() => runIntegrityCheck(false)}
+                >
+                  {isCheckingIntegrity ? "Checking..." : "Check"}
+                </Button>
+              </div>
+
+              {integrityError && (
+                <p className="text-xs text-red-600 dark:text-red-400">{integrityError}</p>
+              )}
+
+              {integrityReport && (
+                <div className="space-y-2">
+                  <p className="text-xs text-gray-600 dark:text-neutral-400">
+                    {integrityReport.nodes} nodes, {integrityReport.embeddings} embeddings, {integrityReport.links} links:{" "}
+                    {integrityReport.issues.length === 0
+                      ? "no problems found."
+                      : integrityReport.repair
+                        ? `fixed ${integrityReport.repaired} of ${integrityReport.issues.length} problems.`
+                        : `${integrityReport.issues.length} problem${integrityReport.issues.length === 1 ? "" : "s"} found.`}
+                  </p>
+                  {integrityReport.issues.length > 0 && (
+                    <ul className="max-h-40 overflow-y-auto space-y-1">
+                      {integrityReport.issues.map((issue, i) => (
+                        <li key={i} className="flex items-start gap-1.5 text-[11px] text-gray-600 dark:text-neutral-400">
+                          {issue.repaired ? (
+                            <CheckCircle className="w-3 h-3 mt-0.5 flex-shrink-0 text-green-500" />
+                          ) : (
+                            <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0 text-amber-500" />
+                          )}
+                          <span className="break-all">{issue.detail}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {!integrityReport.repair && integrityReport.issues.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="neumorphic-primary"
+                      className="w-full"
+                      disabled={isCheckingIntegrity}
+                      onClick={() => runIntegrityCheck(true)}
+                    >
+                      {isCheckingIntegrity ? "Repairing..." : "Repair"}
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -788,7 +1203,9 @@ function SettingsPanel({
 // =============================================================================
 
 interface ConversationItemProps {
-  conversation: ChatConversation;
+  conversation: ChatSummary;
+  /** For forks: what it was forked from */
+  forkSourceLabel?: string;
   isActive: boolean;
   onSelect: () => void;
   onRename: (title: string) => void;
@@ -797,6 +1214,7 @@ interface ConversationItemProps {
 
 function ConversationItem({
   conversation,
+  forkSourceLabel,
   isActive,
   onSelect,
   onRename,
@@ -901,6 +1319,15 @@ function ConversationItem({
         <p className="text-xs text-gray-500 dark:text-neutral-500">
           {formatTimestamp(conversation.updatedAt)}
         </p>
+        {forkSourceLabel !== undefined && (
+          <p
+            className="flex items-center gap-1 text-xs text-gray-500 dark:text-neutral-500"
+            title={`Forked from "${forkSourceLabel}"`}
+          >
+            <GitBranch className="h-3 w-3 shrink-0" />
+            <span className="truncate">{forkSourceLabel}</span>
+          </p>
+        )}
       </div>
 
       {/* Menu button */}
@@ -977,6 +1404,25 @@ export const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(function
 }, ref) {
   const [isMounted, setIsMounted] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+
+  // Pending memory inbox proposals and open conflicts, for the menu badge
+  const [inboxCount, setInboxCount] = useState(0);
+  useEffect(() => {
+    const loadCount = () => {
+      Promise.all([getOpenMemoryProposals(), getContradictions("open")])
+        .then(([proposals, contradictions]) =>
+          setInboxCount(proposals.filter((p) => p.status === "pending").length + contradictions.length)
+        )
+        .catch(() => setInboxCount(0));
+    };
+    loadCount();
+    const unsubscribeInbox = onMemoryInboxChange(loadCount);
+    const unsubscribeContradictions = onContradictionsChange(loadCount);
+    return () => {
+      unsubscribeInbox();
+      unsubscribeContradictions();
+    };
+  }, []);
   
   // Expose openSettings method via ref
   useImperativeHandle(ref, () => ({
@@ -996,6 +1442,7 @@ export const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(function
     onSettingsClosed?.();
   }, [onSettingsClosed]);
   const [embeddingsSubTab, setEmbeddingsSubTab] = useState<"kb" | "chats" | "docs" | "graph">("kb");
+  const [inboxSubTab, setInboxSubTab] = useState<"suggestions" | "conflicts" | "queue">("suggestions");
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const [sidebarWidth, setSidebarWidth] = useState(MIN_SIDEBAR_WIDTH);
@@ -1071,7 +1518,8 @@ export const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(function
     setIsMounted(true);
   }, []);
 
-  const groupedConversations = isMounted ? groupConversations(conversations) : new Map<string, ChatConversation[]>();
+  const groupedConversations = isMounted ? groupConversations(conversations) : new Map<string, ChatSummary[]>();
+  const conversationTitles = new Map(conversations.map((c) => [c.id, c.title]));
 
   // Collapsed state - just show toggle button
   if (isCollapsed) {
@@ -1308,6 +1756,50 @@ export const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(function
                   )}
                 </button>
 
+                {/* Memory Inbox */}
+                <button
+                  onClick={() => {
+                    onTabChange("inbox");
+                    setIsMenuOpen(false);
+                  }}
+                  className={cn(
+                    "w-full flex items-center gap-3 px-3 py-2.5 rounded-xl transition-all duration-200 mt-1",
+                    activeTab === "inbox"
+                      ? "bg-gray-100 dark:bg-neutral-800 shadow-[inset_2px_2px_4px_rgba(0,0,0,0.05),inset_-2px_-2px_4px_rgba(255,255,255,0.8)] dark:shadow-[inset_2px_2px_4px_rgba(0,0,0,0.3),inset_-2px_-2px_4px_rgba(255,255,255,0.02)]"
+                      : "hover:bg-gray-50 dark:hover:bg-neutral-800/50"
+                  )}
+                >
+                  <div className={cn(
+                    "w-8 h-8 rounded-lg flex items-center justify-center transition-all duration-200",
+                    activeTab === "inbox"
+                      ? "bg-fuchsia-500 dark:bg-[#ff00ff] text-white shadow-lg shadow-fuchsia-500/30 dark:shadow-[#ff00ff]/30"
+                      : "bg-gray-100 dark:bg-neutral-800 text-gray-500 dark:text-neutral-400"
+                  )}>
+                    <Inbox className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 text-left">
+                    <p className={cn(
+                      "text-sm font-medium",
+                      activeTab === "inbox"
+                        ? "text-gray-900 dark:text-neutral-100"
+                        : "text-gray-700 dark:text-neutral-300"
+                    )}>
+                      Memory Inbox
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-neutral-500">
+                      Suggested facts to save
+                    </p>
+                  </div>
+                  {inboxCount > 0 && (
+                    <span className="min-w-5 h-5 px-1.5 rounded-full bg-fuchsia-500 dark:bg-[#ff00ff] text-white text-[10px] font-medium flex items-center justify-center">
+                      {inboxCount}
+                    </span>
+                  )}
+                  {activeTab === "inbox" && (
+                    <div className="w-2 h-2 rounded-full bg-fuchsia-500 dark:bg-[#ff00ff] animate-pulse" />
+                  )}
+                </button>
+
                 {/* Large Documents */}
                 <button
                   onClick={() => {
@@ -1435,6 +1927,7 @@ export const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(function
                       <ConversationItem
                         key={conv.id}
                         conversation={conv}
+                        forkSourceLabel={getForkSourceLabel(conv, conversationTitles)}
                         isActive={conv.id === activeConversationId}
                         onSelect={() => onSelectConversation(conv.id)}
                         onRename={(title) => onRenameConversation(conv.id, title)}
@@ -1450,6 +1943,66 @@ export const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(function
       ) : activeTab === "knowledge" ? (
         /* Knowledge Browser Tab */
         <KnowledgeBrowser ref={knowledgeBrowserRef} className="flex-1" />
+      ) : activeTab === "inbox" ? (
+        /* Memory Inbox Tab with Suggestions/Conflicts/Save Queue subtabs */
+        <div className="flex flex-col flex-1 overflow-hidden">
+          {/* Sub-tab toggle */}
+          <div className="px-3 py-2 border-b border-gray-200 dark:border-neutral-700 bg-gray-50/50 dark:bg-neutral-900/50 flex-shrink-0">
+            <div className="flex items-center gap-1 bg-gray-100 dark:bg-neutral-800 rounded-lg p-0.5">
+              <button
+                onClick={() => setInboxSubTab("suggestions")}
+                className={cn(
+                  "flex-1 px-2 py-1.5 rounded-md text-xs font-medium transition-all",
+                  inboxSubTab === "suggestions"
+                    ? "bg-white dark:bg-neutral-700 text-gray-900 dark:text-neutral-100 shadow-sm"
+                    : "text-gray-500 dark:text-neutral-400 hover:text-gray-700 dark:hover:text-neutral-300"
+                )}
+              >
+                Suggestions
+              </button>
+              <button
+                onClick={() => setInboxSubTab("conflicts")}
+                className={cn(
+                  "flex-1 px-2 py-1.5 rounded-md text-xs font-medium transition-all",
+                  inboxSubTab === "conflicts"
+                    ? "bg-white dark:bg-neutral-700 text-gray-900 dark:text-neutral-100 shadow-sm"
+                    : "text-gray-500 dark:text-neutral-400 hover:text-gray-700 dark:hover:text-neutral-300"
+                )}
+              >
+                Conflicts
+              </button>
+              <button
+                onClick={() => setInboxSubTab("queue")}
+                className={cn(
+                  "flex-1 px-2 py-1.5 rounded-md text-xs font-medium transition-all",
+                  inboxSubTab === "queue"
+                    ? "bg-white dark:bg-neutral-700 text-gray-900 dark:text-neutral-100 shadow-sm"
+                    : "text-gray-500 dark:text-neutral-400 hover:text-gray-700 dark:hover:text-neutral-300"
+                )}
+              >
+                Save Queue
+              </button>
+            </div>
+          </div>
+          {inboxSubTab === "suggestions" ? (
+            <MemoryInbox
+              className="flex-1"
+              conversations={conversations}
+              onSelectConversation={(id) => {
+                onSelectConversation(id);
+                onTabChange("chats");
+              }}
+              onKnowledgeChange={() => knowledgeBrowserRef?.current?.refresh()}
+            />
+          ) : inboxSubTab === "conflicts" ? (
+            <ContradictionInbox
+              className="flex-1"
+              onKnowledgeChange={() => knowledgeBrowserRef?.current?.refresh()}
+            />
+          ) : (
+            <ContextSaverHistory className="flex-1" />
+          )}
+        </div>
       ) : activeTab === "large-documents" ? (
         /* Large Documents Tab */
         <LargeDocumentBrowser className="flex-1" />
@@ -0,0 +1,287 @@
+"use client";
+
+/**
+ * Context Saver History Component
+ *
+ * Sidebar list of background Context Saver tasks from the persistent queue
+ * (lib/context-saver-queue.ts): waiting and running saves, and the history
+ * of completed and failed ones with their steps. Failed saves can be
+ * retried; waiting and finished ones removed.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Check,
+  Clock,
+  Loader2,
+  AlertCircle,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+  ChevronDown,
+  ChevronRight,
+  History,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getQueuedSaves, type QueuedSave } from "@/lib/storage/context-saver-queue";
+import {
+  subscribeToContextSaverQueue,
+  getLiveContextSave,
+  retryContextSave,
+  removeContextSave,
+  clearFinishedContextSaves,
+  MAX_SAVE_ATTEMPTS,
+  type LiveContextSave,
+} from "@/lib/context-saver-queue";
+
+interface ContextSaverHistoryProps {
+  className?: string;
+}
+
+const stepLabels: Record<string, string> = {
+  kb_search: "Searched",
+  kb_list: "Listed",
+  kb_read: "Read",
+  kb_write: "Wrote",
+  kb_append: "Appended to",
+  kb_edit: "Edited",
+  kb_mkdir: "Created folder",
+};
+
+function StatusIcon({ status }: { status: QueuedSave["status"] }) {
+  switch (status) {
+    case "queued":
+      return <Clock className="w-3.5 h-3.5 text-gray-400 dark:text-neutral-500 flex-shrink-0" />;
+    case "running":
+      return <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin flex-shrink-0" />;
+    case "complete":
+      return <Check className="w-3.5 h-3.5 text-green-500 flex-shrink-0" />;
+    case "error":
+      return <AlertCircle className="w-3.5 h-3.5 text-red-500 flex-shrink-0" />;
+  }
+}
+
+export function ContextSaverHistory({ className }: ContextSaverHistoryProps) {
+  const [saves, setSaves] = useState<QueuedSave[]>([]);
+  const [live, setLive] = useState<Map<string, LiveContextSave>>(new Map());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSaves = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const loaded = await getQueuedSaves();
+      setSaves(loaded);
+      setLive(
+        new Map(
+          loaded.flatMap((save) => {
+            const progress = getLiveContextSave(save.id);
+            return progress ? [[save.id, progress] as const] : [];
+          })
+        )
+      );
+    } catch (error) {
+      console.error("[ContextSaverHistory] Failed to load saves:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSaves();
+    // Apply events directly - running tasks update on every streamed chunk
+    return subscribeToContextSaverQueue((event) => {
+      if (event.type === "remove") {
+        setSaves((prev) => prev.filter((s) => s.id !== event.id));
+        return;
+      }
+      const { save } = event;
+      setSaves((prev) =>
+        prev.some((s) => s.id === save.id)
+          ? prev.map((s) => (s.id === save.id ? save : s))
+          : [save, ...prev]
+      );
+      setLive((prev) => {
+        const next = new Map(prev);
+        if (event.live) next.set(save.id, event.live);
+        else next.delete(save.id);
+        return next;
+      });
+    });
+  }, [loadSaves]);
+
+  const handleAction = useCallback(async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error("[ContextSaverHistory] Action failed:", error);
+    }
+  }, []);
+
+  const toggleExpanded = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const hasFinished = saves.some((s) => s.status === "complete" || s.status === "error");
+  const activeCount = saves.filter((s) => s.status === "queued" || s.status === "running").length;
+
+  return (
+    <div className={cn("flex flex-col h-full overflow-hidden", className)}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 dark:border-neutral-700 flex-shrink-0">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-neutral-300">
+            Save Queue
+          </h3>
+          <Button
+            size="sm"
+            variant="neumorphic-secondary"
+            onClick={loadSaves}
+            disabled={isLoading}
+          >
+            <RefreshCw className={cn("w-3.5 h-3.5", isLoading && "animate-spin")} />
+          </Button>
+        </div>
+
+        {hasFinished && (
+          <Button
+            size="sm"
+            variant="neumorphic-secondary"
+            className="w-full justify-center gap-1"
+            onClick={() => handleAction(clearFinishedContextSaves)}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Clear Finished
+          </Button>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-neutral-500 mt-2">
+          {activeCount > 0
+            ? `${activeCount} save${activeCount === 1 ? "" : "s"} waiting or running. `
+            : ""}
+          Failed saves are retried automatically up to {MAX_SAVE_ATTEMPTS} times.
+        </p>
+      </div>
+
+      {/* Save List */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {!isLoading && saves.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-neutral-500 text-sm">
+            <History className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>No saves yet</p>
+            <p className="text-xs mt-1">Knowledge saves from chats and the inbox appear here</p>
+          </div>
+        ) : (
+          saves.map((save) => {
+            const steps = live.get(save.id)?.steps ?? save.steps;
+            const isExpanded = expanded.has(save.id);
+            return (
+              <div
+                key={save.id}
+                className="p-2.5 bg-white dark:bg-neutral-800 rounded-lg border border-gray-200 dark:border-neutral-700"
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <StatusIcon status={save.status} />
+                  {save.context && (
+                    <span className="text-[10px] font-medium uppercase tracking-wide text-fuchsia-600 dark:text-[#ff00ff] truncate">
+                      {save.context}
+                    </span>
+                  )}
+                  <span className="text-[10px] text-gray-400 dark:text-neutral-500 ml-auto flex-shrink-0">
+                    {new Date(save.createdAt).toLocaleString()}
+                  </span>
+                </div>
+
+                <p className="text-sm text-gray-900 dark:text-neutral-200 line-clamp-3">{save.information}</p>
+
+                {save.savedPath && (
+                  <p className="mt-1 text-xs font-mono text-gray-500 dark:text-neutral-400 truncate">
+                    {save.savedPath}
+                  </p>
+                )}
+
+                {save.lastError && save.status !== "complete" && (
+                  <p className="mt-1 text-xs text-red-500">
+                    {save.lastError}
+                    {save.status === "queued" &&
+                      ` - retrying at ${new Date(save.nextAttemptAt).toLocaleTimeString()}`}
+                  </p>
+                )}
+
+                {save.attempts > 1 && (
+                  <p className="mt-1 text-[10px] text-gray-400 dark:text-neutral-500">
+                    Attempt {save.attempts} of {MAX_SAVE_ATTEMPTS}
+                  </p>
+                )}
+
+                {steps.length > 0 && (
+                  <button
+                    onClick={() => toggleExpanded(save.id)}
+                    className="mt-1 flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600 dark:text-neutral-500 dark:hover:text-neutral-300"
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="w-3 h-3" />
+                    ) : (
+                      <ChevronRight className="w-3 h-3" />
+                    )}
+                    {steps.length} step{steps.length === 1 ? "" : "s"}
+                  </button>
+                )}
+                {isExpanded && (
+                  <div className="mt-1 space-y-0.5">
+                    {steps.map((step) => (
+                      <div
+                        key={step.toolCallId}
+                        className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-neutral-400"
+                        title={step.error}
+                      >
+                        <span className="flex-shrink-0">{stepLabels[step.toolName] ?? step.toolName}</span>
+                        <span className="flex-1 min-w-0 truncate font-mono text-gray-500 dark:text-neutral-500">
+                          {step.target}
+                        </span>
+                        {step.status === "error" && (
+                          <AlertCircle className="w-3 h-3 text-red-500 flex-shrink-0" />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {save.status !== "running" && (
+                  <div className="mt-2 flex gap-2">
+                    {save.status === "error" && (
+                      <Button
+                        size="sm"
+                        variant="neumorphic-success"
+                        onClick={() => handleAction(() => retryContextSave(save.id))}
+                      >
+                        <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="neumorphic-destructive"
+                      onClick={() => handleAction(() => removeContextSave(save.id))}
+                    >
+                      <Trash2 className="w-3.5 h-3.5 mr-1" />
+                      {save.status === "queued" ? "Cancel" : "Remove"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ContextSaverHistory;
@@ -0,0 +1,154 @@
+"use client";
+
+/**
+ * Contradiction Inbox Component
+ *
+ * Sidebar list of open conflicts between knowledge base files, found when a
+ * file changed (knowledge/contradictions). Each shows both statements and
+ * the judge's explanation; the user keeps both (the "contradicts" link
+ * stays as a record of the change) or dismisses it as not a conflict.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Check, X, RefreshCw, GitCompare, FileText } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  getContradictions,
+  resolveContradiction,
+  onContradictionsChange,
+  type Contradiction,
+} from "@/knowledge";
+
+interface ContradictionInboxProps {
+  className?: string;
+  /** Called after a resolution changed the knowledge graph */
+  onKnowledgeChange?: () => void;
+}
+
+function Statement({ path, headingPath, text }: { path: string; headingPath: string; text: string }) {
+  return (
+    <div className="p-2 rounded-md bg-gray-50 dark:bg-neutral-900">
+      <div className="flex items-center gap-1 text-[10px] text-gray-400 dark:text-neutral-500 mb-1 min-w-0">
+        <FileText className="w-3 h-3 flex-shrink-0" />
+        <span className="font-mono truncate" title={path}>
+          {path}
+        </span>
+        {headingPath && <span className="truncate">- {headingPath}</span>}
+      </div>
+      <p className="text-xs text-gray-700 dark:text-neutral-300 whitespace-pre-wrap line-clamp-4">{text}</p>
+    </div>
+  );
+}
+
+export function ContradictionInbox({ className, onKnowledgeChange }: ContradictionInboxProps) {
+  const [contradictions, setContradictions] = useState<Contradiction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadContradictions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setContradictions(await getContradictions("open"));
+    } catch (error) {
+      console.error("[ContradictionInbox] Failed to load contradictions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadContradictions();
+    return onContradictionsChange(loadContradictions);
+  }, [loadContradictions]);
+
+  const handleResolve = useCallback(
+    async (id: string, resolution: "keep" | "dismiss") => {
+      try {
+        await resolveContradiction(id, resolution);
+        if (resolution === "dismiss") onKnowledgeChange?.();
+      } catch (error) {
+        console.error("[ContradictionInbox] Failed to resolve contradiction:", error);
+      }
+    },
+    [onKnowledgeChange]
+  );
+
+  return (
+    <div className={cn("flex flex-col h-full overflow-hidden", className)}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 dark:border-neutral-700 flex-shrink-0">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-neutral-300">
+            Conflicts
+          </h3>
+          <Button
+            size="sm"
+            variant="neumorphic-secondary"
+            onClick={loadContradictions}
+            disabled={isLoading}
+          >
+            <RefreshCw className={cn("w-3.5 h-3.5", isLoading && "animate-spin")} />
+          </Button>
+        </div>
+
+        <p className="text-xs text-gray-500 dark:text-neutral-500">
+          Notes that disagree with each other. Edit one of the files to settle it, keep both, or dismiss.
+        </p>
+      </div>
+
+      {/* Contradiction List */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {!isLoading && contradictions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-neutral-500 text-sm">
+            <GitCompare className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>No conflicts</p>
+            <p className="text-xs mt-1">Conflicting notes appear here when a file changes</p>
+          </div>
+        ) : (
+          contradictions.map((contradiction) => (
+            <div
+              key={contradiction.id}
+              className="p-2.5 bg-white dark:bg-neutral-800 rounded-lg border border-gray-200 dark:border-neutral-700 space-y-2"
+            >
+              <p className="text-sm text-gray-900 dark:text-neutral-200">{contradiction.explanation}</p>
+
+              <Statement
+                path={contradiction.path}
+                headingPath={contradiction.headingPath}
+                text={contradiction.chunkText}
+              />
+              <Statement
+                path={contradiction.otherPath}
+                headingPath={contradiction.otherHeadingPath}
+                text={contradiction.otherChunkText}
+              />
+
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="neumorphic-success"
+                  onClick={() => handleResolve(contradiction.id, "keep")}
+                  title="Both stay; the files remain linked as contradicting"
+                >
+                  <Check className="w-3.5 h-3.5 mr-1" />
+                  Keep Both
+                </Button>
+                <Button
+                  size="sm"
+                  variant="neumorphic-destructive"
+                  onClick={() => handleResolve(contradiction.id, "dismiss")}
+                  title="Not a real conflict; removes the link"
+                >
+                  <X className="w-3.5 h-3.5 mr-1" />
+                  Not a Conflict
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ContradictionInbox;
@@ -0,0 +1,92 @@
+"use client";
+
+/**
+ * Diff View Component
+ *
+ * Renders a line diff (from knowledge/history/diff.ts) with added lines in
+ * green, removed lines in red, and long unchanged stretches collapsed.
+ */
+
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import type { DiffLine } from "@/knowledge";
+
+interface DiffViewProps {
+  lines: DiffLine[];
+  /** Unchanged lines kept around each change; longer stretches are collapsed */
+  contextLines?: number;
+  className?: string;
+}
+
+type DiffRow = { kind: "line"; line: DiffLine } | { kind: "gap"; count: number };
+
+function collapseContext(lines: DiffLine[], contextLines: number): DiffRow[] {
+  const keep = lines.map((line) => line.type !== "context");
+  lines.forEach((line, i) => {
+    if (line.type === "context") return;
+    for (let k = Math.max(0, i - contextLines); k <= Math.min(lines.length - 1, i + contextLines); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const rows: DiffRow[] = [];
+  let hidden = 0;
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      if (hidden > 0) rows.push({ kind: "gap", count: hidden });
+      hidden = 0;
+      rows.push({ kind: "line", line });
+    } else {
+      hidden++;
+    }
+  });
+  if (hidden > 0) rows.push({ kind: "gap", count: hidden });
+  return rows;
+}
+
+export function DiffView({ lines, contextLines = 3, className }: DiffViewProps) {
+  const rows = useMemo(() => collapseContext(lines, contextLines), [lines, contextLines]);
+
+  if (!lines.some((line) => line.type !== "context")) {
+    return (
+      <p className={cn("text-xs text-gray-500 dark:text-neutral-400 italic", className)}>
+        (no changes)
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("font-mono text-[11px] leading-5 overflow-x-auto", className)}>
+      {rows.map((row, i) =>
+        row.kind === "gap" ? (
+          <div
+            key={i}
+            className="px-2 text-gray-400 dark:text-neutral-500 bg-gray-50 dark:bg-neutral-800/50 select-none"
+          >
+            ⋯ {row.count} unchanged line{row.count !== 1 ? "s" : ""}
+          </div>
+        ) : (
+          <div
+            key={i}
+            className={cn(
+              "flex whitespace-pre-wrap break-words",
+              row.line.type === "added" && "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300",
+              row.line.type === "removed" && "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300",
+              row.line.type === "context" && "text-gray-600 dark:text-neutral-400"
+            )}
+          >
+            <span className="w-8 flex-shrink-0 pr-2 text-right text-gray-400 dark:text-neutral-600 select-none">
+              {row.line.type === "added" ? row.line.newLine : row.line.oldLine}
+            </span>
+            <span className="w-3 flex-shrink-0 select-none">
+              {row.line.type === "added" ? "+" : row.line.type === "removed" ? "-" : " "}
+            </span>
+            <span className="flex-1 min-w-0">{row.line.text || " "}</span>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+export default DiffView;
@@ -0,0 +1,178 @@
+"use client";
+
+/**
+ * File History Component
+ *
+ * Per-file revision list for the Knowledge Browser. Selecting a revision
+ * shows what it changed as a diff, with a button to restore the file.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { RotateCcw } from "lucide-react";
+import {
+  getFileHistory,
+  restoreRevision,
+  diffLines,
+  getDiffStats,
+  type FileRevision,
+} from "@/knowledge";
+import { cn } from "@/lib/utils";
+import { DiffView } from "@/components/diff-view";
+
+interface FileHistoryProps {
+  path: string;
+  /** Called after a restore so the parent can reload the file and tree */
+  onRestored: (content: string | null) => void;
+  className?: string;
+}
+
+const ACTION_LABELS: Record<FileRevision["action"], string> = {
+  write: "Written",
+  append: "Appended",
+  edit: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+};
+
+function formatRevisionTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function FileHistory({ path, onRestored, className }: FileHistoryProps) {
+  const [revisions, setRevisions] = useState<FileRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const history = await getFileHistory(path);
+      setRevisions(history);
+      setSelectedId((current) =>
+        current && history.some((r) => r.id === current) ? current : history[0]?.id ?? null
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [path]);
+
+  useEffect(() => {
+    loadHistory().catch(console.error);
+  }, [loadHistory]);
+
+  const selected = revisions.find((r) => r.id === selectedId) ?? null;
+  const selectedDiff = useMemo(
+    () => (selected ? diffLines(selected.previousContent ?? "", selected.content ?? "") : []),
+    [selected]
+  );
+
+  const handleRestore = useCallback(async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      // A deletion has no "after" content, so restoring it brings the file back
+      const result = await restoreRevision(selected.id, selected.content === null ? "before" : "after");
+      await loadHistory();
+      onRestored(result.content);
+    } catch (error) {
+      console.error("[FileHistory] Restore failed:", error);
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [selected, loadHistory, onRestored]);
+
+  if (isLoading && revisions.length === 0) {
+    return (
+      <div className={cn("flex items-center justify-center py-6", className)}>
+        <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className={cn("p-3 text-xs text-gray-500 dark:text-neutral-400 italic", className)}>
+        No history yet. Revisions are recorded from the next change on.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("flex h-full min-h-0", className)}>
+      {/* Revision list */}
+      <div className="w-40 flex-shrink-0 overflow-y-auto border-r border-gray-200 dark:border-neutral-700">
+        {revisions.map((revision, index) => {
+          const stats = getDiffStats(diffLines(revision.previousContent ?? "", revision.content ?? ""));
+          return (
+            <button
+              key={revision.id}
+              onClick={() => setSelectedId(revision.id)}
+              className={cn(
+                "w-full text-left px-2.5 py-1.5 text-xs transition-colors",
+                revision.id === selectedId
+                  ? "bg-purple-50 dark:bg-neutral-800/50 text-purple-700 dark:text-neutral-200"
+                  : "hover:bg-gray-100 dark:hover:bg-neutral-800 text-gray-600 dark:text-neutral-400"
+              )}
+            >
+              <div className="flex items-center justify-between gap-1">
+                <span className="font-medium">{ACTION_LABELS[revision.action]}</span>
+                {index === 0 && (
+                  <span className="text-[10px] text-gray-400 dark:text-neutral-500">latest</span>
+                )}
+              </div>
+              <div className="flex items-center gap-1.5 text-[10px]">
+                <span className="flex-1 truncate text-gray-400 dark:text-neutral-500">
+                  {formatRevisionTime(revision.createdAt)}
+                </span>
+                <span className="text-green-600 dark:text-green-400">+{stats.added}</span>
+                <span className="text-red-600 dark:text-red-400">-{stats.removed}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Selected revision diff */}
+      <div className="flex-1 min-w-0 flex flex-col">
+        {selected && (
+          <>
+            <div className="px-3 py-1.5 flex items-center justify-between border-b border-gray-200 dark:border-neutral-700">
+              <span className="text-[11px] text-gray-500 dark:text-neutral-400 truncate">
+                {ACTION_LABELS[selected.action]} {formatRevisionTime(selected.createdAt)}
+              </span>
+              <button
+                onClick={handleRestore}
+                disabled={isRestoring}
+                className={cn(
+                  "flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] font-medium transition-all",
+                  isRestoring
+                    ? "bg-purple-100 dark:bg-neutral-700 text-purple-600 dark:text-neutral-300 cursor-wait"
+                    : "bg-purple-50 dark:bg-neutral-800 text-purple-600 dark:text-neutral-300 hover:bg-purple-100 dark:hover:bg-neutral-700"
+                )}
+                title={
+                  selected.content === null
+                    ? "Bring back the file as it was before it was deleted"
+                    : "Restore the file to this version"
+                }
+              >
+                <RotateCcw className={cn("w-3 h-3", isRestoring && "animate-spin")} />
+                {selected.content === null ? "Restore deleted file" : "Restore this version"}
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto py-1">
+              <DiffView lines={selectedDiff} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default FileHistory;
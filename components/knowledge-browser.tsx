@@ -5,14 +5,20 @@
  *
  * Displays the user's Knowledge Base as a tree view.
  * Users can browse folders and view file contents (read-only).
- * Claude manages the content via tools.
+ * Claude manages the content via tools; each file's history view
+ * shows past revisions as diffs and can restore them. Deleted files and
+ * folders go to the Trash view, where they can be restored or purged.
+ * Changes made in other open tabs are picked up automatically.
  */
 
 import { useState, useEffect, useCallback, useImperativeHandle, forwardRef, useRef } from "react";
-import { ChevronRight, ChevronDown, FileText, Folder, X, Trash2, RefreshCw, Download, Upload, Check, AlertCircle } from "lucide-react";
-import { getTree, readFile, deleteNode, reindexAllFiles, getEmbeddingStats, migrateFromV2NameIfNeeded, downloadKnowledgeBackup, importFromFile, type KnowledgeTree, type ImportResult } from "@/knowledge";
+import { ChevronRight, ChevronDown, FileText, Folder, X, Trash2, RefreshCw, Download, Upload, Check, AlertCircle, History } from "lucide-react";
+import { getTree, readFile, deleteNode, reindexAllFiles, getEmbeddingStats, migrateFromV2NameIfNeeded, purgeExpiredTrash, downloadKnowledgeBackup, importFromFile, type KnowledgeTree, type ImportResult } from "@/knowledge";
+import { onRemoteChange } from "@/lib/storage/sync";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { FileHistory } from "@/components/file-history";
+import { KnowledgeTrash } from "@/components/knowledge-trash";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import remarkMath from "remark-math";
@@ -100,6 +106,8 @@ export const KnowledgeBrowser = forwardRef<KnowledgeBrowserRef, KnowledgeBrowser
     const [expanded, setExpanded] = useState<Set<string>>(new Set());
     const [selectedFile, setSelectedFile] = useState<string | null>(null);
     const [fileContent, setFileContent] = useState("");
+    const [showHistory, setShowHistory] = useState(false);
+    const [showTrash, setShowTrash] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
     const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
     const [previewHeight, setPreviewHeight] = useState(DEFAULT_PREVIEW_HEIGHT);
@@ -146,10 +154,29 @@ export const KnowledgeBrowser = forwardRef<KnowledgeBrowserRef, KnowledgeBrowser
           loadTree();
           // Load initial embedding stats
           getEmbeddingStats().then(setEmbeddingStats).catch(console.error);
+          // Drop trash entries past the retention period
+          purgeExpiredTrash().catch(console.error);
         })
         .catch(console.error);
     }, [loadTree]);
 
+    // Another tab changed the knowledge base: reload quietly (no spinner)
+    useEffect(() => {
+      return onRemoteChange("knowledge", () => {
+        getTree().then(setTree).catch(console.error);
+        getEmbeddingStats().then(setEmbeddingStats).catch(console.error);
+        if (selectedFile) {
+          readFile(selectedFile)
+            .then(setFileContent)
+            .catch(() => {
+              // Deleted or moved in the other tab
+              setSelectedFile(null);
+              setFileContent("");
+            });
+        }
+      });
+    }, [selectedFile]);
+
     const handleReindex = useCallback(async () => {
       setIsReindexing(true);
       setReindexProgress({ current: 0, total: 0, currentFile: "Starting..." });
@@ -255,6 +282,7 @@ export const KnowledgeBrowser = forwardRef<KnowledgeBrowserRef, KnowledgeBrowser
 
     const selectFile = async (path: string) => {
       setSelectedFile(path);
+      setShowHistory(false);
       try {
         const content = await readFile(path);
         setFileContent(content);
@@ -263,6 +291,16 @@ export const KnowledgeBrowser = forwardRef<KnowledgeBrowserRef, KnowledgeBrowser
       }
     };
 
+    const handleRestored = useCallback((content: string | null) => {
+      if (content === null) {
+        setSelectedFile(null);
+        setFileContent("");
+      } else {
+        setFileContent(content);
+      }
+      loadTree();
+    }, [loadTree]);
+
     const handleDelete = async (path: string) => {
       await deleteNode(path);
       setDeleteConfirm(null);
@@ -415,6 +453,21 @@ export const KnowledgeBrowser = forwardRef<KnowledgeBrowserRef, KnowledgeBrowser
               )}
             </div>
             <div className="flex items-center gap-1.5">
+              {/* Trash toggle */}
+              <button
+                onClick={() => setShowTrash((prev) => !prev)}
+                className={cn(
+                  "flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium transition-all",
+                  showTrash
+                    ? "bg-purple-100 dark:bg-neutral-700 text-purple-600 dark:text-neutral-200"
+                    : "bg-gray-100 dark:bg-neutral-800 text-gray-600 dark:text-neutral-400 hover:bg-gray-200 dark:hover:bg-neutral-700"
+                )}
+                title={showTrash ? "Show files" : "Show deleted files and folders"}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">Trash</span>
+              </button>
+
               {/* Export button */}
               <button
                 onClick={handleExport}
@@ -531,7 +584,9 @@ export const KnowledgeBrowser = forwardRef<KnowledgeBrowserRef, KnowledgeBrowser
 
         {/* Tree view */}
         <div className="flex-1 overflow-y-auto p-2">
-          {isLoading ? (
+          {showTrash ? (
+            <KnowledgeTrash onRestored={loadTree} />
+          ) : isLoading ? (
             <div className="flex items-center justify-center py-8">
               <div className="w-5 h-5 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
             </div>
@@ -572,31 +627,53 @@ export const KnowledgeBrowser = forwardRef<KnowledgeBrowserRef, KnowledgeBrowser
               <span className="text-xs font-medium text-gray-600 dark:text-neutral-400 truncate">
                 {selectedFile}
               </span>
-              <button
-                onClick={() => {
-                  setSelectedFile(null);
-                  setFileContent("");
-                }}
-                className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-neutral-700 text-gray-400 hover:text-gray-600 dark:hover:text-neutral-300 transition-colors"
-              >
-                <X className="w-4 h-4" />
-              </button>
-            </div>
-            <div className="overflow-auto flex-1 p-3">
-              {fileContent ? (
-                <div className="text-xs text-gray-700 dark:text-neutral-300">
-                  <ReactMarkdown
-                    remarkPlugins={REMARK_PLUGINS}
-                    rehypePlugins={REHYPE_PLUGINS}
-                    components={markdownComponents}
-                  >
-                    {preprocessMathCodeBlocks(fileContent)}
-                  </ReactMarkdown>
-                </div>
-              ) : (
-                <p className="text-xs text-gray-500 dark:text-neutral-400 italic">(empty file)</p>
-              )}
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setShowHistory((prev) => !prev)}
+                  className={cn(
+                    "p-0.5 rounded transition-colors",
+                    showHistory
+                      ? "bg-purple-100 dark:bg-neutral-700 text-purple-600 dark:text-neutral-200"
+                      : "hover:bg-gray-200 dark:hover:bg-neutral-700 text-gray-400 hover:text-gray-600 dark:hover:text-neutral-300"
+                  )}
+                  title={showHistory ? "Show file" : "Show history"}
+                >
+                  <History className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    setSelectedFile(null);
+                    setFileContent("");
+                  }}
+                  className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-neutral-700 text-gray-400 hover:text-gray-600 dark:hover:text-neutral-300 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
             </div>
+            {showHistory ? (
+              <FileHistory
+                path={selectedFile}
+                onRestored={handleRestored}
+                className="flex-1 min-h-0"
+              />
+            ) : (
+              <div className="overflow-auto flex-1 p-3">
+                {fileContent ? (
+                  <div className="text-xs text-gray-700 dark:text-neutral-300">
+                    <ReactMarkdown
+                      remarkPlugins={REMARK_PLUGINS}
+                      rehypePlugins={REHYPE_PLUGINS}
+                      components={markdownComponents}
+                    >
+                      {preprocessMathCodeBlocks(fileContent)}
+                    </ReactMarkdown>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500 dark:text-neutral-400 italic">(empty file)</p>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
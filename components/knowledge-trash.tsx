@@ -0,0 +1,212 @@
+"use client";
+
+/**
+ * Knowledge Trash Component
+ *
+ * Trash view for the Knowledge Browser. Lists deleted files and folders,
+ * each of which can be restored (with its embeddings and links) or purged.
+ * Entries past the retention period in Settings are purged by the browser
+ * when it loads.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { FileText, Folder, RotateCcw, Trash2, AlertCircle } from "lucide-react";
+import {
+  getTrashEntries,
+  restoreFromTrash,
+  purgeTrashEntry,
+  emptyTrash,
+  onTrashChange,
+  type TrashEntry,
+} from "@/knowledge";
+import { loadAppSettings } from "@/lib/app-settings";
+import { onRemoteChange } from "@/lib/storage/sync";
+import { cn } from "@/lib/utils";
+
+interface KnowledgeTrashProps {
+  /** Called after a restore so the parent can reload the tree */
+  onRestored: () => void;
+  className?: string;
+}
+
+function formatDeletedTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function KnowledgeTrash({ onRestored, className }: KnowledgeTrashProps) {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeConfirm, setPurgeConfirm] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const retentionDays = loadAppSettings().trashRetentionDays;
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await getTrashEntries());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries().catch(console.error);
+    const reload = () => {
+      loadEntries().catch(console.error);
+    };
+    const unsubscribeLocal = onTrashChange(reload);
+    const unsubscribeRemote = onRemoteChange("knowledge", reload);
+    return () => {
+      unsubscribeLocal();
+      unsubscribeRemote();
+    };
+  }, [loadEntries]);
+
+  const handleRestore = useCallback(async (id: string) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await restoreFromTrash(id);
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  }, [onRestored]);
+
+  const handlePurge = useCallback(async (id: string) => {
+    setPurgeConfirm(null);
+    setError(null);
+    try {
+      if (id === "all") await emptyTrash();
+      else await purgeTrashEntry(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={cn("flex items-center justify-center py-8", className)}>
+        <div className="w-5 h-5 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("flex flex-col", className)}>
+      <div className="px-2 pb-2 flex items-center justify-between gap-2">
+        <p className="text-[11px] text-gray-500 dark:text-neutral-400">
+          {retentionDays > 0
+            ? `Deleted items are removed for good after ${retentionDays} days`
+            : "Deleted items are kept until you empty the trash"}
+        </p>
+        {entries.length > 0 && (
+          purgeConfirm === "all" ? (
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <button
+                onClick={() => handlePurge("all")}
+                className="px-2 py-0.5 text-xs bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+              >
+                Empty
+              </button>
+              <button
+                onClick={() => setPurgeConfirm(null)}
+                className="px-2 py-0.5 text-xs bg-gray-200 dark:bg-neutral-700 text-gray-700 dark:text-neutral-300 rounded hover:bg-gray-300 dark:hover:bg-neutral-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setPurgeConfirm("all")}
+              className="flex-shrink-0 px-2 py-1 rounded-lg text-[11px] font-medium bg-gray-100 dark:bg-neutral-800 text-gray-600 dark:text-neutral-400 hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-600 transition-colors"
+            >
+              Empty Trash
+            </button>
+          )
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-2 mb-2 flex items-center gap-2 px-2.5 py-1.5 rounded-lg text-xs bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400">
+          <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="text-center py-8 px-4">
+          <Trash2 className="w-10 h-10 mx-auto text-gray-300 dark:text-neutral-600 mb-3" />
+          <p className="text-gray-500 dark:text-neutral-400 text-sm font-medium">Trash is empty</p>
+          <p className="text-gray-400 dark:text-neutral-500 text-xs mt-1">
+            Deleted files and folders can be restored from here
+          </p>
+        </div>
+      ) : (
+        entries.map((entry) => (
+          <div
+            key={entry.id}
+            className="group flex items-center gap-1.5 px-2 py-1.5 text-sm rounded-lg hover:bg-gray-100 dark:hover:bg-neutral-800 text-gray-700 dark:text-neutral-300"
+          >
+            {entry.type === "folder" ? (
+              <Folder className="w-4 h-4 flex-shrink-0 text-fuchsia-500 dark:text-[#ff00ff]" />
+            ) : (
+              <FileText className="w-4 h-4 flex-shrink-0 text-purple-500" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="truncate" title={entry.path}>{entry.path}</p>
+              <p className="text-[10px] text-gray-400 dark:text-neutral-500">
+                {entry.type === "folder" && `${entry.files} ${entry.files === 1 ? "file" : "files"} • `}
+                Deleted {formatDeletedTime(entry.deletedAt)}
+              </p>
+            </div>
+
+            {purgeConfirm === entry.id ? (
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => handlePurge(entry.id)}
+                  className="px-2 py-0.5 text-xs bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+                >
+                  Purge
+                </button>
+                <button
+                  onClick={() => setPurgeConfirm(null)}
+                  className="px-2 py-0.5 text-xs bg-gray-200 dark:bg-neutral-700 text-gray-700 dark:text-neutral-300 rounded hover:bg-gray-300 dark:hover:bg-neutral-600 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <>
+                <button
+                  onClick={() => handleRestore(entry.id)}
+                  disabled={busyId !== null}
+                  className="p-1 rounded hover:bg-purple-100 dark:hover:bg-neutral-700 text-gray-400 hover:text-purple-600 dark:hover:text-neutral-200 transition-colors"
+                  title="Restore"
+                >
+                  <RotateCcw className={cn("w-3.5 h-3.5", busyId === entry.id && "animate-spin")} />
+                </button>
+                <button
+                  onClick={() => setPurgeConfirm(entry.id)}
+                  className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 transition-colors"
+                  title="Delete permanently"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default KnowledgeTrash;
@@ -24,12 +24,14 @@ import {
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import { onRemoteChange } from "@/lib/storage/sync";
 import {
   uploadLargeDocument,
   deleteLargeDocument,
   renameLargeDocument,
   getAllLargeDocuments,
   searchLargeDocuments,
+  formatPageRange,
   type LargeDocumentMetadata,
   type LargeDocumentSearchResult,
   type IndexingProgress,
@@ -94,6 +96,15 @@ export function LargeDocumentBrowser({ className }: LargeDocumentBrowserProps) {
     loadDocuments();
   }, [loadDocuments]);
 
+  // Another tab uploaded, renamed or deleted a document: reload quietly
+  useEffect(() => {
+    return onRemoteChange("large-documents", () => {
+      getAllLargeDocuments()
+        .then((docs) => setDocuments(docs.sort((a, b) => b.uploadedAt - a.uploadedAt)))
+        .catch(console.error);
+    });
+  }, []);
+
   // Handle file upload
   const handleUpload = useCallback(async (files: FileList | null) => {
     if (!files || files.length === 0) return;
@@ -108,10 +119,16 @@ export function LargeDocumentBrowser({ className }: LargeDocumentBrowserProps) {
       "application/json",
       "application/xml",
       "text/html",
+      "application/pdf",
     ];
     
-    if (!allowedTypes.includes(file.type) && !file.name.endsWith(".md") && !file.name.endsWith(".txt")) {
-      setError("Please upload a text-based file (.txt, .md, .json, .csv, .xml, .html)");
+    if (
+      !allowedTypes.includes(file.type) &&
+      !file.name.endsWith(".md") &&
+      !file.name.endsWith(".txt") &&
+      !file.name.toLowerCase().endsWith(".pdf")
+    ) {
+      setError("Please upload a PDF or text-based file (.pdf, .txt, .md, .json, .csv, .xml, .html)");
       return;
     }
 
@@ -252,7 +269,7 @@ export function LargeDocumentBrowser({ className }: LargeDocumentBrowserProps) {
           ref={fileInputRef}
           type="file"
           className="hidden"
-          accept=".txt,.md,.json,.csv,.xml,.html,text/plain,text/markdown,application/json"
+          accept=".pdf,.txt,.md,.json,.csv,.xml,.html,application/pdf,text/plain,text/markdown,application/json"
           onChange={(e) => handleUpload(e.target.files)}
         />
 
@@ -350,9 +367,11 @@ export function LargeDocumentBrowser({ className }: LargeDocumentBrowserProps) {
                       {(result.score * 100).toFixed(0)}%
                     </span>
                   </div>
-                  {result.headingPath && (
+                  {(result.pageStart !== undefined || result.headingPath) && (
                     <p className="text-xs text-gray-500 dark:text-neutral-500 mb-1">
-                      {result.headingPath}
+                      {[formatPageRange(result.pageStart, result.pageEnd), result.headingPath]
+                        .filter(Boolean)
+                        .join(" · ")}
                     </p>
                   )}
                   <p className="text-xs text-gray-600 dark:text-neutral-400 line-clamp-3">
@@ -460,6 +479,12 @@ export function LargeDocumentBrowser({ className }: LargeDocumentBrowserProps) {
                         {/* Bottom row: metadata - wraps naturally */}
                         <div className="flex items-center flex-wrap gap-x-1.5 gap-y-0.5 mt-1 ml-8 text-xs text-gray-500 dark:text-neutral-500">
                           <span>{formatFileSize(doc.fileSize)}</span>
+                          {doc.pageCount !== undefined && (
+                            <>
+                              <span className="text-gray-300 dark:text-neutral-600">•</span>
+                              <span>{doc.pageCount} pages</span>
+                            </>
+                          )}
                           <span className="text-gray-300 dark:text-neutral-600">•</span>
                           <span>{doc.chunkCount} chunks</span>
                         </div>
@@ -0,0 +1,224 @@
+"use client";
+
+/**
+ * Memory Inbox Component
+ *
+ * Sidebar list of facts the Memory Extractor proposed from idle
+ * conversations (lib/memory-extraction.ts). Each can be saved - which queues
+ * a Context Saver task for it - or dismissed.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Check,
+  X,
+  Loader2,
+  AlertCircle,
+  RefreshCw,
+  Inbox,
+  MessageCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  getOpenMemoryProposals,
+  onMemoryInboxChange,
+  type MemoryProposal,
+} from "@/lib/storage/memory-inbox";
+import {
+  saveMemoryProposal,
+  dismissMemoryProposal,
+  resumeMemorySaves,
+} from "@/lib/memory-extraction";
+import type { ChatSummary } from "@/lib/chat-types";
+
+interface MemoryInboxProps {
+  className?: string;
+  /** For showing and opening the conversation a fact came from */
+  conversations: ChatSummary[];
+  onSelectConversation: (id: string) => void;
+  /** Called after a fact was saved to the knowledge base */
+  onKnowledgeChange?: () => void;
+}
+
+const categoryLabels: Record<MemoryProposal["category"], string> = {
+  preference: "Preference",
+  decision: "Decision",
+  person: "Person",
+  fact: "Fact",
+};
+
+export function MemoryInbox({
+  className,
+  conversations,
+  onSelectConversation,
+  onKnowledgeChange,
+}: MemoryInboxProps) {
+  const [proposals, setProposals] = useState<MemoryProposal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadProposals = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setProposals(await getOpenMemoryProposals());
+    } catch (error) {
+      console.error("[MemoryInbox] Failed to load proposals:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProposals();
+    resumeMemorySaves().catch((error) => {
+      console.error("[MemoryInbox] Failed to resume saves:", error);
+    });
+    return onMemoryInboxChange(loadProposals);
+  }, [loadProposals]);
+
+  const handleSave = useCallback(
+    async (proposal: MemoryProposal) => {
+      const result = await saveMemoryProposal(proposal);
+      if (result.status === "saved") onKnowledgeChange?.();
+    },
+    [onKnowledgeChange]
+  );
+
+  const handleSaveAll = useCallback(async () => {
+    // The context saver queue limits how many run at once
+    await Promise.all(proposals.filter((p) => p.status === "pending").map(handleSave));
+  }, [proposals, handleSave]);
+
+  const handleDismissAll = useCallback(async () => {
+    for (const proposal of proposals.filter((p) => p.status !== "saving")) {
+      await dismissMemoryProposal(proposal.id);
+    }
+  }, [proposals]);
+
+  const titles = new Map(conversations.map((c) => [c.id, c.title]));
+  const hasPending = proposals.some((p) => p.status === "pending");
+
+  return (
+    <div className={cn("flex flex-col h-full overflow-hidden", className)}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 dark:border-neutral-700 flex-shrink-0">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-neutral-300">
+            Memory Inbox
+          </h3>
+          <Button
+            size="sm"
+            variant="neumorphic-secondary"
+            onClick={loadProposals}
+            disabled={isLoading}
+          >
+            <RefreshCw className={cn("w-3.5 h-3.5", isLoading && "animate-spin")} />
+          </Button>
+        </div>
+
+        {proposals.length > 0 && (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="neumorphic-primary"
+              className="flex-1 justify-center gap-1"
+              onClick={handleSaveAll}
+              disabled={!hasPending}
+            >
+              <Check className="w-3.5 h-3.5" />
+              Save All
+            </Button>
+            <Button
+              size="sm"
+              variant="neumorphic-secondary"
+              className="flex-1 justify-center gap-1"
+              onClick={handleDismissAll}
+            >
+              <X className="w-3.5 h-3.5" />
+              Dismiss All
+            </Button>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-neutral-500 mt-2">
+          Facts suggested from your recent chats that aren&apos;t in the knowledge base yet.
+        </p>
+      </div>
+
+      {/* Proposal List */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {!isLoading && proposals.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-neutral-500 text-sm">
+            <Inbox className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>Nothing to review</p>
+            <p className="text-xs mt-1">New facts appear here after a chat goes quiet</p>
+          </div>
+        ) : (
+          proposals.map((proposal) => (
+            <div
+              key={proposal.id}
+              className="p-2.5 bg-white dark:bg-neutral-800 rounded-lg border border-gray-200 dark:border-neutral-700"
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-[10px] font-medium uppercase tracking-wide text-fuchsia-600 dark:text-[#ff00ff]">
+                  {categoryLabels[proposal.category]}
+                </span>
+                <span className="text-[10px] text-gray-400 dark:text-neutral-500 truncate flex-1 min-w-0">
+                  {proposal.context}
+                </span>
+                {proposal.status === "saving" && (
+                  <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin flex-shrink-0" />
+                )}
+                {proposal.status === "error" && (
+                  <span title={proposal.error} className="flex-shrink-0">
+                    <AlertCircle className="w-3.5 h-3.5 text-red-500" />
+                  </span>
+                )}
+              </div>
+
+              <p className="text-sm text-gray-900 dark:text-neutral-200">{proposal.text}</p>
+
+              {titles.has(proposal.conversationId) && (
+                <button
+                  onClick={() => onSelectConversation(proposal.conversationId)}
+                  className="mt-1 flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600 dark:text-neutral-500 dark:hover:text-neutral-300 max-w-full"
+                  title="Open conversation"
+                >
+                  <MessageCircle className="w-3 h-3 flex-shrink-0" />
+                  <span className="truncate">{titles.get(proposal.conversationId)}</span>
+                </button>
+              )}
+
+              {proposal.status === "error" && proposal.error && (
+                <p className="mt-1 text-xs text-red-500">{proposal.error}</p>
+              )}
+
+              <div className="mt-2 flex gap-2">
+                <Button
+                  size="sm"
+                  variant="neumorphic-success"
+                  onClick={() => handleSave(proposal)}
+                  disabled={proposal.status === "saving"}
+                >
+                  <Check className="w-3.5 h-3.5 mr-1" />
+                  {proposal.status === "error" ? "Retry" : "Save"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="neumorphic-destructive"
+                  onClick={() => dismissMemoryProposal(proposal.id)}
+                  disabled={proposal.status === "saving"}
+                >
+                  <X className="w-3.5 h-3.5 mr-1" />
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MemoryInbox;
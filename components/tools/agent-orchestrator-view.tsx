@@ -6,7 +6,7 @@
  * an agent and fills with a checkmark when complete.
  *
  * Features:
- * - Max 6 agent slots displayed in a row
+ * - One slot per agent, wrapping into rows of 6
  * - Each slot is an inset rounded-square "hole"
  * - Slots fill with outset checkmarks when agents complete
  * - Clean neumorphic design matching system theme
@@ -23,7 +23,8 @@ import { AiOutlineLoading3Quarters } from "react-icons/ai";
 // CONSTANTS
 // =============================================================================
 
-export const MAX_AGENTS = 6;
+/** Slots per row; more agents wrap onto further rows */
+export const SLOTS_PER_ROW = 6;
 
 // =============================================================================
 // TYPES
@@ -139,10 +140,7 @@ export function AgentOrchestratorView({ state, expectedAgentCount }: AgentOrches
 
   // Use expectedAgentCount if provided, otherwise fall back to totalAgents
   // This allows us to show all slots immediately when we know how many tool calls there are
-  const actualCount = expectedAgentCount ?? totalAgents;
-  
-  // Cap display at MAX_AGENTS
-  const displayCount = Math.min(actualCount, MAX_AGENTS);
+  const displayCount = expectedAgentCount ?? totalAgents;
 
   // Calculate stats
   const stats = useMemo(() => {
@@ -183,8 +181,11 @@ export function AgentOrchestratorView({ state, expectedAgentCount }: AgentOrches
         </span>
       </div>
 
-      {/* Slots row - larger gap for bigger slots */}
-      <div className="flex items-center justify-center gap-3">
+      {/* Slots grid - larger gap for bigger slots */}
+      <div
+        className="grid justify-center gap-3"
+        style={{ gridTemplateColumns: `repeat(${Math.min(displayCount, SLOTS_PER_ROW)}, auto)` }}
+      >
         {slots.map((agent, index) => (
           <AgentSlot key={agent?.id ?? `slot-${index}`} agent={agent} index={index} />
         ))}
@@ -10,6 +10,7 @@
 import React, { useEffect, useCallback, useRef } from "react";
 import { createPortal } from "react-dom";
 import { cn } from "@/lib/utils";
+import { formatPageRange } from "@/knowledge/large-documents";
 import {
   IoClose,
   IoDocument,
@@ -39,6 +40,8 @@ export interface ChunkData {
   // Document search
   documentId?: string;
   filename?: string;
+  pageStart?: number;
+  pageEnd?: number;
   
   // Chat search
   conversationId?: string;
@@ -132,8 +135,10 @@ function getChunkSubtitle(chunk: ChunkData, type: ChunkType): string | null {
   switch (type) {
     case "knowledge":
       return chunk.headingPath || chunk.filePath || null;
-    case "document":
-      return chunk.headingPath || null;
+    case "document": {
+      const parts = [formatPageRange(chunk.pageStart, chunk.pageEnd), chunk.headingPath].filter(Boolean);
+      return parts.length > 0 ? parts.join(" · ") : null;
+    }
     case "chat":
       return chunk.messageRole === "user" ? "Your message" : "Claude's response";
   }
@@ -5,17 +5,38 @@
  * how to organize and save information to the knowledge base.
  *
  * Shows:
+ * - "Waiting to save..." while the task waits in the context saver queue
  * - "Storing information as context..." header with spinner during streaming
+ * - Each tool call the agent makes (search, list, read, then write) as a step
+ * - Changes waiting for review (review mode) as diffs with Accept/Edit/Reject
  * - The agent's "thinking" text as it streams
  * - Completion state with checkmark when done
  */
 
 "use client";
 
-import React from "react";
+import React, { useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
-import { IoCreate, IoCheckmarkCircle } from "react-icons/io5";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { DiffView } from "@/components/diff-view";
+import { diffLines } from "@/knowledge";
+import {
+  IoCreate,
+  IoCheckmarkCircle,
+  IoCloseCircle,
+  IoSearch,
+  IoList,
+  IoReader,
+  IoAdd,
+  IoGitCompare,
+  IoFolderOpen,
+  IoCheckmark,
+  IoClose,
+  IoPencil,
+} from "react-icons/io5";
 import { AiOutlineLoading3Quarters } from "react-icons/ai";
+import type { ContextSaverStep, PendingChange } from "@/lib/context-saver-stream";
 
 // =============================================================================
 // NEUMORPHIC STYLES (matching knowledge-tool-view.tsx)
@@ -44,21 +65,156 @@ const neumorphicInset = cn(
 export interface ParallelTask {
   taskId: string;
   type: "context-save";
-  status: "running" | "complete" | "error";
+  status: "queued" | "running" | "complete" | "error";
   streamedText: string;
+  /** Tool calls made so far, in order */
+  steps: ContextSaverStep[];
+  /** Writes waiting for review (review mode only) */
+  pendingChanges: PendingChange[];
   savedPath?: string;
   error?: string;
 }
 
 interface ContextSaverViewProps {
   task: ParallelTask;
+  /**
+   * Called with the user's decision on a pending change.
+   * `content` is set when the user edited the proposed file content.
+   */
+  onReview?: (approvalId: string, approved: boolean, content?: string) => void;
+}
+
+const stepConfig: Record<string, { icon: React.ComponentType<{ className?: string }>; label: string }> = {
+  kb_search: { icon: IoSearch, label: "Searched" },
+  kb_list: { icon: IoList, label: "Listed" },
+  kb_read: { icon: IoReader, label: "Read" },
+  kb_write: { icon: IoCreate, label: "Wrote" },
+  kb_append: { icon: IoAdd, label: "Appended to" },
+  kb_edit: { icon: IoGitCompare, label: "Edited" },
+  kb_mkdir: { icon: IoFolderOpen, label: "Created folder" },
+};
+
+// =============================================================================
+// STEP LIST
+// =============================================================================
+
+function StepList({ steps }: { steps: ContextSaverStep[] }) {
+  return (
+    <div className="relative mb-3 space-y-1">
+      {steps.map((step) => {
+        const config = stepConfig[step.toolName] ?? { icon: IoCreate, label: step.toolName };
+        const Icon = config.icon;
+        return (
+          <div
+            key={step.toolCallId}
+            className="flex items-center gap-2 text-xs text-gray-600 dark:text-neutral-400"
+            title={step.error}
+          >
+            <Icon className="w-3.5 h-3.5 flex-shrink-0 text-gray-500 dark:text-neutral-400" />
+            <span className="flex-shrink-0">{config.label}</span>
+            <span className="flex-1 min-w-0 truncate font-mono text-gray-500 dark:text-neutral-500">
+              {step.target}
+            </span>
+            {step.status === "running" && (
+              <AiOutlineLoading3Quarters className="w-3 h-3 flex-shrink-0 animate-spin" />
+            )}
+            {step.status === "complete" && <IoCheckmarkCircle className="w-3.5 h-3.5 flex-shrink-0" />}
+            {step.status === "error" && (
+              <IoCloseCircle className="w-3.5 h-3.5 flex-shrink-0 text-red-500 dark:text-red-400" />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// =============================================================================
+// PENDING CHANGE
+// =============================================================================
+
+function PendingChangeCard({
+  change,
+  onReview,
+}: {
+  change: PendingChange;
+  onReview?: ContextSaverViewProps["onReview"];
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(change.after);
+  const lines = useMemo(() => diffLines(change.before ?? "", change.after), [change.before, change.after]);
+  const config = stepConfig[change.toolName] ?? { icon: IoCreate, label: change.toolName };
+  const Icon = config.icon;
+
+  return (
+    <div className={cn(neumorphicInset, "relative mb-3 p-3")}>
+      <div className="flex items-center gap-2 mb-2 text-xs text-gray-600 dark:text-neutral-400">
+        <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+        <span className="flex-shrink-0 font-medium">Review:</span>
+        <span className="flex-1 min-w-0 truncate font-mono">{change.path}</span>
+        {change.before === null && <span className="flex-shrink-0">(new file)</span>}
+      </div>
+
+      {isEditing ? (
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="min-h-40 font-mono text-xs"
+        />
+      ) : (
+        <DiffView lines={lines} className="max-h-64 overflow-y-auto rounded-lg" />
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {isEditing ? (
+          <>
+            <Button
+              size="sm"
+              variant="neumorphic-success"
+              onClick={() => onReview?.(change.approvalId, true, draft)}
+            >
+              <IoCheckmark className="w-4 h-4 mr-1" />
+              Save Edited
+            </Button>
+            <Button size="sm" variant="neumorphic" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              size="sm"
+              variant="neumorphic-success"
+              onClick={() => onReview?.(change.approvalId, true)}
+            >
+              <IoCheckmark className="w-4 h-4 mr-1" />
+              Accept
+            </Button>
+            <Button size="sm" variant="neumorphic" onClick={() => setIsEditing(true)}>
+              <IoPencil className="w-4 h-4 mr-1" />
+              Edit
+            </Button>
+            <Button
+              size="sm"
+              variant="neumorphic-destructive"
+              onClick={() => onReview?.(change.approvalId, false)}
+            >
+              <IoClose className="w-4 h-4 mr-1" />
+              Reject
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
 }
 
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
 
-export function ContextSaverView({ task }: ContextSaverViewProps) {
+export function ContextSaverView({ task, onReview }: ContextSaverViewProps) {
+  const isQueued = task.status === "queued";
   const isRunning = task.status === "running";
   const isComplete = task.status === "complete";
   const isError = task.status === "error";
@@ -138,7 +294,10 @@ export function ContextSaverView({ task }: ContextSaverViewProps) {
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-gray-700 dark:text-neutral-300">
-              {isRunning && "Storing information as context..."}
+              {isQueued && "Waiting to save..."}
+              {isRunning && (task.pendingChanges.length > 0
+                ? "Waiting for your review..."
+                : "Storing information as context...")}
               {isComplete && "Saved to context"}
               {isError && "Failed to save"}
             </span>
@@ -157,6 +316,14 @@ export function ContextSaverView({ task }: ContextSaverViewProps) {
         </div>
       </div>
 
+      {/* Tool calls, one per line */}
+      {task.steps.length > 0 && <StepList steps={task.steps} />}
+
+      {/* Proposed writes waiting for the user */}
+      {task.pendingChanges.map((change) => (
+        <PendingChangeCard key={change.approvalId} change={change} onReview={onReview} />
+      ))}
+
       {/* Streaming text content */}
       {(task.streamedText || isError) && (
         <div className={cn(neumorphicInset, "p-3 max-h-48 overflow-y-auto")}>
@@ -18,7 +18,7 @@ import {
   IoFolderOpen,
 } from "react-icons/io5";
 import { AiOutlineLoading3Quarters } from "react-icons/ai";
-import type { LargeDocumentSearchResult, LargeDocumentMetadata } from "@/knowledge/large-documents";
+import { formatPageRange, type LargeDocumentSearchResult, type LargeDocumentMetadata } from "@/knowledge/large-documents";
 
 // =============================================================================
 // TYPES
@@ -174,6 +174,8 @@ function SearchResults({
     documentId: r.documentId,
     filename: r.filename,
     headingPath: r.headingPath,
+    pageStart: r.pageStart,
+    pageEnd: r.pageEnd,
     matchedTerms: r.matchedTerms,
     queryType: r.queryType,
     reranked: r.reranked,
@@ -253,6 +255,7 @@ function SearchResults({
               const preview = result.chunkText.length > 80 
                 ? result.chunkText.substring(0, 80) + "…" 
                 : result.chunkText;
+              const pageLabel = formatPageRange(result.pageStart, result.pageEnd);
 
               return (
                 <button
@@ -294,10 +297,10 @@ function SearchResults({
                     </span>
                   </div>
                   
-                  {/* Heading path if available */}
-                  {result.headingPath && (
+                  {/* Page range and heading path if available */}
+                  {(pageLabel || result.headingPath) && (
                     <p className="text-[9px] text-gray-400 dark:text-neutral-500 truncate">
-                      {result.headingPath}
+                      {[pageLabel, result.headingPath].filter(Boolean).join(" · ")}
                     </p>
                   )}
                   
@@ -494,7 +497,7 @@ function ListResults({ documents }: { documents: LargeDocumentMetadata[] }) {
                     {doc.filename}
                   </p>
                   <p className="text-xs text-gray-500 dark:text-neutral-400">
-                    {formatFileSize(doc.fileSize)} • {doc.chunkCount} chunks
+                    {formatFileSize(doc.fileSize)} • {doc.pageCount ? `${doc.pageCount} pages • ` : ""}{doc.chunkCount} chunks
                   </p>
                 </div>
                 <span
@@ -20,6 +20,14 @@ import {
   IoList,
   IoReader,
   IoSearch,
+  IoTime,
+  IoArrowUndo,
+  IoCloseCircle,
+  IoGitCompare,
+  IoArrowRedo,
+  IoCopy,
+  IoArrowForward,
+  IoTerminal,
 } from "react-icons/io5";
 import { AiOutlineLoading3Quarters } from "react-icons/ai";
 
@@ -104,6 +112,12 @@ const toolConfig: Record<
     label: "Appending",
     verb: "Appended to",
   },
+  kb_edit: {
+    icon: IoGitCompare,
+    color: "text-gray-500 dark:text-neutral-400",
+    label: "Editing",
+    verb: "Edited",
+  },
   kb_mkdir: {
     icon: IoFolderOpen,
     color: "text-gray-500 dark:text-neutral-400",
@@ -116,12 +130,42 @@ const toolConfig: Record<
     label: "Deleting",
     verb: "Deleted",
   },
+  kb_move: {
+    icon: IoArrowRedo,
+    color: "text-gray-500 dark:text-neutral-400",
+    label: "Moving",
+    verb: "Moved",
+  },
+  kb_copy: {
+    icon: IoCopy,
+    color: "text-gray-500 dark:text-neutral-400",
+    label: "Copying",
+    verb: "Copied",
+  },
   kb_search: {
     icon: IoSearch,
     color: "text-gray-500 dark:text-neutral-400",
     label: "Searching",
     verb: "Searched",
   },
+  kb_grep: {
+    icon: IoTerminal,
+    color: "text-gray-500 dark:text-neutral-400",
+    label: "Grepping",
+    verb: "Grepped",
+  },
+  kb_history: {
+    icon: IoTime,
+    color: "text-gray-500 dark:text-neutral-400",
+    label: "Loading history",
+    verb: "Loaded history of",
+  },
+  kb_restore: {
+    icon: IoArrowUndo,
+    color: "text-gray-500 dark:text-neutral-400",
+    label: "Restoring",
+    verb: "Restored",
+  },
 };
 
 // =============================================================================
@@ -507,12 +551,348 @@ function SearchResult({
   );
 }
 
+interface GrepMatchItem {
+  path: string;
+  line: number;
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+/** kb_grep matches grouped by file, each with its context lines */
+function GrepResult({
+  pattern,
+  matches,
+  files,
+  truncated,
+  error,
+}: {
+  pattern: string;
+  matches: GrepMatchItem[];
+  files: number;
+  truncated: boolean;
+  error?: string;
+}) {
+  const byFile = new Map<string, GrepMatchItem[]>();
+  for (const match of matches) {
+    const fileMatches = byFile.get(match.path);
+    if (fileMatches) fileMatches.push(match);
+    else byFile.set(match.path, [match]);
+  }
+
+  return (
+    <div className={cn(neumorphicBase, "my-3 p-4 isolate")}>
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-3">
+        <div
+          className={cn(
+            "w-10 h-10 rounded-xl flex items-center justify-center",
+            neumorphicInset,
+            error ? "text-red-500 dark:text-red-400" : "text-gray-500 dark:text-neutral-400"
+          )}
+        >
+          {error ? <IoCloseCircle className="w-5 h-5" /> : <IoTerminal className="w-5 h-5" />}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-neutral-300">
+              {error ? "Grep Failed" : "Knowledge Grep"}
+            </span>
+            {!error && <IoCheckmarkCircle className="w-4 h-4 text-gray-500 dark:text-neutral-400" />}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-neutral-400 truncate font-mono">
+            {pattern}
+          </p>
+          {error && <p className="text-xs text-red-500 dark:text-red-400 mt-0.5">{error}</p>}
+        </div>
+        {!error && matches.length > 0 && (
+          <span className="text-xs font-medium text-gray-600 bg-gray-100 dark:bg-neutral-700/50 dark:text-neutral-300 px-2 py-1 rounded-full flex-shrink-0">
+            {matches.length}{truncated ? "+" : ""} match{matches.length !== 1 ? "es" : ""} in {files} file{files !== 1 ? "s" : ""}
+          </span>
+        )}
+      </div>
+
+      {error ? null : matches.length === 0 ? (
+        <div
+          className={cn(
+            neumorphicInset,
+            "p-3 text-center text-sm text-gray-500 dark:text-neutral-400"
+          )}
+        >
+          No matching lines found
+        </div>
+      ) : (
+        <div className={cn(neumorphicInset, "p-2 space-y-2 max-h-96 overflow-y-auto")}>
+          {Array.from(byFile, ([filePath, fileMatches]) => (
+            <div key={filePath}>
+              <div className="flex items-center gap-1.5 px-1 py-1">
+                <IoDocument className="w-3 h-3 text-gray-400 dark:text-neutral-500 flex-shrink-0" />
+                <span className="text-xs font-medium text-gray-600 dark:text-neutral-300 truncate font-mono">
+                  {filePath}
+                </span>
+                <span className="text-[10px] text-gray-400 dark:text-neutral-500 flex-shrink-0">
+                  {fileMatches.length}
+                </span>
+              </div>
+              <div className="rounded-lg bg-white dark:bg-neutral-800 overflow-x-auto">
+                {fileMatches.map((match) => (
+                  <pre
+                    key={match.line}
+                    className="text-[11px] font-mono leading-relaxed py-1 border-b last:border-b-0 border-gray-100 dark:border-neutral-700"
+                  >
+                    {match.before.map((text, i) => (
+                      <div key={`b${i}`} className="px-2 text-gray-400 dark:text-neutral-500">
+                        <span className="inline-block w-8 text-right mr-2 select-none">
+                          {match.line - match.before.length + i}
+                        </span>
+                        {text}
+                      </div>
+                    ))}
+                    <div className="px-2 text-gray-800 dark:text-neutral-200 bg-amber-50 dark:bg-amber-900/20">
+                      <span className="inline-block w-8 text-right mr-2 select-none text-amber-600 dark:text-amber-400">
+                        {match.line}
+                      </span>
+                      {match.text}
+                    </div>
+                    {match.after.map((text, i) => (
+                      <div key={`a${i}`} className="px-2 text-gray-400 dark:text-neutral-500">
+                        <span className="inline-block w-8 text-right mr-2 select-none">
+                          {match.line + 1 + i}
+                        </span>
+                        {text}
+                      </div>
+                    ))}
+                  </pre>
+                ))}
+              </div>
+            </div>
+          ))}
+          {truncated && (
+            <p className="text-[10px] text-center text-gray-400 dark:text-neutral-500">
+              Stopped at {matches.length} matches
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** A unified diff (tool output) colored by line prefix */
+function UnifiedDiffBlock({ diff }: { diff: string }) {
+  return (
+    <div className={cn(neumorphicInset, "p-3 overflow-x-auto max-h-80 overflow-y-auto")}>
+      <pre className="text-xs font-mono leading-relaxed">
+        {diff.split("\n").map((line, i) => (
+          <div
+            key={i}
+            className={cn(
+              line.startsWith("+") && !line.startsWith("+++")
+                ? "text-green-700 dark:text-green-400"
+                : line.startsWith("-") && !line.startsWith("---")
+                ? "text-red-700 dark:text-red-400"
+                : "text-gray-500 dark:text-neutral-400"
+            )}
+          >
+            {line || " "}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+interface HistoryRevisionItem {
+  id: string;
+  action: string;
+  createdAt: number;
+  added: number;
+  removed: number;
+}
+
+function HistoryResult({
+  path,
+  revisions,
+  total,
+  diff,
+}: {
+  path: string;
+  revisions: HistoryRevisionItem[];
+  total: number;
+  diff?: string;
+}) {
+  const fileName = path.split("/").pop() || path;
+  const isEmpty = revisions.length === 0;
+
+  return (
+    <div className={cn(neumorphicBase, "my-3 p-4 isolate")}>
+      <div className="flex items-center gap-3 mb-3">
+        <div
+          className={cn(
+            "w-10 h-10 rounded-xl flex items-center justify-center",
+            neumorphicInset,
+            "text-gray-500 dark:text-neutral-400"
+          )}
+        >
+          <IoTime className="w-5 h-5" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-neutral-300">
+              {diff !== undefined ? "Revision" : "History"}
+            </span>
+            <IoCheckmarkCircle className="w-4 h-4 text-gray-500 dark:text-neutral-400" />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-neutral-400 truncate font-mono">
+            {fileName}
+          </p>
+        </div>
+        {diff === undefined && !isEmpty && (
+          <span className="text-xs font-medium text-gray-600 bg-gray-100 dark:bg-neutral-700/50 dark:text-neutral-300 px-2 py-1 rounded-full">
+            {total} revision{total !== 1 ? "s" : ""}
+          </span>
+        )}
+      </div>
+
+      {diff !== undefined ? (
+        <UnifiedDiffBlock diff={diff} />
+      ) : isEmpty ? (
+        <div
+          className={cn(
+            neumorphicInset,
+            "p-3 text-center text-sm text-gray-500 dark:text-neutral-400"
+          )}
+        >
+          No revisions yet
+        </div>
+      ) : (
+        <div className={cn(neumorphicInset, "p-2 space-y-1")}>
+          {revisions.map((revision) => (
+            <div
+              key={revision.id}
+              className="flex items-center gap-2 px-2 py-1 text-xs text-gray-600 dark:text-neutral-400"
+            >
+              <span className="font-medium capitalize w-14">{revision.action}</span>
+              <span className="flex-1 truncate">
+                {new Date(revision.createdAt).toLocaleString()}
+              </span>
+              <span className="text-green-600 dark:text-green-400">+{revision.added}</span>
+              <span className="text-red-600 dark:text-red-400">-{revision.removed}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function EditResult({
+  path,
+  replacements,
+  diff,
+  error,
+}: {
+  path: string;
+  replacements: number;
+  diff: string;
+  error?: string;
+}) {
+  const fileName = path.split("/").pop() || path;
+
+  return (
+    <div className={cn(neumorphicBase, "my-3 p-4 isolate")}>
+      <div className={cn("flex items-center gap-3", !error && "mb-3")}>
+        <div
+          className={cn(
+            "w-10 h-10 rounded-xl flex items-center justify-center",
+            neumorphicInset,
+            error ? "text-red-500 dark:text-red-400" : "text-gray-500 dark:text-neutral-400"
+          )}
+        >
+          {error ? <IoCloseCircle className="w-5 h-5" /> : <IoGitCompare className="w-5 h-5" />}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-neutral-300">
+              {error ? "Edit Failed" : "Edited"}
+            </span>
+            {!error && <IoCheckmarkCircle className="w-4 h-4 text-gray-500 dark:text-neutral-400" />}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-neutral-400 truncate font-mono">
+            {fileName}
+          </p>
+          {error && <p className="text-xs text-red-500 dark:text-red-400 mt-0.5">{error}</p>}
+        </div>
+        {!error && replacements > 1 && (
+          <span className="text-xs font-medium text-gray-600 bg-gray-100 dark:bg-neutral-700/50 dark:text-neutral-300 px-2 py-1 rounded-full">
+            {replacements} changes
+          </span>
+        )}
+      </div>
+
+      {!error && diff && <UnifiedDiffBlock diff={diff} />}
+    </div>
+  );
+}
+
+function TransferResult({
+  from,
+  to,
+  action,
+  files,
+  error,
+}: {
+  from: string;
+  to: string;
+  action: "move" | "copy";
+  files: number;
+  error?: string;
+}) {
+  const Icon = error ? IoCloseCircle : action === "move" ? IoArrowRedo : IoCopy;
+  const label = action === "move" ? "Moved" : "Copied";
+
+  return (
+    <div className={cn(neumorphicBase, "relative my-3 p-4 overflow-hidden isolate")}>
+      <div className="relative flex items-center gap-3">
+        <div
+          className={cn(
+            "w-10 h-10 rounded-xl flex items-center justify-center",
+            neumorphicInset,
+            error ? "text-red-500 dark:text-red-400" : "text-gray-500 dark:text-neutral-400"
+          )}
+        >
+          <Icon className="w-5 h-5" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-neutral-300">
+              {error ? `${action === "move" ? "Move" : "Copy"} Failed` : label}
+            </span>
+            {!error && <IoCheckmarkCircle className="w-4 h-4 text-gray-500 dark:text-neutral-400" />}
+          </div>
+          <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-neutral-400 font-mono min-w-0">
+            <span className="truncate">{from}</span>
+            <IoArrowForward className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{to}</span>
+          </p>
+          {error && <p className="text-xs text-red-500 dark:text-red-400 mt-0.5">{error}</p>}
+        </div>
+        {!error && files > 1 && (
+          <span className="text-xs font-medium text-gray-600 bg-gray-100 dark:bg-neutral-700/50 dark:text-neutral-300 px-2 py-1 rounded-full">
+            {files} files
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function WriteResult({
   path,
   action,
 }: {
   path: string;
-  action: "write" | "append" | "mkdir" | "delete";
+  action: "write" | "append" | "mkdir" | "delete" | "restore";
 }) {
   const fileName = path.split("/").pop() || path;
 
@@ -541,6 +921,12 @@ function WriteResult({
       label: "Deleted",
       bg: "from-gray-50 to-gray-100 dark:from-neutral-800/50 dark:to-neutral-800/30",
     },
+    restore: {
+      icon: IoArrowUndo,
+      color: "text-gray-500 dark:text-neutral-400",
+      label: "Restored",
+      bg: "from-gray-50 to-gray-100 dark:from-neutral-800/50 dark:to-neutral-800/30",
+    },
   };
 
   const config = configs[action];
@@ -603,9 +989,18 @@ export function KnowledgeToolView({
     invocation.state === "call" ||            // Legacy
     invocation.state === "output-pending";    // Legacy
 
-  // Loading state - show query for kb_search, path for others
+  // Loading state - show query for kb_search, pattern for kb_grep, revision for kb_restore, source for kb_move/kb_copy, path for others
   if (isLoading) {
-    const displayPath = toolName === "kb_search" ? (query || "searching...") : path;
+    const displayPath =
+      toolName === "kb_search"
+        ? (query || "searching...")
+        : toolName === "kb_grep"
+        ? ((invocation.input?.pattern as string) || "searching...")
+        : toolName === "kb_restore"
+        ? ((invocation.input?.revisionId as string) || "")
+        : toolName === "kb_move" || toolName === "kb_copy"
+        ? ((invocation.input?.from as string) || "")
+        : path;
     return <ToolLoading toolName={toolName} path={displayPath} />;
   }
 
@@ -633,12 +1028,34 @@ export function KnowledgeToolView({
       case "kb_append":
         return <WriteResult path={path} action="append" />;
 
+      case "kb_edit":
+        return (
+          <EditResult
+            path={(output.path as string) || path}
+            replacements={(output.replacements as number) || 0}
+            diff={(output.diff as string) || ""}
+            error={output.error as string | undefined}
+          />
+        );
+
       case "kb_mkdir":
         return <WriteResult path={path} action="mkdir" />;
 
       case "kb_delete":
         return <WriteResult path={path} action="delete" />;
 
+      case "kb_move":
+      case "kb_copy":
+        return (
+          <TransferResult
+            from={(output.from as string) || (invocation.input?.from as string) || ""}
+            to={(output.to as string) || (invocation.input?.to as string) || ""}
+            action={toolName === "kb_move" ? "move" : "copy"}
+            files={(output.files as number) || 0}
+            error={output.error as string | undefined}
+          />
+        );
+
       case "kb_search":
         return (
           <SearchResult
@@ -647,6 +1064,36 @@ export function KnowledgeToolView({
           />
         );
 
+      case "kb_grep":
+        return (
+          <GrepResult
+            pattern={(invocation.input?.pattern as string) || ""}
+            matches={(output.matches as GrepMatchItem[]) || []}
+            files={(output.files as number) || 0}
+            truncated={Boolean(output.truncated)}
+            error={output.error as string | undefined}
+          />
+        );
+
+      case "kb_history":
+        return (
+          <HistoryResult
+            path={path}
+            revisions={
+              output.revision
+                ? [output.revision as HistoryRevisionItem]
+                : (output.revisions as HistoryRevisionItem[]) || []
+            }
+            total={(output.total as number) || 0}
+            diff={output.diff as string | undefined}
+          />
+        );
+
+      case "kb_restore":
+        return output.error ? null : (
+          <WriteResult path={(output.path as string) || ""} action="restore" />
+        );
+
       default:
         return null;
     }
@@ -16,6 +16,7 @@ import { getAllLinks, createLink } from "./links/operations";
 import { embedFile } from "./embeddings/operations";
 import type { KnowledgeNode } from "./types";
 import type { KnowledgeLink, RelationshipType } from "./links/types";
+import { publishChange } from "@/lib/storage/sync";
 
 /**
  * Exported file structure (preserves folder hierarchy)
@@ -287,6 +288,9 @@ export async function importKnowledgeBase(
   }
 
   result.success = result.errors.length === 0;
+  if (result.filesImported > 0 || result.linksImported > 0) {
+    publishChange("knowledge");
+  }
   return result;
 }
 
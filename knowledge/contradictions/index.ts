@@ -0,0 +1,10 @@
+/**
+ * Knowledge Contradictions Module
+ *
+ * Re-exports contradiction detection, storage and the judge client.
+ * Detection is triggered from ../operations.ts when a file changes.
+ */
+
+export * from "./types";
+export * from "./operations";
+export * from "./judge-client";
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { saveApiKeys, setCurrentApiKeyUser } from "@/lib/api-keys";
+import { judgeContradictions } from "./judge-client";
+import type { ContradictionCandidate } from "./types";
+
+const candidate: ContradictionCandidate = {
+  pairId: "pair-1",
+  path: "/preferences/languages.md",
+  text: "Prefers TypeScript.",
+  headingPath: "Languages",
+  otherPath: "/notes/stack.md",
+  otherText: "Avoids TypeScript.",
+  otherHeadingPath: "Stack",
+  similarity: 0.9,
+};
+
+/** localStorage as the browser has it, backed by a Map */
+function createLocalStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+describe("judgeContradictions", () => {
+  const fetchMock = vi.fn(async () => Response.json({ verdicts: [] }));
+
+  beforeEach(() => {
+    vi.stubGlobal("window", {});
+    vi.stubGlobal("localStorage", createLocalStorage());
+    vi.stubGlobal("fetch", fetchMock);
+    fetchMock.mockClear();
+  });
+
+  afterEach(() => {
+    setCurrentApiKeyUser(undefined);
+    vi.unstubAllGlobals();
+  });
+
+  function sentKey(): unknown {
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    return JSON.parse(init.body as string).anthropicApiKey;
+  }
+
+  it("sends the signed-in user's key", async () => {
+    saveApiKeys({ anthropicApiKey: "sk-user-1" }, "user-1");
+    setCurrentApiKeyUser("user-1");
+
+    await judgeContradictions([candidate]);
+
+    expect(sentKey()).toBe("sk-user-1");
+  });
+
+  it("doesn't send another user's key", async () => {
+    saveApiKeys({ anthropicApiKey: "sk-user-1" }, "user-1");
+    setCurrentApiKeyUser("user-2");
+
+    await judgeContradictions([candidate]);
+
+    expect(sentKey()).toBeUndefined();
+  });
+});
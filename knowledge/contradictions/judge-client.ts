@@ -0,0 +1,47 @@
+/**
+ * Contradiction Judge Client
+ *
+ * Client-side call to /api/check-contradictions, where an LLM decides which
+ * candidate chunk pairs actually conflict.
+ *
+ * BYOK (Bring Your Own Key):
+ * --------------------------
+ * Sends the signed-in user's Anthropic key from localStorage, if they have one.
+ * Owner users don't need to provide a key. While the local model is
+ * selected, the local endpoint judges instead.
+ */
+
+import { getBackgroundLocalEndpoint, getCurrentApiKeys } from "@/lib/api-keys";
+import type { ContradictionCandidate, ContradictionVerdict } from "./types";
+
+/**
+ * Ask the judge which candidate pairs conflict.
+ * Returns a verdict per pair the judge answered for.
+ */
+export async function judgeContradictions(
+  candidates: ContradictionCandidate[]
+): Promise<ContradictionVerdict[]> {
+  if (candidates.length === 0) return [];
+
+  const res = await fetch("/api/check-contradictions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      pairs: candidates.map((c) => ({
+        pairId: c.pairId,
+        a: { path: c.path, headingPath: c.headingPath, text: c.text },
+        b: { path: c.otherPath, headingPath: c.otherHeadingPath, text: c.otherText },
+      })),
+      anthropicApiKey: getCurrentApiKeys().anthropicApiKey,
+      localEndpoint: getBackgroundLocalEndpoint(),
+    }),
+  });
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(error.error || "Failed to check contradictions");
+  }
+
+  const { verdicts } = await res.json();
+  return verdicts;
+}
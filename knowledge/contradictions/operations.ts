@@ -0,0 +1,296 @@
+/**
+ * Knowledge Contradiction Operations
+ *
+ * Detects statements that conflict across files. After a file's chunks are
+ * (re-)embedded, each changed chunk is paired with the closest chunks in
+ * other files, the judge decides which pairs actually conflict, and every
+ * conflict gets a bidirectional "contradicts" link plus a record the user
+ * resolves from the inbox.
+ *
+ * Detection is triggered by the filesystem operations in ../operations.ts,
+ * which also keep records in step when files are deleted or moved.
+ */
+
+import { getKnowledgeDb } from "../idb";
+import { findSimilarChunks } from "../embeddings/operations";
+import type { EmbeddingRecord } from "../embeddings/types";
+import { createLink, deleteLink } from "../links/operations";
+import { judgeContradictions } from "./judge-client";
+import type {
+  Contradiction,
+  ContradictionCandidate,
+  ContradictionJudge,
+  ContradictionStatus,
+} from "./types";
+
+/** Cosine similarity at which two chunks are close enough to compare */
+export const CONTRADICTION_CANDIDATE_SIMILARITY = 0.8;
+
+/** Most pairs judged per file change, to bound the judge's cost */
+export const MAX_CONTRADICTION_CANDIDATES = 8;
+
+/** Closest chunks paired with each changed chunk */
+const NEIGHBORS_PER_CHUNK = 3;
+
+function normalizePath(path: string): string {
+  if (!path || path === "/") return "/";
+  return "/" + path.split("/").filter(Boolean).join("/");
+}
+
+function pairId(a: EmbeddingRecord, b: EmbeddingRecord): string {
+  return [a.contentHash, b.contentHash].sort().join(":");
+}
+
+// =============================================================================
+// CHANGE LISTENERS
+// =============================================================================
+
+const listeners = new Set<() => void>();
+
+/**
+ * Subscribe to contradiction changes (the inbox badge and list use this).
+ *
+ * @returns Unsubscribe function
+ */
+export function onContradictionsChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyChange(): void {
+  for (const listener of listeners) listener();
+}
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+/**
+ * Pair a file's changed chunks with the closest chunks in other files.
+ * Pairs that were already flagged (whatever their status) are skipped.
+ *
+ * @param path - File that changed
+ * @param chunks - Its newly embedded chunks (from embedFile)
+ */
+export async function findContradictionCandidates(
+  path: string,
+  chunks: EmbeddingRecord[]
+): Promise<ContradictionCandidate[]> {
+  const db = await getKnowledgeDb();
+  const candidates: ContradictionCandidate[] = [];
+  const seen = new Set<string>();
+
+  for (const chunk of chunks) {
+    const neighbors = await findSimilarChunks(chunk.embedding, {
+      threshold: CONTRADICTION_CANDIDATE_SIMILARITY,
+      topK: NEIGHBORS_PER_CHUNK,
+      excludeFile: path,
+    });
+    for (const neighbor of neighbors) {
+      const id = pairId(chunk, neighbor);
+      if (seen.has(id) || (await db.get("contradictions", id))) continue;
+      seen.add(id);
+      candidates.push({
+        pairId: id,
+        path,
+        text: chunk.chunkText,
+        headingPath: chunk.headingPath,
+        otherPath: neighbor.filePath,
+        otherText: neighbor.chunkText,
+        otherHeadingPath: neighbor.headingPath,
+        similarity: neighbor.score,
+      });
+    }
+  }
+
+  // Most similar pairs are the likeliest to be about the same thing
+  return candidates
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_CONTRADICTION_CANDIDATES);
+}
+
+/**
+ * Check a changed file for statements that conflict with other files.
+ * Open conflicts whose statement is no longer in the file are resolved.
+ *
+ * @param path - File that changed
+ * @param chunks - Its newly embedded chunks (from embedFile)
+ * @param judge - Decides which pairs conflict (default: /api/check-contradictions)
+ * @returns Newly detected contradictions
+ */
+export async function detectContradictions(
+  path: string,
+  chunks: EmbeddingRecord[],
+  judge: ContradictionJudge = judgeContradictions
+): Promise<Contradiction[]> {
+  const normalizedPath = normalizePath(path);
+  await resolveStaleContradictions(normalizedPath);
+
+  const candidates = await findContradictionCandidates(normalizedPath, chunks);
+  if (candidates.length === 0) return [];
+
+  const verdicts = await judge(candidates);
+  const db = await getKnowledgeDb();
+  const detected: Contradiction[] = [];
+
+  for (const verdict of verdicts) {
+    const candidate = candidates.find((c) => c.pairId === verdict.pairId);
+    if (!candidate || !verdict.contradicts) continue;
+
+    const result = await createLink(candidate.path, candidate.otherPath, "contradicts", {
+      bidirectional: true,
+      notes: verdict.explanation,
+    });
+    if (!result.success) continue; // The other file was deleted meanwhile
+
+    const now = Date.now();
+    const contradiction: Contradiction = {
+      id: candidate.pairId,
+      path: candidate.path,
+      chunkText: candidate.text,
+      headingPath: candidate.headingPath,
+      otherPath: candidate.otherPath,
+      otherChunkText: candidate.otherText,
+      otherHeadingPath: candidate.otherHeadingPath,
+      explanation: verdict.explanation,
+      status: "open",
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.put("contradictions", contradiction);
+    detected.push(contradiction);
+  }
+
+  if (detected.length > 0) notifyChange();
+  return detected;
+}
+
+/**
+ * Resolve open contradictions of a file whose statement was edited away.
+ */
+async function resolveStaleContradictions(path: string): Promise<void> {
+  const db = await getKnowledgeDb();
+  const texts = new Set(
+    (await db.getAllFromIndex("embeddings", "by-file", path)).map((e) => e.chunkText)
+  );
+
+  let changed = false;
+  for (const contradiction of await getContradictions("open")) {
+    const stale =
+      (contradiction.path === path && !texts.has(contradiction.chunkText)) ||
+      (contradiction.otherPath === path && !texts.has(contradiction.otherChunkText));
+    if (stale) {
+      await db.put("contradictions", { ...contradiction, status: "resolved", updatedAt: Date.now() });
+      changed = true;
+    }
+  }
+  if (changed) notifyChange();
+}
+
+// =============================================================================
+// QUERIES & RESOLUTION
+// =============================================================================
+
+/**
+ * Get contradictions, newest first. Pass a status to get only those.
+ */
+export async function getContradictions(status?: ContradictionStatus): Promise<Contradiction[]> {
+  const db = await getKnowledgeDb();
+  const contradictions = status
+    ? await db.getAllFromIndex("contradictions", "by-status", status)
+    : await db.getAll("contradictions");
+  return contradictions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Resolve a contradiction from the inbox.
+ * - "keep": both statements stand; the "contradicts" link records the change
+ * - "dismiss": not a real conflict; the link is removed unless another
+ *   conflict between the same files still needs it
+ *
+ * @throws Error if the contradiction doesn't exist
+ */
+export async function resolveContradiction(
+  id: string,
+  resolution: "keep" | "dismiss"
+): Promise<Contradiction> {
+  const db = await getKnowledgeDb();
+  const contradiction = await db.get("contradictions", id);
+  if (!contradiction) {
+    throw new Error(`Contradiction not found: ${id}`);
+  }
+
+  const updated: Contradiction = {
+    ...contradiction,
+    status: resolution === "keep" ? "resolved" : "dismissed",
+    updatedAt: Date.now(),
+  };
+  await db.put("contradictions", updated);
+
+  if (resolution === "dismiss") {
+    const samePair = (c: Contradiction) =>
+      (c.path === updated.path && c.otherPath === updated.otherPath) ||
+      (c.path === updated.otherPath && c.otherPath === updated.path);
+    const stillNeeded = (await getContradictions()).some(
+      (c) => c.id !== id && c.status !== "dismissed" && samePair(c)
+    );
+    if (!stillNeeded) {
+      await deleteLink(updated.path, updated.otherPath, "contradicts");
+      await deleteLink(updated.otherPath, updated.path, "contradicts");
+    }
+  }
+
+  notifyChange();
+  return updated;
+}
+
+// =============================================================================
+// FILE LIFECYCLE
+// =============================================================================
+
+/**
+ * Delete all contradictions involving a file (called when it is deleted).
+ *
+ * @returns Number of contradictions deleted
+ */
+export async function deleteContradictionsForFile(path: string): Promise<number> {
+  const normalizedPath = normalizePath(path);
+  const db = await getKnowledgeDb();
+
+  let deleted = 0;
+  for (const contradiction of await db.getAll("contradictions")) {
+    if (contradiction.path === normalizedPath || contradiction.otherPath === normalizedPath) {
+      await db.delete("contradictions", contradiction.id);
+      deleted++;
+    }
+  }
+  if (deleted > 0) notifyChange();
+  return deleted;
+}
+
+/**
+ * Point a file's contradictions at its new path (called when it is moved).
+ *
+ * @returns Number of contradictions rewritten
+ */
+export async function moveContradictionsForFile(from: string, to: string): Promise<number> {
+  const normalizedFrom = normalizePath(from);
+  const normalizedTo = normalizePath(to);
+  const db = await getKnowledgeDb();
+
+  let moved = 0;
+  for (const contradiction of await db.getAll("contradictions")) {
+    if (contradiction.path !== normalizedFrom && contradiction.otherPath !== normalizedFrom) continue;
+    await db.put("contradictions", {
+      ...contradiction,
+      path: contradiction.path === normalizedFrom ? normalizedTo : contradiction.path,
+      otherPath: contradiction.otherPath === normalizedFrom ? normalizedTo : contradiction.otherPath,
+      updatedAt: Date.now(),
+    });
+    moved++;
+  }
+  if (moved > 0) notifyChange();
+  return moved;
+}
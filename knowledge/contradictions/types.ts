@@ -0,0 +1,67 @@
+/**
+ * Knowledge Contradiction Types
+ *
+ * When a file changes, its new chunks are compared with semantically close
+ * chunks in other files and an LLM judge flags statements that conflict.
+ * Each conflict is linked in the graph ("contradicts") and kept here until
+ * the user resolves it.
+ */
+
+/**
+ * - "open": waiting for the user
+ * - "resolved": the user kept both statements, or one of them was edited away
+ * - "dismissed": not a real conflict (its link is removed)
+ */
+export type ContradictionStatus = "open" | "resolved" | "dismissed";
+
+/**
+ * Two chunks in different files the judge found to conflict, stored in IndexedDB.
+ */
+export interface Contradiction {
+  /** Both chunks' content hashes, sorted - the same pair is only flagged once */
+  id: string;
+  /** File whose change surfaced the conflict (the newer statement) */
+  path: string;
+  chunkText: string;
+  headingPath: string;
+  /** File with the existing, conflicting statement */
+  otherPath: string;
+  otherChunkText: string;
+  otherHeadingPath: string;
+  /** The judge's explanation of the conflict */
+  explanation: string;
+  status: ContradictionStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A pair of similar chunks sent to the judge.
+ */
+export interface ContradictionCandidate {
+  pairId: string;
+  path: string;
+  text: string;
+  headingPath: string;
+  otherPath: string;
+  otherText: string;
+  otherHeadingPath: string;
+  /** Cosine similarity of the two chunks */
+  similarity: number;
+}
+
+/**
+ * The judge's decision on one candidate pair.
+ */
+export interface ContradictionVerdict {
+  pairId: string;
+  contradicts: boolean;
+  explanation: string;
+}
+
+/**
+ * Decides which candidate pairs conflict (see ./judge-client.ts).
+ */
+export type ContradictionJudge = (
+  candidates: ContradictionCandidate[]
+) => Promise<ContradictionVerdict[]>;
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { applyEdit } from "./edit";
+
+function patchFile(content: string, patch: string): string {
+  return applyEdit(content, { patch }, "/notes/file.md").content;
+}
+
+describe("applyEdit in patch mode", () => {
+  it("skips file headers before the first hunk", () => {
+    const patch = ["--- a/notes/file.md", "+++ b/notes/file.md", "@@ -1,3 +1,3 @@", " one", "-two", "+TWO", " three"].join("\n");
+
+    expect(patchFile("one\ntwo\nthree", patch)).toBe("one\nTWO\nthree");
+  });
+
+  it("treats --- and +++ inside a hunk as removed and added lines", () => {
+    const content = "SELECT 1;\n-- old comment\nSELECT 2;";
+    const patch = ["@@ -1,3 +1,3 @@", " SELECT 1;", "--- old comment", "+++ new comment", " SELECT 2;"].join("\n");
+
+    expect(patchFile(content, patch)).toBe("SELECT 1;\n++ new comment\nSELECT 2;");
+  });
+
+  it("removes -- lines and adds ++ lines", () => {
+    const content = "a\n--\nb";
+    const patch = ["@@ -1,3 +1,3 @@", " a", "---", "+++", " b"].join("\n");
+
+    expect(patchFile(content, patch)).toBe("a\n++\nb");
+  });
+
+  it("inserts after the line a -N,0 header names", () => {
+    expect(patchFile("one\ntwo\nthree", "@@ -2,0 +3,1 @@\n+inserted")).toBe("one\ntwo\ninserted\nthree");
+    expect(patchFile("", "@@ -0,0 +1,1 @@\n+first")).toBe("first");
+  });
+
+  it("applies later hunks at the right line after an insertion", () => {
+    // Repeated lines, so only the header line numbers can place hunk 2
+    const content = ["a", "b", "x", "x", "x", "x"].join("\n");
+    const patch = ["@@ -1,0 +2,1 @@", "+new", "@@ -4,1 +5,1 @@", "-x", "+Y"].join("\n");
+
+    expect(patchFile(content, patch)).toBe(["a", "new", "b", "x", "Y", "x", "x"].join("\n"));
+  });
+
+  it("applies several hunks that change the line count", () => {
+    const content = ["h1", "a", "b", "h2", "c", "h3", "d"].join("\n");
+    const patch = [
+      "@@ -1,2 +1,3 @@",
+      " h1",
+      "+a0",
+      " a",
+      "@@ -3,0 +5,2 @@",
+      "+b1",
+      "+b2",
+      "@@ -5,2 +7,1 @@",
+      "-c",
+      " h3",
+    ].join("\n");
+
+    expect(patchFile(content, patch)).toBe(["h1", "a0", "a", "b", "b1", "b2", "h2", "h3", "d"].join("\n"));
+  });
+
+  it("rejects a patch without hunk headers", () => {
+    expect(() => patchFile("one", "-one\n+two")).toThrow("@@ hunk headers");
+  });
+});
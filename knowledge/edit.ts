@@ -0,0 +1,246 @@
+/**
+ * Knowledge File Edits
+ *
+ * Targeted in-place edits for kb_edit, so the model can change part of a
+ * long file without echoing the whole thing back through kb_write.
+ *
+ * Two modes:
+ * - String replace: `oldText` must match exactly once (or set `replaceAll`)
+ * - Unified patch: each hunk's context/removed lines must match the file
+ *
+ * Anything ambiguous or non-matching throws with a message that tells the
+ * model how to fix its call. Pure functions - shared by the browser
+ * (operations.ts) and the server store.
+ */
+
+/**
+ * An edit to apply to a file's content.
+ */
+export type FileEdit =
+  | { oldText: string; newText: string; replaceAll?: boolean }
+  | { patch: string };
+
+export interface AppliedEdit {
+  /** The edited content */
+  content: string;
+  /** Number of replacements (string mode) or hunks (patch mode) applied */
+  replacements: number;
+}
+
+interface PatchHunk {
+  /** 1-based start line in the old file from the @@ header (0 if absent) */
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+// =============================================================================
+// STRING REPLACE
+// =============================================================================
+
+function countOccurrences(content: string, search: string): number {
+  let count = 0;
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    count++;
+    index = content.indexOf(search, index + search.length);
+  }
+  return count;
+}
+
+function applyStringEdit(
+  content: string,
+  oldText: string,
+  newText: string,
+  replaceAll: boolean,
+  path: string
+): AppliedEdit {
+  if (oldText === "") {
+    throw new Error("oldText is empty. Use kb_append to add to the end of a file, or kb_write to replace it.");
+  }
+  if (oldText === newText) {
+    throw new Error("oldText and newText are identical - nothing to change.");
+  }
+
+  const matches = countOccurrences(content, oldText);
+  if (matches === 0) {
+    throw new Error(
+      `oldText was not found in ${path}. Read the file with kb_read and copy the text exactly, including whitespace and line breaks.`
+    );
+  }
+  if (matches > 1 && !replaceAll) {
+    throw new Error(
+      `oldText matches ${matches} places in ${path}. Include more surrounding text to make it unique, or set replaceAll=true to change every occurrence.`
+    );
+  }
+
+  return {
+    content: content.split(oldText).join(newText),
+    replacements: matches,
+  };
+}
+
+// =============================================================================
+// UNIFIED PATCH
+// =============================================================================
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+function parsePatch(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: PatchHunk | null = null;
+
+  for (const line of patch.replace(/\r\n/g, "\n").split("\n")) {
+    if (line.startsWith("\\")) continue;
+    // File headers come before the first hunk; inside a hunk "--- x" removes
+    // the line "-- x"
+    if (!current && (line.startsWith("--- ") || line.startsWith("+++ "))) continue;
+
+    const header = HUNK_HEADER.exec(line);
+    if (header || line.startsWith("@@")) {
+      current = { oldStart: header ? Number(header[1]) : 0, oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+
+    if (!current) {
+      if (line.trim() === "") continue;
+      throw new Error("Patch must contain @@ hunk headers, e.g. \"@@ -3,2 +3,2 @@\".");
+    }
+
+    if (line.startsWith("+")) {
+      current.newLines.push(line.slice(1));
+    } else if (line.startsWith("-")) {
+      current.oldLines.push(line.slice(1));
+    } else {
+      // Context line - models often drop the leading space on blank lines
+      const text = line.startsWith(" ") ? line.slice(1) : line;
+      current.oldLines.push(text);
+      current.newLines.push(text);
+    }
+  }
+
+  // Trailing blank lines at the end of the patch text are not context
+  for (const hunk of hunks) {
+    while (
+      hunk.oldLines.length > 0 &&
+      hunk.newLines.length > 0 &&
+      hunk.oldLines[hunk.oldLines.length - 1] === "" &&
+      hunk.newLines[hunk.newLines.length - 1] === ""
+    ) {
+      hunk.oldLines.pop();
+      hunk.newLines.pop();
+    }
+  }
+
+  return hunks.filter((hunk) => hunk.oldLines.length > 0 || hunk.newLines.length > 0);
+}
+
+function blockMatchesAt(lines: string[], block: string[], start: number): boolean {
+  if (start < 0 || start + block.length > lines.length) return false;
+  return block.every((line, i) => lines[start + i] === line);
+}
+
+function applyPatch(content: string, patch: string, path: string): AppliedEdit {
+  const hunks = parsePatch(patch);
+  if (hunks.length === 0) {
+    throw new Error("Patch contains no changes.");
+  }
+
+  const lines = content === "" ? [] : content.split("\n");
+  // Shift between header line numbers and the partially patched file
+  let offset = 0;
+
+  hunks.forEach((hunk, index) => {
+    const label = `Hunk ${index + 1} of ${hunks.length}`;
+    // Line index the header points at: a pure insertion ("-N,0") goes after
+    // line N, any other hunk starts at line N
+    const anchor = hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = hunk.oldStart > 0 ? anchor + offset : -1;
+    let start: number;
+
+    if (hunk.oldLines.length === 0) {
+      // Pure insertion - only the header can say where
+      if (hunk.oldStart === 0 && lines.length > 0) {
+        throw new Error(`${label} has no context lines. Add a few unchanged lines around the insertion.`);
+      }
+      start = Math.min(Math.max(anchor + offset, 0), lines.length);
+    } else if (blockMatchesAt(lines, hunk.oldLines, expected)) {
+      start = expected;
+    } else {
+      const candidates: number[] = [];
+      for (let i = 0; i + hunk.oldLines.length <= lines.length; i++) {
+        if (blockMatchesAt(lines, hunk.oldLines, i)) candidates.push(i);
+      }
+      if (candidates.length === 0) {
+        throw new Error(
+          `${label} does not match ${path}: its context and "-" lines were not found. Read the file with kb_read and rebuild the patch from the current content.`
+        );
+      }
+      if (candidates.length > 1) {
+        throw new Error(
+          `${label} matches ${candidates.length} places in ${path} (lines ${candidates.map((c) => c + 1).join(", ")}). Add more context lines or fix the @@ line numbers.`
+        );
+      }
+      start = candidates[0];
+    }
+
+    lines.splice(start, hunk.oldLines.length, ...hunk.newLines);
+    const delta = hunk.newLines.length - hunk.oldLines.length;
+    // A header without line numbers says nothing about the shift
+    offset = hunk.oldStart > 0 ? start - anchor + delta : offset + delta;
+  });
+
+  return { content: lines.join("\n"), replacements: hunks.length };
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Build a FileEdit from kb_edit tool input, which carries both modes as
+ * optional fields.
+ *
+ * @throws Error unless exactly one mode is given
+ */
+export function toFileEdit(input: {
+  oldText?: string;
+  newText?: string;
+  replaceAll?: boolean;
+  patch?: string;
+}): FileEdit {
+  const hasReplace = input.oldText !== undefined;
+  const hasPatch = input.patch !== undefined;
+
+  if (hasReplace === hasPatch) {
+    throw new Error("Provide either oldText and newText, or patch - not both.");
+  }
+  if (hasPatch) {
+    return { patch: input.patch as string };
+  }
+  if (input.newText === undefined) {
+    throw new Error("newText is required with oldText (use an empty string to delete the text).");
+  }
+  return { oldText: input.oldText as string, newText: input.newText, replaceAll: input.replaceAll };
+}
+
+/**
+ * Apply an edit to file content.
+ *
+ * @param content - Current file content
+ * @param edit - String replacement or unified patch
+ * @param path - File path (for error messages)
+ * @throws Error when the edit doesn't match, is ambiguous or changes nothing
+ */
+export function applyEdit(content: string, edit: FileEdit, path: string): AppliedEdit {
+  const result =
+    "patch" in edit
+      ? applyPatch(content, edit.patch, path)
+      : applyStringEdit(content, edit.oldText, edit.newText, edit.replaceAll ?? false, path);
+
+  if (result.content === content) {
+    throw new Error("The edit leaves the file unchanged.");
+  }
+  return result;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { chunkMarkdown } from "./chunker";
+
+/** One paragraph of numbered sentences, long enough to need splitting. */
+function longParagraph(label: string, sentences: number): string {
+  return Array.from(
+    { length: sentences },
+    (_, i) => `${label} sentence ${i + 1} describes one detail of the topic.`
+  ).join(" ");
+}
+
+const NO_OVERLAP = { maxTokens: 100, overlapTokens: 0, minTokens: 10 };
+
+describe("chunkMarkdown offsets", () => {
+  it("points each sentence-split chunk at its own text", () => {
+    const content = longParagraph("Intro", 40);
+    const chunks = chunkMarkdown(content, NO_OVERLAP);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(content.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+    }
+  });
+
+  it("advances offsets across paragraphs and leading whitespace", () => {
+    const content = `\n\n${longParagraph("First", 20)}\n\n${longParagraph("Second", 20)}\n`;
+    const chunks = chunkMarkdown(content, NO_OVERLAP);
+
+    for (const chunk of chunks) {
+      expect(content.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+    }
+  });
+
+  it("maps chunks under a heading into the section body", () => {
+    const content = `# Topic\n\n${longParagraph("Body", 40)}`;
+    const chunks = chunkMarkdown(content, NO_OVERLAP);
+
+    expect(chunks[0].startOffset).toBe(0);
+    expect(chunks[0].headingPath).toBe("Topic");
+    for (const chunk of chunks.slice(1)) {
+      expect(content.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+    }
+  });
+});
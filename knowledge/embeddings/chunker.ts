@@ -71,6 +71,13 @@ function splitBySentences(text: string): string[] {
     .filter((s) => s.length > 0);
 }
 
+/**
+ * Number of whitespace characters at the start of text.
+ */
+function leadingWhitespace(text: string): number {
+  return text.length - text.trimStart().length;
+}
+
 /**
  * Chunks Markdown content by headings first, then paragraphs for long sections.
  *
@@ -123,14 +130,17 @@ export function chunkMarkdown(
   if (headings.length === 0) {
     const text = content.trim();
     if (text.length > 0) {
-      addChunksFromSection(text, "", 0, rawChunks, maxTokens);
+      const start = leadingWhitespace(content);
+      addChunksFromSection(text, "", (i) => start + i, rawChunks, maxTokens);
     }
   } else {
     // Process content before first heading (if any)
     if (headings[0].index > 0) {
-      const preContent = content.slice(0, headings[0].index).trim();
+      const rawPreContent = content.slice(0, headings[0].index);
+      const preContent = rawPreContent.trim();
       if (preContent.length > 0) {
-        addChunksFromSection(preContent, "", 0, rawChunks, maxTokens);
+        const start = leadingWhitespace(rawPreContent);
+        addChunksFromSection(preContent, "", (i) => start + i, rawChunks, maxTokens);
       }
     }
 
@@ -153,16 +163,24 @@ export function chunkMarkdown(
       headingStack.push({ level: heading.level, text: heading.text });
 
       const headingPath = buildHeadingPath(headingStack);
-      const sectionContent = content.slice(sectionStart, sectionEnd).trim();
+      const rawSectionContent = content.slice(sectionStart, sectionEnd);
+      const sectionContent = rawSectionContent.trim();
 
       // Include heading text in the chunk for better context
       const fullSectionText = `${heading.text}\n\n${sectionContent}`.trim();
 
+      // Map positions in fullSectionText back to the content: the heading
+      // part to the heading line, the rest to the section body
+      const headingLength = heading.text.length + 2;
+      const bodyStart = sectionStart + leadingWhitespace(rawSectionContent);
+      const toOffset = (i: number) =>
+        i < headingLength ? Math.min(heading.index + i, heading.endIndex) : bodyStart + i - headingLength;
+
       if (fullSectionText.length > 0) {
         addChunksFromSection(
           fullSectionText,
           headingPath,
-          heading.index,
+          toOffset,
           rawChunks,
           maxTokens
         );
@@ -265,98 +283,97 @@ function findCleanOverlapStart(text: string): string {
 
 /**
  * Add chunks from a section, splitting if necessary.
+ *
+ * Each paragraph and sentence is located in the section text, so a chunk's
+ * offsets cover exactly the text it was built from.
+ *
+ * @param toOffset - Maps a position in `text` to an offset in the document
  */
 function addChunksFromSection(
   text: string,
   headingPath: string,
-  startOffset: number,
+  toOffset: (index: number) => number,
   chunks: Chunk[],
   maxTokens: number
 ): void {
-  const tokens = estimateTokens(text);
-
-  if (tokens <= maxTokens) {
-    // Section fits in one chunk
+  const pushChunk = (chunkText: string, start: number, end: number) => {
     chunks.push({
-      text,
+      text: chunkText.trim(),
       index: chunks.length,
       headingPath,
-      startOffset,
-      endOffset: startOffset + text.length,
+      startOffset: toOffset(start),
+      endOffset: toOffset(end),
     });
+  };
+
+  if (estimateTokens(text) <= maxTokens) {
+    // Section fits in one chunk
+    pushChunk(text, 0, text.length);
     return;
   }
 
   // Try splitting by paragraphs
   const paragraphs = splitByParagraphs(text);
   let currentChunk = "";
-  let chunkStart = startOffset;
+  // Span of currentChunk in text
+  let chunkStart = 0;
+  let chunkEnd = 0;
+  let cursor = 0;
 
   for (const paragraph of paragraphs) {
+    const paragraphStart = Math.max(cursor, text.indexOf(paragraph, cursor));
+    cursor = paragraphStart + paragraph.length;
     const combined = currentChunk ? `${currentChunk}\n\n${paragraph}` : paragraph;
 
     if (estimateTokens(combined) <= maxTokens) {
+      if (!currentChunk) chunkStart = paragraphStart;
       currentChunk = combined;
-    } else {
-      // Save current chunk if non-empty
-      if (currentChunk.trim()) {
-        chunks.push({
-          text: currentChunk.trim(),
-          index: chunks.length,
-          headingPath,
-          startOffset: chunkStart,
-          endOffset: chunkStart + currentChunk.length,
-        });
-      }
+      chunkEnd = cursor;
+      continue;
+    }
 
-      // Start new chunk with this paragraph
-      // If paragraph itself is too large, split by sentences
-      if (estimateTokens(paragraph) > maxTokens) {
-        const sentences = splitBySentences(paragraph);
-        let sentenceChunk = "";
-
-        for (const sentence of sentences) {
-          const sentenceCombined = sentenceChunk
-            ? `${sentenceChunk} ${sentence}`
-            : sentence;
-
-          if (estimateTokens(sentenceCombined) <= maxTokens) {
-            sentenceChunk = sentenceCombined;
-          } else {
-            if (sentenceChunk.trim()) {
-              chunks.push({
-                text: sentenceChunk.trim(),
-                index: chunks.length,
-                headingPath,
-                startOffset: chunkStart,
-                endOffset: chunkStart + sentenceChunk.length,
-              });
-            }
-            sentenceChunk = sentence;
-          }
-        }
+    // Save current chunk if non-empty
+    if (currentChunk.trim()) {
+      pushChunk(currentChunk, chunkStart, chunkEnd);
+    }
 
-        if (sentenceChunk.trim()) {
-          currentChunk = sentenceChunk;
+    // Start new chunk with this paragraph
+    // If paragraph itself is too large, split by sentences
+    if (estimateTokens(paragraph) > maxTokens) {
+      const sentences = splitBySentences(paragraph);
+      let sentenceChunk = "";
+      let sentenceCursor = paragraphStart;
+
+      for (const sentence of sentences) {
+        const sentenceStart = Math.max(sentenceCursor, text.indexOf(sentence, sentenceCursor));
+        sentenceCursor = sentenceStart + sentence.length;
+        const sentenceCombined = sentenceChunk
+          ? `${sentenceChunk} ${sentence}`
+          : sentence;
+
+        if (estimateTokens(sentenceCombined) <= maxTokens) {
+          if (!sentenceChunk) chunkStart = sentenceStart;
+          sentenceChunk = sentenceCombined;
         } else {
-          currentChunk = "";
+          if (sentenceChunk.trim()) {
+            pushChunk(sentenceChunk, chunkStart, chunkEnd);
+          }
+          sentenceChunk = sentence;
+          chunkStart = sentenceStart;
         }
-      } else {
-        currentChunk = paragraph;
+        chunkEnd = sentenceCursor;
       }
 
-      chunkStart = startOffset + text.indexOf(currentChunk);
+      currentChunk = sentenceChunk.trim() ? sentenceChunk : "";
+    } else {
+      currentChunk = paragraph;
+      chunkStart = paragraphStart;
+      chunkEnd = cursor;
     }
   }
 
   // Don't forget the last chunk
   if (currentChunk.trim()) {
-    chunks.push({
-      text: currentChunk.trim(),
-      index: chunks.length,
-      headingPath,
-      startOffset: chunkStart,
-      endOffset: chunkStart + currentChunk.length,
-    });
+    pushChunk(currentChunk, chunkStart, chunkEnd);
   }
 }
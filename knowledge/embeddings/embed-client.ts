@@ -8,13 +8,15 @@
  * --------------------------
  * Functions accept an optional openaiApiKey parameter for users who
  * provide their own API keys. Owner users don't need to provide a key.
+ * While the local model is selected, texts are embedded by the local
+ * endpoint instead (see app/api/embed/route.ts).
  *
  * 2025 Best Practices:
  * - Default: text-embedding-3-small (1536 dims) - good quality, low cost
  * - Optional: text-embedding-3-large with dimension reduction for better accuracy
  */
 
-import { getApiKeys } from "@/lib/api-keys";
+import { getBackgroundLocalEndpoint, getCurrentApiKeys } from "@/lib/api-keys";
 
 /**
  * Available embedding models.
@@ -37,10 +39,10 @@ export interface EmbedOptions {
 }
 
 /**
- * Get the current OpenAI API key from localStorage (if any)
+ * Get the signed-in user's OpenAI API key from localStorage (if any)
  */
 function getOpenAIKey(): string | undefined {
-  return getApiKeys().openaiApiKey;
+  return getCurrentApiKeys().openaiApiKey;
 }
 
 /**
@@ -73,6 +75,7 @@ export async function embedTexts(
       openaiApiKey: key,
       model,
       dimensions,
+      localEndpoint: getBackgroundLocalEndpoint(),
     }),
   });
 
@@ -114,6 +117,7 @@ export async function embedQuery(
       openaiApiKey: key,
       model,
       dimensions,
+      localEndpoint: getBackgroundLocalEndpoint(),
     }),
   });
 
@@ -16,9 +16,14 @@
  * - RRF is rank-based (not score-based), requiring no normalization
  * - Rewards documents that appear in both lexical and semantic results
  * - Falls back to weighted sum when explicit weights are provided
+ *
+ * A metadata filter (tags, alias, status, source, expiry from each file's
+ * frontmatter) narrows the candidate chunks before either search runs.
  */
 
 import { getKnowledgeDb } from "../idb";
+import { getNodeMetadata, hasMetadataFilter, matchesMetadataFilter } from "../frontmatter";
+import type { MetadataFilter } from "../types";
 import { embedQuery } from "./embed-client";
 import {
   lexicalSearch,
@@ -28,7 +33,7 @@ import {
   type LexicalSearchResult,
 } from "./lexical-search";
 import { rerank, getRecommendedReranker, type RerankDocument, type RerankerConfig } from "./reranker";
-import type { EmbeddingRecord, SearchResult } from "./types";
+import type { Embedder, EmbeddingRecord, SearchResult } from "./types";
 
 /**
  * Fusion method for combining search results.
@@ -81,6 +86,10 @@ export interface HybridSearchOptions {
   rerankerBackend?: RerankerConfig["backend"];
   /** Number of candidates to retrieve before reranking (default: 50) */
   retrieveK?: number;
+  /** Only search files whose frontmatter metadata matches */
+  filter?: MetadataFilter;
+  /** Embeds the query (default: /api/embed) */
+  embed?: Embedder;
 }
 
 /**
@@ -196,8 +205,18 @@ export async function hybridSearch(
 
   const db = await getKnowledgeDb();
 
-  // Load all embeddings
-  const allEmbeddings = await db.getAll("embeddings");
+  // Load all embeddings, keeping only files that match the metadata filter
+  let allEmbeddings = await db.getAll("embeddings");
+  if (hasMetadataFilter(options.filter)) {
+    const filter = options.filter;
+    const now = Date.now();
+    const matchingFiles = new Set(
+      (await db.getAll("nodes"))
+        .filter((node) => node.type === "file" && matchesMetadataFilter(getNodeMetadata(node), filter, now))
+        .map((node) => node.path)
+    );
+    allEmbeddings = allEmbeddings.filter((e) => matchingFiles.has(e.filePath));
+  }
 
   if (allEmbeddings.length === 0) {
     return [];
@@ -221,7 +240,7 @@ export async function hybridSearch(
   // Run semantic search
   let queryEmbedding: number[];
   try {
-    queryEmbedding = await embedQuery(query);
+    queryEmbedding = options.embed ? (await options.embed([query]))[0] : await embedQuery(query);
   } catch (error) {
     console.error("[HybridSearch] Failed to embed query:", error);
     // Fall back to lexical-only if embedding fails
@@ -8,7 +8,8 @@
 import { chunkMarkdown } from "./chunker";
 import { embedTexts, embedQuery } from "./embed-client";
 import { getKnowledgeDb, type UmapCache } from "../idb";
-import type { EmbeddingRecord, SearchResult } from "./types";
+import { parseFrontmatter } from "../frontmatter";
+import type { Embedder, EmbeddingRecord, SearchResult } from "./types";
 import { UMAP } from "umap-js";
 
 /**
@@ -42,15 +43,23 @@ function cosineSimilarity(a: number[], b: number[]): number {
 /**
  * Embed a file's content, using hash-based caching to avoid re-embedding.
  * Inspired by Cursor's Merkle tree approach for efficient updates.
+ *
+ * @param embed - Embeds the new or changed chunks (default: /api/embed)
+ * @returns Records of the chunks that were embedded (new or changed text)
  */
-export async function embedFile(path: string, content: string): Promise<void> {
+export async function embedFile(
+  path: string,
+  content: string,
+  embed: Embedder = embedTexts
+): Promise<EmbeddingRecord[]> {
   const db = await getKnowledgeDb();
-  const chunks = chunkMarkdown(content);
+  // Frontmatter is stored as node metadata, not searched as text
+  const chunks = chunkMarkdown(parseFrontmatter(content).body);
 
   // If no chunks (empty file), just clean up any existing embeddings
   if (chunks.length === 0) {
     await deleteFileEmbeddings(path);
-    return;
+    return [];
   }
 
   // Get existing embeddings for this file
@@ -79,13 +88,14 @@ export async function embedFile(path: string, content: string): Promise<void> {
   }
 
   // Batch embed only new/changed chunks
+  const embedded: EmbeddingRecord[] = [];
   if (toEmbed.length > 0) {
     try {
-      const embeddings = await embedTexts(toEmbed.map((c) => c.chunk.text));
+      const embeddings = await embed(toEmbed.map((c) => c.chunk.text));
 
       for (let i = 0; i < toEmbed.length; i++) {
         const { chunk, hash } = toEmbed[i];
-        await db.put("embeddings", {
+        const record: EmbeddingRecord = {
           id: `${path}#${chunk.index}`,
           filePath: path,
           chunkIndex: chunk.index,
@@ -94,12 +104,14 @@ export async function embedFile(path: string, content: string): Promise<void> {
           headingPath: chunk.headingPath,
           embedding: embeddings[i],
           updatedAt: Date.now(),
-        });
+        };
+        await db.put("embeddings", record);
+        embedded.push(record);
       }
     } catch (error) {
       // Log but don't throw - embedding failure shouldn't block file writes
       console.error("[Embedding] Failed to embed chunks:", error);
-      return;
+      return [];
     }
   }
 
@@ -118,6 +130,31 @@ export async function embedFile(path: string, content: string): Promise<void> {
       await db.delete("embeddings", e.id);
     }
   }
+
+  return embedded;
+}
+
+/**
+ * Chunks whose embeddings are closest to a vector, most similar first.
+ *
+ * @param embedding - Vector to compare against
+ * @param options.threshold - Minimum cosine similarity
+ * @param options.topK - Maximum number of chunks
+ * @param options.excludeFile - Skip this file's chunks (usually the vector's own file)
+ */
+export async function findSimilarChunks(
+  embedding: number[],
+  options: { threshold: number; topK: number; excludeFile?: string }
+): Promise<Array<EmbeddingRecord & { score: number }>> {
+  const db = await getKnowledgeDb();
+  const allEmbeddings = await db.getAll("embeddings");
+
+  return allEmbeddings
+    .filter((e) => e.filePath !== options.excludeFile)
+    .map((e) => ({ ...e, score: cosineSimilarity(embedding, e.embedding) }))
+    .filter((e) => e.score >= options.threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.topK);
 }
 
 /**
@@ -131,20 +168,65 @@ export async function deleteFileEmbeddings(path: string): Promise<void> {
   }
 }
 
+/**
+ * Re-key a file's embeddings after it was moved or renamed.
+ * Vectors are kept, so nothing is re-embedded.
+ */
+export async function moveFileEmbeddings(from: string, to: string): Promise<void> {
+  const db = await getKnowledgeDb();
+  const embeddings = await db.getAllFromIndex("embeddings", "by-file", from);
+  if (embeddings.length === 0) return;
+
+  const renamedIds = new Map<string, string>();
+  for (const e of embeddings) {
+    const id = `${to}#${e.chunkIndex}`;
+    await db.put("embeddings", { ...e, id, filePath: to });
+    await db.delete("embeddings", e.id);
+    renamedIds.set(e.id, id);
+  }
+
+  // Keep the UMAP projection pointing at the renamed chunks
+  const umap = await getUmapCache();
+  if (umap) {
+    await db.put("metadata", {
+      ...umap,
+      points: umap.points.map((point) => ({
+        ...point,
+        embeddingId: renamedIds.get(point.embeddingId) ?? point.embeddingId,
+      })),
+    });
+  }
+}
+
+/**
+ * Duplicate a file's embeddings for a copy of the file.
+ * embedFile on the copy then finds every chunk hash and skips the API call.
+ */
+export async function copyFileEmbeddings(from: string, to: string): Promise<void> {
+  const db = await getKnowledgeDb();
+  const embeddings = await db.getAllFromIndex("embeddings", "by-file", from);
+  for (const e of embeddings) {
+    await db.put("embeddings", { ...e, id: `${to}#${e.chunkIndex}`, filePath: to });
+  }
+}
+
 /**
  * Semantic search across all embeddings using cosine similarity.
+ *
+ * @param embed - Embeds the query (default: /api/embed)
  */
 export async function searchEmbeddings(
   query: string,
   topK: number = 5,
-  threshold: number = 0.3
+  threshold: number = 0.3,
+  embed?: Embedder
 ): Promise<SearchResult[]> {
   const db = await getKnowledgeDb();
 
   // Embed the query
   let queryEmbedding: number[];
   try {
-    queryEmbedding = await embedQuery(query);
+    queryEmbedding = embed ? (await embed([query]))[0] : await embedQuery(query);
   } catch (error) {
     console.error("[Embedding] Failed to embed query:", error);
     throw new Error("Failed to embed search query. Check that OPENAI_API_KEY is set.");
@@ -19,7 +19,7 @@
  * reranking will automatically use GPT-4o-mini unless Cohere key is provided.
  */
 
-import { getApiKeys } from "@/lib/api-keys";
+import { getCurrentApiKeys } from "@/lib/api-keys";
 
 /**
  * A document to be reranked.
@@ -309,7 +309,7 @@ Document: ${truncatedDoc}`,
  */
 function getCohereKey(): string | undefined {
   if (typeof window !== "undefined") {
-    const keys = getApiKeys();
+    const keys = getCurrentApiKeys();
     return keys.cohereApiKey;
   }
   return undefined;
@@ -320,7 +320,7 @@ function getCohereKey(): string | undefined {
  */
 function getOpenAIKey(): string | undefined {
   if (typeof window !== "undefined") {
-    const keys = getApiKeys();
+    const keys = getCurrentApiKeys();
     return keys.openaiApiKey;
   }
   return undefined;
@@ -333,7 +333,7 @@ export function isRerankingAvailable(): {
   cohere: boolean;
   openai: boolean;
 } {
-  const keys = typeof window !== "undefined" ? getApiKeys() : { cohereApiKey: undefined, openaiApiKey: undefined };
+  const keys = typeof window !== "undefined" ? getCurrentApiKeys() : { cohereApiKey: undefined, openaiApiKey: undefined };
   return {
     cohere: !!keys.cohereApiKey,
     openai: !!keys.openaiApiKey,
@@ -15,6 +15,13 @@ export interface Chunk {
   endOffset: number;
 }
 
+/**
+ * Turns texts into embedding vectors, one per text (see ./embed-client.ts).
+ * The default calls /api/embed, which only works in the browser; pass
+ * another one to embed from Node scripts and tests.
+ */
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
 /**
  * An embedding record stored in IndexedDB.
  * Includes content hash for change detection (Cursor-inspired).
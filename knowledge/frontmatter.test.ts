@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { isExpired, matchesMetadataFilter, parseFrontmatter } from "./frontmatter";
+import type { KnowledgeMetadata } from "./types";
+
+describe("parseFrontmatter", () => {
+  it("reads inline and block lists, scalars and the body", () => {
+    const content = [
+      "---",
+      "tags: [Project/Acme, '#client/globex']",
+      "aliases:",
+      "  - Acme rewrite",
+      '  - "Project A"',
+      "status: active # still going",
+      "source: https://example.com/brief",
+      "expires: 2026-12-31",
+      "owner: ignored",
+      "---",
+      "# Acme",
+    ].join("\n");
+
+    expect(parseFrontmatter(content)).toEqual({
+      metadata: {
+        tags: ["project/acme", "client/globex"],
+        aliases: ["Acme rewrite", "Project A"],
+        status: "active",
+        source: "https://example.com/brief",
+        expires: "2026-12-31",
+      },
+      body: "# Acme",
+    });
+  });
+
+  it("splits a tag string and drops duplicates", () => {
+    expect(parseFrontmatter("---\ntag: a, b #b\n---\n").metadata.tags).toEqual(["a", "b"]);
+  });
+
+  it("leaves files without a frontmatter block alone", () => {
+    const content = "# Notes\n---\ntags: [x]\n---";
+
+    expect(parseFrontmatter(content)).toEqual({ metadata: {}, body: content });
+  });
+});
+
+describe("matchesMetadataFilter", () => {
+  const metadata: KnowledgeMetadata = {
+    tags: ["project/acme", "client/globex"],
+    aliases: ["Acme rewrite"],
+    status: "active",
+    source: "https://example.com/brief",
+    expires: "2026-12-31",
+  };
+
+  it("requires every tag, case-insensitively", () => {
+    expect(matchesMetadataFilter(metadata, { tags: ["#Project/Acme", "client/globex"] })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { tags: ["project/acme", "client/initech"] })).toBe(false);
+  });
+
+  it("matches alias and status exactly and source by substring", () => {
+    expect(matchesMetadataFilter(metadata, { alias: "acme REWRITE", status: "Active", source: "example.com" })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { alias: "Acme" })).toBe(false);
+    expect(matchesMetadataFilter(metadata, { status: "archived" })).toBe(false);
+    expect(matchesMetadataFilter(metadata, { source: "other.org" })).toBe(false);
+  });
+
+  it("leaves out expired files only when asked", () => {
+    const afterExpiry = Date.parse("2027-01-01T00:00:00Z");
+
+    expect(matchesMetadataFilter(metadata, { excludeExpired: true }, afterExpiry)).toBe(false);
+    expect(matchesMetadataFilter(metadata, {}, afterExpiry)).toBe(true);
+  });
+});
+
+describe("isExpired", () => {
+  it("keeps a date-only expiry valid through that day", () => {
+    const metadata = { expires: "2026-12-31" };
+
+    expect(isExpired(metadata, Date.parse("2026-12-31T23:59:59Z"))).toBe(false);
+    expect(isExpired(metadata, Date.parse("2027-01-01T00:00:00Z"))).toBe(true);
+  });
+
+  it("never expires an unparseable date", () => {
+    expect(isExpired({ expires: "someday" })).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Knowledge File Frontmatter
+ *
+ * Parses the YAML frontmatter block at the top of a knowledge base file into
+ * structured metadata (tags, aliases, status, source, expires), and matches
+ * that metadata against search filters.
+ *
+ *   ---
+ *   tags: [project/acme, client/globex]
+ *   aliases:
+ *     - Acme rewrite
+ *   status: active
+ *   expires: 2026-12-31
+ *   ---
+ *
+ * Only the YAML the notes actually use is supported: `key: value` pairs,
+ * inline `[a, b]` lists and indented `- item` lists. Unknown keys are
+ * ignored. Pure functions - shared by the browser (operations.ts, search)
+ * and the server store.
+ */
+
+import type { KnowledgeMetadata, KnowledgeNode, MetadataFilter } from "./types";
+
+export interface ParsedFrontmatter {
+  metadata: KnowledgeMetadata;
+  /** The content after the frontmatter block (all of it if there is none) */
+  body: string;
+}
+
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (
+    trimmed.length >= 2 &&
+    ((trimmed.startsWith('"') && trimmed.endsWith('"')) ||
+      (trimmed.startsWith("'") && trimmed.endsWith("'")))
+  ) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+/**
+ * Read the raw `key: value` / list entries of a frontmatter block.
+ */
+function parseYamlBlock(block: string): Map<string, string | string[]> {
+  const values = new Map<string, string | string[]>();
+  let listKey: string | null = null;
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const item = line.match(/^\s+-\s*(.*)$/) ?? line.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      const list = values.get(listKey);
+      if (Array.isArray(list)) list.push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) continue;
+    const key = pair[1].toLowerCase();
+    const value = pair[2].replace(/\s+#.*$/, "").trim();
+
+    if (value === "") {
+      // Block list follows (or the value is empty)
+      values.set(key, []);
+      listKey = key;
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      values.set(
+        key,
+        value
+          .slice(1, -1)
+          .split(",")
+          .map(unquote)
+          .filter(Boolean)
+      );
+      listKey = null;
+    } else {
+      values.set(key, unquote(value));
+      listKey = null;
+    }
+  }
+
+  return values;
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+function firstString(value: string | string[] | undefined): string | undefined {
+  const text = Array.isArray(value) ? value[0] : value;
+  return text ? text : undefined;
+}
+
+/**
+ * Split a file into its frontmatter metadata and body.
+ * Files without a frontmatter block get empty metadata.
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) return { metadata: {}, body: content };
+
+  const values = parseYamlBlock(match[1]);
+  const metadata: KnowledgeMetadata = {};
+
+  // Tags may be a list, or a comma/space separated string ("tags: a, b")
+  const tags = toList(values.get("tags") ?? values.get("tag"))
+    .flatMap((tag) => tag.split(/[,\s]+/))
+    .map(normalizeTag)
+    .filter(Boolean);
+  if (tags.length > 0) metadata.tags = Array.from(new Set(tags));
+
+  const aliases = toList(values.get("aliases") ?? values.get("alias"))
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+  if (aliases.length > 0) metadata.aliases = aliases;
+
+  const status = firstString(values.get("status"));
+  if (status) metadata.status = status;
+  const source = firstString(values.get("source"));
+  if (source) metadata.source = source;
+  const expires = firstString(values.get("expires"));
+  if (expires) metadata.expires = expires;
+
+  return { metadata, body: content.slice(match[0].length) };
+}
+
+/**
+ * A file node's metadata. Files written before metadata was stored are
+ * parsed on the fly.
+ */
+export function getNodeMetadata(node: KnowledgeNode): KnowledgeMetadata {
+  return node.metadata ?? parseFrontmatter(node.content ?? "").metadata;
+}
+
+/**
+ * Whether the metadata's expires date has passed. A date without a time
+ * ("2026-12-31") is valid through the end of that day (UTC).
+ * Unparseable dates never expire.
+ */
+export function isExpired(metadata: KnowledgeMetadata, now: number = Date.now()): boolean {
+  if (!metadata.expires) return false;
+  const time = Date.parse(metadata.expires);
+  if (Number.isNaN(time)) return false;
+  const end = /^\d{4}-\d{2}-\d{2}$/.test(metadata.expires) ? time + DAY_MS : time;
+  return now >= end;
+}
+
+/**
+ * Whether a filter sets anything (an empty filter matches every file).
+ */
+export function hasMetadataFilter(filter: MetadataFilter | undefined): filter is MetadataFilter {
+  return Boolean(
+    filter &&
+      ((filter.tags && filter.tags.length > 0) ||
+        filter.alias ||
+        filter.status ||
+        filter.source ||
+        filter.excludeExpired)
+  );
+}
+
+/**
+ * Whether a file's metadata satisfies every field set in the filter.
+ */
+export function matchesMetadataFilter(
+  metadata: KnowledgeMetadata,
+  filter: MetadataFilter,
+  now: number = Date.now()
+): boolean {
+  if (filter.tags && filter.tags.length > 0) {
+    const tags = new Set(metadata.tags ?? []);
+    if (!filter.tags.every((tag) => tags.has(normalizeTag(tag)))) return false;
+  }
+
+  if (filter.alias) {
+    const alias = filter.alias.trim().toLowerCase();
+    if (!metadata.aliases?.some((a) => a.toLowerCase() === alias)) return false;
+  }
+
+  if (filter.status && metadata.status?.toLowerCase() !== filter.status.trim().toLowerCase()) {
+    return false;
+  }
+
+  if (
+    filter.source &&
+    !metadata.source?.toLowerCase().includes(filter.source.trim().toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (filter.excludeExpired && isExpired(metadata, now)) return false;
+
+  return true;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { formatGrepResults, grepContent, MAX_REGEX_LENGTH } from "./grep";
+
+const files = [{ path: "/notes/todo.md", content: "- [ ] Call Alex\n- [x] Book flights\naaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!" }];
+
+describe("grepContent regex guard", () => {
+  it.each(["(a+)+$", "(a*)*b", "(\\w+\\s?)*$", "((ab)+c)+", "(a{2,})+"])("rejects the nested repeat %s", (pattern) => {
+    expect(() => grepContent(files, pattern, { regex: true })).toThrow(/repeats a group that contains a repeat/);
+  });
+
+  it.each(["(ab)+", "^- \\[ \\]", "[(a+)]+", "\\(a+\\)+", "(a{3})+", "\\d{4}-\\d{2}"])("accepts %s", (pattern) => {
+    expect(() => grepContent(files, pattern, { regex: true })).not.toThrow();
+  });
+
+  it("rejects regexes over the length limit", () => {
+    expect(() => grepContent(files, "a".repeat(MAX_REGEX_LENGTH + 1), { regex: true })).toThrow(/too long/);
+  });
+
+  it("doesn't limit literal patterns", () => {
+    expect(grepContent(files, "(a+)+" + "a".repeat(MAX_REGEX_LENGTH)).matches).toEqual([]);
+  });
+});
+
+describe("grepContent", () => {
+  const notes = [
+    { path: "/projects/b.md", content: "TODO(alex): ship it\nDone" },
+    { path: "/projects/a.md", content: "intro\n- [ ] todo(alex) call\nmiddle\n- [ ] TODO(sam)\nend" },
+    { path: "/notes/c.md", content: "TODO(alex) elsewhere" },
+  ];
+
+  it("matches literal text case-sensitively, in path order, with context", () => {
+    const result = grepContent(notes, "TODO(alex)", { path: "projects", context: 1 });
+
+    expect(result).toEqual({
+      matches: [{ path: "/projects/b.md", line: 1, text: "TODO(alex): ship it", before: [], after: ["Done"] }],
+      files: 1,
+      truncated: false,
+    });
+  });
+
+  it("matches regexes, optionally ignoring case", () => {
+    const result = grepContent(notes, "^- \\[ \\] todo\\(\\w+\\)", { regex: true, ignoreCase: true, context: 0 });
+
+    expect(result.matches.map((m) => [m.path, m.line])).toEqual([
+      ["/projects/a.md", 2],
+      ["/projects/a.md", 4],
+    ]);
+  });
+
+  it("explains an invalid regex", () => {
+    expect(() => grepContent(notes, "todo(", { regex: true })).toThrow(/^Invalid regex: .*set regex to false\.$/);
+    expect(() => grepContent(notes, "")).toThrow("Pattern is empty.");
+  });
+
+  it("stops at maxMatches and says so", () => {
+    const result = grepContent(notes, "todo", { ignoreCase: true, maxMatches: 2 });
+
+    expect(result.matches.map((m) => m.path)).toEqual(["/notes/c.md", "/projects/a.md"]);
+    expect(result.truncated).toBe(true);
+    expect(formatGrepResults("todo", result)).toContain('truncated="true"');
+  });
+});
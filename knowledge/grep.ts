@@ -0,0 +1,222 @@
+/**
+ * Knowledge Grep
+ *
+ * Line-by-line pattern search over file contents for kb_grep. Unlike
+ * kb_search (ranked hybrid retrieval over chunks), this finds EVERY line
+ * that matches a literal string or regular expression - "all files that
+ * mention TODO(alex)" - with line numbers and surrounding context.
+ *
+ * Pure functions - shared by the browser (operations.ts) and the server
+ * store.
+ *
+ * The scan runs synchronously on the caller's thread, so regexes that can
+ * backtrack exponentially (nested repeats like `(a+)+`) and very long ones
+ * are rejected before anything is matched.
+ */
+
+export interface GrepOptions {
+  /** Treat the pattern as a JavaScript regular expression (default: literal) */
+  regex?: boolean;
+  /** Match case-insensitively (default: case-sensitive) */
+  ignoreCase?: boolean;
+  /** Only search files under this folder (or this file) */
+  path?: string;
+  /** Lines of context before and after each match (default: 2, max: 10) */
+  context?: number;
+  /** Stop after this many matching lines (default: 100, max: 500) */
+  maxMatches?: number;
+}
+
+export interface GrepMatch {
+  /** File the match is in */
+  path: string;
+  /** 1-based line number */
+  line: number;
+  /** The matching line */
+  text: string;
+  /** Lines before the match (up to `context`) */
+  before: string[];
+  /** Lines after the match (up to `context`) */
+  after: string[];
+}
+
+export interface GrepResult {
+  matches: GrepMatch[];
+  /** Number of files with at least one match */
+  files: number;
+  /** Whether matches were cut off at maxMatches */
+  truncated: boolean;
+}
+
+const DEFAULT_CONTEXT = 2;
+const MAX_CONTEXT = 10;
+const DEFAULT_MAX_MATCHES = 100;
+const MAX_MATCHES = 500;
+/** Longest regex accepted (literal patterns can't backtrack) */
+export const MAX_REGEX_LENGTH = 200;
+
+function normalizePath(path: string): string {
+  if (!path || path === "/") return "/";
+  return "/" + path.split("/").filter(Boolean).join("/");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function clamp(value: number | undefined, fallback: number, max: number): number {
+  if (value === undefined || !Number.isFinite(value)) return fallback;
+  return Math.max(0, Math.min(Math.floor(value), max));
+}
+
+/**
+ * Whether the regex source has an unbounded repeat (`*`, `+`, `{n,}`,
+ * `{n,m}`) starting at index i.
+ */
+function isRepeatAt(source: string, i: number): boolean {
+  const char = source[i];
+  return char === "*" || char === "+" || (char === "{" && /^\{\d+,\d*\}/.test(source.slice(i)));
+}
+
+/**
+ * Whether a regex repeats a group that itself contains a repeat, like
+ * `(a+)+` or `(\w+\s?)*` - the shape that makes backtracking take
+ * exponential time on a line that almost matches.
+ */
+function hasNestedRepeat(source: string): boolean {
+  // Per open group: whether it contains a repeat
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      i++; // Escaped character
+    } else if (inClass) {
+      if (char === "]") inClass = false;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === ")") {
+      const containsRepeat = groups.pop() ?? false;
+      const repeated = isRepeatAt(source, i + 1);
+      if (containsRepeat && repeated) return true;
+      if ((containsRepeat || repeated) && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (isRepeatAt(source, i) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Build the matcher for a pattern. Throws with a message the model can act
+ * on when the regex is invalid.
+ */
+function compilePattern(pattern: string, options: GrepOptions): RegExp {
+  if (pattern === "") {
+    throw new Error("Pattern is empty.");
+  }
+  if (options.regex && pattern.length > MAX_REGEX_LENGTH) {
+    throw new Error(`Regex is too long (max ${MAX_REGEX_LENGTH} characters). Search for a shorter pattern.`);
+  }
+  if (options.regex && hasNestedRepeat(pattern)) {
+    throw new Error(
+      "Regex repeats a group that contains a repeat, like (a+)+, which can take forever to run. Remove the outer repeat or search for a literal."
+    );
+  }
+  const source = options.regex ? pattern : escapeRegExp(pattern);
+  try {
+    return new RegExp(source, options.ignoreCase ? "i" : "");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid regex: ${reason}. Escape special characters or set regex to false.`);
+  }
+}
+
+/**
+ * Whether a file path is inside the folder (or is the file) given as prefix.
+ */
+export function isUnderPath(path: string, prefix: string | undefined): boolean {
+  const normalizedPrefix = normalizePath(prefix ?? "/");
+  if (normalizedPrefix === "/") return true;
+  return path === normalizedPrefix || path.startsWith(normalizedPrefix + "/");
+}
+
+/**
+ * Search file contents line by line. Files are scanned in path order.
+ *
+ * @param files - Files to search (path + content)
+ * @param pattern - Literal text, or a regex when options.regex is set
+ */
+export function grepContent(
+  files: Iterable<{ path: string; content: string }>,
+  pattern: string,
+  options: GrepOptions = {}
+): GrepResult {
+  const matcher = compilePattern(pattern, options);
+  const context = clamp(options.context, DEFAULT_CONTEXT, MAX_CONTEXT);
+  const maxMatches = Math.max(1, clamp(options.maxMatches, DEFAULT_MAX_MATCHES, MAX_MATCHES));
+
+  const sorted = Array.from(files)
+    .filter((file) => isUnderPath(file.path, options.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const matches: GrepMatch[] = [];
+  const matchedFiles = new Set<string>();
+  let truncated = false;
+
+  for (const file of sorted) {
+    const lines = file.content.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      if (!matcher.test(lines[i])) continue;
+      if (matches.length >= maxMatches) {
+        truncated = true;
+        break;
+      }
+      matches.push({
+        path: file.path,
+        line: i + 1,
+        text: lines[i],
+        before: lines.slice(Math.max(0, i - context), i),
+        after: lines.slice(i + 1, i + 1 + context),
+      });
+      matchedFiles.add(file.path);
+    }
+    if (truncated) break;
+  }
+
+  return { matches, files: matchedFiles.size, truncated };
+}
+
+/**
+ * Render grep matches as XML for the model, one <file> per matching file.
+ */
+export function formatGrepResults(pattern: string, result: GrepResult): string {
+  const byFile = new Map<string, GrepMatch[]>();
+  for (const match of result.matches) {
+    const fileMatches = byFile.get(match.path);
+    if (fileMatches) fileMatches.push(match);
+    else byFile.set(match.path, [match]);
+  }
+
+  const files = Array.from(byFile, ([path, matches]) => {
+    const body = matches
+      .map((match) => {
+        const lines = [
+          ...match.before.map((text, i) => `${match.line - match.before.length + i}- ${text}`),
+          `${match.line}: ${match.text}`,
+          ...match.after.map((text, i) => `${match.line + 1 + i}- ${text}`),
+        ];
+        return `<match line="${match.line}">\n${lines.join("\n")}\n</match>`;
+      })
+      .join("\n");
+    return `<file path="${path}" matches="${matches.length}">\n${body}\n</file>`;
+  });
+
+  const truncatedAttr = result.truncated ? ' truncated="true"' : "";
+  return `<grep_results pattern="${pattern}" files="${result.files}"${truncatedAttr}>
+${files.join("\n")}
+</grep_results>`;
+}
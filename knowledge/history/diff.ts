@@ -0,0 +1,156 @@
+/**
+ * Line Diff
+ *
+ * Minimal line-based diff for comparing file revisions.
+ * Uses an LCS table over the lines between the common prefix and suffix,
+ * which keeps typical note edits (a few changed lines) cheap.
+ */
+
+import type { DiffLine, DiffStats } from "./types";
+
+/** Above this many LCS cells, fall back to a whole-block replacement diff */
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split("\n");
+}
+
+/**
+ * Diff two texts line by line.
+ *
+ * @param before - Old text
+ * @param after - New text
+ * @returns Lines in display order, tagged as context, added or removed
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Trim the common prefix and suffix - the LCS only runs on the middle
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: "context", text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    // Too large to align - show the middle as a block replacement
+    midA.forEach((text, i) => result.push({ type: "removed", text, oldLine: prefix + i + 1 }));
+    midB.forEach((text, j) => result.push({ type: "added", text, newLine: prefix + j + 1 }));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        result.push({ type: "context", text: midA[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+        i++;
+        j++;
+      } else if (i < n && (j >= m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        // Removals first, matching unified diff convention
+        result.push({ type: "removed", text: midA[i], oldLine: prefix + i + 1 });
+        i++;
+      } else {
+        result.push({ type: "added", text: midB[j], newLine: prefix + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    result.push({
+      type: "context",
+      text: a[a.length - k],
+      oldLine: a.length - k + 1,
+      newLine: b.length - k + 1,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Count added and removed lines in a diff.
+ */
+export function getDiffStats(lines: DiffLine[]): DiffStats {
+  let added = 0;
+  let removed = 0;
+  for (const line of lines) {
+    if (line.type === "added") added++;
+    else if (line.type === "removed") removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * Render a diff in unified format (for tool output).
+ *
+ * @param lines - Output of diffLines
+ * @param path - File path for the ---/+++ header
+ * @param contextLines - Unchanged lines to keep around each change
+ */
+export function formatUnifiedDiff(lines: DiffLine[], path: string, contextLines = 3): string {
+  const changed = lines
+    .map((line, index) => (line.type === "context" ? -1 : index))
+    .filter((index) => index >= 0);
+
+  if (changed.length === 0) return "";
+
+  // Group changes whose context windows overlap into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const output = [`--- a${path}`, `+++ b${path}`];
+  for (const [start, end] of hunks) {
+    const hunk = lines.slice(start, end + 1);
+    const oldLines = hunk.filter((l) => l.type !== "added");
+    const newLines = hunk.filter((l) => l.type !== "removed");
+    const oldStart = oldLines[0]?.oldLine ?? (lines.slice(0, start).filter((l) => l.type !== "added").length);
+    const newStart = newLines[0]?.newLine ?? (lines.slice(0, start).filter((l) => l.type !== "removed").length);
+
+    output.push(`@@ -${oldStart},${oldLines.length} +${newStart},${newLines.length} @@`);
+    for (const line of hunk) {
+      const marker = line.type === "added" ? "+" : line.type === "removed" ? "-" : " ";
+      output.push(marker + line.text);
+    }
+  }
+
+  return output.join("\n");
+}
@@ -0,0 +1,10 @@
+/**
+ * Knowledge File History Module
+ *
+ * Re-exports revision storage and diff utilities.
+ * Restoring a revision lives in ../operations.ts (restoreRevision).
+ */
+
+export * from "./types";
+export * from "./operations";
+export * from "./diff";
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setStorageBackend } from "@/lib/storage/adapter";
+import { createMemoryBackend } from "@/lib/storage/memory-adapter";
+import { appendFile, deleteNode, editFile, readFile, restoreRevision, writeFile } from "../operations";
+import { getFileHistory, MAX_REVISIONS_PER_FILE } from "./operations";
+
+describe("file history", () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend());
+    // Writes also embed through /api/embed, which doesn't exist here
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("records every change to a file, newest first", async () => {
+    await writeFile("/notes/plan.md", "One");
+    await appendFile("/notes/plan.md", "Two");
+    await editFile("/notes/plan.md", { oldText: "Two", newText: "Three" });
+    await deleteNode("/notes/plan.md");
+
+    const history = await getFileHistory("notes/plan.md");
+
+    expect(history.map((r) => [r.action, r.previousContent, r.content])).toEqual([
+      ["delete", "One\nThree", null],
+      ["edit", "One\nTwo", "One\nThree"],
+      ["append", "One", "One\nTwo"],
+      ["write", null, "One"],
+    ]);
+  });
+
+  it("doesn't record a write that changes nothing", async () => {
+    await writeFile("/notes/plan.md", "One");
+    await writeFile("/notes/plan.md", "One");
+
+    expect(await getFileHistory("/notes/plan.md")).toHaveLength(1);
+  });
+
+  it("undoes an overwrite and records the restore", async () => {
+    await writeFile("/notes/plan.md", "Keep this");
+    await writeFile("/notes/plan.md", "Oops");
+    const [overwrite] = await getFileHistory("/notes/plan.md");
+
+    await restoreRevision(overwrite.id, "before");
+
+    expect(await readFile("/notes/plan.md")).toBe("Keep this");
+    const [restore] = await getFileHistory("/notes/plan.md");
+    expect(restore).toMatchObject({ action: "restore", previousContent: "Oops", content: "Keep this" });
+  });
+
+  it("brings back a deleted file, and deletes it again from the other side", async () => {
+    await writeFile("/notes/plan.md", "Keep this");
+    await deleteNode("/notes/plan.md");
+    const [deletion] = await getFileHistory("/notes/plan.md");
+
+    await restoreRevision(deletion.id, "before");
+    expect(await readFile("/notes/plan.md")).toBe("Keep this");
+
+    const result = await restoreRevision(deletion.id, "after");
+    expect(result).toEqual({ path: "/notes/plan.md", content: null });
+    await expect(readFile("/notes/plan.md")).rejects.toThrow("Not found");
+  });
+
+  it("rejects an unknown revision", async () => {
+    await expect(restoreRevision("rev-missing")).rejects.toThrow("Revision not found: rev-missing");
+  });
+
+  it("keeps only the newest revisions of a file", async () => {
+    for (let i = 0; i <= MAX_REVISIONS_PER_FILE; i++) {
+      await writeFile("/notes/log.md", `Entry ${i}`);
+    }
+
+    const history = await getFileHistory("/notes/log.md");
+
+    expect(history).toHaveLength(MAX_REVISIONS_PER_FILE);
+    expect(history[0].content).toBe(`Entry ${MAX_REVISIONS_PER_FILE}`);
+    expect(history[history.length - 1].previousContent).toBe("Entry 0");
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Knowledge File History Operations
+ *
+ * Stores and queries file revisions. Revisions are recorded by the
+ * filesystem operations in ../operations.ts (which also owns restore),
+ * so this module only deals with the revisions store.
+ */
+
+import { getKnowledgeDb } from "../idb";
+import type { FileRevision, RevisionAction } from "./types";
+
+/** Oldest revisions beyond this count are pruned per file */
+export const MAX_REVISIONS_PER_FILE = 50;
+
+/** Last timestamp handed out - keeps revision order stable within a millisecond */
+let lastRevisionTime = 0;
+
+function normalizePath(path: string): string {
+  if (!path || path === "/") return "/";
+  return "/" + path.split("/").filter(Boolean).join("/");
+}
+
+function nextRevisionTime(): number {
+  lastRevisionTime = Math.max(Date.now(), lastRevisionTime + 1);
+  return lastRevisionTime;
+}
+
+/**
+ * Record a mutation of a file.
+ * No-op when the content didn't change.
+ *
+ * @param path - File path
+ * @param action - Operation that caused the change
+ * @param previousContent - Content before (null if the file didn't exist)
+ * @param content - Content after (null if the file was deleted)
+ */
+export async function recordRevision(
+  path: string,
+  action: RevisionAction,
+  previousContent: string | null,
+  content: string | null
+): Promise<FileRevision | null> {
+  if (previousContent === content) return null;
+
+  const db = await getKnowledgeDb();
+  const createdAt = nextRevisionTime();
+  const revision: FileRevision = {
+    id: `rev-${createdAt}-${Math.random().toString(36).slice(2, 9)}`,
+    path: normalizePath(path),
+    action,
+    previousContent,
+    content,
+    createdAt,
+  };
+  await db.put("revisions", revision);
+
+  // Keep the per-file history bounded
+  const history = await getFileHistory(revision.path);
+  for (const old of history.slice(MAX_REVISIONS_PER_FILE)) {
+    await db.delete("revisions", old.id);
+  }
+
+  return revision;
+}
+
+/**
+ * Get all revisions of a file, newest first.
+ */
+export async function getFileHistory(path: string): Promise<FileRevision[]> {
+  const db = await getKnowledgeDb();
+  const revisions = await db.getAllFromIndex("revisions", "by-path", normalizePath(path));
+  return revisions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Carry a file's history over to its new path (called when a file is moved).
+ */
+export async function moveFileHistory(from: string, to: string): Promise<void> {
+  const db = await getKnowledgeDb();
+  const path = normalizePath(to);
+  for (const revision of await getFileHistory(from)) {
+    await db.put("revisions", { ...revision, path });
+  }
+}
+
+/**
+ * Get a single revision by ID.
+ */
+export async function getRevision(revisionId: string): Promise<FileRevision | undefined> {
+  const db = await getKnowledgeDb();
+  return db.get("revisions", revisionId);
+}
+
@@ -0,0 +1,57 @@
+/**
+ * Knowledge File History Types
+ *
+ * Every mutation of a knowledge base file (write, append, edit, delete, restore)
+ * is stored as a revision, so overwritten or deleted content can be
+ * inspected and restored.
+ */
+
+/**
+ * What produced a revision.
+ */
+export type RevisionAction = "write" | "append" | "edit" | "delete" | "restore";
+
+/**
+ * A snapshot of a file around a single mutation, stored in IndexedDB.
+ */
+export interface FileRevision {
+  /** Unique revision ID */
+  id: string;
+  /** Normalized file path */
+  path: string;
+  /** The operation that produced this revision */
+  action: RevisionAction;
+  /** File content before the mutation (null if the file didn't exist) */
+  previousContent: string | null;
+  /** File content after the mutation (null if the file was deleted) */
+  content: string | null;
+  /** When the mutation happened */
+  createdAt: number;
+}
+
+/**
+ * Which side of a revision to restore.
+ * - "after": the file as this revision left it
+ * - "before": the file as it was just before this revision (undo)
+ */
+export type RestoreState = "before" | "after";
+
+/**
+ * A single line in a line diff.
+ */
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  text: string;
+  /** 1-based line number in the old text (context and removed lines) */
+  oldLine?: number;
+  /** 1-based line number in the new text (context and added lines) */
+  newLine?: number;
+}
+
+/**
+ * Added/removed line counts for a revision.
+ */
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
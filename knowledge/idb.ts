@@ -1,23 +1,36 @@
 /**
  * Knowledge IndexedDB Store
  *
- * Low-level IndexedDB operations for the knowledge filesystem.
- * Uses the 'idb' library for a promise-based API.
+ * Low-level database operations for the knowledge filesystem.
+ * Goes through the storage adapter (lib/storage/adapter.ts), so it runs on
+ * IndexedDB in the browser and in memory under Node.
  *
  * Version history:
  * - v1: Initial nodes store
  * - v2: Added embeddings store for RAG semantic search
  * - v3: Added metadata store for UMAP projection cache
  * - v4: Added links store for knowledge graph relationships
+ * - v5: Added revisions store for file version history
+ * - v6: Added contradictions store for detected conflicts between files
+ * - v7: Added trash store for deleted files and folders
  * 
  * IMPORTANT: We keep the database name as "knowledge_v1" but upgrade the
  * schema version. This preserves existing data while adding new features.
  */
 
-import { openDB, type DBSchema, type IDBPDatabase } from "idb";
+import { openDB } from "idb";
+import {
+  openDatabase,
+  type DatabaseDefinition,
+  type DatabaseSchema,
+  type StorageAdapter,
+} from "@/lib/storage/adapter";
 import type { KnowledgeNode } from "./types";
 import type { EmbeddingRecord } from "./embeddings/types";
 import type { KnowledgeLink } from "./links/types";
+import type { FileRevision } from "./history/types";
+import type { Contradiction } from "./contradictions/types";
+import type { TrashEntry } from "./trash/types";
 
 /**
  * Cached UMAP projection for embedding visualization.
@@ -52,7 +65,7 @@ export interface GraphLayoutCache {
 // Union type for metadata values
 type MetadataValue = UmapCache | GraphLayoutCache;
 
-interface KnowledgeDbSchema extends DBSchema {
+interface KnowledgeDbSchema extends DatabaseSchema {
   nodes: {
     key: string;
     value: KnowledgeNode;
@@ -78,56 +91,65 @@ interface KnowledgeDbSchema extends DBSchema {
       "by-relationship": string; // Filter links by relationship type
     };
   };
+  revisions: {
+    key: string;
+    value: FileRevision;
+    indexes: {
+      "by-path": string; // All revisions of a file
+    };
+  };
+  contradictions: {
+    key: string;
+    value: Contradiction;
+    indexes: {
+      "by-status": string; // Open conflicts for the inbox
+    };
+  };
+  trash: {
+    key: string;
+    value: TrashEntry;
+  };
 }
 
-let dbPromise: Promise<IDBPDatabase<KnowledgeDbSchema>> | null = null;
-
-export function getKnowledgeDb() {
-  if (!dbPromise) {
-    // Use the SAME database name "knowledge_v1" but upgrade schema version
-    // This preserves all existing data while adding new features
-    dbPromise = openDB<KnowledgeDbSchema>("knowledge_v1", 4, {
-      upgrade(db, oldVersion, newVersion) {
-        console.log(`[Knowledge DB] Upgrading from v${oldVersion} to v${newVersion}`);
-        
-        // Create nodes store if it doesn't exist (fresh install)
-        if (!db.objectStoreNames.contains("nodes")) {
-          console.log("[Knowledge DB] Creating nodes store");
-          db.createObjectStore("nodes", { keyPath: "path" });
-        }
-
-        // Create embeddings store (new in schema v2)
-        if (!db.objectStoreNames.contains("embeddings")) {
-          console.log("[Knowledge DB] Creating embeddings store");
-          const embeddingsStore = db.createObjectStore("embeddings", {
-            keyPath: "id",
-          });
-          embeddingsStore.createIndex("by-file", "filePath", { unique: false });
-          embeddingsStore.createIndex("by-hash", "contentHash", {
-            unique: false,
-          });
-        }
-
-        // Create metadata store for UMAP cache (new in schema v3)
-        if (!db.objectStoreNames.contains("metadata")) {
-          console.log("[Knowledge DB] Creating metadata store");
-          db.createObjectStore("metadata", { keyPath: "id" });
-        }
-
-        // Create links store for knowledge graph relationships (new in schema v4)
-        if (!db.objectStoreNames.contains("links")) {
-          console.log("[Knowledge DB] Creating links store");
-          const linksStore = db.createObjectStore("links", { keyPath: "id" });
-          linksStore.createIndex("by-source", "source", { unique: false });
-          linksStore.createIndex("by-target", "target", { unique: false });
-          linksStore.createIndex("by-relationship", "relationship", { unique: false });
-        }
-
-        console.log("[Knowledge DB] Upgrade complete");
+/**
+ * Store layout for the knowledge database. Missing stores and indexes are
+ * created when the database is opened (see lib/storage/indexeddb-adapter.ts).
+ *
+ * Use the SAME database name "knowledge_v1" but upgrade schema version.
+ * This preserves all existing data while adding new features.
+ */
+const KNOWLEDGE_DB: DatabaseDefinition<KnowledgeDbSchema> = {
+  name: "knowledge_v1",
+  version: 7,
+  stores: {
+    nodes: { keyPath: "path" },
+    embeddings: {
+      keyPath: "id",
+      indexes: { "by-file": "filePath", "by-hash": "contentHash" },
+    },
+    metadata: { keyPath: "id" },
+    links: {
+      keyPath: "id",
+      indexes: {
+        "by-source": "source",
+        "by-target": "target",
+        "by-relationship": "relationship",
       },
-    });
-  }
-  return dbPromise;
+    },
+    revisions: {
+      keyPath: "id",
+      indexes: { "by-path": "path" },
+    },
+    contradictions: {
+      keyPath: "id",
+      indexes: { "by-status": "status" },
+    },
+    trash: { keyPath: "id" },
+  },
+};
+
+export function getKnowledgeDb(): Promise<StorageAdapter<KnowledgeDbSchema>> {
+  return openDatabase(KNOWLEDGE_DB);
 }
 
 export async function initRootIfNeeded() {
@@ -150,6 +172,9 @@ export async function initRootIfNeeded() {
  * Call this once on app startup.
  */
 export async function migrateFromV2NameIfNeeded(): Promise<void> {
+  // Legacy IndexedDB-only fixup - nothing to migrate on other backends
+  if (typeof indexedDB === "undefined") return;
+
   // Check if the incorrectly-named v2 database exists
   const databases = await indexedDB.databases();
   const v2NameExists = databases.some((db) => db.name === "knowledge_v2");
@@ -18,6 +18,9 @@
  *   const results = await hybridSearch("authentication methods");
  *   // Combines lexical (exact terms) + semantic (meaning) for best results
  *
+ * Scoped Search (frontmatter tags/metadata):
+ *   const results = await hybridSearch("pricing", { filter: { tags: ["client/globex"] } });
+ *
  * Legacy Semantic-Only Search:
  *   import { searchEmbeddings } from "@/knowledge";
  *   const results = await searchEmbeddings("authentication methods");
@@ -26,6 +29,7 @@
 export * from "./types";
 export * from "./operations";
 export * from "./kb-summary";
+export * from "./frontmatter";
 export { 
   getKnowledgeDb, 
   initRootIfNeeded, 
@@ -42,8 +46,11 @@ export {
   searchEmbeddings,
   embedFile,
   deleteFileEmbeddings,
+  moveFileEmbeddings,
+  copyFileEmbeddings,
   getEmbeddingStats,
   getAllEmbeddings,
+  findSimilarChunks,
   reindexAllFiles,
   clearAllEmbeddings,
   getUmapCache,
@@ -69,7 +76,7 @@ export {
   type QueryType,
 } from "./embeddings/lexical-search";
 
-export type { SearchResult, EmbeddingRecord, Chunk } from "./embeddings/types";
+export type { SearchResult, EmbeddingRecord, Chunk, Embedder } from "./embeddings/types";
 export type { ReindexProgressCallback } from "./embeddings/operations";
 export type { UmapCache, GraphLayoutCache } from "./idb";
 
@@ -81,9 +88,17 @@ export {
   getAllLinks,
   getLinksByRelationship,
   deleteLinksForFile,
+  moveLinksForFile,
   getLinkStats,
 } from "./links/operations";
 
+export {
+  extractLinkReferences,
+  syncDerivedLinks,
+  refreshDerivedLinksFor,
+  type LinkReference,
+} from "./links/derived-links";
+
 export {
   traverseGraph,
   findPath,
@@ -106,6 +121,81 @@ export type {
   AdjacencyList,
 } from "./links/types";
 
+// Contradiction detection exports (runs automatically when a file changes)
+export {
+  detectContradictions,
+  findContradictionCandidates,
+  getContradictions,
+  resolveContradiction,
+  onContradictionsChange,
+  judgeContradictions,
+  CONTRADICTION_CANDIDATE_SIMILARITY,
+  MAX_CONTRADICTION_CANDIDATES,
+} from "./contradictions";
+
+export type {
+  Contradiction,
+  ContradictionStatus,
+  ContradictionCandidate,
+  ContradictionVerdict,
+  ContradictionJudge,
+} from "./contradictions";
+
+// In-place edit exports (editFile is exported from ./operations)
+export { applyEdit, toFileEdit, type FileEdit, type AppliedEdit } from "./edit";
+
+// Integrity check exports
+export {
+  checkKnowledgeIntegrity,
+  type IntegrityIssue,
+  type IntegrityIssueKind,
+  type IntegrityReport,
+} from "./integrity";
+
+// Pattern search exports (grepFiles is exported from ./operations)
+export {
+  grepContent,
+  formatGrepResults,
+  isUnderPath,
+  type GrepOptions,
+  type GrepMatch,
+  type GrepResult,
+} from "./grep";
+
+// File history exports (restoreRevision is exported from ./operations)
+export {
+  getFileHistory,
+  getRevision,
+  moveFileHistory,
+  MAX_REVISIONS_PER_FILE,
+} from "./history/operations";
+
+export {
+  diffLines,
+  getDiffStats,
+  formatUnifiedDiff,
+} from "./history/diff";
+
+export type {
+  FileRevision,
+  RevisionAction,
+  RestoreState,
+  DiffLine,
+  DiffStats,
+} from "./history/types";
+
+// Trash exports (deleteNode and restoreFromTrash are exported from ./operations)
+export {
+  getTrashEntries,
+  getTrashEntry,
+  purgeTrashEntry,
+  emptyTrash,
+  purgeExpiredTrash,
+  onTrashChange,
+} from "./trash/operations";
+
+export type { TrashEntry } from "./trash/types";
+
 // Backup & restore exports
 export {
   exportKnowledgeBase,
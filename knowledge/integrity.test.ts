@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Deterministic embeddings instead of /api/embed, which doesn't exist here
+vi.mock("./embeddings/embed-client", async (importOriginal) => {
+  const { createMockEmbedding } = await import("@/agents/mock-model");
+  return {
+    ...(await importOriginal<typeof import("./embeddings/embed-client")>()),
+    embedTexts: vi.fn(async (texts: string[]) => texts.map((text) => createMockEmbedding(text, 64))),
+  };
+});
+
+import { setStorageBackend } from "@/lib/storage/adapter";
+import { createMemoryBackend } from "@/lib/storage/memory-adapter";
+import { getKnowledgeDb } from "./idb";
+import { getAllEmbeddings } from "./embeddings/operations";
+import { createLink, getAllLinks } from "./links/operations";
+import { listFolder, writeFile } from "./operations";
+import { checkKnowledgeIntegrity } from "./integrity";
+
+/** Let the background embedding started by writeFile finish */
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("checkKnowledgeIntegrity", () => {
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    await writeFile("/projects/acme/plan.md", "# Plan\n\nShip the beta in March.");
+    await writeFile("/notes/status.md", "# Status\n\nWaiting on the plan.");
+    await createLink("/notes/status.md", "/projects/acme/plan.md", "references");
+    await settle();
+  });
+
+  it("finds nothing wrong with a consistent knowledge base", async () => {
+    const report = await checkKnowledgeIntegrity();
+
+    expect(report.issues).toEqual([]);
+    expect(report.links).toBe(1);
+  });
+
+  /** Break the stores the way an interrupted write would */
+  async function corrupt(): Promise<void> {
+    const db = await getKnowledgeDb();
+    const root = (await db.get("nodes", "/"))!;
+    await db.put("nodes", { ...root, children: [...root.children!, "ghost.md", "notes"] });
+    await db.delete("nodes", "/projects");
+    for (const record of await db.getAllFromIndex("embeddings", "by-file", "/notes/status.md")) {
+      await db.put("embeddings", { ...record, id: `/gone.md#${record.chunkIndex}`, filePath: "/gone.md" });
+      await db.delete("embeddings", record.id);
+    }
+    await db.delete("nodes", "/projects/acme/plan.md");
+  }
+
+  it("reports problems without changing anything", async () => {
+    await corrupt();
+
+    const report = await checkKnowledgeIntegrity();
+
+    expect(report.issues.map((issue) => [issue.kind, issue.path, issue.repaired])).toEqual([
+      ["dangling-child", "/projects", false],
+      ["dangling-child", "/ghost.md", false],
+      ["duplicate-child", "/notes", false],
+      ["dangling-child", "/projects/acme/plan.md", false],
+      ["missing-parent", "/projects", false],
+      ["orphaned-embeddings", "/gone.md", false],
+      ["orphaned-embeddings", "/projects/acme/plan.md", false],
+      ["missing-embeddings", "/notes/status.md", false],
+      ["dangling-link", "/notes/status.md#/projects/acme/plan.md#references", false],
+    ]);
+    expect(await listFolder("/")).toEqual(["projects", "notes", "ghost.md", "notes"]);
+  });
+
+  it("repairs the tree, embeddings and links", async () => {
+    await corrupt();
+
+    const report = await checkKnowledgeIntegrity({ repair: true });
+
+    expect(report.repaired).toBe(report.issues.length);
+    expect(await listFolder("/")).toEqual(["notes", "projects"]);
+    expect(await listFolder("/projects")).toEqual(["acme"]);
+    expect((await getAllEmbeddings()).map((e) => e.filePath)).toEqual(["/notes/status.md"]);
+    expect(await getAllLinks()).toEqual([]);
+    expect((await checkKnowledgeIntegrity()).issues).toEqual([]);
+  });
+});
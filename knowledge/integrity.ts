@@ -0,0 +1,292 @@
+/**
+ * Knowledge Base Integrity Check & Repair
+ *
+ * The tree is stored denormalized (each folder lists its children by name)
+ * and embeddings, links and caches are keyed by path, so a crash between
+ * writes or a partial import can leave the stores out of step. This module
+ * finds those inconsistencies and, in repair mode, fixes them:
+ *
+ * - Nodes: missing root, children entries with no node (or listed twice),
+ *   nodes missing from their parent's children, missing parent folders
+ * - Embeddings: chunks for paths that are no longer files, files that have
+ *   text but no embeddings (re-embedded on repair)
+ * - Links: links whose source or target file doesn't exist
+ * - Caches: UMAP projection and graph layout that no longer match the data
+ *
+ * Run from Settings ("Check Knowledge Base").
+ */
+
+import { getKnowledgeDb, initRootIfNeeded, clearGraphLayoutCache } from "./idb";
+import { embedFile, clearUmapCache } from "./embeddings/operations";
+import { chunkMarkdown } from "./embeddings/chunker";
+import { parseFrontmatter } from "./frontmatter";
+import type { KnowledgeNode } from "./types";
+import { publishChange } from "@/lib/storage/sync";
+
+export type IntegrityIssueKind =
+  | "missing-root"
+  | "dangling-child"
+  | "duplicate-child"
+  | "unlisted-node"
+  | "missing-parent"
+  | "parent-not-folder"
+  | "orphaned-embeddings"
+  | "missing-embeddings"
+  | "dangling-link"
+  | "stale-umap-cache"
+  | "stale-graph-cache";
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  /** Node, file or link the issue is about */
+  path: string;
+  /** Human-readable description */
+  detail: string;
+  /** Whether repair mode fixed it */
+  repaired: boolean;
+}
+
+export interface IntegrityReport {
+  checkedAt: number;
+  /** Whether the check ran in repair mode */
+  repair: boolean;
+  nodes: number;
+  embeddings: number;
+  links: number;
+  issues: IntegrityIssue[];
+  /** Number of issues that were fixed */
+  repaired: number;
+}
+
+function parentPath(path: string): string {
+  const parts = path.split("/").filter(Boolean);
+  return parts.length <= 1 ? "/" : "/" + parts.slice(0, -1).join("/");
+}
+
+function nodeName(path: string): string {
+  return path.split("/").filter(Boolean).pop() || "";
+}
+
+function childPath(folder: string, name: string): string {
+  return folder === "/" ? `/${name}` : `${folder}/${name}`;
+}
+
+/**
+ * Check the knowledge base for inconsistencies between the tree, embeddings,
+ * links and caches.
+ *
+ * @param options.repair - Fix what can be fixed (default: report only)
+ * @returns Everything found, with what was repaired
+ */
+export async function checkKnowledgeIntegrity(
+  options: { repair?: boolean } = {}
+): Promise<IntegrityReport> {
+  const repair = Boolean(options.repair);
+  const db = await getKnowledgeDb();
+  const issues: IntegrityIssue[] = [];
+  const report = (kind: IntegrityIssueKind, path: string, detail: string, repaired = repair) => {
+    issues.push({ kind, path, detail, repaired });
+  };
+
+  // ===========================================================================
+  // NODES
+  // ===========================================================================
+
+  // Folders created by this run: their children aren't reported as unlisted
+  const recreated = new Set<string>();
+
+  if (!(await db.get("nodes", "/"))) {
+    report("missing-root", "/", "Root folder is missing");
+    recreated.add("/");
+    if (repair) await initRootIfNeeded();
+  }
+
+  const now = Date.now();
+  const nodes = new Map<string, KnowledgeNode>();
+  for (const node of await db.getAll("nodes")) {
+    nodes.set(node.path, node);
+  }
+  if (!nodes.has("/")) {
+    // Report-only run without a root: check the rest against an empty one
+    nodes.set("/", { path: "/", type: "folder", children: [], createdAt: now, updatedAt: now });
+  }
+  const changedFolders = new Set<string>();
+
+  // Folder children that don't resolve to a node, or are listed twice
+  for (const folder of nodes.values()) {
+    if (folder.type !== "folder" || !folder.children) continue;
+    const seen = new Set<string>();
+    const kept: string[] = [];
+    for (const name of folder.children) {
+      const path = childPath(folder.path, name);
+      if (seen.has(name)) {
+        report("duplicate-child", path, `"${name}" is listed twice in ${folder.path}`);
+      } else if (!nodes.has(path)) {
+        report("dangling-child", path, `${folder.path} lists "${name}", which doesn't exist`);
+      } else {
+        kept.push(name);
+      }
+      seen.add(name);
+    }
+    if (kept.length !== folder.children.length) {
+      folder.children = kept;
+      changedFolders.add(folder.path);
+    }
+  }
+
+  // Nodes missing from their parent (creating missing parent folders).
+  // Shallow paths first, so a recreated folder is checked before its children.
+  for (const node of Array.from(nodes.values()).sort((a, b) => a.path.length - b.path.length)) {
+    if (node.path === "/") continue;
+    const folderPath = parentPath(node.path);
+    let parent = nodes.get(folderPath);
+
+    if (!parent) {
+      report("missing-parent", folderPath, `Folder ${folderPath} is missing (parent of ${node.path})`);
+      parent = { path: folderPath, type: "folder", children: [], createdAt: now, updatedAt: now };
+      nodes.set(folderPath, parent);
+      changedFolders.add(folderPath);
+      recreated.add(folderPath);
+      // Attach the new folder to its own parent (recreated the same way)
+      let child = parent;
+      let ancestor = nodes.get(parentPath(child.path));
+      while (!ancestor) {
+        const path = parentPath(child.path);
+        report("missing-parent", path, `Folder ${path} is missing (parent of ${child.path})`);
+        ancestor = { path, type: "folder", children: [], createdAt: now, updatedAt: now };
+        nodes.set(path, ancestor);
+        changedFolders.add(path);
+        recreated.add(path);
+        ancestor.children!.push(nodeName(child.path));
+        child = ancestor;
+        ancestor = nodes.get(parentPath(child.path));
+      }
+      if (ancestor.type === "folder" && !ancestor.children?.includes(nodeName(child.path))) {
+        ancestor.children = [...(ancestor.children ?? []), nodeName(child.path)];
+        changedFolders.add(ancestor.path);
+      }
+    }
+
+    if (parent.type !== "folder") {
+      report("parent-not-folder", node.path, `Parent ${parent.path} is a file`, false);
+      continue;
+    }
+    const name = nodeName(node.path);
+    if (!parent.children?.includes(name)) {
+      if (!recreated.has(parent.path)) {
+        report("unlisted-node", node.path, `${node.path} is missing from ${parent.path}`);
+      }
+      parent.children = [...(parent.children ?? []), name];
+      changedFolders.add(parent.path);
+    }
+  }
+
+  if (repair) {
+    for (const path of changedFolders) {
+      const folder = nodes.get(path)!;
+      await db.put("nodes", { ...folder, updatedAt: now });
+    }
+  }
+
+  const files = new Map<string, KnowledgeNode>();
+  for (const node of nodes.values()) {
+    if (node.type === "file") files.set(node.path, node);
+  }
+
+  // ===========================================================================
+  // EMBEDDINGS
+  // ===========================================================================
+
+  const embeddings = await db.getAll("embeddings");
+  const embeddedFiles = new Map<string, number>();
+  for (const record of embeddings) {
+    embeddedFiles.set(record.filePath, (embeddedFiles.get(record.filePath) ?? 0) + 1);
+  }
+
+  for (const [path, count] of embeddedFiles) {
+    if (files.has(path)) continue;
+    report("orphaned-embeddings", path, `${count} embedding chunk(s) for a file that doesn't exist`);
+    if (repair) {
+      for (const record of await db.getAllFromIndex("embeddings", "by-file", path)) {
+        await db.delete("embeddings", record.id);
+      }
+    }
+  }
+
+  for (const file of files.values()) {
+    if (embeddedFiles.has(file.path)) continue;
+    const content = file.content ?? "";
+    if (chunkMarkdown(parseFrontmatter(content).body).length === 0) continue;
+
+    if (!repair) {
+      report("missing-embeddings", file.path, "File has no embeddings, so search can't find it");
+      continue;
+    }
+    try {
+      await embedFile(file.path, content);
+      report("missing-embeddings", file.path, "File had no embeddings; re-embedded");
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      report("missing-embeddings", file.path, `File has no embeddings; re-embedding failed: ${reason}`, false);
+    }
+  }
+
+  // ===========================================================================
+  // LINKS
+  // ===========================================================================
+
+  const links = await db.getAll("links");
+  const keptLinks = links.filter((link) => {
+    const missing = [link.source, link.target].filter((path) => !files.has(path));
+    if (missing.length === 0) return true;
+    report("dangling-link", link.id, `Link ${link.source} → ${link.target} points at missing ${missing.join(" and ")}`);
+    return false;
+  });
+  if (repair) {
+    for (const link of links) {
+      if (!keptLinks.includes(link)) await db.delete("links", link.id);
+    }
+  }
+
+  // ===========================================================================
+  // CACHES
+  // ===========================================================================
+
+  const umap = await db.get("metadata", "umap_projection");
+  if (umap && umap.id === "umap_projection") {
+    const currentEmbeddings = repair ? await db.getAll("embeddings") : embeddings;
+    const ids = new Set(currentEmbeddings.map((record) => record.id));
+    if (
+      umap.embeddingCount !== currentEmbeddings.length ||
+      umap.points.some((point) => !ids.has(point.embeddingId))
+    ) {
+      report("stale-umap-cache", "umap_projection", "Embedding projection doesn't match the current embeddings");
+      if (repair) await clearUmapCache();
+    }
+  }
+
+  const layout = await db.get("metadata", "graph_layout");
+  if (layout && layout.id === "graph_layout") {
+    if (
+      layout.linkCount !== keptLinks.length ||
+      layout.nodes.some((node) => !files.has(node.id))
+    ) {
+      report("stale-graph-cache", "graph_layout", "Graph layout doesn't match the current files and links");
+      if (repair) await clearGraphLayoutCache();
+    }
+  }
+
+  if (repair && issues.some((issue) => issue.repaired)) {
+    publishChange("knowledge");
+  }
+
+  return {
+    checkedAt: Date.now(),
+    repair,
+    nodes: nodes.size,
+    embeddings: embeddings.length,
+    links: links.length,
+    issues,
+    repaired: issues.filter((issue) => issue.repaired).length,
+  };
+}
@@ -10,9 +10,25 @@
  * - Reduces token usage vs preloading all content
  * - Gives Claude awareness of available information
  * - Enables informed decisions about what to retrieve
+ *
+ * Files with frontmatter tags list them after the name, so Claude can scope
+ * kb_search to a project or client.
  */
 
 import { getRootFolders, listFolder, readFile } from "./operations";
+import { parseFrontmatter } from "./frontmatter";
+
+/**
+ * The read operations the summary needs. Defaults to the browser store;
+ * the server passes its own store when knowledge lives server-side.
+ */
+export interface KBSummarySource {
+  getRootFolders(): Promise<string[]>;
+  listFolder(path: string): Promise<string[]>;
+  readFile(path: string): Promise<string>;
+}
+
+const browserSource: KBSummarySource = { getRootFolders, listFolder, readFile };
 
 /**
  * Maximum number of files to show per folder in the summary.
@@ -26,47 +42,77 @@ const MAX_FILES_PER_FOLDER = 10;
 const MAX_PREVIEW_LENGTH = 60;
 
 /**
- * Get the first non-empty line of a file as a preview.
+ * Maximum number of tags shown per file.
  */
-async function getFilePreview(path: string): Promise<string | null> {
-  try {
-    const content = await readFile(path);
-    // Find first non-empty, non-heading line for context
-    const lines = content.split("\n");
-    for (const line of lines) {
-      const trimmed = line.trim();
-      // Skip empty lines and markdown headings
-      if (trimmed && !trimmed.startsWith("#")) {
-        if (trimmed.length > MAX_PREVIEW_LENGTH) {
-          return trimmed.slice(0, MAX_PREVIEW_LENGTH) + "...";
-        }
-        return trimmed;
+const MAX_TAGS = 5;
+
+/**
+ * Get the first non-empty line of a file's body as a preview.
+ */
+function getFilePreview(body: string): string | null {
+  // Find first non-empty, non-heading line for context
+  const lines = body.split("\n");
+  for (const line of lines) {
+    const trimmed = line.trim();
+    // Skip empty lines and markdown headings
+    if (trimmed && !trimmed.startsWith("#")) {
+      if (trimmed.length > MAX_PREVIEW_LENGTH) {
+        return trimmed.slice(0, MAX_PREVIEW_LENGTH) + "...";
       }
+      return trimmed;
     }
-    // Fallback to first heading if no content
-    const heading = lines.find((l) => l.trim().startsWith("#"));
-    if (heading) {
-      const text = heading.replace(/^#+\s*/, "").trim();
-      return text.length > MAX_PREVIEW_LENGTH
-        ? text.slice(0, MAX_PREVIEW_LENGTH) + "..."
-        : text;
-    }
-    return null;
+  }
+  // Fallback to first heading if no content
+  const heading = lines.find((l) => l.trim().startsWith("#"));
+  if (heading) {
+    const text = heading.replace(/^#+\s*/, "").trim();
+    return text.length > MAX_PREVIEW_LENGTH
+      ? text.slice(0, MAX_PREVIEW_LENGTH) + "..."
+      : text;
+  }
+  return null;
+}
+
+/**
+ * Format one file's summary line: name, frontmatter tags and preview.
+ */
+async function formatFileLine(
+  source: KBSummarySource,
+  path: string,
+  file: string,
+  indent: string
+): Promise<string> {
+  let content: string;
+  try {
+    content = await source.readFile(path);
   } catch {
-    return null;
+    return `${indent}  - ${file}`;
   }
+
+  const { metadata, body } = parseFrontmatter(content);
+  const tags = metadata.tags ?? [];
+  const tagList =
+    tags.length > 0
+      ? ` [tags: ${tags.slice(0, MAX_TAGS).join(", ")}${tags.length > MAX_TAGS ? ", ..." : ""}]`
+      : "";
+  const preview = getFilePreview(body);
+
+  return preview
+    ? `${indent}  - ${file}${tagList}: "${preview}"`
+    : `${indent}  - ${file}${tagList}`;
 }
 
 /**
  * Recursively build folder structure with file previews.
  */
 async function buildFolderSummary(
+  source: KBSummarySource,
   folderPath: string,
   folderName: string,
   depth: number = 0
 ): Promise<string> {
   const indent = "  ".repeat(depth);
-  const items = await listFolder(folderPath);
+  const items = await source.listFolder(folderPath);
 
   if (items.length === 0) {
     return `${indent}[${folderName}]: (empty)`;
@@ -91,12 +137,7 @@ async function buildFolderSummary(
   for (const file of filesToShow) {
     const filePath =
       folderPath === "/" ? `/${file}` : `${folderPath}/${file}`;
-    const preview = await getFilePreview(filePath);
-    if (preview) {
-      lines.push(`${indent}  - ${file}: "${preview}"`);
-    } else {
-      lines.push(`${indent}  - ${file}`);
-    }
+    lines.push(await formatFileLine(source, filePath, file, indent));
   }
 
   if (files.length > MAX_FILES_PER_FOLDER) {
@@ -110,7 +151,7 @@ async function buildFolderSummary(
     for (const folder of folders) {
       const subPath =
         folderPath === "/" ? `/${folder}` : `${folderPath}/${folder}`;
-      const subItems = await listFolder(subPath);
+      const subItems = await source.listFolder(subPath);
       lines.push(`${indent}  [${folder}/]: ${subItems.length} items`);
     }
   }
@@ -125,10 +166,13 @@ async function buildFolderSummary(
  * This provides Claude with an overview of available information without
  * loading full file contents.
  *
+ * @param source - Where to read from (default: the browser's IndexedDB store)
  * @returns XML-formatted knowledge base summary
  */
-export async function generateKBSummary(): Promise<string> {
-  const rootFolders = await getRootFolders();
+export async function generateKBSummary(
+  source: KBSummarySource = browserSource
+): Promise<string> {
+  const rootFolders = await source.getRootFolders();
 
   if (rootFolders.length === 0) {
     return "(Knowledge base is empty - no folders or files yet)";
@@ -137,7 +181,7 @@ export async function generateKBSummary(): Promise<string> {
   const summaryParts: string[] = [];
 
   for (const folder of rootFolders) {
-    const folderSummary = await buildFolderSummary(`/${folder}`, folder);
+    const folderSummary = await buildFolderSummary(source, `/${folder}`, folder);
     summaryParts.push(folderSummary);
   }
 
@@ -148,8 +192,10 @@ export async function generateKBSummary(): Promise<string> {
  * Generate a minimal summary with just folder names and file counts.
  * Useful when token budget is very limited.
  */
-export async function generateMinimalKBSummary(): Promise<string> {
-  const rootFolders = await getRootFolders();
+export async function generateMinimalKBSummary(
+  source: KBSummarySource = browserSource
+): Promise<string> {
+  const rootFolders = await source.getRootFolders();
 
   if (rootFolders.length === 0) {
     return "(empty)";
@@ -158,7 +204,7 @@ export async function generateMinimalKBSummary(): Promise<string> {
   const parts: string[] = [];
 
   for (const folder of rootFolders) {
-    const items = await listFolder(`/${folder}`);
+    const items = await source.listFolder(`/${folder}`);
     parts.push(`[${folder}]: ${items.length} items`);
   }
 
@@ -4,13 +4,19 @@
  * Separate IndexedDB database for large document storage.
  * Keeps large documents isolated from the main knowledge base
  * to avoid performance issues with the regular KB operations.
+ * Opened through the storage adapter (lib/storage/adapter.ts).
  *
  * Version history:
  * - v1: Initial documents and chunks stores
  * - v2: Added metadata store for UMAP projection cache
  */
 
-import { openDB, type DBSchema, type IDBPDatabase } from "idb";
+import {
+  openDatabase,
+  type DatabaseDefinition,
+  type DatabaseSchema,
+  type StorageAdapter,
+} from "@/lib/storage/adapter";
 import type { LargeDocumentMetadata, LargeDocumentChunk } from "./types";
 
 // =============================================================================
@@ -47,7 +53,7 @@ export interface DocumentUmapCache {
 // DATABASE SCHEMA
 // =============================================================================
 
-interface LargeDocumentsDbSchema extends DBSchema {
+interface LargeDocumentsDbSchema extends DatabaseSchema {
   documents: {
     key: string;
     value: LargeDocumentMetadata;
@@ -70,44 +76,27 @@ interface LargeDocumentsDbSchema extends DBSchema {
   };
 }
 
-let dbPromise: Promise<IDBPDatabase<LargeDocumentsDbSchema>> | null = null;
+const LARGE_DOCUMENTS_DB: DatabaseDefinition<LargeDocumentsDbSchema> = {
+  name: "large_documents_v1",
+  version: 2,
+  stores: {
+    documents: {
+      keyPath: "id",
+      indexes: { "by-filename": "filename", "by-status": "status" },
+    },
+    chunks: {
+      keyPath: "id",
+      indexes: { "by-document": "documentId", "by-hash": "contentHash" },
+    },
+    metadata: { keyPath: "id" },
+  },
+};
 
 /**
  * Get the large documents database instance.
  */
-export function getLargeDocumentsDb() {
-  if (!dbPromise) {
-    dbPromise = openDB<LargeDocumentsDbSchema>("large_documents_v1", 2, {
-      upgrade(db, oldVersion, newVersion) {
-        console.log(`[LargeDocs DB] Upgrading from v${oldVersion} to v${newVersion}`);
-
-        // Create documents store (v1)
-        if (!db.objectStoreNames.contains("documents")) {
-          console.log("[LargeDocs DB] Creating documents store");
-          const docsStore = db.createObjectStore("documents", { keyPath: "id" });
-          docsStore.createIndex("by-filename", "filename", { unique: false });
-          docsStore.createIndex("by-status", "status", { unique: false });
-        }
-
-        // Create chunks store (v1)
-        if (!db.objectStoreNames.contains("chunks")) {
-          console.log("[LargeDocs DB] Creating chunks store");
-          const chunksStore = db.createObjectStore("chunks", { keyPath: "id" });
-          chunksStore.createIndex("by-document", "documentId", { unique: false });
-          chunksStore.createIndex("by-hash", "contentHash", { unique: false });
-        }
-
-        // Create metadata store for UMAP cache (v2)
-        if (!db.objectStoreNames.contains("metadata")) {
-          console.log("[LargeDocs DB] Creating metadata store for UMAP cache");
-          db.createObjectStore("metadata", { keyPath: "id" });
-        }
-
-        console.log("[LargeDocs DB] Upgrade complete");
-      },
-    });
-  }
-  return dbPromise;
+export function getLargeDocumentsDb(): Promise<StorageAdapter<LargeDocumentsDbSchema>> {
+  return openDatabase(LARGE_DOCUMENTS_DB);
 }
 
 /**
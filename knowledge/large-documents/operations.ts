@@ -10,13 +10,19 @@
  * - Chunk overlap: 75 tokens (~15%, NVIDIA benchmark optimal)
  * - Optional reranking: Cross-encoder reranking for 20-40% accuracy boost
  * - Hybrid search with RRF fusion for better precision/recall balance
+ *
+ * Uploads, renames and deletes notify other open tabs (lib/storage/sync.ts).
  */
 
 import { getLargeDocumentsDb, removeDocumentUmapCache } from "./idb";
 import { chunkMarkdown, type ChunkOptions } from "../embeddings/chunker";
 import { embedTexts, embedQuery } from "../embeddings/embed-client";
+import type { Embedder } from "../embeddings/types";
 import { rerank, getRecommendedReranker, type RerankDocument, type RerankerConfig } from "../embeddings/reranker";
 import { largeDocLexicalSearch, detectQueryType, type LargeDocLexicalResult } from "./lexical-search";
+import { extractPdfPages } from "./pdf-extract";
+import { joinPages, getChunkPages } from "./pages";
+import { publishChange } from "@/lib/storage/sync";
 import type {
   LargeDocumentMetadata,
   LargeDocumentChunk,
@@ -52,6 +58,8 @@ export interface LargeDocumentSearchOptions {
   includeBreakdown?: boolean;
   /** RRF smoothing constant k (default: 60) */
   rrfK?: number;
+  /** Embeds the query (default: /api/embed) */
+  embed?: Embedder;
 }
 
 /**
@@ -89,15 +97,36 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return denominator === 0 ? 0 : dot / denominator;
 }
 
+/**
+ * Parsed document text, with page boundaries for paginated formats.
+ */
+interface ParsedDocument {
+  /** Full document text */
+  text: string;
+  /** Character offset where each page starts in `text` (PDF only) */
+  pageOffsets?: number[];
+}
+
+/**
+ * Resolve the MIME type for an uploaded file.
+ * Browsers leave `type` empty for some extensions (e.g. .md), so fall back
+ * to the file name before defaulting to plain text.
+ */
+function resolveMimeType(file: File): string {
+  if (file.type) return file.type;
+  if (file.name.toLowerCase().endsWith(".pdf")) return "application/pdf";
+  return "text/plain";
+}
+
 /**
  * Parse document content based on MIME type.
- * Currently supports plain text and markdown.
- * PDF support can be added later with pdf-parse or similar.
+ * Supports plain text, markdown, JSON, XML and PDF.
+ * PDFs are extracted page by page so chunks can be mapped back to pages.
  */
 async function parseDocument(
   content: ArrayBuffer | string,
   mimeType: string
-): Promise<string> {
+): Promise<ParsedDocument> {
   // Handle text-based formats
   if (
     mimeType.startsWith("text/") ||
@@ -105,22 +134,40 @@ async function parseDocument(
     mimeType === "application/xml"
   ) {
     if (typeof content === "string") {
-      return content;
+      return { text: content };
     }
     const decoder = new TextDecoder("utf-8");
-    return decoder.decode(content);
+    return { text: decoder.decode(content) };
   }
 
-  // For PDF, we'll need to parse it - for now return error message
   if (mimeType === "application/pdf") {
-    // PDF parsing would require a library like pdf-parse
-    // For now, we'll handle this client-side before calling upload
-    throw new Error("PDF files should be converted to text before upload");
+    if (typeof content === "string") {
+      throw new Error("PDF content must be provided as binary data");
+    }
+
+    const { pages } = await extractPdfPages(content);
+    const { text, pageOffsets } = joinPages(pages);
+
+    if (!text.trim()) {
+      throw new Error("No extractable text found in PDF. Scanned PDFs are not supported.");
+    }
+
+    return { text, pageOffsets };
   }
 
   throw new Error(`Unsupported file type: ${mimeType}`);
 }
 
+/**
+ * Format a chunk's page range for citations, e.g. "p. 12" or "p. 12–13".
+ * Returns null for chunks without page information.
+ */
+export function formatPageRange(pageStart?: number, pageEnd?: number): string | null {
+  if (pageStart === undefined) return null;
+  if (pageEnd === undefined || pageEnd === pageStart) return `p. ${pageStart}`;
+  return `p. ${pageStart}–${pageEnd}`;
+}
+
 /**
  * Upload and index a large document.
  *
@@ -130,11 +177,14 @@ async function parseDocument(
  * 3. Chunk the text using the markdown chunker
  * 4. Embed all chunks in batches
  * 5. Store chunks with embeddings
+ *
+ * @param embed - Embeds each batch of chunks (default: /api/embed)
  */
 export async function uploadLargeDocument(
   file: File,
   description?: string,
-  onProgress?: (progress: IndexingProgress) => void
+  onProgress?: (progress: IndexingProgress) => void,
+  embed: Embedder = embedTexts
 ): Promise<LargeDocumentMetadata> {
   const db = await getLargeDocumentsDb();
   const documentId = generateId();
@@ -143,7 +193,7 @@ export async function uploadLargeDocument(
   const metadata: LargeDocumentMetadata = {
     id: documentId,
     filename: file.name,
-    mimeType: file.type || "text/plain",
+    mimeType: resolveMimeType(file),
     fileSize: file.size,
     chunkCount: 0,
     uploadedAt: Date.now(),
@@ -154,6 +204,7 @@ export async function uploadLargeDocument(
 
   // Save initial metadata
   await db.put("documents", metadata);
+  publishChange("large-documents");
 
   try {
     // Report parsing status
@@ -164,8 +215,12 @@ export async function uploadLargeDocument(
       message: "Parsing document...",
     });
 
-    // Read file content
-    const content = await file.text();
+    // Read and parse file content (PDFs are extracted page by page)
+    const { text: content, pageOffsets } = await parseDocument(
+      await file.arrayBuffer(),
+      metadata.mimeType
+    );
+    metadata.pageCount = pageOffsets?.length;
 
     // Update status to indexing
     metadata.status = "indexing";
@@ -205,7 +260,7 @@ export async function uploadLargeDocument(
       const batchTexts = batch.map((c) => c.text);
 
       // Embed the batch
-      const embeddings = await embedTexts(batchTexts);
+      const embeddings = await embed(batchTexts);
 
       // Create chunk records
       for (let j = 0; j < batch.length; j++) {
@@ -224,6 +279,13 @@ export async function uploadLargeDocument(
           updatedAt: Date.now(),
         };
 
+        // Record which pages this chunk spans
+        if (pageOffsets) {
+          const { pageStart, pageEnd } = getChunkPages(pageOffsets, chunk);
+          chunkRecord.pageStart = pageStart;
+          chunkRecord.pageEnd = pageEnd;
+        }
+
         allChunkRecords.push(chunkRecord);
       }
 
@@ -260,6 +322,7 @@ export async function uploadLargeDocument(
       status: "complete",
       message: `Indexed ${allChunkRecords.length} chunks successfully`,
     });
+    publishChange("large-documents");
 
     return metadata;
   } catch (error) {
@@ -268,6 +331,7 @@ export async function uploadLargeDocument(
     metadata.errorMessage =
       error instanceof Error ? error.message : String(error);
     await db.put("documents", metadata);
+    publishChange("large-documents");
 
     onProgress?.({
       current: 0,
@@ -281,19 +345,20 @@ export async function uploadLargeDocument(
 }
 
 /**
- * Upload a large document from text content (for pre-parsed PDFs).
+ * Upload a large document from already-extracted text content.
  */
 export async function uploadLargeDocumentFromText(
   filename: string,
   content: string,
   mimeType: string = "text/plain",
   description?: string,
-  onProgress?: (progress: IndexingProgress) => void
+  onProgress?: (progress: IndexingProgress) => void,
+  embed: Embedder = embedTexts
 ): Promise<LargeDocumentMetadata> {
   // Create a File-like object for the upload function
   const blob = new Blob([content], { type: mimeType });
   const file = new File([blob], filename, { type: mimeType });
-  return uploadLargeDocument(file, description, onProgress);
+  return uploadLargeDocument(file, description, onProgress, embed);
 }
 
 /**
@@ -315,6 +380,7 @@ export async function deleteLargeDocument(documentId: string): Promise<void> {
 
   // Remove cached UMAP projection for this document
   await removeDocumentUmapCache(documentId);
+  publishChange("large-documents");
 }
 
 /**
@@ -334,6 +400,7 @@ export async function renameLargeDocument(
   // Update the filename
   doc.filename = newFilename.trim();
   await db.put("documents", doc);
+  publishChange("large-documents");
 
   return doc;
 }
@@ -439,7 +506,7 @@ export async function searchLargeDocuments(
   // Embed the query
   let queryEmbedding: number[];
   try {
-    queryEmbedding = await embedQuery(query);
+    queryEmbedding = options.embed ? (await options.embed([query]))[0] : await embedQuery(query);
   } catch (error) {
     console.error("[LargeDocs] Failed to embed query:", error);
     // Fall back to lexical-only if embedding fails
@@ -452,6 +519,8 @@ export async function searchLargeDocuments(
         headingPath: r.chunk.headingPath,
         score: r.lexicalScore,
         chunkIndex: r.chunk.chunkIndex,
+        pageStart: r.chunk.pageStart,
+        pageEnd: r.chunk.pageEnd,
         matchedTerms: includeBreakdown ? r.matchedTerms : undefined,
         queryType: includeBreakdown ? queryType : undefined,
       };
@@ -531,6 +600,8 @@ export async function searchLargeDocuments(
         documentId: r.chunk.documentId,
         chunkIndex: r.chunk.chunkIndex,
         headingPath: r.chunk.headingPath,
+        pageStart: r.chunk.pageStart,
+        pageEnd: r.chunk.pageEnd,
         semanticScore: r.semanticScore,
         lexicalScore: r.lexicalScore,
         matchedTerms: r.matchedTerms,
@@ -549,6 +620,8 @@ export async function searchLargeDocuments(
           documentId: string;
           chunkIndex: number;
           headingPath: string;
+          pageStart?: number;
+          pageEnd?: number;
           semanticScore: number;
           lexicalScore: number;
           matchedTerms: string[];
@@ -561,6 +634,8 @@ export async function searchLargeDocuments(
           headingPath: meta.headingPath,
           score: Math.round(r.relevanceScore * 100) / 100,
           chunkIndex: meta.chunkIndex,
+          pageStart: meta.pageStart,
+          pageEnd: meta.pageEnd,
           reranked: true,
           matchedTerms: includeBreakdown ? meta.matchedTerms : undefined,
           queryType: includeBreakdown ? queryType : undefined,
@@ -584,6 +659,8 @@ export async function searchLargeDocuments(
       headingPath: r.chunk.headingPath,
       score: Math.round(r.semanticScore * 100) / 100,
       chunkIndex: r.chunk.chunkIndex,
+      pageStart: r.chunk.pageStart,
+      pageEnd: r.chunk.pageEnd,
       reranked: false,
       matchedTerms: includeBreakdown ? r.matchedTerms : undefined,
       queryType: includeBreakdown ? queryType : undefined,
@@ -643,7 +720,7 @@ export async function searchLargeDocument(
   // Embed the query
   let queryEmbedding: number[];
   try {
-    queryEmbedding = await embedQuery(query);
+    queryEmbedding = options.embed ? (await options.embed([query]))[0] : await embedQuery(query);
   } catch (error) {
     console.error("[LargeDocs] Failed to embed query:", error);
     // Fall back to lexical-only
@@ -654,6 +731,8 @@ export async function searchLargeDocument(
       headingPath: r.chunk.headingPath,
       score: r.lexicalScore,
       chunkIndex: r.chunk.chunkIndex,
+      pageStart: r.chunk.pageStart,
+      pageEnd: r.chunk.pageEnd,
       matchedTerms: includeBreakdown ? r.matchedTerms : undefined,
       queryType: includeBreakdown ? queryType : undefined,
     }));
@@ -727,6 +806,8 @@ export async function searchLargeDocument(
       metadata: {
         chunkIndex: r.chunk.chunkIndex,
         headingPath: r.chunk.headingPath,
+        pageStart: r.chunk.pageStart,
+        pageEnd: r.chunk.pageEnd,
         semanticScore: r.semanticScore,
         lexicalScore: r.lexicalScore,
         matchedTerms: r.matchedTerms,
@@ -743,6 +824,8 @@ export async function searchLargeDocument(
         const meta = r.metadata as {
           chunkIndex: number;
           headingPath: string;
+          pageStart?: number;
+          pageEnd?: number;
           matchedTerms: string[];
         };
         return {
@@ -752,6 +835,8 @@ export async function searchLargeDocument(
           headingPath: meta.headingPath,
           score: Math.round(r.relevanceScore * 100) / 100,
           chunkIndex: meta.chunkIndex,
+          pageStart: meta.pageStart,
+          pageEnd: meta.pageEnd,
           reranked: true,
           matchedTerms: includeBreakdown ? meta.matchedTerms : undefined,
           queryType: includeBreakdown ? queryType : undefined,
@@ -771,6 +856,8 @@ export async function searchLargeDocument(
     headingPath: r.chunk.headingPath,
     score: Math.round(r.semanticScore * 100) / 100,
     chunkIndex: r.chunk.chunkIndex,
+    pageStart: r.chunk.pageStart,
+    pageEnd: r.chunk.pageEnd,
     reranked: false,
     matchedTerms: includeBreakdown ? r.matchedTerms : undefined,
     queryType: includeBreakdown ? queryType : undefined,
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { chunkMarkdown } from "../embeddings/chunker";
+import { getChunkPages, joinPages, pageAtOffset } from "./pages";
+
+/**
+ * A page of extracted PDF text: one paragraph of about 700 tokens, with a
+ * line break after each sentence like text lines in a PDF.
+ */
+function pdfPage(page: number): string {
+  return Array.from(
+    { length: 80 },
+    (_, i) => `Page ${page} fact ${i + 1} is recorded here.`
+  ).join("\n");
+}
+
+describe("joinPages", () => {
+  it("records where each page starts", () => {
+    const { text, pageOffsets } = joinPages(["one", "two", "three"]);
+
+    expect(text).toBe("one\n\ntwo\n\nthree");
+    expect(pageOffsets).toEqual([0, 5, 10]);
+    expect(pageAtOffset(pageOffsets, 0)).toBe(1);
+    expect(pageAtOffset(pageOffsets, 4)).toBe(1);
+    expect(pageAtOffset(pageOffsets, 5)).toBe(2);
+    expect(pageAtOffset(pageOffsets, 14)).toBe(3);
+  });
+});
+
+describe("getChunkPages", () => {
+  it("labels chunks of pages split by sentence with the pages they came from", () => {
+    const { text, pageOffsets } = joinPages([pdfPage(1), pdfPage(2), pdfPage(3)]);
+    const chunks = chunkMarkdown(text, { maxTokens: 512, overlapTokens: 75, minTokens: 50 });
+
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const chunk of chunks) {
+      const { pageStart, pageEnd } = getChunkPages(pageOffsets, chunk);
+      const source = text.slice(chunk.startOffset, chunk.endOffset);
+      const pages = Array.from(source.matchAll(/Page (\d+) fact/g), (m) => Number(m[1]));
+
+      expect(pageStart).toBe(Math.min(...pages));
+      expect(pageEnd).toBe(Math.max(...pages));
+    }
+  });
+
+  it("keeps the end page when a chunk ends exactly at a page break", () => {
+    const { pageOffsets } = joinPages(["abc", "def"]);
+
+    expect(getChunkPages(pageOffsets, { startOffset: 0, endOffset: 3 })).toEqual({
+      pageStart: 1,
+      pageEnd: 1,
+    });
+    expect(getChunkPages(pageOffsets, { startOffset: 5, endOffset: 8 })).toEqual({
+      pageStart: 2,
+      pageEnd: 2,
+    });
+  });
+});
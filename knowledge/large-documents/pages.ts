@@ -0,0 +1,61 @@
+/**
+ * PDF Page Mapping
+ *
+ * PDF text is extracted page by page and joined into one document for
+ * chunking. The offset where each page starts is kept so chunks can be
+ * mapped back to the pages they came from, for citations.
+ *
+ * Pure functions - safe to import anywhere.
+ */
+
+/**
+ * Separator placed between pages when joining PDF text.
+ * A blank line lets the chunker treat page breaks as paragraph breaks.
+ */
+const PAGE_SEPARATOR = "\n\n";
+
+/**
+ * Join page texts into one document.
+ *
+ * @returns The text, and the character offset where each page starts in it
+ */
+export function joinPages(pages: string[]): { text: string; pageOffsets: number[] } {
+  const pageOffsets: number[] = [];
+  let text = "";
+  for (const pageText of pages) {
+    if (text) text += PAGE_SEPARATOR;
+    pageOffsets.push(text.length);
+    text += pageText;
+  }
+  return { text, pageOffsets };
+}
+
+/**
+ * Find the 1-based page containing a character offset.
+ */
+export function pageAtOffset(pageOffsets: number[], offset: number): number {
+  let low = 0;
+  let high = pageOffsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (pageOffsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low + 1;
+}
+
+/**
+ * The 1-based pages a chunk spans (its end offset is exclusive).
+ */
+export function getChunkPages(
+  pageOffsets: number[],
+  chunk: { startOffset: number; endOffset: number }
+): { pageStart: number; pageEnd: number } {
+  return {
+    pageStart: pageAtOffset(pageOffsets, chunk.startOffset),
+    pageEnd: pageAtOffset(pageOffsets, Math.max(chunk.startOffset, chunk.endOffset - 1)),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * PDF Text Extraction
+ *
+ * Page-aware text extraction for PDF files using pdfjs-dist.
+ * Shared by large document indexing and chat file attachments so
+ * there is a single place that knows how to talk to pdfjs.
+ */
+
+/**
+ * Options for PDF text extraction.
+ */
+export interface PdfExtractOptions {
+  /** Stop after this many pages (default: all pages) */
+  maxPages?: number;
+}
+
+/**
+ * Text of a PDF split by page, plus the total page count.
+ */
+export interface ExtractedPdf {
+  /** Text of each extracted page (index 0 = page 1) */
+  pages: string[];
+  /** Total number of pages in the PDF (may exceed pages.length when capped) */
+  numPages: number;
+}
+
+/**
+ * Load pdfjs lazily and point it at the bundled worker.
+ */
+async function loadPdfjs() {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      "pdfjs-dist/legacy/build/pdf.worker.min.mjs",
+      import.meta.url
+    ).toString();
+  }
+  return pdfjs;
+}
+
+/**
+ * Extract text from a PDF, one string per page.
+ *
+ * Text items are joined with spaces; items that pdfjs marks as ending a
+ * line become newlines so paragraph structure survives for the chunker.
+ */
+export async function extractPdfPages(
+  data: ArrayBuffer,
+  options: PdfExtractOptions = {}
+): Promise<ExtractedPdf> {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const lastPage = options.maxPages
+    ? Math.min(pdf.numPages, options.maxPages)
+    : pdf.numPages;
+  const pages: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= lastPage; pageNumber += 1) {
+    const page = await pdf.getPage(pageNumber);
+    const textContent = await page.getTextContent();
+    let pageText = "";
+    for (const item of textContent.items) {
+      if (!("str" in item)) continue;
+      pageText += item.str ?? "";
+      pageText += "hasEOL" in item && item.hasEOL ? "\n" : " ";
+    }
+    pages.push(
+      pageText
+        .replace(/[ \t]+\n/g, "\n")
+        .replace(/[ \t]{2,}/g, " ")
+        .trim()
+    );
+  }
+
+  return { pages, numPages: pdf.numPages };
+}
@@ -21,6 +21,8 @@ export interface LargeDocumentMetadata {
   fileSize: number;
   /** Number of chunks created from this document */
   chunkCount: number;
+  /** Number of pages (paginated formats such as PDF only) */
+  pageCount?: number;
   /** When the document was uploaded */
   uploadedAt: number;
   /** When the document was last indexed */
@@ -49,6 +51,10 @@ export interface LargeDocumentChunk {
   contentHash: string;
   /** Breadcrumb path (for structured documents) */
   headingPath: string;
+  /** First page this chunk covers, 1-based (paginated formats only) */
+  pageStart?: number;
+  /** Last page this chunk covers, 1-based (paginated formats only) */
+  pageEnd?: number;
   /** 1536-dimensional embedding vector */
   embedding: number[];
   /** When this chunk was created/updated */
@@ -71,6 +77,10 @@ export interface LargeDocumentSearchResult {
   score: number;
   /** Chunk index for reference */
   chunkIndex: number;
+  /** First page of the chunk, 1-based (paginated formats only) */
+  pageStart?: number;
+  /** Last page of the chunk, 1-based (paginated formats only) */
+  pageEnd?: number;
   /** Whether this result was reranked by a cross-encoder */
   reranked?: boolean;
   /** Terms that matched in lexical search (if includeBreakdown enabled) */
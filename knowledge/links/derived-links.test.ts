@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setStorageBackend } from "@/lib/storage/adapter";
+import { createMemoryBackend } from "@/lib/storage/memory-adapter";
+import { writeFile } from "../operations";
+import { createLink, getAllLinks, getLinksForFile } from "./operations";
+import { extractLinkReferences } from "./derived-links";
+
+async function linkedFrom(source: string): Promise<string[]> {
+  return (await getLinksForFile(source)).outgoing.map((link) => link.target).sort();
+}
+
+describe("extractLinkReferences", () => {
+  it("finds wiki and relative markdown links once each", () => {
+    const content = [
+      "See [[acme]], [[projects/acme|the project]] and [[acme#Goals]].",
+      "Also [spec](../specs/acme%20spec.md#scope) and [site](https://example.com).",
+    ].join("\n");
+
+    expect(extractLinkReferences(content)).toEqual([
+      { kind: "wiki", target: "acme" },
+      { kind: "wiki", target: "projects/acme" },
+      { kind: "markdown", target: "../specs/acme spec.md" },
+    ]);
+  });
+
+  it("skips frontmatter and code", () => {
+    const content = "---\nsource: \"[[brief]]\"\n---\n`[[inline]]`\n```\n[[fenced]]\n```\n[[real]]";
+
+    expect(extractLinkReferences(content)).toEqual([{ kind: "wiki", target: "real" }]);
+  });
+});
+
+describe("derived links", () => {
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    // Writes also embed through /api/embed, which doesn't exist here
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await writeFile("/projects/acme.md", "---\naliases: [Acme rewrite]\n---\n# Acme");
+    await writeFile("/notes/acme.md", "# Meeting notes");
+    await writeFile("/specs/scope.md", "# Scope");
+  });
+
+  it("links by path, by name in the same folder first, and by alias", async () => {
+    await writeFile(
+      "/notes/today.md",
+      "[[projects/acme]] [[acme]] [[Acme rewrite]] [scope](../specs/scope.md) [[missing]]"
+    );
+
+    expect(await linkedFrom("/notes/today.md")).toEqual(["/notes/acme.md", "/projects/acme.md", "/specs/scope.md"]);
+    expect((await getAllLinks()).every((link) => link.derived && link.relationship === "references")).toBe(true);
+  });
+
+  it("removes a derived link when its text is removed, but keeps explicit links", async () => {
+    await writeFile("/notes/today.md", "[[specs/scope]] [[projects/acme]]");
+    await createLink("/notes/today.md", "/projects/acme.md", "references");
+
+    await writeFile("/notes/today.md", "Nothing linked any more");
+
+    expect(await linkedFrom("/notes/today.md")).toEqual(["/projects/acme.md"]);
+  });
+
+  it("resolves a link once its target is created", async () => {
+    await writeFile("/notes/today.md", "Next: [[roadmap]]");
+    expect(await linkedFrom("/notes/today.md")).toEqual([]);
+
+    await writeFile("/projects/roadmap.md", "# Roadmap");
+
+    expect(await linkedFrom("/notes/today.md")).toEqual(["/projects/roadmap.md"]);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Derived Links
+ *
+ * Keeps "references" links in step with the links written in a file's
+ * text, so the graph shows connections without explicit kb_link calls:
+ *
+ * - Wiki links: [[note]], [[folder/note|label]], [[note#heading]]
+ * - Markdown links to other files: [label](../projects/acme.md)
+ *
+ * Wiki links resolve by path, then by file name (same folder first), then by
+ * a frontmatter alias. Markdown links resolve relative to the linking file.
+ * Links in code blocks, external URLs and targets that don't exist are ignored.
+ *
+ * Links created here are marked `derived`: removing the text removes the
+ * link. A link the user or Claude created explicitly is never touched, and
+ * calling createLink on a derived link makes it explicit.
+ */
+
+import { getKnowledgeDb, clearGraphLayoutCache } from "../idb";
+import { parseFrontmatter, getNodeMetadata } from "../frontmatter";
+import type { KnowledgeLink } from "./types";
+
+/** A link found in a file's text, before it is resolved to a KB path */
+export interface LinkReference {
+  kind: "wiki" | "markdown";
+  /** The target as written, without label or #heading */
+  target: string;
+}
+
+/** Lookup tables for resolving references, built from all file nodes */
+interface FileIndex {
+  paths: Set<string>;
+  /** Lowercased path -> path */
+  byLowerPath: Map<string, string>;
+  /** Lowercased file name without .md -> paths */
+  byName: Map<string, string[]>;
+  /** Lowercased alias -> paths */
+  byAlias: Map<string, string[]>;
+}
+
+const WIKI_LINK_PATTERN = /!?\[\[([^[\]\n]+?)\]\]/g;
+const MARKDOWN_LINK_PATTERN = /!?\[[^\]\n]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"'\n]*["'])?\s*\)/g;
+const URL_SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+function normalizePath(path: string): string {
+  if (!path || path === "/") return "/";
+  return "/" + path.split("/").filter(Boolean).join("/");
+}
+
+function parentPath(path: string): string {
+  const parts = path.split("/").filter(Boolean);
+  return parts.length <= 1 ? "/" : "/" + parts.slice(0, -1).join("/");
+}
+
+function linkId(source: string, target: string): string {
+  return `${source}#${target}#references`;
+}
+
+function fileName(path: string): string {
+  return (path.split("/").pop() ?? "").replace(/\.md$/i, "").toLowerCase();
+}
+
+function addTo(map: Map<string, string[]>, key: string, path: string): void {
+  const paths = map.get(key);
+  if (paths) paths.push(path);
+  else map.set(key, [path]);
+}
+
+/**
+ * Resolve "." and ".." segments of a path relative to a folder.
+ */
+function joinPath(folder: string, relative: string): string {
+  const parts = relative.startsWith("/") ? [] : folder.split("/").filter(Boolean);
+  for (const segment of relative.split("/")) {
+    if (!segment || segment === ".") continue;
+    if (segment === "..") parts.pop();
+    else parts.push(segment);
+  }
+  return "/" + parts.join("/");
+}
+
+// =============================================================================
+// EXTRACTION
+// =============================================================================
+
+/**
+ * Find the wiki and markdown links in a file's text (frontmatter and code
+ * are skipped). Each distinct target is returned once.
+ */
+export function extractLinkReferences(content: string): LinkReference[] {
+  const text = parseFrontmatter(content)
+    .body.replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, "")
+    .replace(/`[^`\n]*`/g, "");
+
+  const references: LinkReference[] = [];
+  const seen = new Set<string>();
+  const add = (kind: LinkReference["kind"], target: string) => {
+    const key = `${kind}:${target}`;
+    if (!target || seen.has(key)) return;
+    seen.add(key);
+    references.push({ kind, target });
+  };
+
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    add("wiki", match[1].split("|")[0].split("#")[0].trim());
+  }
+
+  for (const match of text.matchAll(MARKDOWN_LINK_PATTERN)) {
+    const href = match[1];
+    if (href.startsWith("#") || href.startsWith("//") || URL_SCHEME_PATTERN.test(href)) continue;
+    let target = href.split(/[#?]/)[0];
+    try {
+      target = decodeURIComponent(target);
+    } catch {
+      // Keep the target as written
+    }
+    add("markdown", target.trim());
+  }
+
+  return references;
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+async function buildFileIndex(): Promise<FileIndex> {
+  const db = await getKnowledgeDb();
+  const index: FileIndex = {
+    paths: new Set(),
+    byLowerPath: new Map(),
+    byName: new Map(),
+    byAlias: new Map(),
+  };
+
+  for (const node of await db.getAll("nodes")) {
+    if (node.type !== "file") continue;
+    index.paths.add(node.path);
+    index.byLowerPath.set(node.path.toLowerCase(), node.path);
+    addTo(index.byName, fileName(node.path), node.path);
+    for (const alias of getNodeMetadata(node).aliases ?? []) {
+      addTo(index.byAlias, alias.toLowerCase(), node.path);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * A path as written, or with .md added, matched exactly then case-insensitively.
+ */
+function findPath(index: FileIndex, path: string): string | null {
+  for (const candidate of [path, `${path}.md`]) {
+    if (index.paths.has(candidate)) return candidate;
+    const match = index.byLowerPath.get(candidate.toLowerCase());
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Of several files with the same name or alias, prefer one in the linking
+ * file's folder, then the shortest path.
+ */
+function pickClosest(paths: string[] | undefined, source: string): string | null {
+  if (!paths || paths.length === 0) return null;
+  const folder = parentPath(source);
+  const sameFolder = paths.find((path) => parentPath(path) === folder);
+  if (sameFolder) return sameFolder;
+  return [...paths].sort((a, b) => a.length - b.length || a.localeCompare(b))[0];
+}
+
+function resolveReference(
+  reference: LinkReference,
+  source: string,
+  index: FileIndex
+): string | null {
+  const folder = parentPath(source);
+
+  if (reference.kind === "markdown") {
+    return findPath(index, joinPath(folder, reference.target));
+  }
+
+  const target = reference.target;
+  if (target.includes("/")) {
+    const byPath =
+      findPath(index, normalizePath(target)) ?? findPath(index, joinPath(folder, target));
+    if (byPath) return byPath;
+  }
+
+  const name = fileName(target);
+  return (
+    pickClosest(index.byName.get(name), source) ??
+    pickClosest(index.byAlias.get(target.toLowerCase()), source)
+  );
+}
+
+/**
+ * The KB files a file's text links to (excluding itself).
+ */
+function resolveTargets(source: string, content: string, index: FileIndex): Set<string> {
+  const targets = new Set<string>();
+  for (const reference of extractLinkReferences(content)) {
+    const target = resolveReference(reference, source, index);
+    if (target && target !== source) targets.add(target);
+  }
+  return targets;
+}
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+async function syncWithIndex(
+  source: string,
+  content: string,
+  index: FileIndex
+): Promise<{ added: number; removed: number }> {
+  const db = await getKnowledgeDb();
+  const targets = resolveTargets(source, content, index);
+  let added = 0;
+  let removed = 0;
+
+  // Drop derived links whose text is gone
+  const outgoing = await db.getAllFromIndex("links", "by-source", source);
+  for (const link of outgoing) {
+    if (link.derived && !targets.has(link.target)) {
+      await db.delete("links", link.id);
+      removed++;
+    }
+  }
+
+  for (const target of targets) {
+    const id = linkId(source, target);
+    if (await db.get("links", id)) continue; // Already linked (derived or explicit)
+
+    const now = Date.now();
+    const link: KnowledgeLink = {
+      id,
+      source,
+      target,
+      relationship: "references",
+      bidirectional: false,
+      derived: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.put("links", link);
+    added++;
+  }
+
+  if (added > 0 || removed > 0) {
+    await clearGraphLayoutCache();
+  }
+
+  return { added, removed };
+}
+
+/**
+ * Bring a file's derived "references" links in line with the links in its
+ * text (called by writeFile).
+ *
+ * @param path - File that was written
+ * @param content - Its new content
+ * @returns How many derived links were added and removed
+ */
+export async function syncDerivedLinks(
+  path: string,
+  content: string
+): Promise<{ added: number; removed: number }> {
+  return syncWithIndex(normalizePath(path), content, await buildFileIndex());
+}
+
+/**
+ * Re-resolve links that involve a file whose path or aliases changed
+ * (called when a file is created, renamed, moved or gets new aliases):
+ * its own links, files whose derived links point at it, and files whose
+ * text links to it but couldn't be resolved before.
+ *
+ * @param path - The file's current path
+ * @returns Number of files whose derived links changed
+ */
+export async function refreshDerivedLinksFor(path: string): Promise<number> {
+  const normalizedPath = normalizePath(path);
+  const db = await getKnowledgeDb();
+  const index = await buildFileIndex();
+  let changed = 0;
+
+  const incoming = await db.getAllFromIndex("links", "by-target", normalizedPath);
+  const linkedFrom = new Set(incoming.filter((link) => link.derived).map((link) => link.source));
+
+  for (const node of await db.getAll("nodes")) {
+    if (node.type !== "file" || !node.content) continue;
+    const isSubject = node.path === normalizedPath || linkedFrom.has(node.path);
+    if (!isSubject && !(node.content.includes("[[") || node.content.includes("]("))) continue;
+    if (!isSubject && !resolveTargets(node.path, node.content, index).has(normalizedPath)) continue;
+
+    const { added, removed } = await syncWithIndex(node.path, node.content, index);
+    if (added > 0 || removed > 0) changed++;
+  }
+
+  return changed;
+}
@@ -7,3 +7,4 @@
 export * from "./types";
 export * from "./operations";
 export * from "./graph-traversal";
+export * from "./derived-links";
@@ -43,6 +43,8 @@ async function fileExists(path: string): Promise<boolean> {
 
 /**
  * Create a relationship between two files in the knowledge base.
+ * Re-creating a derived link (see derived-links.ts) makes it explicit, so
+ * it stays when the text that produced it is removed.
  *
  * @param source - Source file path
  * @param target - Target file path
@@ -222,6 +224,45 @@ export async function deleteLinksForFile(path: string): Promise<number> {
   return deleted;
 }
 
+/**
+ * Point all links of a file at its new path (called when a file is moved).
+ * Links keep their relationship, notes and createdAt.
+ *
+ * @param from - Old file path
+ * @param to - New file path
+ * @returns Number of links rewritten
+ */
+export async function moveLinksForFile(from: string, to: string): Promise<number> {
+  const normalizedFrom = normalizePath(from);
+  const normalizedTo = normalizePath(to);
+  const db = await getKnowledgeDb();
+
+  const outgoing = await db.getAllFromIndex("links", "by-source", normalizedFrom);
+  const incoming = await db.getAllFromIndex("links", "by-target", normalizedFrom);
+
+  let moved = 0;
+  for (const link of [...outgoing, ...incoming]) {
+    const source = link.source === normalizedFrom ? normalizedTo : link.source;
+    const target = link.target === normalizedFrom ? normalizedTo : link.target;
+    await db.delete("links", link.id);
+    await db.put("links", {
+      ...link,
+      id: generateLinkId(source, target, link.relationship),
+      source,
+      target,
+      updatedAt: Date.now(),
+    });
+    moved++;
+  }
+
+  // Invalidate graph layout cache (positions are keyed by path)
+  if (moved > 0) {
+    await clearGraphLayoutCache();
+  }
+
+  return moved;
+}
+
 /**
  * Get statistics about the knowledge graph.
  */
@@ -33,6 +33,8 @@ export interface KnowledgeLink {
   bidirectional: boolean;
   /** Optional context or notes about this relationship */
   notes?: string;
+  /** Created from a [[wiki]] or markdown link in the source file's text (see derived-links.ts) */
+  derived?: boolean;
   /** Timestamp when link was created */
   createdAt: number;
   /** Timestamp when link was last updated */
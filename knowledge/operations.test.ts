@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setStorageBackend } from "@/lib/storage/adapter";
+import { createMemoryBackend } from "@/lib/storage/memory-adapter";
+import { createMockEmbedding } from "@/agents/mock-model";
+import { embedFile, getAllEmbeddings } from "./embeddings/operations";
+import type { Embedder } from "./embeddings/types";
+import { createLink, getLinksForFile } from "./links/operations";
+import { getFileHistory } from "./history/operations";
+import { copyNode, listFolder, moveNode, readFile, writeFile } from "./operations";
+
+/** Deterministic word-hash embeddings instead of /api/embed */
+const embed: Embedder = async (texts) => texts.map((text) => createMockEmbedding(text, 64));
+
+const PLAN = "# Plan\n\nShip the beta in March.";
+
+async function embeddedPaths(): Promise<string[]> {
+  return (await getAllEmbeddings()).map((e) => e.filePath).sort();
+}
+
+describe("moving and copying knowledge", () => {
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    // Writes also embed through /api/embed, which doesn't exist here
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await writeFile("/projects/acme/plan.md", PLAN);
+    await writeFile("/notes/status.md", "Waiting on the plan");
+    await embedFile("/projects/acme/plan.md", PLAN, embed);
+    await createLink("/notes/status.md", "/projects/acme/plan.md", "references");
+  });
+
+  it("moves a folder with its files' embeddings, links and history", async () => {
+    const result = await moveNode("/projects/acme", "/archive/acme");
+
+    expect(result).toEqual({ from: "/projects/acme", to: "/archive/acme", files: 1 });
+    expect(await readFile("/archive/acme/plan.md")).toBe(PLAN);
+    expect(await listFolder("/projects")).toEqual([]);
+    await expect(readFile("/projects/acme/plan.md")).rejects.toThrow("Not found");
+
+    expect(await embeddedPaths()).toEqual(["/archive/acme/plan.md"]);
+    const links = await getLinksForFile("/archive/acme/plan.md");
+    expect(links.incoming.map((link) => link.source)).toEqual(["/notes/status.md"]);
+    expect((await getFileHistory("/archive/acme/plan.md")).map((r) => r.action)).toEqual(["write"]);
+    expect(await getFileHistory("/projects/acme/plan.md")).toEqual([]);
+  });
+
+  it("renames a file in place", async () => {
+    await moveNode("/projects/acme/plan.md", "/projects/acme/roadmap.md");
+
+    expect(await listFolder("/projects/acme")).toEqual(["roadmap.md"]);
+    expect(await readFile("/projects/acme/roadmap.md")).toBe(PLAN);
+  });
+
+  it("copies files with their embeddings but not their links or history", async () => {
+    const result = await copyNode("/projects/acme", "/templates/acme");
+
+    expect(result.files).toBe(1);
+    expect(await readFile("/projects/acme/plan.md")).toBe(PLAN);
+    expect(await readFile("/templates/acme/plan.md")).toBe(PLAN);
+
+    expect(await embeddedPaths()).toEqual(["/projects/acme/plan.md", "/templates/acme/plan.md"]);
+    expect((await getLinksForFile("/templates/acme/plan.md")).incoming).toEqual([]);
+    expect(await getFileHistory("/templates/acme/plan.md")).toMatchObject([
+      { action: "write", previousContent: null, content: PLAN },
+    ]);
+  });
+
+  it("refuses to overwrite or to move a folder into itself", async () => {
+    await expect(moveNode("/projects/acme/plan.md", "/notes/status.md")).rejects.toThrow();
+    await expect(moveNode("/projects", "/projects/acme/old")).rejects.toThrow();
+    await expect(copyNode("/missing.md", "/copy.md")).rejects.toThrow();
+  });
+});
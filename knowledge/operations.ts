@@ -3,12 +3,55 @@
  *
  * High-level operations for the knowledge filesystem.
  * These functions are called by Claude via tools.
+ *
+ * Every file mutation is recorded as a revision (see ./history), so
+ * restoreRevision can undo overwrites and deletions.
+ *
+ * deleteNode moves files and folders to the trash (see ./trash) together
+ * with their embeddings and links; restoreFromTrash puts them back.
+ *
+ * moveNode re-keys a node's embeddings, links and history instead of
+ * deleting them, so reorganizing the knowledge base loses nothing.
+ *
+ * After a file changes, its new chunks are checked against the rest of the
+ * knowledge base for conflicting statements (see ./contradictions).
+ *
+ * Writes parse the file's YAML frontmatter into node metadata (see
+ * ./frontmatter.ts), which search filters on, and keep "references" links
+ * in step with the [[wiki]] and markdown links in the text (see
+ * ./links/derived-links.ts).
+ *
+ * Mutations run under a cross-tab lock and notify other open tabs (see
+ * lib/storage/sync.ts), so their Knowledge Browser reloads.
  */
 
-import { getKnowledgeDb, initRootIfNeeded } from "./idb";
+import { getKnowledgeDb, initRootIfNeeded, clearGraphLayoutCache } from "./idb";
 import type { KnowledgeNode, KnowledgeTree } from "./types";
-import { embedFile, deleteFileEmbeddings } from "./embeddings/operations";
-import { deleteLinksForFile } from "./links/operations";
+import {
+  embedFile,
+  deleteFileEmbeddings,
+  moveFileEmbeddings,
+  copyFileEmbeddings,
+} from "./embeddings/operations";
+import { deleteLinksForFile, moveLinksForFile } from "./links/operations";
+import { syncDerivedLinks, refreshDerivedLinksFor } from "./links/derived-links";
+import { recordRevision, getRevision, moveFileHistory } from "./history/operations";
+import type { RevisionAction, RestoreState } from "./history/types";
+import { diffLines, formatUnifiedDiff } from "./history/diff";
+import { applyEdit, type FileEdit } from "./edit";
+import { parseFrontmatter } from "./frontmatter";
+import { grepContent, type GrepOptions, type GrepResult } from "./grep";
+import {
+  detectContradictions,
+  deleteContradictionsForFile,
+  moveContradictionsForFile,
+} from "./contradictions/operations";
+import { moveToTrash, getTrashEntry, purgeTrashEntry } from "./trash/operations";
+import { loadAppSettings } from "@/lib/app-settings";
+import { publishChange, withStoreLock } from "@/lib/storage/sync";
+
+/** Cross-tab lock around changes to the tree */
+const KNOWLEDGE_LOCK = "knowledge";
 
 function parentPath(path: string): string {
   const parts = path.split("/").filter(Boolean);
@@ -24,6 +67,19 @@ function normalizePath(path: string): string {
   return "/" + path.split("/").filter(Boolean).join("/");
 }
 
+/**
+ * Run a mutation under the cross-tab knowledge lock, then tell the other
+ * tabs. Helpers called from inside a mutation (createFolder, removeNode,
+ * writeFileWithRevision) don't take the lock themselves.
+ */
+async function mutate<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await withStoreLock(KNOWLEDGE_LOCK, fn);
+  } finally {
+    publishChange("knowledge");
+  }
+}
+
 export async function listFolder(path: string): Promise<string[]> {
   await initRootIfNeeded();
   const db = await getKnowledgeDb();
@@ -41,6 +97,17 @@ export async function readFile(path: string): Promise<string> {
 }
 
 export async function writeFile(path: string, content: string): Promise<void> {
+  return mutate(() => writeFileWithRevision(path, content, "write"));
+}
+
+/**
+ * Write a file and record the change under the given revision action.
+ */
+async function writeFileWithRevision(
+  path: string,
+  content: string,
+  action: RevisionAction
+): Promise<void> {
   await initRootIfNeeded();
   const db = await getKnowledgeDb();
   const normalizedPath = normalizePath(path);
@@ -48,7 +115,7 @@ export async function writeFile(path: string, content: string): Promise<void> {
   const name = nodeName(normalizedPath);
 
   // Ensure parent exists
-  await mkdir(parent);
+  await createFolder(parent);
 
   // Add to parent's children if not already there
   const parentNode = await db.get("nodes", parent);
@@ -60,29 +127,101 @@ export async function writeFile(path: string, content: string): Promise<void> {
 
   // Write the file
   const existing = await db.get("nodes", normalizedPath);
+  const metadata = parseFrontmatter(content).metadata;
   await db.put("nodes", {
     path: normalizedPath,
     type: "file",
     content,
+    metadata,
     createdAt: existing?.createdAt ?? Date.now(),
     updatedAt: Date.now(),
   });
 
+  await recordRevision(
+    normalizedPath,
+    action,
+    existing ? existing.content ?? "" : null,
+    content
+  );
+
+  // A new file or new aliases can resolve links in other files too
+  try {
+    const aliasesChanged =
+      existing?.type === "file" &&
+      (existing.metadata?.aliases ?? []).join("\n") !== (metadata.aliases ?? []).join("\n");
+    if (!existing || aliasesChanged) {
+      await refreshDerivedLinksFor(normalizedPath);
+    } else {
+      await syncDerivedLinks(normalizedPath, content);
+    }
+  } catch (error) {
+    console.error("[Knowledge] Failed to sync derived links:", error);
+  }
+
   // Trigger background embedding (non-blocking)
   // Uses hash-based caching so unchanged content won't re-embed
-  embedFile(normalizedPath, content).catch((error) => {
-    console.error("[Knowledge] Failed to embed file:", error);
-  });
+  embedFile(normalizedPath, content)
+    .then((embedded) => {
+      if (!loadAppSettings().detectContradictions) return;
+      // Only the changed chunks are compared with other files
+      detectContradictions(normalizedPath, embedded).catch((error) => {
+        console.error("[Knowledge] Failed to check for contradictions:", error);
+      });
+    })
+    .catch((error) => {
+      console.error("[Knowledge] Failed to embed file:", error);
+    });
 }
 
-export async function appendFile(path: string, content: string): Promise<void> {
-  const existing = await readFile(path).catch(() => "");
+/**
+ * Content a file has after appending to it (a newline is added between if needed).
+ */
+export function appendContent(existing: string, content: string): string {
   const separator = existing && !existing.endsWith("\n") ? "\n" : "";
-  await writeFile(path, existing + separator + content);
-  // writeFile already triggers embedFile
+  return existing + separator + content;
+}
+
+export async function appendFile(path: string, content: string): Promise<void> {
+  return mutate(async () => {
+    const existing = await readFile(path).catch(() => "");
+    await writeFileWithRevision(path, appendContent(existing, content), "append");
+    // writeFileWithRevision already triggers embedFile
+  });
+}
+
+/**
+ * Edit part of an existing file in place (exact replace or unified patch).
+ *
+ * @returns Number of replacements and a unified diff of the change
+ * @throws Error if the file doesn't exist or the edit doesn't apply cleanly
+ */
+export async function editFile(
+  path: string,
+  edit: FileEdit
+): Promise<{ path: string; replacements: number; diff: string }> {
+  return mutate(async () => {
+    const normalizedPath = normalizePath(path);
+    const before = await readFile(normalizedPath);
+    const { content, replacements } = applyEdit(before, edit, normalizedPath);
+
+    await writeFileWithRevision(normalizedPath, content, "edit");
+
+    return {
+      path: normalizedPath,
+      replacements,
+      diff: formatUnifiedDiff(diffLines(before, content), normalizedPath),
+    };
+  });
 }
 
 export async function mkdir(path: string): Promise<void> {
+  return mutate(() => createFolder(path));
+}
+
+/**
+ * mkdir without the lock, for use inside other mutations.
+ */
+async function createFolder(path: string): Promise<void> {
   await initRootIfNeeded();
   const db = await getKnowledgeDb();
   const normalizedPath = normalizePath(path);
@@ -92,7 +231,7 @@ export async function mkdir(path: string): Promise<void> {
   // Recursively ensure parent exists
   const parent = parentPath(normalizedPath);
   if (parent !== "/") {
-    await mkdir(parent);
+    await createFolder(parent);
   }
 
   // Check if already exists
@@ -118,20 +257,28 @@ export async function mkdir(path: string): Promise<void> {
   });
 }
 
+/**
+ * Delete a file or folder (with everything in it) by moving it to the trash.
+ * Embeddings and links are kept in the trash entry, so restoreFromTrash
+ * brings the files back exactly as they were.
+ */
 export async function deleteNode(path: string): Promise<void> {
+  return mutate(() => removeNode(path));
+}
+
+/**
+ * deleteNode without the lock, for use inside other mutations.
+ */
+async function removeNode(path: string): Promise<void> {
   const db = await getKnowledgeDb();
   const normalizedPath = normalizePath(path);
   if (normalizedPath === "/") return;
 
-  const node = await db.get("nodes", normalizedPath);
-  if (!node) return;
+  const nodes = await collectSubtree(normalizedPath);
+  if (nodes.length === 0) return;
 
-  // Recursively delete children if folder
-  if (node.type === "folder" && node.children) {
-    for (const child of node.children) {
-      await deleteNode(normalizedPath + "/" + child);
-    }
-  }
+  // Snapshot everything before removing anything
+  await moveToTrash(nodes);
 
   // Remove from parent
   const parent = parentPath(normalizedPath);
@@ -143,19 +290,247 @@ export async function deleteNode(path: string): Promise<void> {
     await db.put("nodes", parentNode);
   }
 
-  await db.delete("nodes", normalizedPath);
+  // Children before parents
+  for (const node of [...nodes].reverse()) {
+    await db.delete("nodes", node.path);
+    if (node.type !== "file") continue;
 
-  // Also delete associated embeddings and links (for files)
-  if (node.type === "file") {
-    deleteFileEmbeddings(normalizedPath).catch((error) => {
-      console.error("[Knowledge] Failed to delete embeddings:", error);
-    });
+    // Keep the deleted content in the file's history too
+    await recordRevision(node.path, "delete", node.content ?? "", null);
+    await deleteFileEmbeddings(node.path);
+    await deleteLinksForFile(node.path);
+    await deleteContradictionsForFile(node.path);
+  }
+}
 
-    // Cascade delete all links where this file is source or target
-    deleteLinksForFile(normalizedPath).catch((error) => {
-      console.error("[Knowledge] Failed to delete links:", error);
-    });
+/**
+ * Restore a file or folder from the trash, with its embeddings and links.
+ * Links to files that are gone by now are left out.
+ *
+ * @param id - Trash entry ID
+ * @returns The restored path and number of files
+ * @throws Error if something now exists at the original path
+ */
+export async function restoreFromTrash(id: string): Promise<{ path: string; files: number }> {
+  return mutate(async () => {
+    await initRootIfNeeded();
+    const db = await getKnowledgeDb();
+    const entry = await getTrashEntry(id);
+    if (!entry) throw new Error(`Not in trash: ${id}`);
+    if (await db.get("nodes", entry.path)) throw new Error(`Already exists: ${entry.path}`);
+
+    const parent = parentPath(entry.path);
+    const existingParent = await db.get("nodes", parent);
+    if (existingParent && existingParent.type !== "folder") throw new Error(`Is a file: ${parent}`);
+    await createFolder(parent);
+
+    for (const node of entry.nodes) {
+      await db.put("nodes", node);
+      if (node.type === "file") {
+        await recordRevision(node.path, "restore", null, node.content ?? "");
+      }
+    }
+
+    const parentNode = await db.get("nodes", parent);
+    const name = nodeName(entry.path);
+    if (parentNode && !parentNode.children?.includes(name)) {
+      parentNode.children = [...(parentNode.children ?? []), name];
+      parentNode.updatedAt = Date.now();
+      await db.put("nodes", parentNode);
+    }
+
+    for (const embedding of entry.embeddings) {
+      await db.put("embeddings", embedding);
+    }
+
+    let linksRestored = 0;
+    for (const link of entry.links) {
+      const source = await db.get("nodes", link.source);
+      const target = await db.get("nodes", link.target);
+      if (source?.type === "file" && target?.type === "file") {
+        await db.put("links", link);
+        linksRestored++;
+      }
+    }
+    if (linksRestored > 0) await clearGraphLayoutCache();
+
+    await purgeTrashEntry(entry.id);
+
+    // Text links elsewhere may point at the restored files again
+    for (const node of entry.nodes) {
+      if (node.type !== "file") continue;
+      await refreshDerivedLinksFor(node.path).catch((error) => {
+        console.error("[Knowledge] Failed to refresh derived links:", error);
+      });
+    }
+
+    return { path: entry.path, files: entry.files };
+  });
+}
+
+/**
+ * Check that a node can be moved or copied from one path to another.
+ *
+ * @returns The source node
+ */
+async function checkTransfer(from: string, to: string): Promise<KnowledgeNode> {
+  const db = await getKnowledgeDb();
+  if (from === "/") throw new Error("Cannot move or copy the root folder");
+  if (to === "/") throw new Error("Destination must not be the root folder");
+
+  const node = await db.get("nodes", from);
+  if (!node) throw new Error(`Not found: ${from}`);
+  if (await db.get("nodes", to)) throw new Error(`Already exists: ${to}`);
+  if (to.startsWith(from + "/")) throw new Error(`Cannot put ${from} inside itself`);
+
+  const parent = await db.get("nodes", parentPath(to));
+  if (parent && parent.type !== "folder") throw new Error(`Is a file: ${parentPath(to)}`);
+
+  return node;
+}
+
+/**
+ * Collect a node and everything below it, parents before children.
+ */
+async function collectSubtree(path: string): Promise<KnowledgeNode[]> {
+  const db = await getKnowledgeDb();
+  const node = await db.get("nodes", path);
+  if (!node) return [];
+
+  const nodes = [node];
+  if (node.type === "folder") {
+    for (const child of node.children ?? []) {
+      nodes.push(...(await collectSubtree(path + "/" + child)));
+    }
   }
+  return nodes;
+}
+
+/**
+ * Move or rename a file or folder.
+ * Parent folders of the destination are created automatically.
+ * createdAt, embeddings, links, history and contradictions move with every file.
+ *
+ * @param from - Existing path
+ * @param to - New path (must not exist)
+ * @returns Number of files moved
+ */
+export async function moveNode(from: string, to: string): Promise<{ from: string; to: string; files: number }> {
+  return mutate(async () => {
+    await initRootIfNeeded();
+    const db = await getKnowledgeDb();
+    const source = normalizePath(from);
+    const destination = normalizePath(to);
+
+    await checkTransfer(source, destination);
+    await createFolder(parentPath(destination));
+
+    const nodes = await collectSubtree(source);
+    let files = 0;
+
+    for (const node of nodes) {
+      const newPath = destination + node.path.slice(source.length);
+      await db.put("nodes", { ...node, path: newPath });
+      await db.delete("nodes", node.path);
+
+      if (node.type === "file") {
+        await moveFileEmbeddings(node.path, newPath);
+        await moveLinksForFile(node.path, newPath);
+        await moveFileHistory(node.path, newPath);
+        await moveContradictionsForFile(node.path, newPath);
+        files++;
+      }
+    }
+
+    // Relative and name-based links may resolve differently at the new path
+    for (const node of nodes) {
+      if (node.type !== "file") continue;
+      await refreshDerivedLinksFor(destination + node.path.slice(source.length)).catch((error) => {
+        console.error("[Knowledge] Failed to refresh derived links:", error);
+      });
+    }
+
+    // Detach from the old parent, attach to the new one
+    const oldParent = await db.get("nodes", parentPath(source));
+    if (oldParent?.children) {
+      oldParent.children = oldParent.children.filter((c) => c !== nodeName(source));
+      oldParent.updatedAt = Date.now();
+      await db.put("nodes", oldParent);
+    }
+
+    const newParent = await db.get("nodes", parentPath(destination));
+    const name = nodeName(destination);
+    if (newParent && !newParent.children?.includes(name)) {
+      newParent.children = [...(newParent.children ?? []), name];
+      newParent.updatedAt = Date.now();
+      await db.put("nodes", newParent);
+    }
+
+    return { from: source, to: destination, files };
+  });
+}
+
+/**
+ * Copy a file or folder.
+ * Copies are new files: they get their own history and no links, but
+ * reuse the source's embeddings so nothing is re-embedded.
+ *
+ * @param from - Existing path
+ * @param to - Path of the copy (must not exist)
+ * @returns Number of files copied
+ */
+export async function copyNode(from: string, to: string): Promise<{ from: string; to: string; files: number }> {
+  return mutate(async () => {
+    await initRootIfNeeded();
+    const source = normalizePath(from);
+    const destination = normalizePath(to);
+
+    await checkTransfer(source, destination);
+
+    const nodes = await collectSubtree(source);
+    let files = 0;
+
+    for (const node of nodes) {
+      const newPath = destination + node.path.slice(source.length);
+      if (node.type === "folder") {
+        await createFolder(newPath);
+      } else {
+        await copyFileEmbeddings(node.path, newPath);
+        await writeFileWithRevision(newPath, node.content ?? "", "write");
+        files++;
+      }
+    }
+
+    return { from: source, to: destination, files };
+  });
+}
+
+/**
+ * Restore a file from its history.
+ *
+ * @param revisionId - Revision to restore from
+ * @param state - "after" restores the file as that revision left it,
+ *   "before" restores it as it was just before (undoes the revision).
+ *   Restoring a state where the file didn't exist deletes it.
+ * @returns The path and content the file now has (null if deleted)
+ */
+export async function restoreRevision(
+  revisionId: string,
+  state: RestoreState = "after"
+): Promise<{ path: string; content: string | null }> {
+  return mutate(async () => {
+    const revision = await getRevision(revisionId);
+    if (!revision) throw new Error(`Revision not found: ${revisionId}`);
+
+    const content = state === "before" ? revision.previousContent : revision.content;
+    if (content === null) {
+      await removeNode(revision.path);
+    } else {
+      await writeFileWithRevision(revision.path, content, "restore");
+    }
+
+    return { path: revision.path, content };
+  });
 }
 
 export async function getTree(): Promise<KnowledgeTree[]> {
@@ -189,3 +564,15 @@ export async function getRootFolders(): Promise<string[]> {
   const root = await db.get("nodes", "/");
   return root?.children ?? [];
 }
+
+/**
+ * Find every line matching a literal or regex pattern across file contents
+ * (kb_grep). See grep.ts for the options.
+ */
+export async function grepFiles(pattern: string, options: GrepOptions = {}): Promise<GrepResult> {
+  const db = await getKnowledgeDb();
+  const files = (await db.getAll("nodes"))
+    .filter((node) => node.type === "file")
+    .map((node) => ({ path: node.path, content: node.content ?? "" }));
+  return grepContent(files, pattern, options);
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFileKnowledgeStore, type ServerKnowledgeStore } from "./store";
+
+describe("server knowledge store history", () => {
+  let directory: string;
+  let store: ServerKnowledgeStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), "knowledge-store-"));
+    store = createFileKnowledgeStore("user-1", directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("restores a file from before an overwrite", async () => {
+    await store.writeFile("/notes/plan.md", "Version one");
+    await store.writeFile("/notes/plan.md", "Version two");
+
+    const [latest, first] = await store.getFileHistory("/notes/plan.md");
+    expect(latest).toMatchObject({ action: "write", previousContent: "Version one", content: "Version two" });
+    expect(first).toMatchObject({ action: "write", previousContent: null, content: "Version one" });
+
+    await store.restoreRevision(latest.id, "before");
+
+    expect(await store.readFile("/notes/plan.md")).toBe("Version one");
+    expect((await store.getFileHistory("/notes/plan.md"))[0].action).toBe("restore");
+  });
+
+  it("brings back files deleted with their folder", async () => {
+    await store.writeFile("/notes/plan.md", "The plan");
+    await store.deleteNode("/notes");
+
+    const [deletion] = await store.getFileHistory("/notes/plan.md");
+    expect(deletion).toMatchObject({ action: "delete", content: null });
+
+    const result = await store.restoreRevision(deletion.id, "before");
+
+    expect(result).toEqual({ path: "/notes/plan.md", content: "The plan" });
+    expect(await store.listFolder("/notes")).toEqual(["plan.md"]);
+  });
+
+  it("keeps a moved file's history and starts a copy's own", async () => {
+    await store.writeFile("/notes/plan.md", "Version one");
+    await store.appendFile("/notes/plan.md", "More");
+    await store.moveNode("/notes", "/archive");
+    await store.copyNode("/archive/plan.md", "/copy.md");
+
+    expect(await store.getFileHistory("/notes/plan.md")).toEqual([]);
+    expect((await store.getFileHistory("/archive/plan.md")).map((r) => r.action)).toEqual(["append", "write"]);
+    expect(await store.getFileHistory("/copy.md")).toMatchObject([
+      { action: "write", previousContent: null, content: "Version one\nMore" },
+    ]);
+  });
+});
@@ -0,0 +1,544 @@
+/**
+ * Server Knowledge Store
+ *
+ * Optional server-side counterpart of the IndexedDB knowledge filesystem,
+ * used when NEXT_PUBLIC_KNOWLEDGE_STORE=server (see lib/knowledge-mode.ts).
+ * Each better-auth user gets an isolated store, so kb_* tools can execute
+ * inside the agent loop instead of round-tripping through the browser.
+ *
+ * STORAGE:
+ * --------
+ * One JSON file per user in KNOWLEDGE_SERVER_DIR (default: .data/knowledge),
+ * holding the same KnowledgeNode records as the browser's "nodes" store.
+ * Writes go to a temp file and are renamed into place, and all operations
+ * for a user are serialized, so concurrent tool calls can't lose updates.
+ *
+ * Every write, append, edit, delete and restore of a file is kept as a
+ * revision in the same JSON file (see ../history), so kb_history and
+ * kb_restore can undo overwrites and bring back deleted files. There is no
+ * trash or links store on the server: a deleted file is recovered from its
+ * "delete" revision.
+ *
+ * The lock is an in-memory queue, so it only covers one server process.
+ * Run a single instance against a KNOWLEDGE_SERVER_DIR: a second instance
+ * (another replica, serverless workers, `next start` in cluster mode)
+ * interleaves its read-modify-write cycles with the first and overwrites
+ * its changes.
+ *
+ * The ServerKnowledgeStore interface is all the tools depend on, so another
+ * backend (SQLite, Postgres, ...) can be dropped in via getServerKnowledgeStore.
+ *
+ * SERVER ONLY - imports fs. Do not import from client components.
+ */
+
+import { promises as fs } from "fs";
+import { join, resolve } from "path";
+import type { KnowledgeNode, MetadataFilter } from "../types";
+import { chunkMarkdown } from "../embeddings/chunker";
+import { lexicalSearch, detectQueryType, tokenize, type QueryType } from "../embeddings/lexical-search";
+import type { EmbeddingRecord } from "../embeddings/types";
+import { applyEdit, type FileEdit } from "../edit";
+import { diffLines, formatUnifiedDiff } from "../history/diff";
+import { MAX_REVISIONS_PER_FILE } from "../history/operations";
+import type { FileRevision, RestoreState, RevisionAction } from "../history/types";
+import { parseFrontmatter, getNodeMetadata, hasMetadataFilter, matchesMetadataFilter } from "../frontmatter";
+import { grepContent, type GrepOptions, type GrepResult } from "../grep";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A lexical search hit, shaped like a client-side hybrid search result */
+export interface ServerSearchResult {
+  filePath: string;
+  chunkText: string;
+  headingPath: string;
+  score: number;
+  chunkIndex: number;
+  semanticScore: number;
+  lexicalScore: number;
+  matchedTerms: string[];
+  queryType: QueryType;
+}
+
+/** Result of a move or copy (same shape as the browser operations) */
+export interface NodeTransfer {
+  from: string;
+  to: string;
+  files: number;
+}
+
+/** Filesystem operations available to server-executed kb_* tools */
+export interface ServerKnowledgeStore {
+  listFolder(path: string): Promise<string[]>;
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, content: string): Promise<void>;
+  appendFile(path: string, content: string): Promise<void>;
+  editFile(path: string, edit: FileEdit): Promise<{ path: string; replacements: number; diff: string }>;
+  mkdir(path: string): Promise<void>;
+  deleteNode(path: string): Promise<void>;
+  getFileHistory(path: string): Promise<FileRevision[]>;
+  getRevision(revisionId: string): Promise<FileRevision | undefined>;
+  restoreRevision(revisionId: string, state?: RestoreState): Promise<{ path: string; content: string | null }>;
+  moveNode(from: string, to: string): Promise<NodeTransfer>;
+  copyNode(from: string, to: string): Promise<NodeTransfer>;
+  getRootFolders(): Promise<string[]>;
+  search(query: string, topK?: number, filter?: MetadataFilter): Promise<ServerSearchResult[]>;
+  grep(pattern: string, options?: GrepOptions): Promise<GrepResult>;
+}
+
+interface StoreFile {
+  version: 1;
+  nodes: Record<string, KnowledgeNode>;
+  /** File revisions by id (missing in stores written before history existed) */
+  revisions?: Record<string, FileRevision>;
+}
+
+type Revisions = Record<string, FileRevision>;
+
+const DEFAULT_STORE_DIR = ".data/knowledge";
+
+// =============================================================================
+// PATH HELPERS (same semantics as knowledge/operations.ts)
+// =============================================================================
+
+function parentPath(path: string): string {
+  const parts = path.split("/").filter(Boolean);
+  return parts.length <= 1 ? "/" : "/" + parts.slice(0, -1).join("/");
+}
+
+function nodeName(path: string): string {
+  return path.split("/").filter(Boolean).pop() || "";
+}
+
+function normalizePath(path: string): string {
+  if (!path || path === "/") return "/";
+  return "/" + path.split("/").filter(Boolean).join("/");
+}
+
+/** Last timestamp handed out - keeps revision order stable within a millisecond */
+let lastRevisionTime = 0;
+
+function nextRevisionTime(): number {
+  lastRevisionTime = Math.max(Date.now(), lastRevisionTime + 1);
+  return lastRevisionTime;
+}
+
+function emptyStore(): StoreFile {
+  const now = Date.now();
+  return {
+    version: 1,
+    nodes: {
+      "/": { path: "/", type: "folder", children: [], createdAt: now, updatedAt: now },
+    },
+    revisions: {},
+  };
+}
+
+// =============================================================================
+// REVISION OPERATIONS (same semantics as knowledge/history/operations.ts)
+// =============================================================================
+
+function historyIn(revisions: Revisions, path: string): FileRevision[] {
+  const normalizedPath = normalizePath(path);
+  return Object.values(revisions)
+    .filter((revision) => revision.path === normalizedPath)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+function recordRevisionIn(
+  revisions: Revisions,
+  path: string,
+  action: RevisionAction,
+  previousContent: string | null,
+  content: string | null
+): void {
+  if (previousContent === content) return;
+
+  const createdAt = nextRevisionTime();
+  const id = `rev-${createdAt}-${Math.random().toString(36).slice(2, 9)}`;
+  revisions[id] = { id, path: normalizePath(path), action, previousContent, content, createdAt };
+
+  // Keep the per-file history bounded
+  for (const old of historyIn(revisions, path).slice(MAX_REVISIONS_PER_FILE)) {
+    delete revisions[old.id];
+  }
+}
+
+// =============================================================================
+// NODE MAP OPERATIONS
+// =============================================================================
+
+function mkdirIn(nodes: Record<string, KnowledgeNode>, path: string): void {
+  const normalizedPath = normalizePath(path);
+  if (normalizedPath === "/") return;
+
+  const existing = nodes[normalizedPath];
+  if (existing) {
+    if (existing.type !== "folder") throw new Error(`Is a file: ${path}`);
+    return;
+  }
+
+  const parent = parentPath(normalizedPath);
+  mkdirIn(nodes, parent);
+
+  const parentNode = nodes[parent];
+  const name = nodeName(normalizedPath);
+  if (parentNode && !parentNode.children?.includes(name)) {
+    parentNode.children = [...(parentNode.children ?? []), name];
+    parentNode.updatedAt = Date.now();
+  }
+
+  nodes[normalizedPath] = {
+    path: normalizedPath,
+    type: "folder",
+    children: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+}
+
+function writeFileIn(
+  nodes: Record<string, KnowledgeNode>,
+  revisions: Revisions,
+  path: string,
+  content: string,
+  action: RevisionAction
+): void {
+  const normalizedPath = normalizePath(path);
+  const existing = nodes[normalizedPath];
+  if (existing?.type === "folder") throw new Error(`Is a folder: ${path}`);
+
+  const parent = parentPath(normalizedPath);
+  mkdirIn(nodes, parent);
+
+  const parentNode = nodes[parent];
+  const name = nodeName(normalizedPath);
+  if (parentNode && !parentNode.children?.includes(name)) {
+    parentNode.children = [...(parentNode.children ?? []), name];
+    parentNode.updatedAt = Date.now();
+  }
+
+  nodes[normalizedPath] = {
+    path: normalizedPath,
+    type: "file",
+    content,
+    metadata: parseFrontmatter(content).metadata,
+    createdAt: existing?.createdAt ?? Date.now(),
+    updatedAt: Date.now(),
+  };
+  recordRevisionIn(revisions, normalizedPath, action, existing ? existing.content ?? "" : null, content);
+}
+
+function deleteNodeIn(nodes: Record<string, KnowledgeNode>, revisions: Revisions, path: string): void {
+  const normalizedPath = normalizePath(path);
+  if (normalizedPath === "/") return;
+
+  const node = nodes[normalizedPath];
+  if (!node) return;
+
+  if (node.type === "folder" && node.children) {
+    for (const child of node.children) {
+      deleteNodeIn(nodes, revisions, normalizedPath + "/" + child);
+    }
+  }
+
+  const parentNode = nodes[parentPath(normalizedPath)];
+  const name = nodeName(normalizedPath);
+  if (parentNode?.children) {
+    parentNode.children = parentNode.children.filter((c) => c !== name);
+    parentNode.updatedAt = Date.now();
+  }
+
+  delete nodes[normalizedPath];
+
+  // Keep the deleted content in the file's history
+  if (node.type === "file") {
+    recordRevisionIn(revisions, normalizedPath, "delete", node.content ?? "", null);
+  }
+}
+
+function transferNodeIn(
+  nodes: Record<string, KnowledgeNode>,
+  revisions: Revisions,
+  from: string,
+  to: string,
+  mode: "move" | "copy"
+): NodeTransfer {
+  const source = normalizePath(from);
+  const destination = normalizePath(to);
+  if (source === "/") throw new Error("Cannot move or copy the root folder");
+  if (destination === "/") throw new Error("Destination must not be the root folder");
+  if (!nodes[source]) throw new Error(`Not found: ${from}`);
+  if (nodes[destination]) throw new Error(`Already exists: ${destination}`);
+  if (destination.startsWith(source + "/")) throw new Error(`Cannot put ${source} inside itself`);
+
+  // Snapshot the subtree before touching anything
+  const subtree = Object.values(nodes).filter(
+    (node) => node.path === source || node.path.startsWith(source + "/")
+  );
+
+  mkdirIn(nodes, parentPath(destination));
+  const parentNode = nodes[parentPath(destination)];
+  if (parentNode.type !== "folder") throw new Error(`Is a file: ${parentPath(destination)}`);
+
+  const now = Date.now();
+  let files = 0;
+  for (const node of subtree) {
+    const newPath = destination + node.path.slice(source.length);
+    nodes[newPath] =
+      mode === "move"
+        ? { ...node, path: newPath }
+        : { ...node, path: newPath, children: node.children && [...node.children], createdAt: now, updatedAt: now };
+    if (node.type !== "file") continue;
+    files++;
+
+    // A moved file keeps its history; a copy is a new file with its own
+    if (mode === "move") {
+      for (const revision of historyIn(revisions, node.path)) {
+        revisions[revision.id] = { ...revision, path: newPath };
+      }
+    } else {
+      recordRevisionIn(revisions, newPath, "write", null, node.content ?? "");
+    }
+  }
+
+  if (mode === "move") {
+    for (const node of subtree) delete nodes[node.path];
+    const oldParent = nodes[parentPath(source)];
+    if (oldParent?.children) {
+      oldParent.children = oldParent.children.filter((c) => c !== nodeName(source));
+      oldParent.updatedAt = now;
+    }
+  }
+
+  const name = nodeName(destination);
+  if (!parentNode.children?.includes(name)) {
+    parentNode.children = [...(parentNode.children ?? []), name];
+    parentNode.updatedAt = now;
+  }
+
+  return { from: source, to: destination, files };
+}
+
+function searchIn(
+  nodes: Record<string, KnowledgeNode>,
+  query: string,
+  topK: number,
+  filter?: MetadataFilter
+): ServerSearchResult[] {
+  // Chunk files the same way the browser does, then score lexically
+  // (there are no embeddings on the server)
+  const records: EmbeddingRecord[] = [];
+  const now = Date.now();
+  for (const node of Object.values(nodes)) {
+    if (node.type !== "file" || !node.content) continue;
+    if (hasMetadataFilter(filter) && !matchesMetadataFilter(getNodeMetadata(node), filter, now)) continue;
+    for (const chunk of chunkMarkdown(parseFrontmatter(node.content).body)) {
+      records.push({
+        id: `${node.path}#${chunk.index}`,
+        filePath: node.path,
+        chunkIndex: chunk.index,
+        chunkText: chunk.text,
+        contentHash: "",
+        headingPath: chunk.headingPath,
+        embedding: [],
+        updatedAt: node.updatedAt,
+      });
+    }
+  }
+
+  const queryType = detectQueryType(query);
+  let matches = lexicalSearch(query, records);
+
+  // IDF is non-positive when nearly every chunk contains a term (tiny knowledge
+  // bases), so fall back to the fraction of query terms each chunk contains
+  if (matches.length === 0) {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    matches = records
+      .map((record) => {
+        const tokens = new Set(tokenize(`${record.headingPath} ${record.filePath} ${record.chunkText}`));
+        const matchedTerms = queryTerms.filter((term) => tokens.has(term));
+        return {
+          record,
+          lexicalScore: queryTerms.length > 0 ? matchedTerms.length / queryTerms.length : 0,
+          matchedTerms,
+          termFrequencies: new Map<string, number>(),
+        };
+      })
+      .filter((match) => match.lexicalScore > 0)
+      .sort((a, b) => b.lexicalScore - a.lexicalScore);
+  }
+
+  return matches
+    .slice(0, topK)
+    .map(({ record, lexicalScore, matchedTerms }) => ({
+      filePath: record.filePath,
+      chunkText: record.chunkText,
+      headingPath: record.headingPath,
+      score: Math.min(1, lexicalScore),
+      chunkIndex: record.chunkIndex,
+      semanticScore: 0,
+      lexicalScore,
+      matchedTerms,
+      queryType,
+    }));
+}
+
+// =============================================================================
+// FILE-BACKED STORE
+// =============================================================================
+
+/** Per-file operation queues - serializes read-modify-write cycles (this process only) */
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+  locks.set(key, next);
+  next.finally(() => {
+    if (locks.get(key) === next) locks.delete(key);
+  }).catch(() => undefined);
+  return next;
+}
+
+async function loadStoreFile(filePath: string): Promise<StoreFile> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8")) as StoreFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return emptyStore();
+    throw error;
+  }
+}
+
+async function saveStoreFile(filePath: string, data: StoreFile): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data), "utf8");
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Create a JSON-file-backed store for one user.
+ *
+ * @param userId - better-auth user id (isolates each user's files)
+ * @param directory - Where store files live (default: KNOWLEDGE_SERVER_DIR or .data/knowledge)
+ */
+export function createFileKnowledgeStore(
+  userId: string,
+  directory: string = process.env.KNOWLEDGE_SERVER_DIR || DEFAULT_STORE_DIR
+): ServerKnowledgeStore {
+  const storeDir = resolve(process.cwd(), directory);
+  const filePath = join(storeDir, `${encodeURIComponent(userId)}.json`);
+
+  const read = <T>(fn: (nodes: Record<string, KnowledgeNode>, revisions: Revisions) => T) =>
+    withLock(filePath, async () => {
+      const data = await loadStoreFile(filePath);
+      return fn(data.nodes, data.revisions ?? {});
+    });
+
+  const update = <T>(fn: (nodes: Record<string, KnowledgeNode>, revisions: Revisions) => T) =>
+    withLock(filePath, async () => {
+      const data = await loadStoreFile(filePath);
+      data.revisions ??= {};
+      const result = fn(data.nodes, data.revisions);
+      await fs.mkdir(storeDir, { recursive: true });
+      await saveStoreFile(filePath, data);
+      return result;
+    });
+
+  const readFile = (path: string) =>
+    read((nodes) => {
+      const node = nodes[normalizePath(path)];
+      if (!node) throw new Error(`Not found: ${path}`);
+      if (node.type === "folder") throw new Error(`Is a folder: ${path}`);
+      return node.content ?? "";
+    });
+
+  return {
+    listFolder: (path) =>
+      read((nodes) => {
+        const node = nodes[normalizePath(path)];
+        if (!node || node.type !== "folder") return [];
+        return node.children ?? [];
+      }),
+
+    readFile,
+
+    writeFile: (path, content) =>
+      update((nodes, revisions) => writeFileIn(nodes, revisions, path, content, "write")),
+
+    appendFile: (path, content) =>
+      update((nodes, revisions) => {
+        const existing = nodes[normalizePath(path)]?.content ?? "";
+        const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+        writeFileIn(nodes, revisions, path, existing + separator + content, "append");
+      }),
+
+    editFile: (path, edit) =>
+      update((nodes, revisions) => {
+        const normalizedPath = normalizePath(path);
+        const node = nodes[normalizedPath];
+        if (!node) throw new Error(`Not found: ${path}`);
+        if (node.type === "folder") throw new Error(`Is a folder: ${path}`);
+
+        const before = node.content ?? "";
+        const { content, replacements } = applyEdit(before, edit, normalizedPath);
+        writeFileIn(nodes, revisions, normalizedPath, content, "edit");
+        return {
+          path: normalizedPath,
+          replacements,
+          diff: formatUnifiedDiff(diffLines(before, content), normalizedPath),
+        };
+      }),
+
+    mkdir: (path) => update((nodes) => mkdirIn(nodes, path)),
+
+    deleteNode: (path) => update((nodes, revisions) => deleteNodeIn(nodes, revisions, path)),
+
+    getFileHistory: (path) => read((_nodes, revisions) => historyIn(revisions, path)),
+
+    getRevision: (revisionId) => read((_nodes, revisions) => revisions[revisionId]),
+
+    restoreRevision: (revisionId, state = "after") =>
+      update((nodes, revisions) => {
+        const revision = revisions[revisionId];
+        if (!revision) throw new Error(`Revision not found: ${revisionId}`);
+
+        const content = state === "before" ? revision.previousContent : revision.content;
+        if (content === null) {
+          deleteNodeIn(nodes, revisions, revision.path);
+        } else {
+          writeFileIn(nodes, revisions, revision.path, content, "restore");
+        }
+
+        return { path: revision.path, content };
+      }),
+
+    moveNode: (from, to) => update((nodes, revisions) => transferNodeIn(nodes, revisions, from, to, "move")),
+
+    copyNode: (from, to) => update((nodes, revisions) => transferNodeIn(nodes, revisions, from, to, "copy")),
+
+    getRootFolders: () => read((nodes) => nodes["/"]?.children ?? []),
+
+    search: (query, topK = 5, filter) => read((nodes) => searchIn(nodes, query, topK, filter)),
+
+    grep: (pattern, options) =>
+      read((nodes) =>
+        grepContent(
+          Object.values(nodes)
+            .filter((node) => node.type === "file")
+            .map((node) => ({ path: node.path, content: node.content ?? "" })),
+          pattern,
+          options
+        )
+      ),
+  };
+}
+
+/**
+ * Get the server knowledge store for a user.
+ * Single place to swap in a different backend.
+ */
+export function getServerKnowledgeStore(userId: string): ServerKnowledgeStore {
+  return createFileKnowledgeStore(userId);
+}
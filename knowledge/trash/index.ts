@@ -0,0 +1,9 @@
+/**
+ * Knowledge Trash Module
+ *
+ * Re-exports trash storage and purging.
+ * Deleting and restoring live in ../operations.ts (deleteNode, restoreFromTrash).
+ */
+
+export * from "./types";
+export * from "./operations";
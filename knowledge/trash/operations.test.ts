@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setStorageBackend } from "@/lib/storage/adapter";
+import { createMemoryBackend } from "@/lib/storage/memory-adapter";
+import { createMockEmbedding } from "@/agents/mock-model";
+import { embedFile, getAllEmbeddings } from "../embeddings/operations";
+import type { Embedder } from "../embeddings/types";
+import { createLink, getLinksForFile } from "../links/operations";
+import { deleteNode, listFolder, readFile, restoreFromTrash, writeFile } from "../operations";
+import { getTrashEntries, purgeExpiredTrash } from "./operations";
+
+/** Deterministic word-hash embeddings instead of /api/embed */
+const embed: Embedder = async (texts) => texts.map((text) => createMockEmbedding(text, 64));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PLAN = "# Plan\n\nShip the beta in March.";
+
+describe("trash", () => {
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    // Writes also embed through /api/embed, which doesn't exist here
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await writeFile("/projects/acme/plan.md", PLAN);
+    await writeFile("/projects/acme/notes.md", "Kickoff on Monday");
+    await writeFile("/notes/status.md", "Waiting on the plan");
+    await embedFile("/projects/acme/plan.md", PLAN, embed);
+    await createLink("/notes/status.md", "/projects/acme/plan.md", "references");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("restores a deleted folder with its embeddings and links", async () => {
+    await deleteNode("/projects/acme");
+
+    expect(await listFolder("/projects")).toEqual([]);
+    expect(await getAllEmbeddings()).toEqual([]);
+    const [entry] = await getTrashEntries();
+    expect(entry).toMatchObject({ path: "/projects/acme", type: "folder", files: 2 });
+
+    const result = await restoreFromTrash(entry.id);
+
+    expect(result).toEqual({ path: "/projects/acme", files: 2 });
+    expect(await readFile("/projects/acme/plan.md")).toBe(PLAN);
+    expect((await listFolder("/projects/acme")).sort()).toEqual(["notes.md", "plan.md"]);
+    expect((await getAllEmbeddings()).map((e) => e.filePath)).toEqual(["/projects/acme/plan.md"]);
+    expect((await getLinksForFile("/projects/acme/plan.md")).incoming.map((l) => l.source)).toEqual(["/notes/status.md"]);
+    expect(await getTrashEntries()).toEqual([]);
+  });
+
+  it("leaves out links to files deleted since", async () => {
+    await deleteNode("/projects/acme/plan.md");
+    await deleteNode("/notes/status.md");
+    const entry = (await getTrashEntries()).find((e) => e.path === "/projects/acme/plan.md")!;
+
+    await restoreFromTrash(entry.id);
+
+    expect(await getLinksForFile("/projects/acme/plan.md")).toMatchObject({ outgoing: [], incoming: [] });
+  });
+
+  it("won't restore over a file created at the same path", async () => {
+    await deleteNode("/projects/acme/plan.md");
+    await writeFile("/projects/acme/plan.md", "A new plan");
+    const [entry] = await getTrashEntries();
+
+    await expect(restoreFromTrash(entry.id)).rejects.toThrow("Already exists: /projects/acme/plan.md");
+  });
+
+  it("purges only entries older than the retention period", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse("2026-01-01T00:00:00Z"));
+    await deleteNode("/projects/acme/plan.md");
+    vi.setSystemTime(Date.parse("2026-01-25T00:00:00Z"));
+    await deleteNode("/notes/status.md");
+
+    vi.setSystemTime(Date.parse("2026-01-01T00:00:00Z") + 30 * DAY_MS + 1);
+    expect(await purgeExpiredTrash(0)).toBe(0);
+    expect(await purgeExpiredTrash(30)).toBe(1);
+
+    expect((await getTrashEntries()).map((e) => e.path)).toEqual(["/notes/status.md"]);
+  });
+});
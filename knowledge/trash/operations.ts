@@ -0,0 +1,152 @@
+/**
+ * Knowledge Trash Operations
+ *
+ * Stores and purges trash entries. deleteNode in ../operations.ts moves
+ * nodes here before removing them (and owns restoreFromTrash), so this
+ * module only deals with the trash store.
+ *
+ * Entries older than the retention period (Settings, default 30 days) are
+ * purged by purgeExpiredTrash, which the Knowledge Browser runs on load.
+ */
+
+import { getKnowledgeDb } from "../idb";
+import type { KnowledgeNode } from "../types";
+import type { KnowledgeLink } from "../links/types";
+import type { EmbeddingRecord } from "../embeddings/types";
+import type { TrashEntry } from "./types";
+import { loadAppSettings } from "@/lib/app-settings";
+import { publishChange } from "@/lib/storage/sync";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// CHANGE LISTENERS
+// =============================================================================
+
+const listeners = new Set<() => void>();
+
+/**
+ * Subscribe to trash changes in this tab (the Trash view uses this, and
+ * onRemoteChange("knowledge") for other tabs).
+ *
+ * @returns Unsubscribe function
+ */
+export function onTrashChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyChange(): void {
+  for (const listener of listeners) listener();
+  publishChange("knowledge");
+}
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+/**
+ * Snapshot nodes into a new trash entry, with their embeddings and links.
+ * Called by deleteNode before anything is removed.
+ *
+ * @param nodes - The deleted node and everything below it, parents first
+ */
+export async function moveToTrash(nodes: KnowledgeNode[]): Promise<TrashEntry> {
+  const db = await getKnowledgeDb();
+  const embeddings: EmbeddingRecord[] = [];
+  const links = new Map<string, KnowledgeLink>();
+
+  for (const node of nodes) {
+    if (node.type !== "file") continue;
+    embeddings.push(...(await db.getAllFromIndex("embeddings", "by-file", node.path)));
+    for (const link of [
+      ...(await db.getAllFromIndex("links", "by-source", node.path)),
+      ...(await db.getAllFromIndex("links", "by-target", node.path)),
+    ]) {
+      links.set(link.id, link);
+    }
+  }
+
+  const deletedAt = Date.now();
+  const entry: TrashEntry = {
+    id: `trash-${deletedAt}-${Math.random().toString(36).slice(2, 9)}`,
+    path: nodes[0].path,
+    type: nodes[0].type,
+    nodes,
+    embeddings,
+    links: Array.from(links.values()),
+    files: nodes.filter((node) => node.type === "file").length,
+    deletedAt,
+  };
+  await db.put("trash", entry);
+  notifyChange();
+  return entry;
+}
+
+/**
+ * Get all trash entries, most recently deleted first.
+ */
+export async function getTrashEntries(): Promise<TrashEntry[]> {
+  const db = await getKnowledgeDb();
+  const entries = await db.getAll("trash");
+  return entries.sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+/**
+ * Get a trash entry by ID.
+ */
+export async function getTrashEntry(id: string): Promise<TrashEntry | undefined> {
+  const db = await getKnowledgeDb();
+  return db.get("trash", id);
+}
+
+/**
+ * Permanently delete a trash entry. File history is kept (see kb_history).
+ */
+export async function purgeTrashEntry(id: string): Promise<void> {
+  const db = await getKnowledgeDb();
+  await db.delete("trash", id);
+  notifyChange();
+}
+
+/**
+ * Permanently delete everything in the trash.
+ *
+ * @returns Number of entries purged
+ */
+export async function emptyTrash(): Promise<number> {
+  const db = await getKnowledgeDb();
+  const entries = await db.getAll("trash");
+  for (const entry of entries) {
+    await db.delete("trash", entry.id);
+  }
+  if (entries.length > 0) notifyChange();
+  return entries.length;
+}
+
+/**
+ * Purge entries deleted longer ago than the retention period.
+ *
+ * @param retentionDays - Days to keep deleted items (default: the setting;
+ *   0 keeps them until purged by hand)
+ * @returns Number of entries purged
+ */
+export async function purgeExpiredTrash(
+  retentionDays: number = loadAppSettings().trashRetentionDays
+): Promise<number> {
+  if (retentionDays <= 0) return 0;
+
+  const db = await getKnowledgeDb();
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  let purged = 0;
+  for (const entry of await db.getAll("trash")) {
+    if (entry.deletedAt < cutoff) {
+      await db.delete("trash", entry.id);
+      purged++;
+    }
+  }
+  if (purged > 0) notifyChange();
+  return purged;
+}
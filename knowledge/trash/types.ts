@@ -0,0 +1,32 @@
+/**
+ * Knowledge Trash Types
+ *
+ * Deleting a file or folder moves it to the trash instead of erasing it:
+ * the nodes, their embeddings and their links are kept together so a
+ * restore puts everything back as it was.
+ */
+
+import type { KnowledgeNode } from "../types";
+import type { EmbeddingRecord } from "../embeddings/types";
+import type { KnowledgeLink } from "../links/types";
+
+/**
+ * One deletion (a file, or a folder with everything in it), stored in IndexedDB.
+ */
+export interface TrashEntry {
+  /** Unique trash entry ID */
+  id: string;
+  /** Path the deleted file or folder had */
+  path: string;
+  type: "file" | "folder";
+  /** The deleted node and everything below it, parents before children */
+  nodes: KnowledgeNode[];
+  /** Embeddings of the deleted files, so a restore doesn't re-embed */
+  embeddings: EmbeddingRecord[];
+  /** Links to and from the deleted files */
+  links: KnowledgeLink[];
+  /** Number of files in the entry */
+  files: number;
+  /** When it was deleted */
+  deletedAt: number;
+}
@@ -10,10 +10,46 @@ export interface KnowledgeNode {
   type: "file" | "folder";
   content?: string;
   children?: string[];
+  /** Parsed from the file's YAML frontmatter on write (files only) */
+  metadata?: KnowledgeMetadata;
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * Structured metadata from a file's YAML frontmatter (see ./frontmatter.ts).
+ * Fields the file doesn't set are left out.
+ */
+export interface KnowledgeMetadata {
+  /** Lowercased, without a leading "#", e.g. "project/acme" */
+  tags?: string[];
+  /** Other names the note goes by */
+  aliases?: string[];
+  /** Free-form, e.g. "draft", "active", "archived" */
+  status?: string;
+  /** Where the information came from (URL, person, document) */
+  source?: string;
+  /** Date after which the note is stale, as written (e.g. "2026-12-31") */
+  expires?: string;
+}
+
+/**
+ * Narrows search to files whose metadata matches. Every field that is set
+ * must match.
+ */
+export interface MetadataFilter {
+  /** File must have all of these tags (case-insensitive) */
+  tags?: string[];
+  /** File must list this alias (case-insensitive) */
+  alias?: string;
+  /** Exact status (case-insensitive) */
+  status?: string;
+  /** Source must contain this text (case-insensitive) */
+  source?: string;
+  /** Leave out files whose expires date has passed */
+  excludeExpired?: boolean;
+}
+
 export interface KnowledgeTree {
   name: string;
   path: string;
@@ -9,8 +9,16 @@
  * - Keys are sent to your own API routes, not directly to third parties
  * - Keys are never persisted on your server
  * - When a userId is provided, keys are stored per-user for isolation on shared devices
+ *
+ * Code that isn't handed the keys (the knowledge layer's background
+ * embedding, contradiction checks and reranking) reads the signed-in user's
+ * keys through getCurrentApiKeys; the page sets that user on sign-in.
+ * While the local model is selected they send the local endpoint instead
+ * (getBackgroundLocalEndpoint), so nothing goes to a cloud provider.
  */
 
+import type { ModelProvider } from "@/agents/model-registry";
+
 const STORAGE_KEY_BASE = "chatnoir-api-keys";
 
 /**
@@ -23,9 +31,25 @@ function getStorageKey(userId?: string): string {
   return STORAGE_KEY_BASE;
 }
 
+/** User whose keys getCurrentApiKeys returns (undefined: anonymous) */
+let currentUserId: string | undefined;
+
+/** Whether the chat has the local model selected (see setLocalModelSelected) */
+let localModelSelected = false;
+
 export interface StoredApiKeys {
   anthropicApiKey?: string;
   openaiApiKey?: string;
+  /** Groq API key for Groq-hosted chat models */
+  groqApiKey?: string;
+  /** Base URL of an OpenAI-compatible local server (e.g. http://localhost:11434/v1) */
+  localBaseUrl?: string;
+  /** Model name to request from the local server */
+  localModel?: string;
+  /** API key for the local server, if it was started with one */
+  localApiKey?: string;
+  /** Embedding model to request from the local server, if it has one */
+  localEmbeddingModel?: string;
   /** Cohere API key for reranking (optional, improves RAG accuracy by 20-40%) */
   cohereApiKey?: string;
 }
@@ -58,6 +82,62 @@ export function getApiKeys(userId?: string): StoredApiKeys {
   }
 }
 
+/**
+ * Set the signed-in user whose keys getCurrentApiKeys returns.
+ * @param userId - The user ID, or undefined when signed out
+ */
+export function setCurrentApiKeyUser(userId: string | undefined): void {
+  currentUserId = userId;
+}
+
+/**
+ * Get the signed-in user's stored API keys (see setCurrentApiKeyUser)
+ */
+export function getCurrentApiKeys(): StoredApiKeys {
+  return getApiKeys(currentUserId);
+}
+
+/**
+ * Local endpoint settings as the API routes take them (`localEndpoint`,
+ * see lib/local-endpoint.ts)
+ */
+export interface LocalEndpointRequest {
+  baseUrl?: string;
+  model?: string;
+  embeddingModel?: string;
+  apiKey?: string;
+}
+
+/**
+ * Get the local endpoint settings from stored keys
+ * @param keys - Keys loaded via getApiKeys()
+ */
+export function getLocalEndpointRequest(keys: StoredApiKeys): LocalEndpointRequest {
+  return {
+    baseUrl: keys.localBaseUrl,
+    model: keys.localModel,
+    embeddingModel: keys.localEmbeddingModel,
+    apiKey: keys.localApiKey,
+  };
+}
+
+/**
+ * Set whether the chat has the local model selected. The chat calls this
+ * when the model changes.
+ */
+export function setLocalModelSelected(selected: boolean): void {
+  localModelSelected = selected;
+}
+
+/**
+ * The signed-in user's local endpoint while the local model is selected, for
+ * background requests (embeddings, contradiction checks); undefined when
+ * they should go to the cloud providers.
+ */
+export function getBackgroundLocalEndpoint(): LocalEndpointRequest | undefined {
+  return localModelSelected ? getLocalEndpointRequest(getCurrentApiKeys()) : undefined;
+}
+
 /**
  * Save API keys to localStorage
  * @param keys - The API keys to save
@@ -77,6 +157,11 @@ export function saveApiKeys(keys: StoredApiKeys, userId?: string): void {
     // Remove empty strings
     if (!merged.anthropicApiKey) delete merged.anthropicApiKey;
     if (!merged.openaiApiKey) delete merged.openaiApiKey;
+    if (!merged.groqApiKey) delete merged.groqApiKey;
+    if (!merged.localBaseUrl) delete merged.localBaseUrl;
+    if (!merged.localModel) delete merged.localModel;
+    if (!merged.localApiKey) delete merged.localApiKey;
+    if (!merged.localEmbeddingModel) delete merged.localEmbeddingModel;
     if (!merged.cohereApiKey) delete merged.cohereApiKey;
 
     localStorage.setItem(storageKey, JSON.stringify(merged));
@@ -108,7 +193,7 @@ export function clearApiKeys(userId?: string): void {
  */
 export function hasApiKeys(userId?: string): boolean {
   const keys = getApiKeys(userId);
-  return Boolean(keys.anthropicApiKey || keys.openaiApiKey);
+  return Boolean(keys.anthropicApiKey || keys.openaiApiKey || keys.groqApiKey);
 }
 
 /**
@@ -123,6 +208,30 @@ export function hasOpenAIKey(userId?: string): boolean {
   return Boolean(getApiKeys(userId).openaiApiKey);
 }
 
+export function hasGroqKey(userId?: string): boolean {
+  return Boolean(getApiKeys(userId).groqApiKey);
+}
+
+/** Which stored key belongs to each chat model provider */
+const PROVIDER_KEY_FIELDS: Record<ModelProvider, keyof StoredApiKeys> = {
+  anthropic: "anthropicApiKey",
+  openai: "openaiApiKey",
+  groq: "groqApiKey",
+  local: "localApiKey",
+};
+
+/**
+ * Get the stored key for a chat model provider (see agents/model-registry.ts)
+ * @param keys - Keys loaded via getApiKeys()
+ * @param provider - Provider of the selected model
+ */
+export function getProviderApiKey(
+  keys: StoredApiKeys,
+  provider: ModelProvider
+): string | undefined {
+  return keys[PROVIDER_KEY_FIELDS[provider]];
+}
+
 export function hasCohereKey(userId?: string): boolean {
   return Boolean(getApiKeys(userId).cohereApiKey);
 }
@@ -0,0 +1,67 @@
+/**
+ * App Settings
+ *
+ * User preferences edited in the Settings panel (chat-sidebar.tsx) and
+ * persisted to localStorage. Other components read them with
+ * loadAppSettings() when they need them.
+ */
+
+import type { ApprovalPolicies } from "./approval-policies";
+
+export type ThemeMode = "light" | "dark" | "system";
+
+export interface AppSettings {
+  theme: ThemeMode;
+  fontSize: "small" | "medium" | "large";
+  sendWithEnter: boolean;
+  showTimestamps: boolean;
+  /** Hold context saver writes for review (diff + accept/edit/reject) */
+  reviewContextSaves: boolean;
+  /** Propose facts from idle conversations for the memory inbox */
+  extractMemories: boolean;
+  /** Check changed files for statements that conflict with other files */
+  detectContradictions: boolean;
+  /** Days deleted knowledge files stay in the trash (0 = until emptied) */
+  trashRetentionDays: number;
+  /** Which tool calls ask for approval first (see lib/approval-policies.ts) */
+  approvalPolicies: ApprovalPolicies;
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  theme: "system",
+  fontSize: "medium",
+  sendWithEnter: true,
+  showTimestamps: true,
+  reviewContextSaves: false,
+  extractMemories: true,
+  detectContradictions: true,
+  trashRetentionDays: 30,
+  approvalPolicies: {},
+};
+
+const STORAGE_KEY = "app-settings";
+
+/**
+ * Load settings, filling in defaults for anything missing.
+ */
+export function loadAppSettings(): AppSettings {
+  if (typeof window === "undefined") return DEFAULT_APP_SETTINGS;
+
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    try {
+      return { ...DEFAULT_APP_SETTINGS, ...JSON.parse(stored) };
+    } catch {
+      // Fall through to defaults
+    }
+  }
+  return DEFAULT_APP_SETTINGS;
+}
+
+/**
+ * Persist settings.
+ */
+export function saveAppSettings(settings: AppSettings): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
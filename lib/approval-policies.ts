@@ -0,0 +1,107 @@
+/**
+ * Tool Approval Policies
+ *
+ * Which tool calls wait for the user's approval before they run, as set in
+ * the Settings panel (stored in app settings). Each tool has a mode:
+ *
+ * - "never": runs without asking (the default)
+ * - "always": every call asks
+ * - "overwrite": asks when the call replaces an existing file longer than
+ *   `minLines` lines (kb_write, kb_restore)
+ *
+ * Policies are evaluated per call. Client-executed tools are checked in
+ * ai-chat.tsx before they run; in server knowledge mode the chat route
+ * receives the policies and sets `needsApproval` on the server-executed
+ * tools (tools/index.ts). Either way the existing approval card is shown,
+ * and "Always allow in this chat" drops the tool's policy for the rest of
+ * the conversation.
+ *
+ * web_search is executed by the provider, so it can't be held for approval.
+ * Safe to import anywhere.
+ */
+
+export type ApprovalMode = "never" | "always" | "overwrite";
+
+export interface ApprovalPolicy {
+  mode: ApprovalMode;
+  /** For "overwrite": ask when the existing file has more lines than this */
+  minLines?: number;
+}
+
+/** Policies keyed by tool name (tools without one never ask) */
+export type ApprovalPolicies = Record<string, ApprovalPolicy>;
+
+/** A tool that can be given a policy in Settings */
+export interface ApprovalTool {
+  name: string;
+  label: string;
+  /** Replaces a whole file, so the "overwrite" mode applies */
+  overwrites?: boolean;
+}
+
+export const APPROVAL_TOOLS: ApprovalTool[] = [
+  { name: "kb_write", label: "Write file", overwrites: true },
+  { name: "kb_append", label: "Append to file" },
+  { name: "kb_edit", label: "Edit file" },
+  { name: "kb_delete", label: "Delete" },
+  { name: "kb_move", label: "Move / rename" },
+  { name: "kb_copy", label: "Copy" },
+  { name: "kb_mkdir", label: "Create folder" },
+  { name: "kb_restore", label: "Restore revision", overwrites: true },
+  { name: "kb_link", label: "Link files" },
+  { name: "kb_unlink", label: "Unlink files" },
+  { name: "save_to_context", label: "Save to context" },
+];
+
+/** Line threshold used when "overwrite" is picked without one */
+export const DEFAULT_OVERWRITE_LINES = 50;
+
+/**
+ * Whether a tool call needs approval under the given policies.
+ *
+ * @param countLines - Line count of an existing file, or null if there is
+ *   none (only called for the "overwrite" mode)
+ */
+export async function isApprovalRequired(
+  policies: ApprovalPolicies | undefined,
+  toolName: string,
+  input: Record<string, unknown>,
+  countLines: (path: string) => Promise<number | null>
+): Promise<boolean> {
+  const policy = policies?.[toolName];
+  if (!policy) return false;
+
+  switch (policy.mode) {
+    case "always":
+      return true;
+    case "overwrite": {
+      const tool = APPROVAL_TOOLS.find((t) => t.name === toolName);
+      if (!tool?.overwrites || typeof input.path !== "string") return false;
+      const lines = await countLines(input.path);
+      return lines !== null && lines > (policy.minLines ?? DEFAULT_OVERWRITE_LINES);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Policies without the tools the user allowed for the current conversation.
+ */
+export function withoutAllowedTools(
+  policies: ApprovalPolicies,
+  allowedTools: Iterable<string>
+): ApprovalPolicies {
+  const remaining = { ...policies };
+  for (const toolName of allowedTools) {
+    delete remaining[toolName];
+  }
+  return remaining;
+}
+
+/**
+ * Line count of a file's content.
+ */
+export function countContentLines(content: string): number {
+  return content === "" ? 0 : content.split("\n").length;
+}
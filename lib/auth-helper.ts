@@ -98,12 +98,13 @@ export function resolveApiKey(
 
 /**
  * Create an error response for missing API key
+ *
+ * @param providerName - Provider whose key is missing (e.g. "OpenAI"), if known
  */
-export function createApiKeyRequiredResponse(): Response {
+export function createApiKeyRequiredResponse(providerName?: string): Response {
   return new Response(
     JSON.stringify({
-      error:
-        "API key required. Please add your API key in settings, or sign in with an owner account.",
+      error: `${providerName ? `${providerName} API key` : "API key"} required. Please add your API key in settings, or sign in with an owner account.`,
       code: "API_KEY_REQUIRED",
     }),
     {
@@ -112,3 +113,21 @@ export function createApiKeyRequiredResponse(): Response {
     }
   );
 }
+
+/**
+ * Create an error response for features that need a signed-in user
+ *
+ * @param feature - What requires sign-in (e.g. "Server-side knowledge base")
+ */
+export function createSignInRequiredResponse(feature: string): Response {
+  return new Response(
+    JSON.stringify({
+      error: `${feature} requires sign-in. Please sign in from the sidebar.`,
+      code: "SIGN_IN_REQUIRED",
+    }),
+    {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
@@ -0,0 +1,94 @@
+import type { UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import {
+  buildMessageTree,
+  getBranchSiblings,
+  getBranchThrough,
+  mergeBranch,
+  mergeTrees,
+} from "./chat-tree";
+
+function message(id: string, role: "user" | "assistant" = "user", text = id): UIMessage {
+  return { id, role, parts: [{ type: "text", text }] };
+}
+
+const ids = (messages: UIMessage[]) => messages.map((m) => m.id);
+
+const [u1, a1, u2, a2] = [message("u1"), message("a1", "assistant"), message("u2"), message("a2", "assistant")];
+
+/** u1 - a1 - u2 - a2, with a1 regenerated as a1b and u2 edited as u2b */
+function branchedTree() {
+  let tree = buildMessageTree([u1, a1, u2, a2]);
+  tree = mergeBranch(tree, [u1, message("a1b", "assistant")]);
+  tree = mergeBranch(tree, [u1, a1, message("u2b"), message("a2b", "assistant")]);
+  return tree;
+}
+
+describe("mergeBranch", () => {
+  it("adds a regenerated response as a sibling and keeps the rest", () => {
+    const tree = mergeBranch(buildMessageTree([u1, a1]), [u1, message("a1b", "assistant")]);
+
+    expect(tree.map((node) => [node.message.id, node.parentId])).toEqual([
+      ["u1", null],
+      ["a1", "u1"],
+      ["a1b", "u1"],
+    ]);
+  });
+
+  it("returns the same tree when nothing changed and updates a streaming message", () => {
+    const tree = buildMessageTree([u1, a1]);
+    expect(mergeBranch(tree, [u1, a1])).toBe(tree);
+
+    const streamed = message("a1", "assistant", "Where to go?");
+    const updated = mergeBranch(tree, [u1, streamed]);
+
+    expect(updated).not.toBe(tree);
+    expect(updated[1].message).toBe(streamed);
+    expect(tree[1].message).toBe(a1);
+  });
+});
+
+describe("getBranchSiblings", () => {
+  it("lists the alternatives at each step in creation order", () => {
+    const siblings = getBranchSiblings(branchedTree(), [u1, a1, message("u2b")]);
+
+    expect(Object.fromEntries(siblings)).toEqual({
+      u1: ["u1"],
+      a1: ["a1", "a1b"],
+      u2b: ["u2", "u2b"],
+    });
+  });
+});
+
+describe("getBranchThrough", () => {
+  it("follows the ancestors and then the latest reply at each step", () => {
+    const tree = branchedTree();
+
+    expect(ids(getBranchThrough(tree, "u2"))).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(ids(getBranchThrough(tree, "a1"))).toEqual(["u1", "a1", "u2b", "a2b"]);
+    expect(ids(getBranchThrough(tree, "a1b"))).toEqual(["u1", "a1b"]);
+    expect(getBranchThrough(tree, "missing")).toEqual([]);
+  });
+
+  it("stops at a parent cycle in a corrupt tree", () => {
+    const tree = [
+      { message: u1, parentId: "a1" },
+      { message: a1, parentId: "u1" },
+    ];
+
+    expect(ids(getBranchThrough(tree, "a1"))).toEqual(["u1", "a1"]);
+  });
+});
+
+describe("mergeTrees", () => {
+  it("keeps the first tree's order, takes the other's versions and appends its new nodes", () => {
+    const edited = message("a1", "assistant", "Edited elsewhere");
+    const other = buildMessageTree([u1, edited, message("u2c")]);
+
+    const merged = mergeTrees(buildMessageTree([u1, a1, u2]), other);
+
+    expect(merged.map((node) => node.message.id)).toEqual(["u1", "a1", "u2", "u2c"]);
+    expect(merged[1].message).toBe(edited);
+    expect(merged[3].parentId).toBe("a1");
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Chat Message Tree
+ *
+ * A conversation is stored as a tree of messages: editing a message or
+ * regenerating a response doesn't replace what came after, it starts a new
+ * branch next to it (a sibling of the replaced message). One branch is
+ * viewed at a time - the linear history that's shown, saved as
+ * `conversation.messages` and sent to /api/chat.
+ *
+ * The tree is a flat list of nodes, each pointing at the message it
+ * follows. List order is creation order, so siblings keep a stable order
+ * for "< 2/3 >" navigation. Nodes are only ever added (or updated while a
+ * response streams), never removed.
+ *
+ * Pure functions - safe to import anywhere.
+ */
+
+import type { UIMessage } from "ai";
+import type { ChatMessageNode } from "@/lib/chat-types";
+
+/**
+ * The tree of a conversation that has a single branch (conversations saved
+ * before branching existed, new conversations).
+ */
+export function buildMessageTree(messages: UIMessage[]): ChatMessageNode[] {
+  return messages.map((message, index) => ({
+    message,
+    parentId: index === 0 ? null : messages[index - 1].id,
+  }));
+}
+
+/**
+ * Add a branch's messages to the tree, or update them if they are already
+ * in it (e.g. a response that is still streaming).
+ *
+ * @returns The updated tree (the same array if nothing changed)
+ */
+export function mergeBranch(tree: ChatMessageNode[], branch: UIMessage[]): ChatMessageNode[] {
+  const indexById = new Map(tree.map((node, index) => [node.message.id, index]));
+  let merged = tree;
+
+  branch.forEach((message, position) => {
+    const parentId = position === 0 ? null : branch[position - 1].id;
+    const index = indexById.get(message.id);
+    if (index === undefined) {
+      if (merged === tree) merged = [...tree];
+      indexById.set(message.id, merged.length);
+      merged.push({ message, parentId });
+      return;
+    }
+    const node = merged[index];
+    if (node.message !== message || node.parentId !== parentId) {
+      if (merged === tree) merged = [...tree];
+      merged[index] = { message, parentId };
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Combine two copies of a conversation's tree, e.g. saved by two tabs that
+ * each added messages. Keeps `tree`'s order: its nodes are updated to
+ * `other`'s version, and nodes only in `other` are added after them.
+ */
+export function mergeTrees(tree: ChatMessageNode[], other: ChatMessageNode[]): ChatMessageNode[] {
+  const otherById = new Map(other.map((node) => [node.message.id, node]));
+  const merged = tree.map((node) => otherById.get(node.message.id) ?? node);
+  const ids = new Set(tree.map((node) => node.message.id));
+  return [...merged, ...other.filter((node) => !ids.has(node.message.id))];
+}
+
+/**
+ * Sibling ids of every message on a branch (including the message itself),
+ * in creation order.
+ */
+export function getBranchSiblings(
+  tree: ChatMessageNode[],
+  branch: UIMessage[]
+): Map<string, string[]> {
+  const childrenByParent = new Map<string | null, string[]>();
+  for (const node of tree) {
+    const children = childrenByParent.get(node.parentId);
+    if (children) children.push(node.message.id);
+    else childrenByParent.set(node.parentId, [node.message.id]);
+  }
+
+  const siblings = new Map<string, string[]>();
+  branch.forEach((message, position) => {
+    const parentId = position === 0 ? null : branch[position - 1].id;
+    siblings.set(message.id, childrenByParent.get(parentId) ?? [message.id]);
+  });
+  return siblings;
+}
+
+/**
+ * The branch that goes through a message: its ancestors, the message, and
+ * below it the most recently created reply at each step.
+ *
+ * @returns The branch, or an empty array if the message isn't in the tree
+ */
+export function getBranchThrough(tree: ChatMessageNode[], messageId: string): UIMessage[] {
+  const byId = new Map(tree.map((node) => [node.message.id, node]));
+  const latestChild = new Map<string | null, ChatMessageNode>();
+  for (const node of tree) {
+    latestChild.set(node.parentId, node);
+  }
+
+  const target = byId.get(messageId);
+  if (!target) return [];
+
+  const branch: UIMessage[] = [];
+  const seen = new Set<string>();
+  for (let node: ChatMessageNode | undefined = target; node; ) {
+    // Guards against a corrupt tree with a parent cycle
+    if (seen.has(node.message.id)) break;
+    seen.add(node.message.id);
+    branch.unshift(node.message);
+    node = node.parentId === null ? undefined : byId.get(node.parentId);
+  }
+  for (let child = latestChild.get(messageId); child; child = latestChild.get(child.message.id)) {
+    if (seen.has(child.message.id)) break;
+    seen.add(child.message.id);
+    branch.push(child.message);
+  }
+  return branch;
+}
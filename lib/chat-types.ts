@@ -5,12 +5,53 @@ export interface ChatConversation {
   title: string;
   /** Whether the user has manually renamed this conversation (prevents AI title updates) */
   userRenamed?: boolean;
+  /** The branch being viewed, first message to last (what's shown and sent to the model) */
   messages: UIMessage[];
+  /** Every message on every branch (see lib/chat-tree.ts) */
+  tree: ChatMessageNode[];
+  /** Set if this conversation was forked from another one */
+  forkedFrom?: ChatForkOrigin;
+  /** The model chosen for this conversation (agents/model-registry.ts id) */
+  modelId?: string;
   createdAt: number;
   updatedAt: number;
 }
 
+/** Where a forked conversation came from */
+export interface ChatForkOrigin {
+  /** The conversation it was forked from (may since have been deleted) */
+  conversationId: string;
+  /** The last message copied from it */
+  messageId: string;
+  /** Its title at the time of the fork */
+  title: string;
+}
+
+/** A message in a conversation's message tree */
+export interface ChatMessageNode {
+  message: UIMessage;
+  /** The message this one follows (null for a first message) */
+  parentId: string | null;
+}
+
 export interface ChatHistoryState {
   conversations: ChatConversation[];
   activeConversationId: string | null;
 }
+
+/** A conversation without its messages - what the sidebar lists */
+export interface ChatSummary {
+  id: string;
+  title: string;
+  userRenamed?: boolean;
+  forkedFrom?: ChatForkOrigin;
+  modelId?: string;
+  messageCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ChatSummaryState {
+  conversations: ChatSummary[];
+  activeConversationId: string | null;
+}
@@ -0,0 +1,151 @@
+import type { UIMessage } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// The agent's requests go to /api/context-saver, which doesn't exist here
+vi.mock("@/lib/context-saver-runner", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/context-saver-runner")>()),
+  runContextSaver: vi.fn(),
+}));
+
+import { setStorageBackend } from "@/lib/storage/adapter";
+import { createMemoryBackend } from "@/lib/storage/memory-adapter";
+import {
+  claimQueuedSave,
+  getQueuedSave,
+  putQueuedSave,
+  requeueStaleSaves,
+  type QueuedSave,
+} from "@/lib/storage/context-saver-queue";
+import { runContextSaver } from "@/lib/context-saver-runner";
+import {
+  CLAIM_STALE_MS,
+  MAX_SAVE_ATTEMPTS,
+  enqueueContextSave,
+  startContextSaverQueue,
+  waitForContextSave,
+} from "./context-saver-queue";
+
+const runMock = vi.mocked(runContextSaver);
+
+function queuedSave(id: string): QueuedSave {
+  return {
+    id,
+    information: "Prefers TypeScript",
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: 0,
+    steps: [],
+    createdAt: 1000,
+    updatedAt: 1000,
+  };
+}
+
+const stepMessage: UIMessage = {
+  id: "msg-1",
+  role: "assistant",
+  parts: [{ type: "text", text: "Appended to /preferences/languages.md" }],
+};
+
+describe("context saver queue", () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend());
+    runMock.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("lets only one tab claim a task", async () => {
+    await putQueuedSave(queuedSave("save-1"));
+
+    const first = await claimQueuedSave("save-1", "tab-a");
+    const second = await claimQueuedSave("save-1", "tab-b");
+
+    expect(first?.claimedBy).toBe("tab-a");
+    expect(first?.attempts).toBe(1);
+    expect(second).toBeNull();
+  });
+
+  it("requeues only claims whose heartbeat is stale", async () => {
+    await putQueuedSave(queuedSave("live"));
+    await putQueuedSave(queuedSave("abandoned"));
+    await claimQueuedSave("live", "tab-a");
+    const abandoned = (await claimQueuedSave("abandoned", "tab-b"))!;
+    await putQueuedSave({ ...abandoned, heartbeatAt: Date.now() - CLAIM_STALE_MS - 1 });
+
+    const requeued = await requeueStaleSaves(Date.now() - CLAIM_STALE_MS);
+
+    expect(requeued.map((save) => save.id)).toEqual(["abandoned"]);
+    expect((await getQueuedSave("live"))?.status).toBe("running");
+    expect(await getQueuedSave("abandoned")).toMatchObject({ status: "queued", claimedBy: undefined });
+  });
+
+  it("leaves tasks another tab is running alone", async () => {
+    await putQueuedSave(queuedSave("other-tab"));
+    await claimQueuedSave("other-tab", "tab-other");
+
+    await startContextSaverQueue();
+
+    expect(runMock).not.toHaveBeenCalled();
+    expect((await getQueuedSave("other-tab"))?.claimedBy).toBe("tab-other");
+  });
+
+  it("resumes a retried task after its last finished step", async () => {
+    runMock
+      .mockImplementationOnce(async (_request, callbacks) => {
+        // The first step's writes are made, then the next request fails
+        await callbacks?.onStep?.(stepMessage);
+        throw Object.assign(new Error("HTTP 503: Service Unavailable"), { status: 503, retryAfterMs: 1 });
+      })
+      .mockImplementationOnce(async () => ({ message: stepMessage, savedPath: "/preferences/languages.md" }));
+
+    const { id } = await enqueueContextSave({ information: "Prefers TypeScript" });
+    const finished = await waitForContextSave(id);
+
+    expect(runMock).toHaveBeenCalledTimes(2);
+    expect(runMock.mock.calls[0][0].message).toBeUndefined();
+    expect(runMock.mock.calls[1][0].message).toEqual(stepMessage);
+    expect(finished).toMatchObject({
+      status: "complete",
+      attempts: 2,
+      savedPath: "/preferences/languages.md",
+      message: undefined,
+    });
+  });
+
+  it("doesn't retry a request the server refused", async () => {
+    runMock.mockRejectedValue(Object.assign(new Error("HTTP 400: Bad Request"), { status: 400 }));
+
+    const { id } = await enqueueContextSave({ information: "Prefers TypeScript" });
+    const finished = await waitForContextSave(id);
+
+    expect(runMock).toHaveBeenCalledTimes(1);
+    expect(finished).toMatchObject({ status: "error", attempts: 1, lastError: "HTTP 400: Bad Request" });
+  });
+
+  it("gives up after the last attempt", async () => {
+    runMock.mockRejectedValue(Object.assign(new Error("HTTP 429: Too Many Requests"), { status: 429, retryAfterMs: 1 }));
+
+    const { id } = await enqueueContextSave({ information: "Prefers TypeScript" });
+    const finished = await waitForContextSave(id);
+
+    expect(runMock).toHaveBeenCalledTimes(MAX_SAVE_ATTEMPTS);
+    expect(finished).toMatchObject({ status: "error", attempts: MAX_SAVE_ATTEMPTS });
+  });
+
+  it("picks up a task whose tab was closed mid-run, from its last step", async () => {
+    runMock.mockResolvedValue({ message: stepMessage, savedPath: "/preferences/languages.md" });
+    await putQueuedSave({
+      ...queuedSave("orphaned"),
+      status: "running",
+      attempts: 1,
+      claimedBy: "tab-closed",
+      heartbeatAt: Date.now() - CLAIM_STALE_MS - 1,
+      message: stepMessage,
+    });
+
+    await startContextSaverQueue();
+    const finished = await waitForContextSave("orphaned");
+
+    expect(runMock.mock.calls[0][0].message).toEqual(stepMessage);
+    expect(finished).toMatchObject({ status: "complete", attempts: 2 });
+  });
+});
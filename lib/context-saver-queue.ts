@@ -0,0 +1,522 @@
+/**
+ * Context Saver Queue
+ *
+ * Runs background Context Saver tasks from the persistent queue
+ * (lib/storage/context-saver-queue.ts): at most CONTEXT_SAVER_CONCURRENCY at
+ * once, retrying rate limits, server errors and network failures with
+ * exponential backoff. A retry resumes after the last step that finished,
+ * so writes the agent already made aren't made twice.
+ *
+ * The queue is shared by all tabs: each tab claims the tasks it runs and
+ * renews its claims with a heartbeat. Tasks of a tab that was closed or
+ * reloaded mid-run are queued again once their heartbeat is stale.
+ *
+ * Progress of running tasks (streamed text, steps, writes waiting for
+ * review) is kept in memory and delivered to subscribers; only the outcome
+ * is stored.
+ *
+ * Browser-only (uses the IndexedDB knowledge base).
+ */
+
+import * as kb from "@/knowledge";
+import { loadAppSettings } from "@/lib/app-settings";
+import type { LocalEndpointRequest } from "@/lib/api-keys";
+import {
+  runContextSaver,
+  executeContextSaverTool,
+  previewContextSaverChange,
+  isRetryableSaveError,
+  type ContextSaverHttpError,
+} from "@/lib/context-saver-runner";
+import {
+  getContextSaverSteps,
+  getContextSaverText,
+  type ApprovalRequest,
+  type ApprovalResponse,
+  type ContextSaverStep,
+  type PendingChange,
+} from "@/lib/context-saver-stream";
+import {
+  putQueuedSave,
+  getQueuedSave,
+  getQueuedSaves,
+  deleteQueuedSave,
+  pruneQueuedSaves,
+  claimQueuedSave,
+  renewQueuedSaveClaims,
+  checkpointQueuedSave,
+  releaseQueuedSave,
+  requeueStaleSaves,
+  type QueuedSave,
+} from "@/lib/storage/context-saver-queue";
+import { getTabId, onRemoteChange } from "@/lib/storage/sync";
+
+/** Tasks running at the same time */
+export const CONTEXT_SAVER_CONCURRENCY = 3;
+
+/** Runs per task before a retryable failure is final */
+export const MAX_SAVE_ATTEMPTS = 5;
+
+/** Finished tasks kept as history */
+export const MAX_SAVE_HISTORY = 200;
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60_000;
+
+/** How often a tab renews the claims on the tasks it runs */
+const CLAIM_HEARTBEAT_MS = 30_000;
+/**
+ * A claim not renewed for this long belongs to a closed tab. Generous,
+ * because browsers slow down timers in background tabs to once a minute.
+ */
+export const CLAIM_STALE_MS = 3 * 60_000;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * In-memory progress of a running task.
+ */
+export interface LiveContextSave {
+  streamedText: string;
+  steps: ContextSaverStep[];
+  /** Writes waiting for review (review mode only) */
+  pendingChanges: PendingChange[];
+}
+
+export type ContextSaverQueueEvent =
+  | { type: "update"; save: QueuedSave; live?: LiveContextSave }
+  | { type: "remove"; id: string };
+
+export interface ContextSaverQueueOptions {
+  /** BYOK: the user's Anthropic key, read when a task starts */
+  getAnthropicApiKey?: () => string | undefined;
+  /** The local endpoint while the local model is selected, read when a task starts */
+  getLocalEndpoint?: () => LocalEndpointRequest | undefined;
+  /** Called after a task created files or folders at the top level */
+  onFoldersChange?: () => void;
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let options: ContextSaverQueueOptions = {};
+const running = new Map<string, LiveContextSave>();
+const reviews = new Map<string, (decision: { approved: boolean; content?: string }) => void>();
+const listeners = new Set<(event: ContextSaverQueueEvent) => void>();
+
+let pump: Promise<void> = Promise.resolve();
+let timer: ReturnType<typeof setTimeout> | null = null;
+let heartbeat: ReturnType<typeof setInterval> | null = null;
+let listeningToTabs = false;
+
+function emit(event: ContextSaverQueueEvent): void {
+  for (const listener of listeners) listener(event);
+}
+
+function isFinished(save: QueuedSave): boolean {
+  return save.status === "complete" || save.status === "error";
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Set the API key source and folder-change callback (the chat does this).
+ */
+export function configureContextSaverQueue(queueOptions: ContextSaverQueueOptions): void {
+  options = queueOptions;
+}
+
+/**
+ * Subscribe to task changes. Updates for running tasks carry their live progress.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToContextSaverQueue(
+  listener: (event: ContextSaverQueueEvent) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Live progress of a task, if it's running in this tab.
+ */
+export function getLiveContextSave(id: string): LiveContextSave | undefined {
+  return running.get(id);
+}
+
+/**
+ * Start running queued tasks. Safe to call more than once.
+ */
+export function startContextSaverQueue(): Promise<void> {
+  if (!listeningToTabs) {
+    listeningToTabs = true;
+    onRemoteChange("context-saves", () => {
+      reloadFromOtherTabs().catch((error) =>
+        console.error("[Context Saver Queue] Failed to reload tasks:", error)
+      );
+    });
+  }
+  return schedule();
+}
+
+/**
+ * Add a task to the queue and start it when a slot is free.
+ */
+export async function enqueueContextSave(task: {
+  id?: string;
+  information: string;
+  context?: string;
+  conversationId?: string | null;
+}): Promise<QueuedSave> {
+  const now = Date.now();
+  const save: QueuedSave = {
+    id: task.id ?? `ctx-${now}-${Math.random().toString(36).slice(2, 9)}`,
+    information: task.information,
+    context: task.context,
+    conversationId: task.conversationId,
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: now,
+    steps: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putQueuedSave(save);
+  emit({ type: "update", save });
+  startContextSaverQueue();
+  return save;
+}
+
+/**
+ * Queue a failed task again with a fresh set of attempts.
+ *
+ * @throws Error if the task doesn't exist or hasn't failed
+ */
+export async function retryContextSave(id: string): Promise<QueuedSave> {
+  const save = await getQueuedSave(id);
+  if (!save) {
+    throw new Error(`Context save not found: ${id}`);
+  }
+  if (save.status !== "error") {
+    throw new Error(`Only failed saves can be retried: ${id}`);
+  }
+  const now = Date.now();
+  const queued: QueuedSave = {
+    ...save,
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: now,
+    completedAt: undefined,
+    updatedAt: now,
+  };
+  await putQueuedSave(queued);
+  emit({ type: "update", save: queued });
+  startContextSaverQueue();
+  return queued;
+}
+
+/**
+ * Remove a task - cancels it if it's still waiting.
+ *
+ * @throws Error if the task is running (in this tab or another)
+ */
+export async function removeContextSave(id: string): Promise<void> {
+  if (running.has(id) || !(await deleteQueuedSave(id))) {
+    throw new Error(`Can't remove a running save: ${id}`);
+  }
+  emit({ type: "remove", id });
+}
+
+/**
+ * Remove all finished tasks from the history.
+ */
+export async function clearFinishedContextSaves(): Promise<void> {
+  for (const id of await pruneQueuedSaves(0)) {
+    emit({ type: "remove", id });
+  }
+}
+
+/**
+ * Wait until a task completes or fails for good.
+ *
+ * @returns The finished task, or undefined if it was removed
+ */
+export function waitForContextSave(id: string): Promise<QueuedSave | undefined> {
+  return new Promise((resolve) => {
+    const finish = (save: QueuedSave | undefined) => {
+      unsubscribe();
+      resolve(save);
+    };
+    const unsubscribe = subscribeToContextSaverQueue((event) => {
+      if (event.type === "remove" && event.id === id) finish(undefined);
+      if (event.type === "update" && event.save.id === id && isFinished(event.save)) finish(event.save);
+    });
+    getQueuedSave(id).then((save) => {
+      if (!save || isFinished(save)) finish(save);
+    });
+  });
+}
+
+/**
+ * Deliver the user's decision on a write waiting for review.
+ * `content` is set when the user edited the proposed file content.
+ *
+ * @returns false if no running task is waiting on this approval
+ */
+export function resolveContextSaverReview(
+  approvalId: string,
+  approved: boolean,
+  content?: string
+): boolean {
+  const resolve = reviews.get(approvalId);
+  if (!resolve) return false;
+  reviews.delete(approvalId);
+  resolve({ approved, content });
+  return true;
+}
+
+// =============================================================================
+// SCHEDULING
+// =============================================================================
+
+/**
+ * Exponential backoff with jitter, or the server's Retry-After if it sent one.
+ */
+function getRetryDelay(attempts: number, retryAfterMs?: number): number {
+  if (retryAfterMs) return retryAfterMs;
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Another tab changed the queue: pass its tasks on to subscribers (e.g. a
+ * task enqueued here that the other tab finished) and claim new ones.
+ */
+async function reloadFromOtherTabs(): Promise<void> {
+  for (const save of await getQueuedSaves()) {
+    if (!running.has(save.id)) emit({ type: "update", save });
+  }
+  schedule();
+}
+
+function schedule(): Promise<void> {
+  pump = pump
+    .then(fillSlots)
+    .catch((error) => console.error("[Context Saver Queue] Scheduling failed:", error));
+  return pump;
+}
+
+/**
+ * Requeue tasks of closed tabs, claim due tasks (oldest first) until the
+ * slots are full, and wake up again when the next backed-off task is due
+ * or another tab's claim would go stale.
+ */
+async function fillSlots(): Promise<void> {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  for (const save of await requeueStaleSaves(Date.now() - CLAIM_STALE_MS)) {
+    emit({ type: "update", save });
+  }
+
+  const now = Date.now();
+  const saves = (await getQueuedSaves()).filter((save) => !running.has(save.id)).reverse();
+
+  let wakeAt = Infinity;
+  for (const save of saves) {
+    if (save.status === "running") {
+      wakeAt = Math.min(wakeAt, (save.heartbeatAt ?? save.updatedAt) + CLAIM_STALE_MS);
+    } else if (save.status !== "queued") {
+      continue;
+    } else if (save.nextAttemptAt > now) {
+      wakeAt = Math.min(wakeAt, save.nextAttemptAt);
+    } else if (running.size < CONTEXT_SAVER_CONCURRENCY) {
+      // Another tab may have claimed it since it was read
+      const claimed = await claimQueuedSave(save.id, getTabId());
+      if (claimed) runSave(claimed);
+    }
+  }
+
+  if (wakeAt !== Infinity) {
+    timer = setTimeout(schedule, Math.max(wakeAt - Date.now(), 0));
+  }
+}
+
+/**
+ * Renew this tab's claims while it runs tasks.
+ */
+function updateHeartbeat(): void {
+  if (running.size > 0 && !heartbeat) {
+    heartbeat = setInterval(() => {
+      renewQueuedSaveClaims([...running.keys()], getTabId()).catch((error) =>
+        console.error("[Context Saver Queue] Failed to renew claims:", error)
+      );
+    }, CLAIM_HEARTBEAT_MS);
+  } else if (running.size === 0 && heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+}
+
+// =============================================================================
+// RUNNING
+// =============================================================================
+
+/**
+ * Run a task this tab claimed (see claimQueuedSave) and store the outcome.
+ */
+async function runSave(claimed: QueuedSave): Promise<void> {
+  let live: LiveContextSave = { streamedText: "", steps: [], pendingChanges: [] };
+  running.set(claimed.id, live);
+  updateHeartbeat();
+
+  let save = claimed;
+  const setLive = (update: Partial<LiveContextSave>) => {
+    live = { ...live, ...update };
+    running.set(save.id, live);
+    emit({ type: "update", save, live });
+  };
+
+  try {
+    emit({ type: "update", save, live });
+
+    const { reviewContextSaves: review, approvalPolicies } = loadAppSettings();
+    try {
+      const { message, savedPath } = await runContextSaver(
+        {
+          taskId: save.id,
+          information: save.information,
+          context: save.context,
+          rootFolders: await kb.getRootFolders(),
+          review,
+          approvalPolicies,
+          anthropicApiKey: options.getAnthropicApiKey?.(),
+          localEndpoint: options.getLocalEndpoint?.(),
+          message: save.message,
+        },
+        {
+          onUpdate: (message) =>
+            setLive({ streamedText: getContextSaverText(message), steps: getContextSaverSteps(message) }),
+          onFoldersChange: options.onFoldersChange,
+          // Also asked for calls the approval policies hold when review is off
+          reviewChange: (request) =>
+            reviewChange(request, (update) => setLive({ pendingChanges: update(live.pendingChanges) })),
+          onStep: async (message) => {
+            if (!(await checkpointQueuedSave(save.id, getTabId(), message))) {
+              // Requeued for another tab (this one stalled) or removed
+              throw new Error("This save was taken over by another tab.");
+            }
+            save = { ...save, message };
+          },
+        }
+      );
+      const now = Date.now();
+      save = {
+        ...save,
+        status: "complete",
+        savedPath,
+        steps: message ? getContextSaverSteps(message) : [],
+        message: undefined,
+        lastError: undefined,
+        updatedAt: now,
+        completedAt: now,
+      };
+    } catch (error) {
+      console.error("[Context Saver Queue] Attempt failed:", error);
+      const now = Date.now();
+      const lastError = error instanceof Error ? error.message : String(error);
+      save =
+        isRetryableSaveError(error) && save.attempts < MAX_SAVE_ATTEMPTS
+          ? {
+              ...save,
+              status: "queued",
+              lastError,
+              nextAttemptAt:
+                now + getRetryDelay(save.attempts, (error as Partial<ContextSaverHttpError>).retryAfterMs),
+              updatedAt: now,
+            }
+          : { ...save, status: "error", lastError, steps: live.steps, updatedAt: now, completedAt: now };
+    }
+
+    running.delete(save.id);
+    if (!(await releaseQueuedSave(save, getTabId()))) {
+      const stored = await getQueuedSave(save.id);
+      emit(stored ? { type: "update", save: stored } : { type: "remove", id: save.id });
+      return;
+    }
+    emit({ type: "update", save });
+    if (isFinished(save)) {
+      for (const id of await pruneQueuedSaves(MAX_SAVE_HISTORY)) {
+        emit({ type: "remove", id });
+      }
+    }
+  } catch (error) {
+    console.error("[Context Saver Queue] Failed to update task:", error);
+  } finally {
+    running.delete(save.id);
+    updateHeartbeat();
+    schedule();
+  }
+}
+
+/**
+ * Show a proposed write and wait for the user's decision.
+ */
+async function reviewChange(
+  request: ApprovalRequest,
+  setPendingChanges: (update: (changes: PendingChange[]) => PendingChange[]) => void
+): Promise<ApprovalResponse> {
+  let preview: { before: string | null; after: string };
+  try {
+    preview = await previewContextSaverChange(request.toolName, request.input);
+  } catch (err) {
+    // Nothing to review - the call would fail anyway
+    return { approved: false, reason: err instanceof Error ? err.message : String(err) };
+  }
+
+  const change: PendingChange = {
+    approvalId: request.approvalId,
+    toolName: request.toolName,
+    path: request.input.path as string,
+    ...preview,
+  };
+  setPendingChanges((changes) => [...changes, change]);
+  const decision = await new Promise<{ approved: boolean; content?: string }>((resolve) => {
+    reviews.set(request.approvalId, resolve);
+  });
+  setPendingChanges((changes) => changes.filter((c) => c.approvalId !== request.approvalId));
+
+  if (!decision.approved) {
+    return { approved: false, reason: "The user rejected this change." };
+  }
+  if (decision.content === undefined || decision.content === preview.after) {
+    return {
+      approved: true,
+      output: await executeContextSaverTool(request.toolName, request.input, options.onFoldersChange),
+    };
+  }
+
+  // Edited by the user: save their version of the whole file
+  const output = await executeContextSaverTool(
+    "kb_write",
+    { path: change.path, content: decision.content },
+    options.onFoldersChange
+  );
+  return {
+    approved: true,
+    output:
+      output && typeof output === "object" && "error" in output
+        ? output
+        : { success: true, note: "The user edited this change before it was saved." },
+  };
+}
@@ -0,0 +1,91 @@
+import { createUIMessageStream, createUIMessageStreamResponse, type UIMessageChunk } from "ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setStorageBackend } from "@/lib/storage/adapter";
+import { createMemoryBackend } from "@/lib/storage/memory-adapter";
+import * as kb from "@/knowledge";
+import type { ApprovalPolicies } from "@/lib/approval-policies";
+import { runContextSaver, type ContextSaverRequest } from "./context-saver-runner";
+
+/** A /api/context-saver step response made of the given chunks */
+function stepResponse(chunks: UIMessageChunk[]): Response {
+  return createUIMessageStreamResponse({
+    stream: createUIMessageStream({
+      execute: ({ writer }) => {
+        writer.write({ type: "start-step" });
+        for (const chunk of chunks) writer.write(chunk);
+        writer.write({ type: "finish-step" });
+      },
+    }),
+  });
+}
+
+const writeStep = stepResponse([
+  {
+    type: "tool-input-available",
+    toolCallId: "call-1",
+    toolName: "kb_write",
+    input: { path: "/preferences/languages.md", content: "Prefers TypeScript" },
+  },
+]);
+
+const confirmStep = stepResponse([
+  { type: "text-start", id: "text-1" },
+  { type: "text-delta", id: "text-1", delta: "Done." },
+  { type: "text-end", id: "text-1" },
+]);
+
+const policies: ApprovalPolicies = { kb_write: { mode: "always" } };
+
+const request: ContextSaverRequest = {
+  taskId: "save-1",
+  information: "Prefers TypeScript",
+  rootFolders: [],
+  approvalPolicies: policies,
+};
+
+describe("runContextSaver approval policies", () => {
+  const responses: Response[] = [];
+
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend());
+    responses.splice(0, responses.length, writeStep.clone(), confirmStep.clone());
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url === "/api/context-saver" ? responses.shift()! : new Response(null, { status: 404 })
+      )
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("holds a write the policies cover until the user approves it", async () => {
+    const reviewChange = vi.fn(async () => {
+      await kb.writeFile("/preferences/languages.md", "Prefers TypeScript");
+      return { approved: true as const, output: { success: true } };
+    });
+
+    const { savedPath } = await runContextSaver(request, { reviewChange });
+
+    expect(reviewChange).toHaveBeenCalledWith(expect.objectContaining({ toolName: "kb_write" }));
+    expect(savedPath).toBe("/preferences/languages.md");
+  });
+
+  it("doesn't write a held call the user rejects", async () => {
+    const reviewChange = vi.fn(async () => ({ approved: false as const, reason: "The user rejected this change." }));
+
+    const { message } = await runContextSaver(request, { reviewChange });
+
+    await expect(kb.readFile("/preferences/languages.md")).rejects.toThrow();
+    expect(JSON.stringify(message)).toContain("The user rejected this change.");
+  });
+
+  it("refuses a held call when there is no one to ask", async () => {
+    await runContextSaver(request);
+
+    await expect(kb.readFile("/preferences/languages.md")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Context Saver Runner
+ *
+ * Runs one Context Saver task end to end against /api/context-saver: posts
+ * a step, executes the step's kb_* calls in the browser knowledge base, and
+ * repeats until the agent stops calling tools (see context-saver-stream.ts
+ * for the message plumbing).
+ *
+ * Used by the chat (save_to_context) and the memory inbox. Callers get
+ * progress through callbacks and own all UI state.
+ *
+ * The user's tool approval policies (lib/approval-policies.ts) apply here
+ * too: a call they hold goes to reviewChange like a review-mode write, and
+ * is refused when there is no one to ask.
+ */
+
+import type { UIMessage } from "ai";
+import * as kb from "@/knowledge";
+import { isServerKnowledgeTool } from "@/lib/knowledge-mode";
+import type { LocalEndpointRequest } from "@/lib/api-keys";
+import { isApprovalRequired, countContentLines, type ApprovalPolicies } from "@/lib/approval-policies";
+import {
+  readContextSaverResponse,
+  getPendingToolCalls,
+  getApprovalRequests,
+  addToolOutputs,
+  addApprovalResponse,
+  getContextSaverSteps,
+  type ApprovalRequest,
+  type ApprovalResponse,
+  type PendingToolCall,
+} from "./context-saver-stream";
+
+export interface ContextSaverRequest {
+  taskId: string;
+  information: string;
+  context?: string;
+  rootFolders: string[];
+  /** BYOK: the user's Anthropic key, if they have one */
+  anthropicApiKey?: string;
+  /** Run the agent on the local endpoint instead of Anthropic */
+  localEndpoint?: LocalEndpointRequest;
+  /** Ask the route to hold writes for review (see reviewChange) */
+  review?: boolean;
+  /** The user's tool approval policies (Settings) */
+  approvalPolicies?: ApprovalPolicies;
+  /** Resume from a message saved by onStep, instead of starting over */
+  message?: UIMessage;
+}
+
+export interface ContextSaverCallbacks {
+  /** Called as the assistant message streams in and after tool outputs are added */
+  onUpdate?: (message: UIMessage) => void;
+  /** Called after a tool created files or folders at the top level */
+  onFoldersChange?: () => void;
+  /**
+   * Decide on a proposed write (review mode, or a call the approval policies
+   * hold). Review-mode writes are accepted when omitted; policy-held calls
+   * are refused.
+   */
+  reviewChange?: (request: ApprovalRequest) => Promise<ApprovalResponse>;
+  /**
+   * Called after a step's tool calls ran, with the message to post for the
+   * next step - pass it back as `request.message` to resume from there.
+   */
+  onStep?: (message: UIMessage) => Promise<void>;
+}
+
+export interface ContextSaverResult {
+  /** The agent's assistant message across all steps */
+  message?: UIMessage;
+  /** Last file the agent wrote to */
+  savedPath?: string;
+}
+
+/**
+ * Error for a failed /api/context-saver request. `status` and `retryAfterMs`
+ * let the queue (lib/context-saver-queue.ts) decide whether and when to retry.
+ */
+export interface ContextSaverHttpError extends Error {
+  status: number;
+  /** From the Retry-After header, if the server sent one */
+  retryAfterMs?: number;
+}
+
+function createHttpError(response: Response): ContextSaverHttpError {
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  return Object.assign(new Error(`HTTP ${response.status}: ${response.statusText}`), {
+    status: response.status,
+    retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+  });
+}
+
+/**
+ * Whether a runContextSaver failure is worth retrying: rate limits, server
+ * errors and network failures (fetch rejects with a TypeError).
+ */
+export function isRetryableSaveError(error: unknown): boolean {
+  if (error instanceof TypeError) return true;
+  const status = (error as Partial<ContextSaverHttpError> | null)?.status;
+  return typeof status === "number" && (status === 429 || status >= 500);
+}
+
+/** Tools that change a file - the ones review mode holds back */
+const WRITE_TOOLS = ["kb_write", "kb_append", "kb_edit"];
+
+/**
+ * Run a client-side kb_* call for the saver. Errors are returned as
+ * `{ error }` so they go back to the model instead of ending the task.
+ */
+export async function executeContextSaverTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  onFoldersChange?: () => void
+): Promise<unknown> {
+  try {
+    switch (toolName) {
+      case "kb_list":
+        return { contents: await kb.listFolder(args.path as string) };
+      case "kb_read":
+        return { content: await kb.readFile(args.path as string) };
+      case "kb_search": {
+        const results = await kb.hybridSearch(args.query as string, {
+          topK: Math.min((args.topK as number) || 5, 25),
+        });
+        return {
+          results: results.map((r) => ({
+            filePath: r.filePath,
+            headingPath: r.headingPath,
+            score: r.score,
+            chunkText: r.chunkText,
+          })),
+        };
+      }
+      case "kb_write":
+        await kb.writeFile(args.path as string, args.content as string);
+        onFoldersChange?.();
+        return { success: true };
+      case "kb_append":
+        await kb.appendFile(args.path as string, args.content as string);
+        return { success: true };
+      case "kb_edit": {
+        const result = await kb.editFile(
+          args.path as string,
+          kb.toFileEdit(args as Parameters<typeof kb.toFileEdit>[0])
+        );
+        return { success: true, replacements: result.replacements, diff: result.diff };
+      }
+      case "kb_mkdir":
+        await kb.mkdir(args.path as string);
+        onFoldersChange?.();
+        return { success: true };
+      default:
+        return { error: `Unknown tool: ${toolName}` };
+    }
+  } catch (err) {
+    console.error(`[Context Saver] Tool ${toolName} failed:`, err);
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * File content before and after a proposed kb_write/kb_append/kb_edit,
+ * for the review diff (a new folder shows as an empty file).
+ *
+ * @throws Error if the change can't be applied (e.g. kb_edit doesn't match)
+ */
+export async function previewContextSaverChange(
+  toolName: string,
+  args: Record<string, unknown>
+): Promise<{ before: string | null; after: string }> {
+  const path = args.path as string;
+  if (toolName === "kb_mkdir") {
+    return { before: null, after: "" };
+  }
+  if (toolName === "kb_edit") {
+    const before = await kb.readFile(path);
+    const edit = kb.toFileEdit(args as Parameters<typeof kb.toFileEdit>[0]);
+    return { before, after: kb.applyEdit(before, edit, path).content };
+  }
+  const before = await kb.readFile(path).catch(() => null);
+  const content = args.content as string;
+  return { before, after: toolName === "kb_append" ? kb.appendContent(before ?? "", content) : content };
+}
+
+/**
+ * Line count of a knowledge base file, or null if there is none
+ * (for the "overwrite" approval mode).
+ */
+async function countFileLines(path: string): Promise<number | null> {
+  try {
+    return countContentLines(await kb.readFile(path));
+  } catch {
+    return null; // No file to overwrite
+  }
+}
+
+/**
+ * Run a client-side call the approval policies hold, once the user
+ * approved it.
+ */
+async function runHeldToolCall(
+  call: PendingToolCall,
+  reviewChange: ContextSaverCallbacks["reviewChange"]
+): Promise<unknown> {
+  if (!reviewChange) {
+    return { error: `${call.toolName} needs the user's approval (Settings → Tool Approvals).` };
+  }
+  const response = await reviewChange({ ...call, approvalId: `policy-${call.toolCallId}` });
+  return response.approved ? response.output : { error: response.reason };
+}
+
+/**
+ * Run a Context Saver task to completion.
+ *
+ * @throws ContextSaverHttpError when the route fails; tool failures go back to the model instead
+ */
+export async function runContextSaver(
+  request: ContextSaverRequest,
+  callbacks: ContextSaverCallbacks = {}
+): Promise<ContextSaverResult> {
+  const { onUpdate = () => {}, onFoldersChange, reviewChange, onStep } = callbacks;
+
+  // The assistant message grows by one step per request; the route
+  // stops offering tools when the step budget is used up
+  let message = request.message;
+  if (message) onUpdate(message);
+  while (true) {
+    const response = await fetch("/api/context-saver", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        information: request.information,
+        context: request.context,
+        rootFolders: request.rootFolders,
+        taskId: request.taskId,
+        messages: message ? [message] : undefined,
+        review: request.review,
+        approvalPolicies: request.approvalPolicies,
+        anthropicApiKey: request.anthropicApiKey,
+        localEndpoint: request.localEndpoint,
+      }),
+    });
+
+    if (!response.ok) {
+      throw createHttpError(response);
+    }
+
+    message = await readContextSaverResponse(response, message, onUpdate);
+    if (!message) break;
+
+    // Server knowledge mode executes tools in the route, so nothing is pending
+    const pending = getPendingToolCalls(message).filter(
+      (call) => !isServerKnowledgeTool(call.toolName)
+    );
+    const approvals = getApprovalRequests(message);
+    if (pending.length === 0 && approvals.length === 0) break;
+
+    const outputs = new Map<string, unknown>();
+    for (const call of pending) {
+      const held = await isApprovalRequired(request.approvalPolicies, call.toolName, call.input, countFileLines);
+      outputs.set(
+        call.toolCallId,
+        held
+          ? await runHeldToolCall(call, reviewChange)
+          : await executeContextSaverTool(call.toolName, call.input, onFoldersChange)
+      );
+    }
+    message = addToolOutputs(message, outputs);
+    onUpdate(message);
+
+    // Review mode: one change at a time, so each diff is against the
+    // file as the previous decision left it
+    for (const approval of approvals) {
+      const response: ApprovalResponse = reviewChange
+        ? await reviewChange(approval)
+        : {
+            approved: true,
+            output: await executeContextSaverTool(approval.toolName, approval.input, onFoldersChange),
+          };
+      message = addApprovalResponse(message, approval.approvalId, response);
+      onUpdate(message);
+    }
+    await onStep?.(message);
+  }
+
+  // The last file written is what the card links to
+  const savedPath = message
+    ? getContextSaverSteps(message)
+        .filter((step) => WRITE_TOOLS.includes(step.toolName) && step.status === "complete")
+        .pop()?.target
+    : undefined;
+
+  return { message, savedPath };
+}
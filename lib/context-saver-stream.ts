@@ -0,0 +1,222 @@
+/**
+ * Context Saver Stream
+ *
+ * Client side of the multi-step Context Saver loop (see
+ * app/api/context-saver/route.ts). Each request to the route runs one step;
+ * these helpers read the streamed step into a single assistant UIMessage,
+ * find the tool calls the client still has to execute, and write their
+ * outputs back into the message before it is posted for the next step.
+ *
+ * Keeping one UIMessage across requests (like useChat does) means the route
+ * can rebuild the full conversation with convertToModelMessages.
+ *
+ * In review mode the write tools come back as approval requests instead;
+ * the user's decision is written into the same message with
+ * addApprovalResponse.
+ */
+
+import {
+  parseJsonEventStream,
+  readUIMessageStream,
+  uiMessageChunkSchema,
+  isToolUIPart,
+  getToolName,
+  type UIMessage,
+  type UIMessageChunk,
+} from "ai";
+
+/**
+ * One tool call made by the Context Saver, for display.
+ */
+export interface ContextSaverStep {
+  toolCallId: string;
+  toolName: string;
+  /** Main argument: file/folder path or search query */
+  target: string;
+  status: "running" | "complete" | "error";
+  error?: string;
+}
+
+/**
+ * A write proposed by the agent and held until the user reviews it.
+ */
+export interface PendingChange {
+  approvalId: string;
+  toolName: string;
+  path: string;
+  /** Current file content (null if the file doesn't exist yet) */
+  before: string | null;
+  /** Content the file will have if the change is accepted */
+  after: string;
+}
+
+/**
+ * A tool call waiting for the client to execute it.
+ */
+export interface PendingToolCall {
+  toolCallId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * A tool call waiting for the user to approve it (review mode).
+ */
+export interface ApprovalRequest extends PendingToolCall {
+  approvalId: string;
+}
+
+/**
+ * The user's answer to an approval request.
+ * Approved calls carry the output of running the tool.
+ */
+export type ApprovalResponse =
+  | { approved: true; output: unknown }
+  | { approved: false; reason: string };
+
+/**
+ * Read one step's response stream into the assistant message.
+ *
+ * @param response - Response from /api/context-saver
+ * @param message - Assistant message from previous steps (undefined on the first step)
+ * @param onUpdate - Called with the message as each chunk arrives
+ * @returns The assistant message including this step
+ */
+export async function readContextSaverResponse(
+  response: Response,
+  message: UIMessage | undefined,
+  onUpdate: (message: UIMessage) => void
+): Promise<UIMessage | undefined> {
+  if (!response.body) {
+    throw new Error("No response body");
+  }
+
+  const chunks = parseJsonEventStream({
+    stream: response.body,
+    schema: uiMessageChunkSchema,
+  }).pipeThrough(
+    new TransformStream<{ success: boolean; value?: UIMessageChunk; error?: unknown }, UIMessageChunk>({
+      transform(result, controller) {
+        if (!result.success) throw result.error;
+        controller.enqueue(result.value as UIMessageChunk);
+      },
+    })
+  );
+
+  let latest = message;
+  for await (const next of readUIMessageStream({ message, stream: chunks, terminateOnError: true })) {
+    latest = next;
+    onUpdate(next);
+  }
+  return latest;
+}
+
+/**
+ * Tool calls in the message that have no output yet.
+ * Server-executed tools already carry their output and are skipped.
+ */
+export function getPendingToolCalls(message: UIMessage): PendingToolCall[] {
+  return message.parts.filter(isToolUIPart).flatMap((part) =>
+    part.state === "input-available"
+      ? [{
+          toolCallId: part.toolCallId,
+          toolName: getToolName(part),
+          input: (part.input ?? {}) as Record<string, unknown>,
+        }]
+      : []
+  );
+}
+
+/**
+ * Return a copy of the message with tool outputs filled in.
+ *
+ * @param outputs - Output per toolCallId
+ */
+export function addToolOutputs(message: UIMessage, outputs: Map<string, unknown>): UIMessage {
+  return {
+    ...message,
+    parts: message.parts.map((part) =>
+      isToolUIPart(part) && outputs.has(part.toolCallId)
+        ? ({ ...part, state: "output-available", output: outputs.get(part.toolCallId) } as typeof part)
+        : part
+    ),
+  };
+}
+
+/**
+ * Tool calls in the message that are waiting for approval.
+ */
+export function getApprovalRequests(message: UIMessage): ApprovalRequest[] {
+  return message.parts.filter(isToolUIPart).flatMap((part) =>
+    part.state === "approval-requested"
+      ? [{
+          approvalId: part.approval.id,
+          toolCallId: part.toolCallId,
+          toolName: getToolName(part),
+          input: (part.input ?? {}) as Record<string, unknown>,
+        }]
+      : []
+  );
+}
+
+/**
+ * Return a copy of the message with an approval request answered.
+ * Approved calls get their output; rejected ones are marked denied, which
+ * convertToModelMessages sends to the model as an error with the reason.
+ */
+export function addApprovalResponse(
+  message: UIMessage,
+  approvalId: string,
+  response: ApprovalResponse
+): UIMessage {
+  return {
+    ...message,
+    parts: message.parts.map((part) => {
+      if (!isToolUIPart(part) || part.state !== "approval-requested" || part.approval.id !== approvalId) {
+        return part;
+      }
+      return (
+        response.approved
+          ? { ...part, state: "output-available", approval: { id: approvalId, approved: true }, output: response.output }
+          : { ...part, state: "output-denied", approval: { id: approvalId, approved: false, reason: response.reason } }
+      ) as UIMessage["parts"][number];
+    }),
+  };
+}
+
+/**
+ * Tool calls in the message, in order, for ContextSaverView.
+ * Outputs of the form `{ error }` count as failed steps.
+ */
+export function getContextSaverSteps(message: UIMessage): ContextSaverStep[] {
+  return message.parts.filter(isToolUIPart).map((part) => {
+    const input = (part.input ?? {}) as Record<string, unknown>;
+    const outputError =
+      part.state === "output-available" && part.output && typeof part.output === "object"
+        ? ((part.output as { error?: unknown }).error as string | undefined)
+        : undefined;
+    const error =
+      part.state === "output-error"
+        ? part.errorText
+        : part.state === "output-denied"
+          ? part.approval.reason ?? "Rejected"
+          : outputError;
+
+    return {
+      toolCallId: part.toolCallId,
+      toolName: getToolName(part),
+      target: String(input.path ?? input.query ?? ""),
+      status: error ? "error" : part.state === "output-available" ? "complete" : "running",
+      error,
+    };
+  });
+}
+
+/**
+ * All text the model wrote across steps.
+ */
+export function getContextSaverText(message: UIMessage): string {
+  return message.parts
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("\n\n");
+}
@@ -0,0 +1,54 @@
+/**
+ * Knowledge Store Mode
+ *
+ * By default the knowledge base lives in the browser (IndexedDB) and kb_*
+ * tools are executed client-side. With NEXT_PUBLIC_KNOWLEDGE_STORE=server,
+ * the core kb_* tools run inside the agent loop against a per-user server
+ * store (knowledge/server/store.ts) instead, which enables multi-step
+ * read-then-write flows and non-browser clients.
+ *
+ * The NEXT_PUBLIC_ prefix makes the flag readable on the client too, where
+ * it stops the browser from executing those tools a second time.
+ * Safe to import anywhere.
+ */
+
+/** kb_* tools that execute on the server when server mode is on */
+export const SERVER_KNOWLEDGE_TOOLS = [
+  "kb_list",
+  "kb_read",
+  "kb_write",
+  "kb_append",
+  "kb_edit",
+  "kb_mkdir",
+  "kb_delete",
+  "kb_move",
+  "kb_copy",
+  "kb_search",
+  "kb_grep",
+  "kb_history",
+  "kb_restore",
+] as const;
+
+/**
+ * kb_* tools that aren't offered in server mode. The server store keeps no
+ * links, and running them in the browser would act on a different knowledge
+ * base than the one the model reads and writes.
+ */
+export const BROWSER_ONLY_KNOWLEDGE_TOOLS = ["kb_link", "kb_unlink", "kb_links", "kb_graph"] as const;
+
+/**
+ * Whether knowledge tools execute against the server store.
+ */
+export function isServerKnowledgeEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_KNOWLEDGE_STORE === "server";
+}
+
+/**
+ * Whether a tool call was already executed by the server.
+ */
+export function isServerKnowledgeTool(toolName: string): boolean {
+  return (
+    isServerKnowledgeEnabled() &&
+    (SERVER_KNOWLEDGE_TOOLS as readonly string[]).includes(toolName)
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Local Model Endpoint
+ *
+ * Server-side resolution of the OpenAI-compatible endpoint used by the
+ * "local" provider in agents/model-registry.ts (llama.cpp, Ollama, vLLM,
+ * LM Studio, ...). Lets ChatNoire run on air-gapped machines.
+ *
+ * Configuration comes from env:
+ *   LOCAL_LLM_BASE_URL  - e.g. http://localhost:11434/v1
+ *   LOCAL_LLM_MODEL     - e.g. llama3.1:8b
+ *   LOCAL_LLM_API_KEY   - optional, for servers started with --api-key
+ *   LOCAL_LLM_EMBEDDING_MODEL - optional, e.g. nomic-embed-text, for
+ *                         Knowledge Base embeddings
+ *
+ * or from the Settings panel, which sends a base URL and model name with
+ * each request. Because the server fetches whatever URL it is given,
+ * client-supplied base URLs are only honoured outside production or when
+ * ALLOW_CLIENT_LLM_BASE_URL=true.
+ *
+ * The env endpoint is the owner's, like the env API keys of the cloud
+ * providers: only owners (OWNER_EMAILS) fall back to it. Everyone else must
+ * send their own endpoint, and LOCAL_LLM_API_KEY is only ever sent to
+ * LOCAL_LLM_BASE_URL.
+ *
+ * While the local model is selected, the client sends its endpoint to the
+ * background routes too (titles, Context Saver, memory extraction,
+ * contradiction checks, embeddings; see resolveBackgroundLocalEndpoint), so
+ * no request goes to a cloud provider.
+ */
+
+export interface LocalEndpointConfig {
+  /** Base URL of the OpenAI-compatible API, including the /v1 suffix */
+  baseUrl: string;
+  /** Model name as the server expects it */
+  model: string;
+  /** API key, if the server requires one */
+  apiKey?: string;
+  /** Embedding model name, if the server has one */
+  embeddingModel?: string;
+}
+
+/** Placeholder key - the OpenAI provider refuses to send requests without one */
+const NO_API_KEY = "not-needed";
+
+/**
+ * Whether this deployment accepts endpoint settings from the browser.
+ */
+export function allowsClientLocalEndpoint(): boolean {
+  return (
+    process.env.NODE_ENV !== "production" ||
+    process.env.ALLOW_CLIENT_LLM_BASE_URL === "true"
+  );
+}
+
+/**
+ * Resolve the endpoint for a request, preferring Settings over env.
+ *
+ * @param requested - Base URL / model sent by the client (from Settings)
+ * @param userKey - API key sent by the client, if any
+ * @param isOwner - Whether the user may use the env endpoint and key
+ * @returns Endpoint config, or null if no base URL or model is available
+ */
+export function resolveLocalEndpoint(
+  requested: Partial<LocalEndpointConfig> | undefined,
+  userKey: string | undefined,
+  isOwner: boolean
+): LocalEndpointConfig | null {
+  const fromClient = allowsClientLocalEndpoint() ? requested : undefined;
+  const clientBaseUrl = fromClient?.baseUrl?.trim();
+
+  const baseUrl = clientBaseUrl || (isOwner ? process.env.LOCAL_LLM_BASE_URL : undefined);
+  const model = fromClient?.model?.trim() || (isOwner ? process.env.LOCAL_LLM_MODEL : undefined);
+  const embeddingModel =
+    fromClient?.embeddingModel?.trim() ||
+    (isOwner && !clientBaseUrl ? process.env.LOCAL_LLM_EMBEDDING_MODEL : undefined);
+
+  if (!baseUrl || !model) {
+    return null;
+  }
+
+  // The env key belongs to the env endpoint - never send it elsewhere
+  const envKey = clientBaseUrl ? undefined : process.env.LOCAL_LLM_API_KEY;
+
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    model,
+    apiKey: userKey || envKey || NO_API_KEY,
+    embeddingModel: embeddingModel || undefined,
+  };
+}
+
+/**
+ * Resolve the endpoint for a background route. Clients send `localEndpoint`
+ * (with its `apiKey`) only while the local model is selected; without it
+ * the route uses its cloud provider as before.
+ *
+ * @param requested - `localEndpoint` from the request body
+ * @param isOwner - Whether the user may use the env endpoint and key
+ * @returns The endpoint; null if the client asked for the local endpoint but
+ *   none is configured; undefined if it didn't ask
+ */
+export function resolveBackgroundLocalEndpoint(
+  requested: Partial<LocalEndpointConfig> | undefined,
+  isOwner: boolean
+): LocalEndpointConfig | null | undefined {
+  if (!requested) return undefined;
+  return resolveLocalEndpoint(requested, requested.apiKey, isOwner);
+}
+
+/**
+ * Create an error response for a local endpoint without an embedding model
+ */
+export function createLocalEmbeddingModelRequiredResponse(): Response {
+  return new Response(
+    JSON.stringify({
+      error:
+        "Local embedding model not configured. Enter an embedding model in settings (the server's LOCAL_LLM_EMBEDDING_MODEL is only used for owners).",
+      code: "LOCAL_EMBEDDING_MODEL_REQUIRED",
+    }),
+    {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * Create an error response for a missing local endpoint configuration
+ */
+export function createLocalEndpointRequiredResponse(): Response {
+  return new Response(
+    JSON.stringify({
+      error:
+        "Local model not configured. Enter a base URL and model name in settings (the server's LOCAL_LLM_BASE_URL and LOCAL_LLM_MODEL are only used for owners).",
+      code: "LOCAL_ENDPOINT_REQUIRED",
+    }),
+    {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
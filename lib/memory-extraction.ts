@@ -0,0 +1,177 @@
+/**
+ * Memory Extraction
+ *
+ * Client side of automatic memory: when a conversation goes idle, the new
+ * messages are sent to /api/extract-memories, each proposed fact is checked
+ * against the knowledge base with hybridSearch, and only novel facts are
+ * queued in the memory inbox (lib/storage/memory-inbox.ts). Saving a
+ * proposal from the inbox puts it in the context saver queue
+ * (lib/context-saver-queue.ts).
+ *
+ * Browser-only (uses the IndexedDB knowledge base).
+ */
+
+import type { UIMessage } from "ai";
+import * as kb from "@/knowledge";
+import type { ExtractedMemory } from "@/agents/memory-extractor-agent";
+import {
+  addMemoryProposals,
+  getMemoryProposals,
+  getOpenMemoryProposals,
+  updateMemoryProposal,
+  getExtractionCursor,
+  setExtractionCursor,
+  type MemoryProposal,
+} from "@/lib/storage/memory-inbox";
+import { enqueueContextSave, waitForContextSave } from "@/lib/context-saver-queue";
+import type { LocalEndpointRequest } from "@/lib/api-keys";
+
+/** How long a conversation must be quiet before extraction runs */
+export const MEMORY_IDLE_MS = 60_000;
+
+/** Semantic similarity at which a KB chunk counts as already stating a fact */
+export const DUPLICATE_SIMILARITY = 0.85;
+
+function normalizeFact(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/**
+ * Whether the knowledge base already states a fact: a close semantic match,
+ * or a chunk containing the fact's words verbatim.
+ */
+export async function isKnownFact(text: string): Promise<boolean> {
+  const results = await kb.hybridSearch(text, { topK: 3 });
+  const needle = normalizeFact(text);
+  return results.some(
+    (r) => r.semanticScore >= DUPLICATE_SIMILARITY || normalizeFact(r.chunkText).includes(needle)
+  );
+}
+
+/**
+ * Extract facts from the messages a conversation gained since the last
+ * extraction and queue the novel ones in the inbox.
+ *
+ * The cursor only advances on success, so a failed extraction is retried
+ * the next time the conversation goes idle.
+ *
+ * @returns Proposals added to the inbox
+ * @throws Error when the extraction request fails
+ */
+export async function extractMemories(options: {
+  conversationId: string;
+  messages: UIMessage[];
+  /** BYOK: the user's Anthropic key, if they have one */
+  anthropicApiKey?: string;
+  /** Extract on the local endpoint instead of Anthropic */
+  localEndpoint?: LocalEndpointRequest;
+}): Promise<MemoryProposal[]> {
+  const { conversationId, messages, anthropicApiKey, localEndpoint } = options;
+  if (messages.length === 0) return [];
+
+  // A missing cursor message (history was edited) means start over;
+  // facts already in the inbox are skipped below
+  const cursor = await getExtractionCursor(conversationId);
+  const newMessages = messages.slice(messages.findIndex((m) => m.id === cursor) + 1);
+  const lastMessageId = messages[messages.length - 1].id;
+
+  // Facts come from what the user says
+  if (!newMessages.some((m) => m.role === "user")) {
+    if (cursor !== lastMessageId) await setExtractionCursor(conversationId, lastMessageId);
+    return [];
+  }
+
+  const response = await fetch("/api/extract-memories", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ messages: newMessages, anthropicApiKey, localEndpoint }),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  const { facts } = (await response.json()) as { facts: ExtractedMemory[] };
+
+  // Skip facts already proposed (including dismissed ones) or already in the KB
+  const seen = new Set((await getMemoryProposals()).map((p) => normalizeFact(p.text)));
+  const novel: ExtractedMemory[] = [];
+  for (const fact of facts) {
+    const key = normalizeFact(fact.text);
+    if (!key || seen.has(key) || (await isKnownFact(fact.text))) continue;
+    seen.add(key);
+    novel.push(fact);
+  }
+
+  const added = await addMemoryProposals(novel.map((fact) => ({ ...fact, conversationId })));
+  await setExtractionCursor(conversationId, lastMessageId);
+  return added;
+}
+
+/** Proposals whose queued save is being waited on, by proposal ID */
+const trackedSaves = new Map<string, Promise<MemoryProposal>>();
+
+/**
+ * Wait for a proposal's queued save and record the outcome on the proposal.
+ */
+function trackMemorySave(proposalId: string, taskId: string): Promise<MemoryProposal> {
+  let tracking = trackedSaves.get(proposalId);
+  if (!tracking) {
+    tracking = waitForContextSave(taskId)
+      .then((save) =>
+        updateMemoryProposal(
+          proposalId,
+          !save
+            ? { status: "error", error: "The save was removed from the queue." }
+            : save.status === "complete"
+              ? { status: "saved", savedPath: save.savedPath }
+              : { status: "error", error: save.lastError }
+        )
+      )
+      .finally(() => trackedSaves.delete(proposalId));
+    trackedSaves.set(proposalId, tracking);
+  }
+  return tracking;
+}
+
+/**
+ * Save a proposal through the context saver queue, tracking progress on the
+ * proposal. Errors are recorded on the proposal (status "error") rather than thrown.
+ */
+export async function saveMemoryProposal(proposal: MemoryProposal): Promise<MemoryProposal> {
+  try {
+    const save = await enqueueContextSave({
+      information: proposal.text,
+      context: proposal.context,
+      conversationId: proposal.conversationId,
+    });
+    await updateMemoryProposal(proposal.id, { status: "saving", taskId: save.id, error: undefined });
+    return await trackMemorySave(proposal.id, save.id);
+  } catch (error) {
+    return updateMemoryProposal(proposal.id, {
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Pick up proposals that were still saving when the page was reloaded.
+ * Their tasks resume in the queue; this records the outcome when they finish.
+ */
+export async function resumeMemorySaves(): Promise<void> {
+  for (const proposal of await getOpenMemoryProposals()) {
+    if (proposal.status !== "saving") continue;
+    if (proposal.taskId) {
+      trackMemorySave(proposal.id, proposal.taskId);
+    } else {
+      // No queued task to wait for
+      await updateMemoryProposal(proposal.id, { status: "error", error: "The save was interrupted." });
+    }
+  }
+}
+
+/**
+ * Dismiss a proposal. It stays in the store so it isn't proposed again.
+ */
+export async function dismissMemoryProposal(id: string): Promise<MemoryProposal> {
+  return updateMemoryProposal(id, { status: "dismissed" });
+}
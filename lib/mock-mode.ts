@@ -0,0 +1,18 @@
+/**
+ * Mock LLM Mode
+ *
+ * When NEXT_PUBLIC_MOCK_LLM=true, every model call is answered by the
+ * scripted mock model in agents/mock-model.ts instead of a real provider.
+ * No API keys or network access are needed, so the whole UI can be
+ * exercised end to end (see fixtures/mock-llm.json).
+ *
+ * The NEXT_PUBLIC_ prefix makes the flag readable on the client too, where
+ * it lifts the API key / free trial checks. It is safe to import anywhere.
+ */
+
+/**
+ * Whether the scripted mock model replaces real providers.
+ */
+export function isMockLlmEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_MOCK_LLM === "true";
+}
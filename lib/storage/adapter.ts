@@ -0,0 +1,173 @@
+/**
+ * Storage Adapter
+ *
+ * Backend-agnostic database interface that the knowledge filesystem, links,
+ * embeddings, large documents and chat store are written against.
+ *
+ * The API is the subset of idb's IDBPDatabase the app actually uses
+ * (get/getAll/getAllFromIndex/put/delete/clear/count/transaction), so the
+ * IndexedDB backend is a thin wrapper and call sites read like plain idb code.
+ *
+ * BACKENDS:
+ * ---------
+ * - IndexedDB (indexeddb-adapter.ts) - default in the browser
+ * - In-memory (memory-adapter.ts) - default wherever IndexedDB is missing
+ *   (Node scripts, tests, server code)
+ *
+ * Call setStorageBackend() before the first database access to pick a
+ * backend explicitly.
+ *
+ * Safe to import anywhere.
+ */
+
+import { createIndexedDbBackend } from "./indexeddb-adapter";
+import { createMemoryBackend } from "./memory-adapter";
+
+// =============================================================================
+// SCHEMA TYPES
+// =============================================================================
+
+export type StorageKey = string | number;
+
+/** Shape of one object store: key type, value type and index key types */
+export interface StoreSchema {
+  key: StorageKey;
+  value: unknown;
+  indexes?: Record<string, StorageKey>;
+}
+
+/** A database schema maps store names to store shapes */
+export interface DatabaseSchema {
+  [storeName: string]: StoreSchema;
+}
+
+export type StoreName<S extends DatabaseSchema> = keyof S & string;
+export type StoreKey<S extends DatabaseSchema, N extends StoreName<S>> = S[N]["key"];
+export type StoreValue<S extends DatabaseSchema, N extends StoreName<S>> = S[N]["value"];
+export type IndexName<S extends DatabaseSchema, N extends StoreName<S>> =
+  keyof NonNullable<S[N]["indexes"]> & string;
+export type IndexKey<
+  S extends DatabaseSchema,
+  N extends StoreName<S>,
+  I extends IndexName<S, N>,
+> = NonNullable<S[N]["indexes"]>[I];
+
+/** Declarative store layout, used to create stores and indexes on open */
+export interface StoreDefinition {
+  /** Property holding the key; omit for out-of-line keys (put(value, key)) */
+  keyPath?: string;
+  /** Index name -> property it indexes (non-unique) */
+  indexes?: Record<string, string>;
+}
+
+export interface DatabaseDefinition<S extends DatabaseSchema> {
+  name: string;
+  version: number;
+  stores: { [N in StoreName<S>]: StoreDefinition };
+}
+
+// =============================================================================
+// ADAPTER INTERFACE
+// =============================================================================
+
+export type TransactionMode = "readonly" | "readwrite";
+
+/** Operations on a single store inside a transaction */
+export interface StoreHandle<S extends DatabaseSchema, N extends StoreName<S>> {
+  get(key: StoreKey<S, N>): Promise<StoreValue<S, N> | undefined>;
+  getAll(): Promise<StoreValue<S, N>[]>;
+  getAllKeys(): Promise<StoreKey<S, N>[]>;
+  put(value: StoreValue<S, N>, key?: StoreKey<S, N>): Promise<StoreKey<S, N>>;
+  delete(key: StoreKey<S, N>): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface StorageTransaction<S extends DatabaseSchema, N extends StoreName<S>> {
+  objectStore<M extends N>(name: M): StoreHandle<S, M>;
+  /** The first store in the transaction's scope */
+  store: StoreHandle<S, N>;
+  /** Resolves when the transaction commits */
+  done: Promise<void>;
+}
+
+export interface StorageAdapter<S extends DatabaseSchema> {
+  get<N extends StoreName<S>>(store: N, key: StoreKey<S, N>): Promise<StoreValue<S, N> | undefined>;
+  getAll<N extends StoreName<S>>(store: N): Promise<StoreValue<S, N>[]>;
+  getAllKeys<N extends StoreName<S>>(store: N): Promise<StoreKey<S, N>[]>;
+  getAllFromIndex<N extends StoreName<S>, I extends IndexName<S, N>>(
+    store: N,
+    index: I,
+    query: IndexKey<S, N, I>
+  ): Promise<StoreValue<S, N>[]>;
+  count<N extends StoreName<S>>(store: N): Promise<number>;
+  put<N extends StoreName<S>>(
+    store: N,
+    value: StoreValue<S, N>,
+    key?: StoreKey<S, N>
+  ): Promise<StoreKey<S, N>>;
+  delete<N extends StoreName<S>>(store: N, key: StoreKey<S, N>): Promise<void>;
+  clear<N extends StoreName<S>>(store: N): Promise<void>;
+  transaction<N extends StoreName<S>>(
+    stores: N | N[],
+    mode?: TransactionMode
+  ): StorageTransaction<S, N>;
+  close(): void;
+}
+
+/** Opens databases for one storage technology */
+export interface StorageBackend {
+  name: string;
+  open<S extends DatabaseSchema>(definition: DatabaseDefinition<S>): Promise<StorageAdapter<S>>;
+}
+
+// =============================================================================
+// BACKEND SELECTION
+// =============================================================================
+
+let backend: StorageBackend | null = null;
+
+/** Open databases for the current backend, keyed by database name */
+const openDatabases = new Map<string, Promise<StorageAdapter<DatabaseSchema>>>();
+
+function defaultBackend(): StorageBackend {
+  return typeof indexedDB !== "undefined" ? createIndexedDbBackend() : createMemoryBackend();
+}
+
+/**
+ * Get the active storage backend.
+ */
+export function getStorageBackend(): StorageBackend {
+  if (!backend) {
+    backend = defaultBackend();
+  }
+  return backend;
+}
+
+/**
+ * Replace the storage backend.
+ * Databases opened with the previous backend are closed and forgotten,
+ * so the next access opens them again on the new backend.
+ */
+export function setStorageBackend(next: StorageBackend): void {
+  for (const pending of openDatabases.values()) {
+    pending.then((db) => db.close()).catch(() => undefined);
+  }
+  openDatabases.clear();
+  backend = next;
+}
+
+/**
+ * Open (or reuse) a database on the active backend.
+ */
+export function openDatabase<S extends DatabaseSchema>(
+  definition: DatabaseDefinition<S>
+): Promise<StorageAdapter<S>> {
+  let pending = openDatabases.get(definition.name);
+  if (!pending) {
+    pending = getStorageBackend().open(definition) as unknown as Promise<StorageAdapter<DatabaseSchema>>;
+    // Don't cache failures - let the next call retry
+    pending.catch(() => openDatabases.delete(definition.name));
+    openDatabases.set(definition.name, pending);
+  }
+  return pending as unknown as Promise<StorageAdapter<S>>;
+}
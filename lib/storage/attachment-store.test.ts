@@ -0,0 +1,93 @@
+import type { UIMessage } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Saving embeds in the background through /api/embed, which doesn't exist here
+vi.mock("./chat-embeddings-ops", () => ({
+  embedChatIfChanged: async () => false,
+  deleteChatEmbeddings: async () => {},
+}));
+
+import { setStorageBackend } from "./adapter";
+import { createMemoryBackend } from "./memory-adapter";
+import {
+  ATTACHMENT_URL_PREFIX,
+  getAttachment,
+  resolveMessageAttachments,
+  storeMessageAttachments,
+} from "./attachment-store";
+import { deleteConversation, loadConversation, saveConversation } from "./chat-store";
+import { buildMessageTree } from "@/lib/chat-tree";
+
+const PIXEL = "data:image/png;base64,iVBORw0KGgo=";
+const OTHER = "data:image/png;base64,R0lGODlhAQABAA==";
+
+function withImage(id: string, url: string): UIMessage {
+  return {
+    id,
+    role: "user",
+    parts: [
+      { type: "text", text: "Look at this" },
+      { type: "file", mediaType: "image/png", url },
+    ],
+  };
+}
+
+function fileUrls(messages: UIMessage[]): string[] {
+  return messages.flatMap((m) => m.parts.flatMap((part) => (part.type === "file" ? [part.url] : [])));
+}
+
+async function save(id: string, messages: UIMessage[]): Promise<void> {
+  await saveConversation({
+    id,
+    title: id,
+    messages,
+    tree: buildMessageTree(messages),
+    createdAt: 1000,
+    updatedAt: 1000,
+  });
+}
+
+describe("attachments", () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend());
+  });
+
+  it("stores each distinct file once and resolves references back", async () => {
+    const { messages, hashes } = await storeMessageAttachments([
+      withImage("u1", PIXEL),
+      withImage("u2", PIXEL),
+      withImage("u3", OTHER),
+    ]);
+
+    expect(hashes).toHaveLength(2);
+    expect(fileUrls(messages)).toEqual(
+      [hashes[0], hashes[0], hashes[1]].map((hash) => ATTACHMENT_URL_PREFIX + hash)
+    );
+    expect(fileUrls(await resolveMessageAttachments(messages))).toEqual([PIXEL, PIXEL, OTHER]);
+  });
+
+  it("drops file parts whose attachment is gone", async () => {
+    const missing = withImage("u1", `${ATTACHMENT_URL_PREFIX}${"0".repeat(64)}`);
+
+    const [resolved] = await resolveMessageAttachments([missing]);
+
+    expect(resolved.parts).toEqual([{ type: "text", text: "Look at this" }]);
+  });
+
+  it("keeps a file until no conversation references it", async () => {
+    await save("chat-1", [withImage("u1", PIXEL), withImage("u2", OTHER)]);
+    await save("chat-2", [withImage("u1", PIXEL)]);
+    const [pixel, other] = fileUrls((await loadConversation("chat-1"))!.messages).map((url) =>
+      url.slice(ATTACHMENT_URL_PREFIX.length)
+    );
+
+    await deleteConversation("chat-1");
+
+    expect(await getAttachment(pixel)).toBeDefined();
+    expect(await getAttachment(other)).toBeUndefined();
+
+    await deleteConversation("chat-2");
+
+    expect(await getAttachment(pixel)).toBeUndefined();
+  });
+});
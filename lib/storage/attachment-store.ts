@@ -0,0 +1,298 @@
+/**
+ * Attachment Store
+ *
+ * Content-addressed storage for files attached to chat messages (images
+ * pasted or uploaded into the chat). Messages are sent with the file inline
+ * as a data URL; when a conversation is saved, each inline file is moved
+ * here as a Blob keyed by the SHA-256 of its bytes and the message part's
+ * url becomes a reference:
+ *
+ *   { type: "file", mediaType: "image/png", url: "attachment:<sha256>" }
+ *
+ * So the same image attached twice is stored once, conversation records
+ * stay small, and attachments survive reloads. Before messages go to the
+ * model (or an <img>), references are resolved back to data URLs.
+ *
+ * GARBAGE COLLECTION:
+ * -------------------
+ * Each conversation's referenced hashes are recorded in the refs store when
+ * it is saved. collectAttachmentGarbage deletes blobs no conversation
+ * references any more; chat-store.ts runs it after deletes.
+ *
+ * Safe to import anywhere (falls back to the in-memory backend).
+ */
+
+import {
+  openDatabase,
+  type DatabaseDefinition,
+  type DatabaseSchema,
+  type StorageAdapter,
+} from "./adapter";
+import type { UIMessage } from "ai";
+
+const DB_NAME = "chat_attachments_v1";
+const DB_VERSION = 1;
+
+/** Prefix of attachment reference URLs in message parts */
+export const ATTACHMENT_URL_PREFIX = "attachment:";
+
+export interface StoredAttachment {
+  /** SHA-256 of the content (hex) */
+  hash: string;
+  mediaType: string;
+  data: Blob;
+  size: number;
+  createdAt: number;
+}
+
+interface AttachmentRefs {
+  conversationId: string;
+  hashes: string[];
+}
+
+interface AttachmentDbSchema extends DatabaseSchema {
+  blobs: {
+    key: string;
+    value: StoredAttachment;
+  };
+  refs: {
+    key: string;
+    value: AttachmentRefs;
+  };
+}
+
+const ATTACHMENT_DB: DatabaseDefinition<AttachmentDbSchema> = {
+  name: DB_NAME,
+  version: DB_VERSION,
+  stores: {
+    blobs: { keyPath: "hash" },
+    refs: { keyPath: "conversationId" },
+  },
+};
+
+function getDb(): Promise<StorageAdapter<AttachmentDbSchema>> {
+  return openDatabase(ATTACHMENT_DB);
+}
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+/**
+ * Whether a URL is an attachment reference.
+ */
+export function isAttachmentUrl(url: unknown): url is string {
+  return typeof url === "string" && url.startsWith(ATTACHMENT_URL_PREFIX);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Decode a base64 data URL. Returns null for anything else.
+ */
+function dataUrlToBlob(url: string): Blob | null {
+  const match = /^data:([^;,]*)(;[^,]*)?,([\s\S]*)$/.exec(url);
+  if (!match) return null;
+  const [, mediaType, params = "", payload] = match;
+  if (!params.includes(";base64")) {
+    return new Blob([decodeURIComponent(payload)], { type: mediaType });
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mediaType });
+}
+
+async function blobToDataUrl(blob: Blob, mediaType: string): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  // Chunked: String.fromCharCode has an argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mediaType};base64,${btoa(binary)}`;
+}
+
+// =============================================================================
+// BLOBS
+// =============================================================================
+
+/**
+ * Store a file's content.
+ *
+ * @returns The content hash (storing the same content again is a no-op)
+ */
+export async function putAttachment(data: Blob, mediaType: string = data.type): Promise<string> {
+  const hash = toHex(await crypto.subtle.digest("SHA-256", await data.arrayBuffer()));
+  const db = await getDb();
+  if (!(await db.get("blobs", hash))) {
+    await db.put("blobs", {
+      hash,
+      mediaType,
+      data,
+      size: data.size,
+      createdAt: Date.now(),
+    });
+  }
+  return hash;
+}
+
+/**
+ * Get a stored attachment by hash.
+ */
+export async function getAttachment(hash: string): Promise<StoredAttachment | undefined> {
+  const db = await getDb();
+  return db.get("blobs", hash);
+}
+
+/** Resolved data URLs by hash (attachments never change) */
+const dataUrlCache = new Map<string, Promise<string | null>>();
+
+/**
+ * Turn an attachment reference into a data URL. Other URLs are returned
+ * unchanged; a missing attachment resolves to null.
+ */
+export async function resolveAttachmentUrl(url: string): Promise<string | null> {
+  if (!isAttachmentUrl(url)) return url;
+  const hash = url.slice(ATTACHMENT_URL_PREFIX.length);
+  let pending = dataUrlCache.get(hash);
+  if (!pending) {
+    pending = getAttachment(hash).then((stored) =>
+      stored ? blobToDataUrl(stored.data, stored.mediaType) : null
+    );
+    // Don't cache failures - let the next call retry
+    pending.catch(() => dataUrlCache.delete(hash));
+    dataUrlCache.set(hash, pending);
+  }
+  return pending;
+}
+
+// =============================================================================
+// MESSAGES
+// =============================================================================
+
+type FilePart = Extract<UIMessage["parts"][number], { type: "file" }>;
+
+function isFilePart(part: UIMessage["parts"][number]): part is FilePart {
+  return part.type === "file";
+}
+
+/**
+ * Move inline (data URL) file parts into the store and replace them with
+ * references.
+ *
+ * @returns The messages with references, and every hash they reference
+ */
+export async function storeMessageAttachments(
+  messages: UIMessage[]
+): Promise<{ messages: UIMessage[]; hashes: string[] }> {
+  const hashes = new Set<string>();
+
+  const stored = await Promise.all(
+    messages.map(async (message) => {
+      if (!message.parts?.some(isFilePart)) return message;
+      const parts = await Promise.all(
+        message.parts.map(async (part) => {
+          if (!isFilePart(part)) return part;
+          if (isAttachmentUrl(part.url)) {
+            hashes.add(part.url.slice(ATTACHMENT_URL_PREFIX.length));
+            return part;
+          }
+          const blob = dataUrlToBlob(part.url);
+          if (!blob) return part;
+          const hash = await putAttachment(blob, part.mediaType);
+          hashes.add(hash);
+          return { ...part, url: ATTACHMENT_URL_PREFIX + hash };
+        })
+      );
+      return { ...message, parts };
+    })
+  );
+
+  return { messages: stored, hashes: Array.from(hashes) };
+}
+
+/**
+ * Replace attachment references with data URLs (before sending messages to
+ * the model). File parts whose attachment is gone are dropped.
+ */
+export async function resolveMessageAttachments<M extends UIMessage>(messages: M[]): Promise<M[]> {
+  return Promise.all(
+    messages.map(async (message) => {
+      if (!message.parts?.some((part) => isFilePart(part) && isAttachmentUrl(part.url))) {
+        return message;
+      }
+      const parts = await Promise.all(
+        message.parts.map(async (part) => {
+          if (!isFilePart(part) || !isAttachmentUrl(part.url)) return part;
+          const url = await resolveAttachmentUrl(part.url);
+          return url ? { ...part, url } : null;
+        })
+      );
+      return { ...message, parts: parts.filter((part) => part !== null) };
+    })
+  );
+}
+
+// =============================================================================
+// REFERENCES & GARBAGE COLLECTION
+// =============================================================================
+
+/**
+ * Record which attachments a conversation references.
+ */
+export async function setAttachmentRefs(conversationId: string, hashes: string[]): Promise<void> {
+  const db = await getDb();
+  if (hashes.length === 0) {
+    await db.delete("refs", conversationId);
+  } else {
+    await db.put("refs", { conversationId, hashes });
+  }
+}
+
+/**
+ * Forget a conversation's references (its attachments are removed by the
+ * next collectAttachmentGarbage unless something else references them).
+ */
+export async function removeAttachmentRefs(conversationIds: Iterable<string>): Promise<void> {
+  const db = await getDb();
+  for (const conversationId of conversationIds) {
+    await db.delete("refs", conversationId);
+  }
+}
+
+/**
+ * Delete attachments that no conversation references.
+ *
+ * @returns Number of attachments deleted
+ */
+export async function collectAttachmentGarbage(): Promise<number> {
+  const db = await getDb();
+  const referenced = new Set<string>();
+  for (const refs of await db.getAll("refs")) {
+    refs.hashes.forEach((hash) => referenced.add(hash));
+  }
+
+  let deleted = 0;
+  for (const hash of await db.getAllKeys("blobs")) {
+    if (referenced.has(hash)) continue;
+    await db.delete("blobs", hash);
+    dataUrlCache.delete(hash);
+    deleted++;
+  }
+  return deleted;
+}
+
+/**
+ * Delete all attachments (clearing chat history).
+ */
+export async function clearAttachments(): Promise<void> {
+  const db = await getDb();
+  await db.clear("blobs");
+  await db.clear("refs");
+  dataUrlCache.clear();
+}
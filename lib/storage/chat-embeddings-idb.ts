@@ -3,6 +3,7 @@
  *
  * Separate IndexedDB database for chat embeddings, isolated from the knowledge base.
  * This allows semantic search across all chat history.
+ * Opened through the storage adapter (./adapter.ts).
  *
  * Key differences from knowledge embeddings:
  * - Indexed by conversationId (not file path)
@@ -10,7 +11,12 @@
  * - Tracks message role (user/assistant)
  */
 
-import { openDB, type DBSchema, type IDBPDatabase } from "idb";
+import {
+  openDatabase,
+  type DatabaseDefinition,
+  type DatabaseSchema,
+  type StorageAdapter,
+} from "./adapter";
 
 // =============================================================================
 // TYPES
@@ -43,6 +49,11 @@ export interface ChatEmbeddingRecord {
   updatedAt: number;
   /** Source type - always "chat" for these records */
   source: "chat";
+  /**
+   * For chunks of the prefix a forked conversation copied: the conversation
+   * it was forked from (search counts such a chunk once, as the source's)
+   */
+  forkedFrom?: string;
 }
 
 /**
@@ -74,7 +85,7 @@ export interface ChatSearchResult {
 // DATABASE SCHEMA
 // =============================================================================
 
-interface ChatEmbeddingsDbSchema extends DBSchema {
+interface ChatEmbeddingsDbSchema extends DatabaseSchema {
   embeddings: {
     key: string;
     value: ChatEmbeddingRecord;
@@ -93,39 +104,24 @@ interface ChatEmbeddingsDbSchema extends DBSchema {
 // DATABASE ACCESS
 // =============================================================================
 
-let dbPromise: Promise<IDBPDatabase<ChatEmbeddingsDbSchema>> | null = null;
+const CHAT_EMBEDDINGS_DB: DatabaseDefinition<ChatEmbeddingsDbSchema> = {
+  name: "chat_embeddings_v1",
+  version: 1,
+  stores: {
+    embeddings: {
+      keyPath: "id",
+      indexes: { "by-chat": "conversationId", "by-hash": "contentHash" },
+    },
+    metadata: { keyPath: "id" },
+  },
+};
 
 /**
  * Get the chat embeddings database.
  * Creates it if it doesn't exist.
  */
-export function getChatEmbeddingsDb() {
-  if (!dbPromise) {
-    dbPromise = openDB<ChatEmbeddingsDbSchema>("chat_embeddings_v1", 1, {
-      upgrade(db, oldVersion, newVersion) {
-        console.log(`[ChatEmbeddings DB] Upgrading from v${oldVersion} to v${newVersion}`);
-
-        // Create embeddings store
-        if (!db.objectStoreNames.contains("embeddings")) {
-          console.log("[ChatEmbeddings DB] Creating embeddings store");
-          const embeddingsStore = db.createObjectStore("embeddings", {
-            keyPath: "id",
-          });
-          embeddingsStore.createIndex("by-chat", "conversationId", { unique: false });
-          embeddingsStore.createIndex("by-hash", "contentHash", { unique: false });
-        }
-
-        // Create metadata store for UMAP cache
-        if (!db.objectStoreNames.contains("metadata")) {
-          console.log("[ChatEmbeddings DB] Creating metadata store");
-          db.createObjectStore("metadata", { keyPath: "id" });
-        }
-
-        console.log("[ChatEmbeddings DB] Upgrade complete");
-      },
-    });
-  }
-  return dbPromise;
+export function getChatEmbeddingsDb(): Promise<StorageAdapter<ChatEmbeddingsDbSchema>> {
+  return openDatabase(CHAT_EMBEDDINGS_DB);
 }
 
 /**
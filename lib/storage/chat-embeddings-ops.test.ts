@@ -0,0 +1,73 @@
+import type { UIMessage } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Deterministic embeddings instead of /api/embed, which doesn't exist here
+vi.mock("@/knowledge/embeddings/embed-client", async (importOriginal) => {
+  const { createMockEmbedding } = await import("@/agents/mock-model");
+  return {
+    ...(await importOriginal<typeof import("@/knowledge/embeddings/embed-client")>()),
+    embedTexts: vi.fn(async (texts: string[]) => texts.map((text) => createMockEmbedding(text, 64))),
+    embedQuery: vi.fn(async (text: string) => createMockEmbedding(text, 64)),
+  };
+});
+
+import { setStorageBackend } from "./adapter";
+import { createMemoryBackend } from "./memory-adapter";
+import { getChatEmbeddingsDb } from "./chat-embeddings-idb";
+import { deleteChatEmbeddings, embedChat } from "./chat-embeddings-ops";
+import { chatHybridSearch } from "./chat-hybrid-search";
+import { buildMessageTree } from "@/lib/chat-tree";
+import type { ChatConversation } from "@/lib/chat-types";
+
+function message(id: string, role: "user" | "assistant", text: string): UIMessage {
+  return { id, role, parts: [{ type: "text", text }] };
+}
+
+const shared = [
+  message("u1", "user", "Which lighthouses should we visit in Portugal?"),
+  message("a1", "assistant", "Cabo da Roca and Cabo de São Vicente are the classics."),
+];
+
+function conversation(id: string, messages: UIMessage[], extra: Partial<ChatConversation> = {}): ChatConversation {
+  return { id, title: id, messages, tree: buildMessageTree(messages), createdAt: 1000, updatedAt: 1000, ...extra };
+}
+
+const source = conversation("source", [...shared, message("u2", "user", "How far apart are they?")]);
+const fork = conversation("fork", [...shared, message("u2f", "user", "Any ferries to the Azores?")], {
+  forkedFrom: { conversationId: "source", messageId: "a1", title: "source" },
+});
+
+/** Every chunk search can return, as "conversation#chunk" */
+async function searchableChunks(): Promise<string[]> {
+  const results = await chatHybridSearch("lighthouses", { rerank: false, topK: 10, threshold: -1 });
+  return results.map((r) => `${r.conversationId}#${r.chunkIndex}`).sort();
+}
+
+describe("forked conversations", () => {
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    await embedChat(source);
+    await embedChat(fork);
+  });
+
+  it("marks only the chunks copied from the source", async () => {
+    const db = await getChatEmbeddingsDb();
+    const records = await db.getAllFromIndex("embeddings", "by-chat", "fork");
+
+    expect(records.sort((a, b) => a.chunkIndex - b.chunkIndex).map((r) => r.forkedFrom)).toEqual([
+      "source",
+      "source",
+      undefined,
+    ]);
+  });
+
+  it("searches a copied message once, in the source", async () => {
+    expect(await searchableChunks()).toEqual(["fork#2", "source#0", "source#1", "source#2"]);
+  });
+
+  it("searches the copied messages in the fork once the source is deleted", async () => {
+    await deleteChatEmbeddings("source");
+
+    expect(await searchableChunks()).toEqual(["fork#0", "fork#1", "fork#2"]);
+  });
+});
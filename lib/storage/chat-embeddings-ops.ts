@@ -38,6 +38,18 @@ async function sha256(text: string): Promise<string> {
 // CORE OPERATIONS
 // =============================================================================
 
+/**
+ * Number of chunks that come from the prefix a forked conversation copied
+ * from its source (0 if it isn't a fork). The prefix chunks the same way on
+ * its own, so these are the fork's first chunks.
+ */
+function countForkedChunks(conversation: ChatConversation): number {
+  const { forkedFrom, messages } = conversation;
+  if (!forkedFrom) return 0;
+  const end = messages.findIndex((message) => message.id === forkedFrom.messageId);
+  return end === -1 ? 0 : chunkChatMessages(messages.slice(0, end + 1)).length;
+}
+
 /**
  * Embed a conversation's messages, using hash-based caching to avoid re-embedding.
  * Only embeds chunks whose content has changed.
@@ -48,6 +60,9 @@ export async function embedChat(conversation: ChatConversation): Promise<void> {
 
   // Chunk the messages
   const chunks = chunkChatMessages(messages);
+  const forkedChunks = countForkedChunks(conversation);
+  const forkedFrom = (index: number) =>
+    index < forkedChunks ? conversation.forkedFrom?.conversationId : undefined;
 
   // If no chunks (empty or all tool calls), clean up any existing embeddings
   if (chunks.length === 0) {
@@ -76,6 +91,7 @@ export async function embedChat(conversation: ChatConversation): Promise<void> {
         conversationTitle, // Update title in case it changed
         messageRole: chunk.messageRole,
         messageIndex: chunk.messageIndex,
+        forkedFrom: forkedFrom(chunk.index),
       });
     } else {
       toEmbed.push({ chunk, hash });
@@ -101,6 +117,7 @@ export async function embedChat(conversation: ChatConversation): Promise<void> {
           embedding: embeddings[i],
           updatedAt: Date.now(),
           source: "chat",
+          forkedFrom: forkedFrom(chunk.index),
         });
       }
 
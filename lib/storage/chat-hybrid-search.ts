@@ -11,6 +11,10 @@
  * - RRF is rank-based (not score-based), requiring no normalization
  * - Optional cross-encoder reranking for 20-40% accuracy boost
  * - Query type detection for optimal lexical/semantic weighting
+ *
+ * A forked conversation starts with a copy of its source's messages. Those
+ * chunks are searched once, as the source's: a fork's copy only counts if
+ * the source no longer has the same chunk (deleted, or changed since).
  */
 
 import { getChatEmbeddingsDb, type ChatEmbeddingRecord } from "./chat-embeddings-idb";
@@ -124,6 +128,28 @@ function computeRRFScore(
   return score;
 }
 
+/**
+ * Drop chunks a forked conversation copied from its source while the source
+ * still has the same chunk, so a shared prefix isn't counted twice.
+ */
+function withoutForkedCopies(embeddings: ChatEmbeddingRecord[]): ChatEmbeddingRecord[] {
+  const hashesByConversation = new Map<string, Set<string>>();
+  for (const embedding of embeddings) {
+    let hashes = hashesByConversation.get(embedding.conversationId);
+    if (!hashes) {
+      hashes = new Set();
+      hashesByConversation.set(embedding.conversationId, hashes);
+    }
+    hashes.add(embedding.contentHash);
+  }
+
+  return embeddings.filter(
+    (embedding) =>
+      !embedding.forkedFrom ||
+      !hashesByConversation.get(embedding.forkedFrom)?.has(embedding.contentHash)
+  );
+}
+
 /**
  * Perform hybrid search across chat embeddings.
  *
@@ -153,8 +179,8 @@ export async function chatHybridSearch(
 
   const db = await getChatEmbeddingsDb();
 
-  // Load all chat embeddings
-  const allEmbeddings = await db.getAll("embeddings");
+  // Load all chat embeddings, without forks' copies of their sources' chunks
+  const allEmbeddings = withoutForkedCopies(await db.getAll("embeddings"));
 
   if (allEmbeddings.length === 0) {
     return [];
@@ -0,0 +1,143 @@
+import type { UIMessage } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Saving embeds in the background through /api/embed, which doesn't exist here
+vi.mock("./chat-embeddings-ops", () => ({
+  embedChatIfChanged: async () => false,
+  deleteChatEmbeddings: async () => {},
+}));
+
+import { setStorageBackend } from "./adapter";
+import { createMemoryBackend } from "./memory-adapter";
+import {
+  deleteConversation,
+  loadChatSummaries,
+  loadConversation,
+  saveActiveConversationId,
+  saveConversation,
+  updateConversation,
+} from "./chat-store";
+import { buildMessageTree, getBranchSiblings, mergeBranch } from "@/lib/chat-tree";
+import type { ChatConversation } from "@/lib/chat-types";
+
+function message(id: string, role: "user" | "assistant", text: string): UIMessage {
+  return { id, role, parts: [{ type: "text", text }] };
+}
+
+const base = [message("u1", "user", "Plan a trip"), message("a1", "assistant", "Where to?")];
+
+/** The conversation as a tab has it after adding messages to what it loaded */
+function tabCopy(loaded: ChatConversation, added: UIMessage[], updatedAt: number): ChatConversation {
+  const messages = [...loaded.messages, ...added];
+  return { ...loaded, messages, tree: mergeBranch(loaded.tree, messages), updatedAt };
+}
+
+describe("saveConversation from two tabs", () => {
+  let loaded: ChatConversation;
+
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+
+    await saveConversation({
+      id: "chat-1",
+      title: "Trip",
+      messages: base,
+      tree: buildMessageTree(base),
+      createdAt: 1000,
+      updatedAt: 1000,
+    });
+    // Both tabs open the conversation
+    loaded = (await loadConversation("chat-1"))!;
+  });
+
+  const tabA = [message("u2a", "user", "Lisbon"), message("a2a", "assistant", "Great choice")];
+  const tabB = [message("u2b", "user", "Berlin"), message("a2b", "assistant", "Good pick")];
+
+  it("keeps the first tab's messages when the second tab saves later", async () => {
+    await saveConversation(tabCopy(loaded, tabA, 2000));
+    await saveConversation(tabCopy(loaded, tabB, 3000));
+
+    const saved = (await loadConversation("chat-1"))!;
+    expect(saved.messages.map((m) => m.id)).toEqual(["u1", "a1", "u2b", "a2b"]);
+    expect(saved.tree.map((node) => node.message.id).sort()).toEqual(
+      ["a1", "a2a", "a2b", "u1", "u2a", "u2b"]
+    );
+    // The other tab's reply is a sibling branch of this one
+    expect(getBranchSiblings(saved.tree, saved.messages).get("u2b")).toEqual(["u2a", "u2b"]);
+  });
+
+  it("keeps a tab's messages when its clock is behind the stored copy", async () => {
+    await saveConversation(tabCopy(loaded, tabA, 3000));
+    await saveConversation(tabCopy(loaded, tabB, 2000));
+
+    const saved = (await loadConversation("chat-1"))!;
+    // The newer copy's branch stays the viewed one
+    expect(saved.messages.map((m) => m.id)).toEqual(["u1", "a1", "u2a", "a2a"]);
+    expect(saved.tree.map((node) => node.message.id)).toEqual(["u1", "a1", "u2a", "a2a", "u2b", "a2b"]);
+    expect(saved.updatedAt).toBeGreaterThan(3000);
+  });
+
+  it("writes nothing when an older copy adds no messages", async () => {
+    await saveConversation(tabCopy(loaded, tabA, 3000));
+
+    expect(await saveConversation(tabCopy(loaded, [], 2000))).toBe(false);
+  });
+
+  it("doesn't bring back a conversation another tab deleted", async () => {
+    await deleteConversation("chat-1");
+
+    expect(await saveConversation(tabCopy(loaded, tabA, 2000))).toBe(false);
+    expect(await loadConversation("chat-1")).toBeUndefined();
+    expect((await loadChatSummaries()).conversations).toEqual([]);
+  });
+});
+
+describe("conversation summaries", () => {
+  function conversation(id: string, updatedAt: number, messages = base): ChatConversation {
+    return { id, title: `Chat ${id}`, messages, tree: buildMessageTree(messages), createdAt: 1000, updatedAt };
+  }
+
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    await saveConversation(conversation("old", 1000, base.slice(0, 1)));
+    await saveConversation(conversation("new", 3000));
+    await saveActiveConversationId("old");
+  });
+
+  it("lists summaries newest first with the active conversation", async () => {
+    const { conversations, activeConversationId } = await loadChatSummaries();
+
+    expect(conversations.map((c) => [c.id, c.messageCount])).toEqual([
+      ["new", 2],
+      ["old", 1],
+    ]);
+    expect(conversations[0]).not.toHaveProperty("messages");
+    expect(activeConversationId).toBe("old");
+  });
+
+  it("renames a conversation unless the stored copy is newer or it's gone", async () => {
+    expect(await updateConversation("old", { title: "Stale", updatedAt: 500 })).toBe(false);
+    expect(await updateConversation("gone", { title: "Ghost" })).toBe(false);
+    expect(await updateConversation("old", { title: "Packing list", userRenamed: true, updatedAt: 4000 })).toBe(true);
+
+    const { conversations } = await loadChatSummaries();
+    expect(conversations.map((c) => [c.id, c.title, c.userRenamed])).toEqual([
+      ["old", "Packing list", true],
+      ["new", "Chat new", undefined],
+    ]);
+    expect((await loadConversation("old"))!.title).toBe("Packing list");
+  });
+
+  it("removes the summary with the conversation", async () => {
+    await deleteConversation("new");
+
+    expect((await loadChatSummaries()).conversations.map((c) => c.id)).toEqual(["old"]);
+  });
+
+  it("prunes the oldest conversations beyond the limit", async () => {
+    await saveConversation(conversation("newest", 5000), { maxConversations: 2 });
+
+    expect((await loadChatSummaries()).conversations.map((c) => c.id)).toEqual(["newest", "new"]);
+    expect(await loadConversation("old")).toBeUndefined();
+  });
+});
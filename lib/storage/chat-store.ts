@@ -1,54 +1,145 @@
-import { openDB, type DBSchema, type IDBPDatabase } from "idb";
-import type { ChatConversation, ChatHistoryState } from "@/lib/chat-types";
+/**
+ * Chat Store
+ *
+ * Persists chat history per conversation. Each conversation is stored
+ * twice: a small summary record (title, dates, message count) that the
+ * sidebar lists, and the full record with its messages, which is only
+ * read when the conversation is opened (loadConversation).
+ *
+ * Saves are incremental: saveConversation writes one conversation and
+ * embeds only that one, updateConversation changes its title without
+ * touching the messages, and deleteConversation removes one. Writes run
+ * under a cross-tab lock and notify other tabs (see ./sync.ts); saving a
+ * conversation another tab also changed merges the two message trees
+ * rather than overwriting either tab's messages. Deleted conversations
+ * leave a tombstone, so a tab that still has one open can't save it back.
+ *
+ * Messages form a tree (edits and regenerations are branches, see
+ * lib/chat-tree.ts). The record keeps the viewed branch in `messages` and
+ * the tree as a list of nodes; nodes on the viewed branch only hold the
+ * message id, so those messages aren't stored twice. Conversations saved
+ * before branching have no tree and get a single-branch one when loaded.
+ *
+ * Inline file attachments (data URLs) are moved to the attachment store
+ * on save and referenced by hash (see ./attachment-store.ts); deleting
+ * conversations garbage-collects attachments nothing references any more.
+ *
+ * A copy of the summaries is kept in localStorage so the sidebar can render
+ * before IndexedDB opens.
+ */
+
+import {
+  openDatabase,
+  type DatabaseDefinition,
+  type DatabaseSchema,
+  type StorageAdapter,
+} from "./adapter";
+import type {
+  ChatConversation,
+  ChatHistoryState,
+  ChatSummary,
+  ChatSummaryState,
+} from "@/lib/chat-types";
+import { buildMessageTree, mergeTrees } from "@/lib/chat-tree";
 import type { UIMessage } from "ai";
 import { embedChatIfChanged, deleteChatEmbeddings } from "./chat-embeddings-ops";
+import { publishChange, withStoreLock } from "./sync";
+import {
+  storeMessageAttachments,
+  setAttachmentRefs,
+  removeAttachmentRefs,
+  collectAttachmentGarbage,
+  clearAttachments,
+} from "./attachment-store";
 
 const DB_NAME = "chat_history_v1";
-const DB_VERSION = 1;
+// v2: summaries store (built from existing conversations on first load)
+const DB_VERSION = 2;
 const STORE_CONVERSATIONS = "conversations";
+const STORE_SUMMARIES = "summaries";
 const STORE_META = "meta";
 
 const SUMMARY_STORAGE_KEY = "chat-history-summary-v1";
 const LEGACY_STORAGE_KEY = "chat-history";
 
-interface ChatDbSchema extends DBSchema {
+/** Meta flag set once summaries have been built for existing conversations */
+const SUMMARIES_BUILT_KEY = "summariesBuilt";
+
+/** Meta key prefix marking a deleted conversation id (value: deletion time) */
+const TOMBSTONE_PREFIX = "deleted:";
+
+/** Cross-tab lock around read-modify-write of the chat stores */
+const CHAT_LOCK = "chat-history";
+
+/** A message tree node as stored */
+interface StoredMessageNode {
+  id: string;
+  parentId: string | null;
+  /** Omitted for messages on the viewed branch (they're in `messages`) */
+  message?: UIMessage;
+}
+
+/** A conversation record (no tree if saved before branching existed) */
+type StoredConversation = Omit<ChatConversation, "tree"> & {
+  tree?: StoredMessageNode[];
+};
+
+interface ChatDbSchema extends DatabaseSchema {
   conversations: {
     key: string;
-    value: ChatConversation;
+    value: StoredConversation;
+  };
+  summaries: {
+    key: string;
+    value: ChatSummary;
   };
   meta: {
     key: string;
-    value: string | number | null;
+    value: string | number | boolean | null;
   };
 }
 
-let dbPromise: Promise<IDBPDatabase<ChatDbSchema>> | null = null;
-
-function getDb() {
-  if (!dbPromise) {
-    dbPromise = openDB<ChatDbSchema>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        if (!db.objectStoreNames.contains(STORE_CONVERSATIONS)) {
-          db.createObjectStore(STORE_CONVERSATIONS, { keyPath: "id" });
-        }
-        if (!db.objectStoreNames.contains(STORE_META)) {
-          db.createObjectStore(STORE_META);
-        }
-      },
-    });
-  }
-  return dbPromise;
+const CHAT_DB: DatabaseDefinition<ChatDbSchema> = {
+  name: DB_NAME,
+  version: DB_VERSION,
+  stores: {
+    [STORE_CONVERSATIONS]: { keyPath: "id" },
+    [STORE_SUMMARIES]: { keyPath: "id" },
+    [STORE_META]: {},
+  },
+};
+
+function getDb(): Promise<StorageAdapter<ChatDbSchema>> {
+  return openDatabase(CHAT_DB);
+}
+
+function byUpdatedAt(a: { updatedAt: number }, b: { updatedAt: number }): number {
+  return b.updatedAt - a.updatedAt;
 }
 
 function normalizeState(state: ChatHistoryState): ChatHistoryState {
   return {
-    conversations: [...state.conversations].sort(
-      (a, b) => b.updatedAt - a.updatedAt
-    ),
+    conversations: [...state.conversations].sort(byUpdatedAt),
     activeConversationId: state.activeConversationId ?? null,
   };
 }
 
+/**
+ * The summary record of a conversation.
+ */
+export function summarizeConversation(conversation: Omit<ChatConversation, "tree">): ChatSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    ...(conversation.userRenamed ? { userRenamed: true } : {}),
+    ...(conversation.forkedFrom ? { forkedFrom: conversation.forkedFrom } : {}),
+    ...(conversation.modelId ? { modelId: conversation.modelId } : {}),
+    messageCount: conversation.messages.length,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+  };
+}
+
 /**
  * Check if a value is a non-serializable object (File, Blob, ArrayBuffer, etc.)
  * These cannot be stored in IndexedDB and will cause errors.
@@ -114,15 +205,41 @@ function sanitizeMessage(message: UIMessage): UIMessage {
 }
 
 /**
- * Sanitize a conversation's messages to ensure they can be stored in IndexedDB.
+ * The record to store for a conversation, with its messages sanitized so
+ * they can be stored in IndexedDB.
  */
-function sanitizeConversation(conversation: ChatConversation): ChatConversation {
+function toStoredConversation(conversation: ChatConversation): StoredConversation {
+  const branchIds = new Set(conversation.messages.map((message) => message.id));
   return {
     ...conversation,
     messages: conversation.messages.map(sanitizeMessage),
+    tree: conversation.tree.map(({ message, parentId }) =>
+      branchIds.has(message.id)
+        ? { id: message.id, parentId }
+        : { id: message.id, parentId, message: sanitizeMessage(message) }
+    ),
   };
 }
 
+/**
+ * A conversation from its stored record. Records without a tree (saved
+ * before branching existed) get one with a single branch.
+ */
+function fromStoredConversation(record: StoredConversation): ChatConversation {
+  const messages = record.messages ?? [];
+  if (!record.tree) {
+    return { ...record, messages, tree: buildMessageTree(messages) };
+  }
+
+  const branch = new Map(messages.map((message) => [message.id, message]));
+  const tree: ChatConversation["tree"] = [];
+  for (const node of record.tree) {
+    const message = node.message ?? branch.get(node.id);
+    if (message) tree.push({ message, parentId: node.parentId });
+  }
+  return { ...record, messages, tree };
+}
+
 function readLegacyState(): ChatHistoryState | null {
   if (typeof window === "undefined") return null;
   const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
@@ -134,6 +251,7 @@ function readLegacyState(): ChatHistoryState | null {
       conversations: parsed.conversations.map((conv) => ({
         ...conv,
         messages: conv.messages ?? [],
+        tree: buildMessageTree(conv.messages ?? []),
       })),
       activeConversationId: parsed.activeConversationId ?? null,
     };
@@ -142,22 +260,28 @@ function readLegacyState(): ChatHistoryState | null {
   }
 }
 
-function persistSummary(state: ChatHistoryState) {
+function persistSummary(state: ChatSummaryState) {
   if (typeof window === "undefined") return;
   const summary = {
-    conversations: state.conversations.map((conv) => ({
-      id: conv.id,
-      title: conv.title,
-      createdAt: conv.createdAt,
-      updatedAt: conv.updatedAt,
-      messages: [],
-    })),
+    conversations: [...state.conversations].sort(byUpdatedAt),
     activeConversationId: state.activeConversationId ?? null,
-  } satisfies ChatHistoryState;
+  } satisfies ChatSummaryState;
   localStorage.setItem(SUMMARY_STORAGE_KEY, JSON.stringify(summary));
 }
 
-export function readSummaryFromStorage(): ChatHistoryState {
+/**
+ * Rewrite the localStorage copy of the summaries from the store.
+ */
+async function refreshStoredSummary(db: StorageAdapter<ChatDbSchema>): Promise<void> {
+  const conversations = await db.getAll(STORE_SUMMARIES);
+  const activeConversationId = (await db.get(STORE_META, "activeConversationId")) ?? null;
+  persistSummary({
+    conversations,
+    activeConversationId: activeConversationId as string | null,
+  });
+}
+
+export function readSummaryFromStorage(): ChatSummaryState {
   if (typeof window === "undefined") {
     return { conversations: [], activeConversationId: null };
   }
@@ -166,14 +290,15 @@ export function readSummaryFromStorage(): ChatHistoryState {
     if (!stored) {
       return { conversations: [], activeConversationId: null };
     }
-    const parsed = JSON.parse(stored) as ChatHistoryState;
+    const parsed = JSON.parse(stored) as ChatSummaryState;
     if (!Array.isArray(parsed.conversations)) {
       return { conversations: [], activeConversationId: null };
     }
     return {
+      // Summaries written before v2 have no messageCount
       conversations: parsed.conversations.map((conv) => ({
         ...conv,
-        messages: conv.messages ?? [],
+        messageCount: conv.messageCount ?? 0,
       })),
       activeConversationId: parsed.activeConversationId ?? null,
     };
@@ -192,30 +317,86 @@ export async function migrateLegacyStorageIfNeeded(): Promise<void> {
   if (existing > 0) return;
 
   const normalized = normalizeState(legacy);
-  const tx = db.transaction([STORE_CONVERSATIONS, STORE_META], "readwrite");
+  const tx = db.transaction([STORE_CONVERSATIONS, STORE_SUMMARIES, STORE_META], "readwrite");
   const conversationStore = tx.objectStore(STORE_CONVERSATIONS);
+  const summaryStore = tx.objectStore(STORE_SUMMARIES);
   normalized.conversations.forEach((conversation) => {
-    conversationStore.put(conversation);
+    conversationStore.put(toStoredConversation(conversation));
+    summaryStore.put(summarizeConversation(conversation));
   });
   tx.objectStore(STORE_META).put(
     normalized.activeConversationId ?? null,
     "activeConversationId"
   );
+  tx.objectStore(STORE_META).put(true, SUMMARIES_BUILT_KEY);
   await tx.done;
 
-  persistSummary(normalized);
+  persistSummary({
+    conversations: normalized.conversations.map(summarizeConversation),
+    activeConversationId: normalized.activeConversationId,
+  });
   localStorage.removeItem(LEGACY_STORAGE_KEY);
 }
 
-export async function loadChatState(): Promise<ChatHistoryState> {
-  if (typeof window === "undefined") {
-    return { conversations: [], activeConversationId: null };
-  }
+/**
+ * Build summary records for conversations stored before v2. Reads every
+ * conversation once; afterwards only summaries are read on load.
+ */
+async function buildSummariesIfNeeded(db: StorageAdapter<ChatDbSchema>): Promise<void> {
+  if (await db.get(STORE_META, SUMMARIES_BUILT_KEY)) return;
+
+  const conversations = await db.getAll(STORE_CONVERSATIONS);
+  const tx = db.transaction([STORE_SUMMARIES, STORE_META], "readwrite");
+  const summaryStore = tx.objectStore(STORE_SUMMARIES);
+  conversations.forEach((conversation) => {
+    summaryStore.put(summarizeConversation(conversation));
+  });
+  tx.objectStore(STORE_META).put(true, SUMMARIES_BUILT_KEY);
+  await tx.done;
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
 
+/**
+ * Load the sidebar list: conversation summaries (newest first) and the
+ * active conversation. Messages are not read.
+ */
+export async function loadChatSummaries(): Promise<ChatSummaryState> {
   await migrateLegacyStorageIfNeeded();
 
+  return withStoreLock(CHAT_LOCK, async () => {
+    const db = await getDb();
+    await buildSummariesIfNeeded(db);
+    const conversations = await db.getAll(STORE_SUMMARIES);
+    const activeConversationId =
+      (await db.get(STORE_META, "activeConversationId")) ?? null;
+    return {
+      conversations: conversations.sort(byUpdatedAt),
+      activeConversationId: activeConversationId as string | null,
+    };
+  });
+}
+
+/**
+ * Load one conversation with its messages.
+ */
+export async function loadConversation(id: string): Promise<ChatConversation | undefined> {
   const db = await getDb();
-  const conversations = await db.getAll(STORE_CONVERSATIONS);
+  const record = await db.get(STORE_CONVERSATIONS, id);
+  return record && fromStoredConversation(record);
+}
+
+/**
+ * Load every conversation with its messages (reindexing, the embeddings
+ * viewer). The sidebar uses loadChatSummaries instead.
+ */
+export async function loadChatState(): Promise<ChatHistoryState> {
+  await migrateLegacyStorageIfNeeded();
+
+  const db = await getDb();
+  const conversations = (await db.getAll(STORE_CONVERSATIONS)).map(fromStoredConversation);
   const activeConversationId =
     (await db.get(STORE_META, "activeConversationId")) ?? null;
   return normalizeState({
@@ -224,63 +405,250 @@ export async function loadChatState(): Promise<ChatHistoryState> {
   });
 }
 
-export async function saveChatState(state: ChatHistoryState): Promise<void> {
-  if (typeof window === "undefined") return;
-  const db = await getDb();
-  const normalized = normalizeState(state);
+// =============================================================================
+// SAVING
+// =============================================================================
 
-  // Sanitize all conversations to remove non-serializable data (File, Blob, etc.)
-  // This prevents IndexedDB errors when storing messages with image uploads
-  const sanitizedConversations = normalized.conversations.map(sanitizeConversation);
+/**
+ * Drop deleted conversations' attachment references and delete the
+ * attachments nothing references any more. Must run inside the chat lock.
+ */
+async function releaseAttachments(conversationIds: string[]): Promise<void> {
+  if (conversationIds.length === 0) return;
+  await removeAttachmentRefs(conversationIds);
+  await collectAttachmentGarbage();
+}
 
-  const tx = db.transaction([STORE_CONVERSATIONS, STORE_META], "readwrite");
-  const conversationStore = tx.objectStore(STORE_CONVERSATIONS);
-  const existingKeys = await conversationStore.getAllKeys();
-  const nextKeys = new Set(sanitizedConversations.map((conv) => conv.id));
+/**
+ * Move inline attachments of every message in the tree to the attachment
+ * store.
+ *
+ * @returns The conversation with attachment references, and the hashes it
+ *   references
+ */
+async function storeConversationAttachments(
+  conversation: ChatConversation
+): Promise<{ conversation: ChatConversation; hashes: string[] }> {
+  const branchIds = new Set(conversation.messages.map((message) => message.id));
+  const offBranch = conversation.tree
+    .filter((node) => !branchIds.has(node.message.id))
+    .map((node) => node.message);
+  const { messages, hashes } = await storeMessageAttachments([
+    ...conversation.messages,
+    ...offBranch,
+  ]);
 
-  sanitizedConversations.forEach((conversation) => {
-    conversationStore.put(conversation);
-  });
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  return {
+    conversation: {
+      ...conversation,
+      messages: messages.slice(0, conversation.messages.length),
+      tree: conversation.tree.map((node) => ({
+        ...node,
+        message: byId.get(node.message.id) ?? node.message,
+      })),
+    },
+    hashes,
+  };
+}
 
-  // Track deleted conversations for embedding cleanup
-  const deletedKeys: string[] = [];
-  existingKeys.forEach((key) => {
-    if (!nextKeys.has(String(key))) {
-      conversationStore.delete(key);
-      deletedKeys.push(String(key));
+/**
+ * Delete conversations beyond the newest `max`, with their embeddings.
+ * Must run inside the chat lock.
+ *
+ * @returns IDs of the deleted conversations
+ */
+async function pruneConversations(
+  db: StorageAdapter<ChatDbSchema>,
+  max: number
+): Promise<string[]> {
+  const summaries = (await db.getAll(STORE_SUMMARIES)).sort(byUpdatedAt);
+  const pruned = summaries.slice(max).map((summary) => summary.id);
+  for (const id of pruned) {
+    await db.delete(STORE_CONVERSATIONS, id);
+    await db.delete(STORE_SUMMARIES, id);
+  }
+  await releaseAttachments(pruned);
+  return pruned;
+}
+
+function deleteEmbeddingsInBackground(ids: string[]): void {
+  for (const id of ids) {
+    deleteChatEmbeddings(id).catch((error) => {
+      console.error("[ChatStore] Failed to delete embeddings:", error);
+    });
+  }
+}
+
+/**
+ * Whether a conversation was deleted (in any tab).
+ */
+async function isTombstoned(db: StorageAdapter<ChatDbSchema>, id: string): Promise<boolean> {
+  return (await db.get(STORE_META, TOMBSTONE_PREFIX + id)) !== undefined;
+}
+
+/**
+ * Combine a conversation with its stored copy, which another tab may have
+ * changed since this one loaded it. Each tab's timestamps come from its own
+ * clock, so no copy simply wins: the message tree keeps the messages of
+ * both, and the newer copy decides the viewed branch and the title.
+ *
+ * @returns The conversation to write, or null if the stored copy already
+ *   holds everything
+ */
+function mergeWithStored(
+  stored: ChatConversation,
+  conversation: ChatConversation
+): ChatConversation | null {
+  if (stored.updatedAt <= conversation.updatedAt) {
+    return { ...conversation, tree: mergeTrees(stored.tree, conversation.tree) };
+  }
+
+  // The stored copy is newer - only add the messages it doesn't have
+  const storedIds = new Set(stored.tree.map((node) => node.message.id));
+  const added = conversation.tree.filter((node) => !storedIds.has(node.message.id));
+  if (added.length === 0) return null;
+  return { ...stored, tree: [...stored.tree, ...added], updatedAt: Date.now() };
+}
+
+/**
+ * Save one conversation (its messages and summary) and embed it in the
+ * background. If another tab saved it since, both tabs' messages are kept
+ * (see mergeWithStored); if another tab deleted it, nothing is written.
+ *
+ * @param options.maxConversations - Delete the oldest conversations beyond
+ *   this many
+ * @returns Whether the conversation was written
+ */
+export async function saveConversation(
+  conversation: ChatConversation,
+  options: { maxConversations?: number } = {}
+): Promise<boolean> {
+  const { written, saved, pruned } = await withStoreLock(CHAT_LOCK, async () => {
+    const db = await getDb();
+    if (await isTombstoned(db, conversation.id)) {
+      return { written: false, saved: conversation, pruned: [] as string[] };
+    }
+    const stored = await db.get(STORE_CONVERSATIONS, conversation.id);
+    const merged = stored
+      ? mergeWithStored(fromStoredConversation(stored), conversation)
+      : conversation;
+    if (!merged) {
+      return { written: false, saved: conversation, pruned: [] as string[] };
     }
-  });
 
-  tx.objectStore(STORE_META).put(
-    normalized.activeConversationId ?? null,
-    "activeConversationId"
-  );
-  await tx.done;
+    // Move inline attachments to the attachment store, then sanitize to
+    // remove other non-serializable data (File, Blob, etc.)
+    const { conversation: withReferences, hashes } =
+      await storeConversationAttachments(merged);
+    const record = toStoredConversation(withReferences);
 
-  persistSummary(normalized);
+    const tx = db.transaction([STORE_CONVERSATIONS, STORE_SUMMARIES], "readwrite");
+    tx.objectStore(STORE_CONVERSATIONS).put(record);
+    tx.objectStore(STORE_SUMMARIES).put(summarizeConversation(record));
+    await tx.done;
+    await setAttachmentRefs(record.id, hashes);
 
-  // Auto-embed conversations in background (non-blocking)
-  // Uses hash-based caching so unchanged content won't re-embed
-  for (const conversation of sanitizedConversations) {
-    embedChatIfChanged(conversation).catch((error) => {
+    const pruned =
+      options.maxConversations !== undefined
+        ? await pruneConversations(db, options.maxConversations)
+        : [];
+    await refreshStoredSummary(db);
+    return { written: true, saved: fromStoredConversation(record), pruned };
+  });
+
+  if (written) {
+    publishChange("chats");
+    // Uses hash-based caching so unchanged content won't re-embed
+    embedChatIfChanged(saved).catch((error) => {
       console.error("[ChatStore] Failed to embed conversation:", error);
     });
   }
+  deleteEmbeddingsInBackground(pruned);
+  return written;
+}
 
-  // Clean up embeddings for deleted conversations
-  for (const deletedId of deletedKeys) {
-    deleteChatEmbeddings(deletedId).catch((error) => {
-      console.error("[ChatStore] Failed to delete embeddings:", error);
-    });
-  }
+/**
+ * Change a conversation's title fields or model without reading or
+ * rewriting its messages. Ignored if the stored copy is newer or the conversation is gone.
+ *
+ * @returns Whether the conversation was updated
+ */
+export async function updateConversation(
+  id: string,
+  update: Partial<Pick<ChatConversation, "title" | "userRenamed" | "modelId" | "updatedAt">>
+): Promise<boolean> {
+  const updated = await withStoreLock(CHAT_LOCK, async () => {
+    const db = await getDb();
+    const tx = db.transaction([STORE_CONVERSATIONS, STORE_SUMMARIES], "readwrite");
+    const conversationStore = tx.objectStore(STORE_CONVERSATIONS);
+    const summaryStore = tx.objectStore(STORE_SUMMARIES);
+    const [conversation, summary] = await Promise.all([
+      conversationStore.get(id),
+      summaryStore.get(id),
+    ]);
+    if (!conversation || !summary) return false;
+    if (update.updatedAt !== undefined && summary.updatedAt > update.updatedAt) return false;
+
+    conversationStore.put({ ...conversation, ...update });
+    summaryStore.put({ ...summary, ...update });
+    await tx.done;
+    await refreshStoredSummary(db);
+    return true;
+  });
+
+  if (updated) publishChange("chats");
+  return updated;
 }
 
-export async function clearChatState(): Promise<void> {
-  if (typeof window === "undefined") return;
+/**
+ * Delete a conversation with its embeddings and attachments (unless another
+ * conversation references the same file). Its id is tombstoned so later
+ * saves from other tabs don't bring it back.
+ */
+export async function deleteConversation(id: string): Promise<void> {
+  await withStoreLock(CHAT_LOCK, async () => {
+    const db = await getDb();
+    const tx = db.transaction([STORE_CONVERSATIONS, STORE_SUMMARIES, STORE_META], "readwrite");
+    tx.objectStore(STORE_CONVERSATIONS).delete(id);
+    tx.objectStore(STORE_SUMMARIES).delete(id);
+    tx.objectStore(STORE_META).put(Date.now(), TOMBSTONE_PREFIX + id);
+    await tx.done;
+    await releaseAttachments([id]);
+    await refreshStoredSummary(db);
+  });
+  publishChange("chats");
+  deleteEmbeddingsInBackground([id]);
+}
+
+/**
+ * Remember which conversation is open (restored on the next load).
+ * Not broadcast: each tab has its own active conversation.
+ */
+export async function saveActiveConversationId(id: string | null): Promise<void> {
   const db = await getDb();
-  const tx = db.transaction([STORE_CONVERSATIONS, STORE_META], "readwrite");
-  await tx.objectStore(STORE_CONVERSATIONS).clear();
-  await tx.objectStore(STORE_META).clear();
-  await tx.done;
+  await db.put(STORE_META, id, "activeConversationId");
+  const summary = readSummaryFromStorage();
+  persistSummary({ ...summary, activeConversationId: id });
+}
+
+export async function clearChatState(): Promise<void> {
+  await withStoreLock(CHAT_LOCK, async () => {
+    const db = await getDb();
+    const deletedAt = Date.now();
+    const tx = db.transaction([STORE_CONVERSATIONS, STORE_SUMMARIES, STORE_META], "readwrite");
+    const ids = await tx.objectStore(STORE_CONVERSATIONS).getAllKeys();
+    await tx.objectStore(STORE_CONVERSATIONS).clear();
+    await tx.objectStore(STORE_SUMMARIES).clear();
+    await tx.objectStore(STORE_META).clear();
+    // Nothing left to build summaries from
+    await tx.objectStore(STORE_META).put(true, SUMMARIES_BUILT_KEY);
+    for (const id of ids) {
+      await tx.objectStore(STORE_META).put(deletedAt, TOMBSTONE_PREFIX + id);
+    }
+    await tx.done;
+    await clearAttachments();
+  });
   persistSummary({ conversations: [], activeConversationId: null });
+  publishChange("chats");
 }
@@ -0,0 +1,280 @@
+/**
+ * Context Saver Queue Store
+ *
+ * Background Context Saver tasks (save_to_context and memory inbox saves)
+ * are persisted here so a reload or a network error doesn't lose them.
+ * The scheduler in lib/context-saver-queue.ts runs queued tasks; finished
+ * ones stay as history until pruned or cleared.
+ *
+ * Every tab runs the same queue, so a tab claims a task before running it
+ * (claimQueuedSave, under a cross-tab lock) and keeps the claim alive with
+ * a heartbeat. A claim whose heartbeat stopped - the tab was closed or
+ * reloaded mid-run - is handed back to the queue by requeueStaleSaves.
+ * Changes other tabs should see are published on the "context-saves" topic.
+ *
+ * Opened through the storage adapter (./adapter.ts).
+ */
+
+import {
+  openDatabase,
+  type DatabaseDefinition,
+  type DatabaseSchema,
+  type StorageAdapter,
+} from "./adapter";
+import { publishChange, withStoreLock } from "./sync";
+import type { UIMessage } from "ai";
+import type { ContextSaverStep } from "@/lib/context-saver-stream";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type QueuedSaveStatus = "queued" | "running" | "complete" | "error";
+
+/**
+ * A Context Saver task and its outcome.
+ */
+export interface QueuedSave {
+  id: string;
+  /** What to save (the save_to_context `information`) */
+  information: string;
+  /** Topic hint for the Context Saver */
+  context?: string;
+  /** Conversation that asked for the save, if any */
+  conversationId?: string | null;
+  status: QueuedSaveStatus;
+  /** Runs started so far, including the current one */
+  attempts: number;
+  /** Earliest time a queued task may run (backoff after a failed attempt) */
+  nextAttemptAt: number;
+  /** Error from the most recent failed attempt */
+  lastError?: string;
+  /** Last file the agent wrote to (status "complete") */
+  savedPath?: string;
+  /** Tool calls of the finished run */
+  steps: ContextSaverStep[];
+  /**
+   * The agent's message as of its last finished step, while the task isn't
+   * complete. A retry resumes from here, so writes of earlier steps aren't
+   * made again.
+   */
+  message?: UIMessage;
+  /** Tab running the task (status "running") */
+  claimedBy?: string;
+  /** Last time the running tab renewed its claim */
+  heartbeatAt?: number;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+// =============================================================================
+// DATABASE SCHEMA
+// =============================================================================
+
+interface ContextSaverQueueDbSchema extends DatabaseSchema {
+  tasks: {
+    key: string;
+    value: QueuedSave;
+    indexes: {
+      "by-status": string;
+    };
+  };
+}
+
+const CONTEXT_SAVER_QUEUE_DB: DatabaseDefinition<ContextSaverQueueDbSchema> = {
+  name: "context_saver_queue_v1",
+  version: 1,
+  stores: {
+    tasks: { keyPath: "id", indexes: { "by-status": "status" } },
+  },
+};
+
+/** Cross-tab lock for claiming tasks (see ./sync.ts) */
+const QUEUE_LOCK = "context-saver-queue";
+
+function getDb(): Promise<StorageAdapter<ContextSaverQueueDbSchema>> {
+  return openDatabase(CONTEXT_SAVER_QUEUE_DB);
+}
+
+// =============================================================================
+// TASKS
+// =============================================================================
+
+export async function putQueuedSave(save: QueuedSave): Promise<void> {
+  const db = await getDb();
+  await db.put("tasks", save);
+  publishChange("context-saves");
+}
+
+export async function getQueuedSave(id: string): Promise<QueuedSave | undefined> {
+  const db = await getDb();
+  return db.get("tasks", id);
+}
+
+/**
+ * Get tasks, newest first. Pass a status to get only those.
+ */
+export async function getQueuedSaves(status?: QueuedSaveStatus): Promise<QueuedSave[]> {
+  const db = await getDb();
+  const saves = status
+    ? await db.getAllFromIndex("tasks", "by-status", status)
+    : await db.getAll("tasks");
+  return saves.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Delete a task unless a tab is running it.
+ *
+ * @returns false if the task is running
+ */
+export async function deleteQueuedSave(id: string): Promise<boolean> {
+  const deleted = await withStoreLock(QUEUE_LOCK, async () => {
+    const db = await getDb();
+    const save = await db.get("tasks", id);
+    if (save?.status === "running") return false;
+    await db.delete("tasks", id);
+    return true;
+  });
+  if (deleted) publishChange("context-saves");
+  return deleted;
+}
+
+/**
+ * Delete finished tasks (complete and failed), keeping the newest `keep`.
+ *
+ * @returns IDs of the deleted tasks
+ */
+export async function pruneQueuedSaves(keep = 0): Promise<string[]> {
+  const db = await getDb();
+  const finished = (await db.getAll("tasks"))
+    .filter((save) => save.status === "complete" || save.status === "error")
+    .sort((a, b) => (b.completedAt ?? b.updatedAt) - (a.completedAt ?? a.updatedAt));
+  const stale = finished.slice(keep);
+  for (const save of stale) {
+    await db.delete("tasks", save.id);
+  }
+  if (stale.length > 0) publishChange("context-saves");
+  return stale.map((save) => save.id);
+}
+
+// =============================================================================
+// CLAIMS
+// =============================================================================
+
+/**
+ * Claim a due queued task for a tab: mark it running, count the attempt and
+ * start its heartbeat. Atomic across tabs, so only one tab gets each run.
+ *
+ * @returns The claimed task, or null if it's gone, not queued or not due
+ */
+export async function claimQueuedSave(id: string, tabId: string): Promise<QueuedSave | null> {
+  const claimed = await withStoreLock(QUEUE_LOCK, async () => {
+    const db = await getDb();
+    const save = await db.get("tasks", id);
+    const now = Date.now();
+    if (!save || save.status !== "queued" || save.nextAttemptAt > now) return null;
+
+    const claimed: QueuedSave = {
+      ...save,
+      status: "running",
+      attempts: save.attempts + 1,
+      claimedBy: tabId,
+      heartbeatAt: now,
+      updatedAt: now,
+    };
+    await db.put("tasks", claimed);
+    return claimed;
+  });
+  if (claimed) publishChange("context-saves");
+  return claimed;
+}
+
+/**
+ * Renew a tab's claims on the tasks it's running.
+ *
+ * @returns IDs of the tasks the tab no longer holds (requeued or removed)
+ */
+export async function renewQueuedSaveClaims(ids: string[], tabId: string): Promise<string[]> {
+  return withStoreLock(QUEUE_LOCK, async () => {
+    const db = await getDb();
+    const lost: string[] = [];
+    for (const id of ids) {
+      const save = await db.get("tasks", id);
+      if (!save || save.status !== "running" || save.claimedBy !== tabId) {
+        lost.push(id);
+        continue;
+      }
+      await db.put("tasks", { ...save, heartbeatAt: Date.now() });
+    }
+    return lost;
+  });
+}
+
+/**
+ * Store a running task's progress (the message to resume from) and renew
+ * its claim.
+ *
+ * @returns false if the tab no longer holds the claim
+ */
+export async function checkpointQueuedSave(
+  id: string,
+  tabId: string,
+  message: UIMessage
+): Promise<boolean> {
+  return withStoreLock(QUEUE_LOCK, async () => {
+    const db = await getDb();
+    const save = await db.get("tasks", id);
+    if (!save || save.status !== "running" || save.claimedBy !== tabId) return false;
+    const now = Date.now();
+    await db.put("tasks", { ...save, message, heartbeatAt: now, updatedAt: now });
+    return true;
+  });
+}
+
+/**
+ * Store the outcome of a run, unless the tab lost its claim meanwhile (the
+ * task was requeued for another tab, or removed).
+ *
+ * @returns Whether the task was written
+ */
+export async function releaseQueuedSave(save: QueuedSave, tabId: string): Promise<boolean> {
+  const released = await withStoreLock(QUEUE_LOCK, async () => {
+    const db = await getDb();
+    const stored = await db.get("tasks", save.id);
+    if (!stored || stored.status !== "running" || stored.claimedBy !== tabId) return false;
+    await db.put("tasks", { ...save, claimedBy: undefined, heartbeatAt: undefined });
+    return true;
+  });
+  if (released) publishChange("context-saves");
+  return released;
+}
+
+/**
+ * Queue running tasks again whose heartbeat stopped before `staleBefore`.
+ *
+ * @returns The requeued tasks
+ */
+export async function requeueStaleSaves(staleBefore: number): Promise<QueuedSave[]> {
+  const requeued = await withStoreLock(QUEUE_LOCK, async () => {
+    const db = await getDb();
+    const requeued: QueuedSave[] = [];
+    for (const save of await db.getAllFromIndex("tasks", "by-status", "running")) {
+      if ((save.heartbeatAt ?? save.updatedAt) >= staleBefore) continue;
+      const now = Date.now();
+      const queued: QueuedSave = {
+        ...save,
+        status: "queued",
+        claimedBy: undefined,
+        heartbeatAt: undefined,
+        nextAttemptAt: now,
+        updatedAt: now,
+      };
+      await db.put("tasks", queued);
+      requeued.push(queued);
+    }
+    return requeued;
+  });
+  if (requeued.length > 0) publishChange("context-saves");
+  return requeued;
+}
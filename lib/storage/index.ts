@@ -3,13 +3,35 @@
  *
  * Exports all storage-related functionality including:
  * - Chat state management
+ * - Chat attachments (content-addressed file store)
  * - Chat embeddings for semantic search
+ * - Memory inbox (facts proposed from idle conversations)
+ * - Context saver queue (background saves and their history)
+ * - Storage adapter and backends (IndexedDB, in-memory)
+ * - Cross-tab sync (change notifications and locks)
  */
 
+// Storage adapter
+export * from "./adapter";
+export { createIndexedDbBackend } from "./indexeddb-adapter";
+export { createMemoryBackend } from "./memory-adapter";
+
 // Chat state
 export * from "./chat-store";
 
+// Chat attachments
+export * from "./attachment-store";
+
 // Chat embeddings
 export * from "./chat-embeddings-idb";
 export * from "./chat-embeddings-ops";
 export * from "./chat-chunker";
+
+// Memory inbox
+export * from "./memory-inbox";
+
+// Context saver queue
+export * from "./context-saver-queue";
+
+// Cross-tab sync
+export * from "./sync";
@@ -0,0 +1,94 @@
+/**
+ * IndexedDB Storage Backend
+ *
+ * Browser backend for the storage adapter, built on the 'idb' library.
+ * Stores and indexes listed in a DatabaseDefinition are created in the
+ * upgrade callback when missing, so bumping a definition's version and
+ * adding a store is all a schema migration needs.
+ */
+
+import { openDB, type IDBPDatabase } from "idb";
+import type {
+  DatabaseDefinition,
+  DatabaseSchema,
+  StorageAdapter,
+  StorageBackend,
+  StoreHandle,
+  TransactionMode,
+} from "./adapter";
+
+// idb's own generics don't line up with ours, so the wrapper talks to an
+// untyped database and the adapter interface restores the types
+type UntypedDb = IDBPDatabase<unknown>;
+type UntypedStore = {
+  get(key: IDBValidKey): Promise<unknown>;
+  getAll(): Promise<unknown[]>;
+  getAllKeys(): Promise<IDBValidKey[]>;
+  put(value: unknown, key?: IDBValidKey): Promise<IDBValidKey>;
+  delete(key: IDBValidKey): Promise<void>;
+  clear(): Promise<void>;
+};
+
+function wrapStore<N extends string>(store: UntypedStore): StoreHandle<DatabaseSchema, N> {
+  const handle: StoreHandle<DatabaseSchema, string> = {
+    get: (key) => store.get(key),
+    getAll: () => store.getAll(),
+    getAllKeys: () => store.getAllKeys() as Promise<Array<string | number>>,
+    put: (value, key) => store.put(value, key) as Promise<string | number>,
+    delete: (key) => store.delete(key),
+    clear: () => store.clear(),
+  };
+  return handle as StoreHandle<DatabaseSchema, N>;
+}
+
+function wrapDatabase(db: UntypedDb): StorageAdapter<DatabaseSchema> {
+  return {
+    get: (store, key) => db.get(store, key),
+    getAll: (store) => db.getAll(store),
+    getAllKeys: (store) => db.getAllKeys(store) as Promise<Array<string | number>>,
+    getAllFromIndex: (store, index, query) => db.getAllFromIndex(store, index, query),
+    count: (store) => db.count(store),
+    put: (store, value, key) => db.put(store, value, key) as Promise<string | number>,
+    delete: (store, key) => db.delete(store, key),
+    clear: (store) => db.clear(store),
+    transaction: <N extends string>(stores: N | N[], mode: TransactionMode = "readonly") => {
+      const names = Array.isArray(stores) ? stores : [stores];
+      const tx = db.transaction(names, mode);
+      return {
+        objectStore: <M extends N>(name: M) => wrapStore<M>(tx.objectStore(name) as unknown as UntypedStore),
+        store: wrapStore<N>(tx.objectStore(names[0]) as unknown as UntypedStore),
+        done: tx.done,
+      };
+    },
+    close: () => db.close(),
+  };
+}
+
+/**
+ * Create the IndexedDB backend.
+ */
+export function createIndexedDbBackend(): StorageBackend {
+  return {
+    name: "indexeddb",
+    async open<S extends DatabaseSchema>(definition: DatabaseDefinition<S>) {
+      const db = await openDB(definition.name, definition.version, {
+        upgrade(db, oldVersion, newVersion, tx) {
+          console.log(`[Storage] Upgrading ${definition.name} from v${oldVersion} to v${newVersion}`);
+
+          for (const [storeName, store] of Object.entries(definition.stores)) {
+            const objectStore = db.objectStoreNames.contains(storeName)
+              ? tx.objectStore(storeName)
+              : db.createObjectStore(storeName, store.keyPath ? { keyPath: store.keyPath } : undefined);
+
+            for (const [indexName, keyPath] of Object.entries(store.indexes ?? {})) {
+              if (!objectStore.indexNames.contains(indexName)) {
+                objectStore.createIndex(indexName, keyPath, { unique: false });
+              }
+            }
+          }
+        },
+      });
+      return wrapDatabase(db) as unknown as StorageAdapter<S>;
+    },
+  };
+}
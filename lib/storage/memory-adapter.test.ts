@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setStorageBackend } from "./adapter";
+import { createMemoryBackend } from "./memory-adapter";
+import { readFile, writeFile } from "@/knowledge/operations";
+import { createLink, getLinksForFile } from "@/knowledge/links/operations";
+import { embedFile } from "@/knowledge/embeddings/operations";
+import { hybridSearch } from "@/knowledge/embeddings/hybrid-search";
+import { searchLargeDocuments, uploadLargeDocumentFromText } from "@/knowledge/large-documents/operations";
+import type { Embedder } from "@/knowledge/embeddings/types";
+import { createMockEmbedding } from "@/agents/mock-model";
+
+/** Deterministic word-hash embeddings instead of /api/embed */
+const embed: Embedder = async (texts) => texts.map((text) => createMockEmbedding(text, 256));
+
+const TYPESCRIPT_NOTE = "# Languages\n\nPrefers TypeScript with strict mode for new projects.";
+const TRAVEL_NOTE = "# Travel\n\nSpends the summer hiking in the Alps.";
+
+describe("knowledge layer on the in-memory backend", () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend());
+    // writeFile also embeds in the background through /api/embed, which
+    // doesn't exist here - that failure is logged and ignored
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("writes, links and searches files", async () => {
+    await writeFile("/preferences/languages.md", TYPESCRIPT_NOTE);
+    await writeFile("/notes/travel.md", TRAVEL_NOTE);
+    await embedFile("/preferences/languages.md", TYPESCRIPT_NOTE, embed);
+    await embedFile("/notes/travel.md", TRAVEL_NOTE, embed);
+
+    const linked = await createLink("/notes/travel.md", "/preferences/languages.md", "references");
+    expect(linked.success).toBe(true);
+
+    expect(await readFile("/preferences/languages.md")).toBe(TYPESCRIPT_NOTE);
+    const links = await getLinksForFile("/preferences/languages.md");
+    expect(links.incoming.map((link) => link.source)).toEqual(["/notes/travel.md"]);
+
+    const results = await hybridSearch("typescript strict mode", { embed });
+    expect(results[0].filePath).toBe("/preferences/languages.md");
+    expect(results[0].chunkText).toContain("strict mode");
+  });
+
+  it("uploads and searches large documents", async () => {
+    await uploadLargeDocumentFromText(
+      "handbook.md",
+      "# Onboarding\n\nNew hires get a laptop on day one.\n\n# Expenses\n\nSubmit receipts within 30 days.",
+      "text/markdown",
+      undefined,
+      undefined,
+      embed
+    );
+
+    const results = await searchLargeDocuments("expense receipts", { embed, threshold: 0 });
+    expect(results[0].filename).toBe("handbook.md");
+    expect(results[0].chunkText).toContain("receipts");
+  });
+
+  it("keeps each backend's data separate", async () => {
+    await writeFile("/notes/travel.md", TRAVEL_NOTE);
+    setStorageBackend(createMemoryBackend());
+
+    await expect(readFile("/notes/travel.md")).rejects.toThrow("Not found");
+  });
+});
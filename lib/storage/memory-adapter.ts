@@ -0,0 +1,141 @@
+/**
+ * In-Memory Storage Backend
+ *
+ * Map-based backend for the storage adapter. Used automatically wherever
+ * IndexedDB is missing (Node scripts, tests, server code), so the knowledge
+ * layer runs unchanged outside the browser.
+ *
+ * Mirrors the IndexedDB behaviour callers rely on:
+ * - values are structured-cloned on the way in and out
+ * - getAll / getAllFromIndex return records in key order
+ * - transactions apply each operation immediately (there's no concurrent
+ *   writer to isolate from, so `done` is already resolved)
+ *
+ * Data lives as long as the backend object; reopening a database by name
+ * on the same backend returns the same data.
+ */
+
+import type {
+  DatabaseDefinition,
+  DatabaseSchema,
+  StorageAdapter,
+  StorageBackend,
+  StorageKey,
+  StoreDefinition,
+  StoreHandle,
+} from "./adapter";
+
+interface MemoryStore {
+  definition: StoreDefinition;
+  records: Map<StorageKey, unknown>;
+}
+
+type MemoryDatabase = Map<string, MemoryStore>;
+
+/** IndexedDB key order: numbers sort before strings */
+function compareKeys(a: StorageKey, b: StorageKey): number {
+  if (typeof a !== typeof b) return typeof a === "number" ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function sortedEntries(store: MemoryStore): Array<[StorageKey, unknown]> {
+  return Array.from(store.records.entries()).sort(([a], [b]) => compareKeys(a, b));
+}
+
+function storeHandle<N extends string>(database: MemoryDatabase, name: N): StoreHandle<DatabaseSchema, N> {
+  const store = database.get(name);
+  if (!store) {
+    throw new Error(`No such object store: ${name}`);
+  }
+
+  const handle: StoreHandle<DatabaseSchema, string> = {
+    get: async (key) => structuredClone(store.records.get(key)),
+
+    getAll: async () => sortedEntries(store).map(([, value]) => structuredClone(value)),
+
+    getAllKeys: async () => sortedEntries(store).map(([key]) => key),
+
+    put: async (value, key) => {
+      const { keyPath } = store.definition;
+      const recordKey = keyPath ? (value as Record<string, StorageKey>)[keyPath] : key;
+      if (recordKey === undefined) {
+        throw new Error(`Missing key for object store: ${name}`);
+      }
+      store.records.set(recordKey, structuredClone(value));
+      return recordKey;
+    },
+
+    delete: async (key) => {
+      store.records.delete(key);
+    },
+
+    clear: async () => {
+      store.records.clear();
+    },
+  };
+  return handle as StoreHandle<DatabaseSchema, N>;
+}
+
+function createMemoryDatabase(database: MemoryDatabase): StorageAdapter<DatabaseSchema> {
+  return {
+    get: (store, key) => storeHandle(database, store).get(key),
+    getAll: (store) => storeHandle(database, store).getAll(),
+    getAllKeys: (store) => storeHandle(database, store).getAllKeys(),
+
+    getAllFromIndex: async (storeName, index, query) => {
+      const store = database.get(storeName);
+      const keyPath = store?.definition.indexes?.[index];
+      if (!store || !keyPath) {
+        throw new Error(`No such index: ${storeName}.${index}`);
+      }
+      return sortedEntries(store)
+        .filter(([, value]) => (value as Record<string, unknown>)[keyPath] === query)
+        .map(([, value]) => structuredClone(value));
+    },
+
+    count: async (store) => (await storeHandle(database, store).getAllKeys()).length,
+    put: (store, value, key) => storeHandle(database, store).put(value, key),
+    delete: (store, key) => storeHandle(database, store).delete(key),
+    clear: (store) => storeHandle(database, store).clear(),
+
+    transaction: <N extends string>(stores: N | N[]) => {
+      const names = Array.isArray(stores) ? stores : [stores];
+      return {
+        objectStore: <M extends N>(name: M) => storeHandle(database, name),
+        store: storeHandle(database, names[0]),
+        done: Promise.resolve(),
+      };
+    },
+
+    close: () => undefined,
+  };
+}
+
+/**
+ * Create an in-memory backend. Each backend holds its own set of databases.
+ */
+export function createMemoryBackend(): StorageBackend {
+  const databases = new Map<string, MemoryDatabase>();
+
+  return {
+    name: "memory",
+    async open<S extends DatabaseSchema>(definition: DatabaseDefinition<S>) {
+      let database = databases.get(definition.name);
+      if (!database) {
+        database = new Map();
+        databases.set(definition.name, database);
+      }
+
+      for (const [storeName, store] of Object.entries(definition.stores) as Array<[string, StoreDefinition]>) {
+        const existing = database.get(storeName);
+        if (existing) {
+          existing.definition = store;
+        } else {
+          database.set(storeName, { definition: store, records: new Map() });
+        }
+      }
+
+      return createMemoryDatabase(database) as unknown as StorageAdapter<S>;
+    },
+  };
+}
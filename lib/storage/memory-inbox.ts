@@ -0,0 +1,187 @@
+/**
+ * Memory Inbox Store
+ *
+ * Facts proposed by the Memory Extractor (lib/memory-extraction.ts) wait
+ * here until the user saves or dismisses them from the sidebar inbox.
+ * Saved and dismissed proposals are kept so the same fact isn't proposed
+ * again.
+ *
+ * Also keeps a per-conversation cursor (the last message already
+ * extracted) so each extraction only reads new messages.
+ *
+ * Opened through the storage adapter (./adapter.ts).
+ */
+
+import {
+  openDatabase,
+  type DatabaseDefinition,
+  type DatabaseSchema,
+  type StorageAdapter,
+} from "./adapter";
+import type { MemoryCategory } from "@/agents/memory-extractor-agent";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MemoryProposalStatus = "pending" | "saving" | "saved" | "dismissed" | "error";
+
+/**
+ * A fact waiting in the inbox.
+ */
+export interface MemoryProposal {
+  id: string;
+  /** The fact as one sentence */
+  text: string;
+  category: MemoryCategory;
+  /** Topic label passed to the Context Saver as `context` */
+  context: string;
+  /** Conversation the fact came from */
+  conversationId: string;
+  status: MemoryProposalStatus;
+  /** Context saver queue task saving it (status "saving" and after) */
+  taskId?: string;
+  /** Where the Context Saver put it (status "saved") */
+  savedPath?: string;
+  /** Why saving failed (status "error") */
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// =============================================================================
+// DATABASE SCHEMA
+// =============================================================================
+
+interface MemoryInboxDbSchema extends DatabaseSchema {
+  proposals: {
+    key: string;
+    value: MemoryProposal;
+    indexes: {
+      "by-status": string;
+    };
+  };
+  /** conversationId -> ID of the last message extracted */
+  cursors: {
+    key: string;
+    value: string;
+  };
+}
+
+const MEMORY_INBOX_DB: DatabaseDefinition<MemoryInboxDbSchema> = {
+  name: "memory_inbox_v1",
+  version: 1,
+  stores: {
+    proposals: { keyPath: "id", indexes: { "by-status": "status" } },
+    cursors: {},
+  },
+};
+
+function getDb(): Promise<StorageAdapter<MemoryInboxDbSchema>> {
+  return openDatabase(MEMORY_INBOX_DB);
+}
+
+// =============================================================================
+// CHANGE LISTENERS
+// =============================================================================
+
+const listeners = new Set<() => void>();
+
+/**
+ * Subscribe to inbox changes (the sidebar badge and list use this).
+ *
+ * @returns Unsubscribe function
+ */
+export function onMemoryInboxChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyChange(): void {
+  for (const listener of listeners) listener();
+}
+
+// =============================================================================
+// PROPOSALS
+// =============================================================================
+
+/**
+ * Get all proposals, newest first.
+ */
+export async function getMemoryProposals(): Promise<MemoryProposal[]> {
+  const db = await getDb();
+  const proposals = await db.getAll("proposals");
+  return proposals.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Get proposals the user hasn't saved or dismissed yet (pending, saving
+ * and failed), newest first.
+ */
+export async function getOpenMemoryProposals(): Promise<MemoryProposal[]> {
+  const proposals = await getMemoryProposals();
+  return proposals.filter((p) => p.status !== "saved" && p.status !== "dismissed");
+}
+
+/**
+ * Add proposals to the inbox as pending.
+ */
+export async function addMemoryProposals(
+  facts: Array<Pick<MemoryProposal, "text" | "category" | "context" | "conversationId">>
+): Promise<MemoryProposal[]> {
+  if (facts.length === 0) return [];
+
+  const db = await getDb();
+  const now = Date.now();
+  const proposals = facts.map((fact) => ({
+    ...fact,
+    id: `mem-${now}-${Math.random().toString(36).slice(2, 9)}`,
+    status: "pending" as const,
+    createdAt: now,
+    updatedAt: now,
+  }));
+  for (const proposal of proposals) {
+    await db.put("proposals", proposal);
+  }
+  notifyChange();
+  return proposals;
+}
+
+/**
+ * Update a proposal's status (and taskId/savedPath/error).
+ *
+ * @throws Error if the proposal doesn't exist
+ */
+export async function updateMemoryProposal(
+  id: string,
+  update: Partial<Pick<MemoryProposal, "status" | "taskId" | "savedPath" | "error">>
+): Promise<MemoryProposal> {
+  const db = await getDb();
+  const proposal = await db.get("proposals", id);
+  if (!proposal) {
+    throw new Error(`Memory proposal not found: ${id}`);
+  }
+  const updated = { ...proposal, ...update, updatedAt: Date.now() };
+  await db.put("proposals", updated);
+  notifyChange();
+  return updated;
+}
+
+// =============================================================================
+// EXTRACTION CURSORS
+// =============================================================================
+
+/**
+ * ID of the last message already extracted from a conversation.
+ */
+export async function getExtractionCursor(conversationId: string): Promise<string | undefined> {
+  const db = await getDb();
+  return db.get("cursors", conversationId);
+}
+
+export async function setExtractionCursor(conversationId: string, messageId: string): Promise<void> {
+  const db = await getDb();
+  await db.put("cursors", messageId, conversationId);
+}
@@ -0,0 +1,114 @@
+/**
+ * Cross-Tab Sync
+ *
+ * Every open tab has its own in-memory state on top of the same IndexedDB
+ * databases, so a write in one tab is invisible to the others until they
+ * reload - and a tab saving its stale view can overwrite what another tab
+ * just wrote. This module is the change-notification bus between tabs:
+ *
+ * - publishChange(topic): after a store mutates, tell the other tabs
+ *   (BroadcastChannel). The publishing tab is not notified.
+ * - onRemoteChange(topic, listener): reload when another tab changed a store
+ * - withStoreLock(name, fn): run a read-modify-write under a Web Lock held
+ *   across tabs, so two tabs can't interleave updates to the same records
+ * - getTabId(): identifies this tab, e.g. to mark the records it works on
+ *
+ * TOPICS:
+ * -------
+ * - "knowledge": knowledge filesystem (nodes, links, trash)
+ * - "chats": chat history (chat-store.ts)
+ * - "large-documents": uploaded large documents
+ * - "context-saves": background Context Saver tasks (context-saver-queue.ts)
+ *
+ * Where BroadcastChannel or Web Locks are missing (Node scripts, server
+ * code, old browsers) publishing is a no-op and locks run the function
+ * directly. Safe to import anywhere.
+ */
+
+export type SyncTopic = "knowledge" | "chats" | "large-documents" | "context-saves";
+
+interface SyncMessage {
+  topic: SyncTopic;
+  /** Tab that published the change */
+  source: string;
+}
+
+const CHANNEL_NAME = "chatnoire-sync-v1";
+
+/** Identifies this tab, so a tab ignores its own messages */
+const TAB_ID = `tab-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+const listeners = new Map<SyncTopic, Set<() => void>>();
+let channel: BroadcastChannel | null = null;
+
+/**
+ * The shared channel, opened on first use. Null where BroadcastChannel is
+ * unavailable.
+ */
+function getChannel(): BroadcastChannel | null {
+  if (channel) return channel;
+  // Node has BroadcastChannel too, but there are no tabs to sync there
+  if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") {
+    return null;
+  }
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+    const message = event.data;
+    if (!message || message.source === TAB_ID) return;
+    for (const listener of listeners.get(message.topic) ?? []) {
+      try {
+        listener();
+      } catch (error) {
+        console.error(`[Sync] Listener for "${message.topic}" failed:`, error);
+      }
+    }
+  };
+  return channel;
+}
+
+/**
+ * This tab's id - stable for the life of the page, unique across tabs.
+ */
+export function getTabId(): string {
+  return TAB_ID;
+}
+
+/**
+ * Tell the other tabs that a store changed.
+ */
+export function publishChange(topic: SyncTopic): void {
+  const message: SyncMessage = { topic, source: TAB_ID };
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * Subscribe to changes another tab made to a store.
+ *
+ * @returns Unsubscribe function
+ */
+export function onRemoteChange(topic: SyncTopic, listener: () => void): () => void {
+  getChannel();
+  let topicListeners = listeners.get(topic);
+  if (!topicListeners) {
+    topicListeners = new Set();
+    listeners.set(topic, topicListeners);
+  }
+  topicListeners.add(listener);
+  return () => {
+    topicListeners.delete(listener);
+  };
+}
+
+/**
+ * Run fn while holding an exclusive lock shared by all tabs. Locks are not
+ * reentrant: fn must not take the same lock again.
+ *
+ * @param name - Lock name (one per store)
+ */
+export async function withStoreLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator === "undefined" || !navigator.locks) {
+    return fn();
+  }
+  return navigator.locks.request(`chatnoire:${name}`, fn);
+}
@@ -7,19 +7,35 @@
  * ARCHITECTURE:
  * - Uses IndexedDB for persistence (SSR-safe)
  * - Keeps a lightweight localStorage summary for fast sidebar loads
+ * - The sidebar list holds summaries only; a conversation's messages are
+ *   loaded when it is opened (loadConversation)
  * - Debounces writes to prevent excessive storage operations
  * - Provides optimistic updates for better UX
+ * - Saves only the conversations this tab changed or deleted (title-only
+ *   changes don't rewrite messages), and merges in changes other tabs make
+ *   (see lib/storage/sync.ts), so open tabs don't overwrite each other
  */
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import type { UIMessage } from "ai";
-import type { ChatConversation, ChatHistoryState } from "@/lib/chat-types";
+import type {
+  ChatConversation,
+  ChatMessageNode,
+  ChatSummary,
+  ChatSummaryState,
+} from "@/lib/chat-types";
+import { buildMessageTree } from "@/lib/chat-tree";
 import {
   clearChatState,
-  loadChatState,
+  deleteConversation as deleteStoredConversation,
+  loadChatSummaries,
+  loadConversation as loadStoredConversation,
   readSummaryFromStorage,
-  saveChatState,
+  saveActiveConversationId,
+  saveConversation,
+  updateConversation,
 } from "@/lib/storage/chat-store";
+import { onRemoteChange } from "@/lib/storage/sync";
 
 // =============================================================================
 // CONSTANTS
@@ -66,26 +82,161 @@ function generateTitle(messages: UIMessage[]): string {
   return textParts.substring(0, maxLength).trim() + "...";
 }
 
+/** Conversations changed or deleted in this tab that aren't stored yet */
+interface PendingChanges {
+  /** Any change (title, messages) */
+  changed: Set<string>;
+  /** Changes that include new messages */
+  withMessages: Set<string>;
+  deleted: Set<string>;
+}
+
+function emptyChanges(): PendingChanges {
+  return { changed: new Set(), withMessages: new Set(), deleted: new Set() };
+}
+
+/** Messages of a conversation that has been opened, as of updatedAt */
+interface LoadedMessages {
+  messages: UIMessage[];
+  tree: ChatMessageNode[];
+  updatedAt: number;
+}
+
+/**
+ * Merge stored summaries (which may include other tabs' changes) into this
+ * tab's state. Local changes that aren't stored yet win; unchanged
+ * conversations keep their object identity.
+ */
+function mergeStoredState(
+  local: ChatSummaryState,
+  stored: ChatSummaryState,
+  pending: PendingChanges
+): ChatSummaryState {
+  const localById = new Map(local.conversations.map((c) => [c.id, c]));
+  const conversations = new Map<string, ChatSummary>();
+
+  for (const conversation of stored.conversations) {
+    if (pending.deleted.has(conversation.id)) continue;
+    const localCopy = localById.get(conversation.id);
+    conversations.set(
+      conversation.id,
+      localCopy && localCopy.updatedAt === conversation.updatedAt ? localCopy : conversation
+    );
+  }
+  for (const conversation of local.conversations) {
+    if (!pending.changed.has(conversation.id)) continue;
+    const storedCopy = conversations.get(conversation.id);
+    if (!storedCopy || storedCopy.updatedAt <= conversation.updatedAt) {
+      conversations.set(conversation.id, conversation);
+    }
+  }
+
+  const merged = Array.from(conversations.values()).sort(
+    (a, b) => b.updatedAt - a.updatedAt
+  );
+  const activeId = local.activeConversationId;
+  return {
+    conversations: merged,
+    activeConversationId:
+      activeId === null || conversations.has(activeId)
+        ? activeId
+        : merged[0]?.id ?? null,
+  };
+}
+
+/**
+ * A summary with its messages.
+ */
+function withMessages(summary: ChatSummary, loaded: LoadedMessages): ChatConversation {
+  return {
+    id: summary.id,
+    title: summary.title,
+    ...(summary.userRenamed ? { userRenamed: true } : {}),
+    ...(summary.forkedFrom ? { forkedFrom: summary.forkedFrom } : {}),
+    ...(summary.modelId ? { modelId: summary.modelId } : {}),
+    messages: loaded.messages,
+    tree: loaded.tree,
+    createdAt: summary.createdAt,
+    updatedAt: summary.updatedAt,
+  };
+}
+
 // =============================================================================
 // HOOK
 // =============================================================================
 
 export function useChatHistory() {
-  const [state, setState] = useState<ChatHistoryState>(() =>
+  const [state, setState] = useState<ChatSummaryState>(() =>
     readSummaryFromStorage()
   );
   const [isHydrated, setIsHydrated] = useState(false);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const hasLocalEditsRef = useRef(false);
+  const stateRef = useRef(state);
+  // Messages of the conversations opened so far
+  const messagesRef = useRef(new Map<string, LoadedMessages>());
+  // Changes waiting for the next save, and changes being saved right now
+  const pendingRef = useRef<PendingChanges>(emptyChanges());
+  const savingRef = useRef<PendingChanges>(emptyChanges());
+  const savedActiveIdRef = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  const markChanged = useCallback((id: string, messagesChanged = false) => {
+    hasLocalEditsRef.current = true;
+    pendingRef.current.changed.add(id);
+    if (messagesChanged) pendingRef.current.withMessages.add(id);
+  }, []);
+
+  /**
+   * Merge stored summaries into state, keeping local changes that haven't
+   * been saved yet. Loaded messages that are now out of date are dropped,
+   * so they're read again when the conversation is opened.
+   */
+  const applyStoredState = useCallback((stored: ChatSummaryState) => {
+    // Snapshot now: the save may finish before React runs the updater
+    const unsaved: PendingChanges = {
+      changed: new Set([...pendingRef.current.changed, ...savingRef.current.changed]),
+      withMessages: new Set(),
+      deleted: new Set([...pendingRef.current.deleted, ...savingRef.current.deleted]),
+    };
+    const storedById = new Map(stored.conversations.map((c) => [c.id, c]));
+    for (const [id, loaded] of messagesRef.current) {
+      if (unsaved.changed.has(id)) continue;
+      const storedCopy = storedById.get(id);
+      if (!storedCopy || storedCopy.updatedAt > loaded.updatedAt) {
+        messagesRef.current.delete(id);
+      }
+    }
+    setState((prev) => mergeStoredState(prev, stored, unsaved));
+  }, []);
 
-  // Load full history from IndexedDB on mount (with legacy migration)
+  // Load the conversation list from IndexedDB on mount (with legacy
+  // migration), then the messages of the active conversation
   useEffect(() => {
     let cancelled = false;
-    loadChatState()
-      .then((loaded) => {
+    loadChatSummaries()
+      .then(async (loaded) => {
         if (cancelled) return;
         if (!hasLocalEditsRef.current) {
           setState(loaded);
+        } else {
+          applyStoredState(loaded);
+        }
+        savedActiveIdRef.current = loaded.activeConversationId;
+
+        const activeId = loaded.activeConversationId;
+        if (activeId && !messagesRef.current.has(activeId)) {
+          const conversation = await loadStoredConversation(activeId);
+          if (conversation && !messagesRef.current.has(activeId)) {
+            messagesRef.current.set(activeId, {
+              messages: conversation.messages,
+              tree: conversation.tree,
+              updatedAt: conversation.updatedAt,
+            });
+          }
         }
       })
       .catch((error) => {
@@ -100,21 +251,72 @@ export function useChatHistory() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [applyStoredState]);
 
-  // Persist state to IndexedDB with debouncing
+  // Pick up conversations other tabs created, changed or deleted
+  useEffect(() => {
+    return onRemoteChange("chats", () => {
+      loadChatSummaries()
+        .then(applyStoredState)
+        .catch((error) => {
+          console.error("[ChatHistory] Failed to reload from IndexedDB:", error);
+        });
+    });
+  }, [applyStoredState]);
+
+  // Persist changed conversations to IndexedDB with debouncing
   useEffect(() => {
     if (debounceTimerRef.current) {
       clearTimeout(debounceTimerRef.current);
     }
     debounceTimerRef.current = setTimeout(() => {
-      const limitedState = {
-        ...state,
-        conversations: state.conversations.slice(0, MAX_CONVERSATIONS),
-      };
-      saveChatState(limitedState).catch((error) => {
-        console.error("[ChatHistory] Failed to save to IndexedDB:", error);
-      });
+      const changes = pendingRef.current;
+      pendingRef.current = emptyChanges();
+      changes.changed.forEach((id) => savingRef.current.changed.add(id));
+      changes.deleted.forEach((id) => savingRef.current.deleted.add(id));
+
+      const saves: Promise<unknown>[] = [];
+      for (const id of changes.changed) {
+        const summary = state.conversations.find((c) => c.id === id);
+        if (!summary) continue;
+        const loaded = messagesRef.current.get(id);
+        if (loaded && changes.withMessages.has(id)) {
+          saves.push(
+            saveConversation(withMessages(summary, loaded), {
+              maxConversations: MAX_CONVERSATIONS,
+            })
+          );
+        } else {
+          saves.push(
+            updateConversation(id, {
+              title: summary.title,
+              userRenamed: summary.userRenamed,
+              modelId: summary.modelId,
+              updatedAt: summary.updatedAt,
+            })
+          );
+        }
+      }
+      for (const id of changes.deleted) {
+        saves.push(deleteStoredConversation(id));
+      }
+      if (isHydrated && savedActiveIdRef.current !== state.activeConversationId) {
+        savedActiveIdRef.current = state.activeConversationId;
+        saves.push(saveActiveConversationId(state.activeConversationId));
+      }
+
+      Promise.all(saves)
+        .catch((error) => {
+          console.error("[ChatHistory] Failed to save to IndexedDB:", error);
+          // Retry with the next save
+          changes.changed.forEach((id) => pendingRef.current.changed.add(id));
+          changes.withMessages.forEach((id) => pendingRef.current.withMessages.add(id));
+          changes.deleted.forEach((id) => pendingRef.current.deleted.add(id));
+        })
+        .finally(() => {
+          changes.changed.forEach((id) => savingRef.current.changed.delete(id));
+          changes.deleted.forEach((id) => savingRef.current.deleted.delete(id));
+        });
     }, DEBOUNCE_MS);
 
     return () => {
@@ -122,12 +324,36 @@ export function useChatHistory() {
         clearTimeout(debounceTimerRef.current);
       }
     };
-  }, [state]);
+  }, [state, isHydrated]);
 
   // ---------------------------------------------------------------------------
   // CONVERSATION MANAGEMENT
   // ---------------------------------------------------------------------------
 
+  /**
+   * Load a conversation with its messages (e.g. to open it).
+   * Messages are read from IndexedDB the first time and kept after that.
+   */
+  const loadConversation = useCallback(
+    async (id: string): Promise<ChatConversation | undefined> => {
+      let loaded = messagesRef.current.get(id);
+      if (!loaded) {
+        const stored = await loadStoredConversation(id);
+        if (!stored) return undefined;
+        // A local update may have landed while reading
+        loaded = messagesRef.current.get(id) ?? {
+          messages: stored.messages,
+          tree: stored.tree,
+          updatedAt: stored.updatedAt,
+        };
+        messagesRef.current.set(id, loaded);
+      }
+      const summary = stateRef.current.conversations.find((c) => c.id === id);
+      return summary ? withMessages(summary, loaded) : undefined;
+    },
+    []
+  );
+
   /**
    * Create a new conversation
    */
@@ -135,13 +361,14 @@ export function useChatHistory() {
     const id = generateId();
     const now = Date.now();
 
-    hasLocalEditsRef.current = true;
+    markChanged(id, true);
+    messagesRef.current.set(id, { messages: [], tree: [], updatedAt: now });
     setState((prev) => ({
       conversations: [
         {
           id,
           title: "New Chat",
-          messages: [],
+          messageCount: 0,
           createdAt: now,
           updatedAt: now,
         },
@@ -151,7 +378,53 @@ export function useChatHistory() {
     }));
 
     return id;
-  }, []);
+  }, [markChanged]);
+
+  /**
+   * Fork a conversation: a new conversation starting with a copy of the
+   * given messages (the source's branch up to the message forked from),
+   * linked back to the source. It becomes the active conversation.
+   *
+   * @param modelId - The model chosen in the source when it was forked
+   * @returns The new conversation's ID
+   */
+  const forkConversation = useCallback(
+    (sourceId: string, messages: UIMessage[], modelId?: string): string => {
+      const source = stateRef.current.conversations.find((c) => c.id === sourceId);
+      const title = source?.title ?? generateTitle(messages);
+      const id = generateId();
+      const now = Date.now();
+
+      markChanged(id, true);
+      messagesRef.current.set(id, {
+        messages,
+        tree: buildMessageTree(messages),
+        updatedAt: now,
+      });
+      setState((prev) => ({
+        conversations: [
+          {
+            id,
+            title,
+            forkedFrom: {
+              conversationId: sourceId,
+              messageId: messages[messages.length - 1]?.id ?? "",
+              title,
+            },
+            ...(modelId ? { modelId } : {}),
+            messageCount: messages.length,
+            createdAt: now,
+            updatedAt: now,
+          },
+          ...prev.conversations,
+        ],
+        activeConversationId: id,
+      }));
+
+      return id;
+    },
+    [markChanged]
+  );
 
   /**
    * Set the active conversation
@@ -166,10 +439,15 @@ export function useChatHistory() {
 
   /**
    * Update messages for a conversation
+   *
+   * @param messages - The branch being viewed
+   * @param tree - Every message on every branch
    */
   const updateConversationMessages = useCallback(
-    (id: string, messages: UIMessage[]) => {
-      hasLocalEditsRef.current = true;
+    (id: string, messages: UIMessage[], tree: ChatMessageNode[]) => {
+      const now = Date.now();
+      markChanged(id, true);
+      messagesRef.current.set(id, { messages, tree, updatedAt: now });
       setState((prev) => {
         const conversationIndex = prev.conversations.findIndex(
           (c) => c.id === id
@@ -177,14 +455,13 @@ export function useChatHistory() {
 
         if (conversationIndex === -1) {
           // Create a new conversation if it doesn't exist
-          const now = Date.now();
           return {
             ...prev,
             conversations: [
               {
                 id,
                 title: generateTitle(messages),
-                messages,
+                messageCount: messages.length,
                 createdAt: now,
                 updatedAt: now,
               },
@@ -199,12 +476,12 @@ export function useChatHistory() {
 
         updatedConversations[conversationIndex] = {
           ...conversation,
-          messages,
+          messageCount: messages.length,
           title:
-            conversation.messages.length === 0
+            conversation.messageCount === 0
               ? generateTitle(messages)
               : conversation.title,
-          updatedAt: Date.now(),
+          updatedAt: now,
         };
 
         return {
@@ -213,7 +490,7 @@ export function useChatHistory() {
         };
       });
     },
-    []
+    [markChanged]
   );
 
   /**
@@ -221,21 +498,21 @@ export function useChatHistory() {
    * Sets userRenamed flag to prevent AI from overwriting
    */
   const renameConversation = useCallback((id: string, title: string) => {
-    hasLocalEditsRef.current = true;
+    markChanged(id);
     setState((prev) => ({
       ...prev,
       conversations: prev.conversations.map((c) =>
         c.id === id ? { ...c, title, userRenamed: true, updatedAt: Date.now() } : c
       ),
     }));
-  }, []);
+  }, [markChanged]);
 
   /**
    * Update conversation title (AI-generated)
    * Only updates if userRenamed is false - respects user's custom titles
    */
   const updateConversationTitle = useCallback((id: string, title: string) => {
-    hasLocalEditsRef.current = true;
+    markChanged(id);
     setState((prev) => ({
       ...prev,
       conversations: prev.conversations.map((c) =>
@@ -244,13 +521,30 @@ export function useChatHistory() {
           : c
       ),
     }));
-  }, []);
+  }, [markChanged]);
+
+  /**
+   * Remember the model chosen for a conversation (restored when it's opened)
+   */
+  const setConversationModel = useCallback((id: string, modelId: string) => {
+    markChanged(id);
+    setState((prev) => ({
+      ...prev,
+      conversations: prev.conversations.map((c) =>
+        c.id === id ? { ...c, modelId, updatedAt: Date.now() } : c
+      ),
+    }));
+  }, [markChanged]);
 
   /**
    * Delete a conversation
    */
   const deleteConversation = useCallback((id: string) => {
     hasLocalEditsRef.current = true;
+    pendingRef.current.changed.delete(id);
+    pendingRef.current.withMessages.delete(id);
+    pendingRef.current.deleted.add(id);
+    messagesRef.current.delete(id);
     setState((prev) => {
       const newConversations = prev.conversations.filter((c) => c.id !== id);
       return {
@@ -268,6 +562,8 @@ export function useChatHistory() {
    */
   const clearAllConversations = useCallback(() => {
     hasLocalEditsRef.current = true;
+    pendingRef.current = emptyChanges();
+    messagesRef.current.clear();
     setState({
       conversations: [],
       activeConversationId: null,
@@ -278,11 +574,16 @@ export function useChatHistory() {
   }, []);
 
   /**
-   * Get the active conversation
+   * Get the active conversation (with messages, once they're loaded)
    */
-  const activeConversation = state.conversations.find(
+  const activeSummary = state.conversations.find(
     (c) => c.id === state.activeConversationId
   );
+  const activeMessages = activeSummary && messagesRef.current.get(activeSummary.id);
+  const activeConversation =
+    activeSummary && activeMessages
+      ? withMessages(activeSummary, activeMessages)
+      : undefined;
 
   return {
     // State
@@ -292,14 +593,24 @@ export function useChatHistory() {
     isHydrated,
 
     // Actions
+    loadConversation,
     createConversation,
+    forkConversation,
     setActiveConversation,
     updateConversationMessages,
     renameConversation,
     updateConversationTitle, // AI-generated title updates (respects userRenamed)
+    setConversationModel,
     deleteConversation,
     clearAllConversations,
   };
 }
 
-export type { ChatConversation, ChatHistoryState } from "@/lib/chat-types";
+export type {
+  ChatConversation,
+  ChatForkOrigin,
+  ChatHistoryState,
+  ChatMessageNode,
+  ChatSummary,
+  ChatSummaryState,
+} from "@/lib/chat-types";
@@ -46,7 +46,11 @@ QUERY TIPS:
 - For concepts: ask natural questions
 - For figures/sections: use exact identifiers (Figure 3, Section 2.1)
 
-Returns: Array of {documentId, filename, chunkText, headingPath, score, matchedTerms}`,
+CITING PAGES:
+- PDF results include a page range (pageStart/pageEnd, shown as pages="p. 12–13")
+- Cite it alongside the filename, e.g. "(report.pdf, p. 12–13)"
+
+Returns: Array of {documentId, filename, chunkText, headingPath, pageStart, pageEnd, score, matchedTerms}`,
   inputSchema: z.object({
     query: z.string().describe("Search query - natural language, exact terms, or quoted phrases"),
     topK: z.number().optional().describe("Number of results (default: 10, max: 25)"),
@@ -67,7 +71,7 @@ WHEN TO USE:
 - Before searching, to know what documents are available
 - When user references a document by name
 
-Returns: Array of {id, filename, fileSize, chunkCount, uploadedAt, status}`,
+Returns: Array of {id, filename, fileSize, chunkCount, pageCount, uploadedAt, status}`,
   inputSchema: z.object({}),
 });
 
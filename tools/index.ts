@@ -72,6 +72,14 @@ import { knowledgeTools } from "./knowledge-tools";
 import { saveToContextTool } from "./save-to-context";
 import { createWebSearchTool } from "./web-search";
 import { documentTools } from "./document-search";
+import { createServerKnowledgeTools } from "./server-knowledge-tools";
+import type { ServerKnowledgeStore } from "@/knowledge/server/store";
+import { BROWSER_ONLY_KNOWLEDGE_TOOLS } from "@/lib/knowledge-mode";
+import {
+  isApprovalRequired,
+  countContentLines,
+  type ApprovalPolicies,
+} from "@/lib/approval-policies";
 
 // =============================================================================
 // TOOLS EXPORT
@@ -92,16 +100,73 @@ import { documentTools } from "./document-search";
  * We use a factory function because the web search tool requires
  * the Anthropic API key to be configured.
  *
- * @param apiKey - Anthropic API key (required for web search)
+ * @param apiKey - Anthropic API key (web search is omitted when not provided,
+ *   e.g. for models from other providers)
+ * @param knowledgeStore - Server knowledge store; when given, the core kb_*
+ *   tools execute on the server instead of in the browser, and the link tools
+ *   (which the server store doesn't support) are left out
+ * @param approvalPolicies - The user's approval policies (Settings); applied
+ *   as `needsApproval` to the server-executed kb_* tools. Client-executed
+ *   tools are checked by the browser before it runs them.
  * @returns All tools available to agents
  */
-export function createTools(apiKey: string): ToolSet {
-  return {
-    ...knowledgeTools,
+export function createTools(
+  apiKey?: string,
+  knowledgeStore?: ServerKnowledgeStore,
+  approvalPolicies: ApprovalPolicies = {}
+): ToolSet {
+  const tools: ToolSet = {
+    ...(knowledgeStore ? withoutBrowserOnlyTools(knowledgeTools) : knowledgeTools),
+    ...(knowledgeStore
+      ? withApprovalPolicies(createServerKnowledgeTools(knowledgeStore), approvalPolicies, knowledgeStore)
+      : {}),
     ...documentTools,
     save_to_context: saveToContextTool,
-    web_search: createWebSearchTool(apiKey),
   };
+  if (apiKey) {
+    tools.web_search = createWebSearchTool(apiKey);
+  }
+  return tools;
+}
+
+/**
+ * Drop the kb_* tools that only work against the browser knowledge base.
+ */
+function withoutBrowserOnlyTools(tools: ToolSet): ToolSet {
+  const result: ToolSet = { ...tools };
+  for (const name of BROWSER_ONLY_KNOWLEDGE_TOOLS) {
+    delete result[name];
+  }
+  return result;
+}
+
+/**
+ * Add `needsApproval` to server-executed tools that have a policy.
+ */
+function withApprovalPolicies(
+  tools: ToolSet,
+  policies: ApprovalPolicies,
+  store: ServerKnowledgeStore
+): ToolSet {
+  const countLines = async (path: string) => {
+    try {
+      return countContentLines(await store.readFile(path));
+    } catch {
+      return null; // No file to overwrite
+    }
+  };
+
+  const result: ToolSet = {};
+  for (const [name, tool] of Object.entries(tools)) {
+    result[name] = policies[name]
+      ? {
+          ...tool,
+          needsApproval: (input: unknown) =>
+            isApprovalRequired(policies, name, (input ?? {}) as Record<string, unknown>, countLines),
+        }
+      : tool;
+  }
+  return result;
 }
 
 /**
@@ -114,7 +179,7 @@ export const staticTools = {
   save_to_context: saveToContextTool,
 } as const;
 
-export { knowledgeTools, documentTools, saveToContextTool, createWebSearchTool };
+export { knowledgeTools, documentTools, saveToContextTool, createWebSearchTool, createServerKnowledgeTools };
 
 // =============================================================================
 // TYPE EXPORTS
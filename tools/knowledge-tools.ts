@@ -10,13 +10,19 @@
  * - kb_read: Read a file's contents
  * - kb_write: Create or overwrite a file
  * - kb_append: Append to a file
+ * - kb_edit: Edit part of a file in place (exact replace or patch)
  * - kb_mkdir: Create a folder
  * - kb_delete: Delete a file or folder
+ * - kb_move: Move or rename a file or folder
+ * - kb_copy: Copy a file or folder
  * - kb_search: Semantic search across all files (RAG)
+ * - kb_grep: Find every line matching a literal or regex pattern
  * - kb_link: Create a relationship between files
  * - kb_unlink: Remove a relationship between files
  * - kb_links: Query all relationships for a file
  * - kb_graph: Traverse the knowledge graph
+ * - kb_history: List a file's revisions (or diff one)
+ * - kb_restore: Restore a file from a revision
  */
 
 import { tool } from "ai";
@@ -52,6 +58,29 @@ export const kbAppendTool = tool({
   }),
 });
 
+export const kbEditTool = tool({
+  description: `Edit part of an existing file in place, without rewriting the whole file.
+Prefer this over kb_write for small changes to long files. Read the file with kb_read first.
+
+Use ONE of two modes:
+- Exact replace: oldText → newText. oldText must match the file exactly (including
+  whitespace and line breaks) and exactly once - add surrounding lines to make it unique,
+  or set replaceAll=true to change every occurrence.
+- Patch: a unified diff with @@ hunks (" " context, "-" removed, "+" added lines).
+
+Edits that don't match, or match more than one place, are rejected with an error
+explaining how to fix the call. Nothing is changed in that case.
+
+Returns: { success: true, replacements, diff } or { error: string }`,
+  inputSchema: z.object({
+    path: z.string().describe("File path to edit, e.g. 'projects/ideas.md'"),
+    oldText: z.string().optional().describe("Exact text to replace (replace mode)"),
+    newText: z.string().optional().describe("Replacement text (replace mode, may be empty to delete)"),
+    replaceAll: z.boolean().optional().describe("Replace every occurrence of oldText (default: false)"),
+    patch: z.string().optional().describe("Unified diff to apply (patch mode)"),
+  }),
+});
+
 export const kbMkdirTool = tool({
   description: "Create a folder in the knowledge base. Parent folders are created automatically.",
   inputSchema: z.object({
@@ -60,12 +89,38 @@ export const kbMkdirTool = tool({
 });
 
 export const kbDeleteTool = tool({
-  description: "Delete a file or folder (and all its contents) from the knowledge base.",
+  description: "Delete a file or folder (and all its contents) from the knowledge base. It goes to the trash, where the user can restore it (with its links) until the trash is purged.",
   inputSchema: z.object({
     path: z.string().describe("Path to delete"),
   }),
 });
 
+export const kbMoveTool = tool({
+  description: `Move or rename a file or folder in the knowledge base.
+Use this to reorganize instead of kb_read + kb_write + kb_delete: the file keeps its
+creation date, history, search index and all its links.
+
+Parent folders of the destination are created automatically. Fails if the destination exists.
+
+Returns: { success: true, from, to, files } or { error: string }`,
+  inputSchema: z.object({
+    from: z.string().describe("Existing path, e.g. 'notes/idea.md' or 'old-folder'"),
+    to: z.string().describe("New path, e.g. 'projects/idea.md' or 'new-folder'"),
+  }),
+});
+
+export const kbCopyTool = tool({
+  description: `Copy a file or folder (with everything in it) to a new path in the knowledge base.
+The copy is a new file with its own history. Links are not copied.
+Fails if the destination exists.
+
+Returns: { success: true, from, to, files } or { error: string }`,
+  inputSchema: z.object({
+    from: z.string().describe("Existing path to copy"),
+    to: z.string().describe("Path for the copy"),
+  }),
+});
+
 export const kbSearchTool = tool({
   description: `Hybrid search the KNOWLEDGE BASE using both lexical (exact terms) and semantic (meaning) matching.
 Returns relevant chunks ranked by combined score (0-1).
@@ -98,10 +153,47 @@ LIMITATIONS (when to use kb_list + kb_read instead):
 - Short bullet lists and structured data may score lower
 - Very broad queries ("AI", "projects") get moderate scores everywhere
 
+FILTERS (from each file's YAML frontmatter - tags, aliases, status, source, expires):
+- tags: only files with ALL of these tags, e.g. ["project/acme", "client/globex"]
+- alias, status, source: match the file's frontmatter (case-insensitive; source matches a substring)
+- excludeExpired: skip files whose expires date has passed
+Use filters to scope a search to one project or client. The knowledge base summary lists each file's tags.
+
 Returns: Array of {filePath, chunkText, headingPath, score, matchedTerms}`,
   inputSchema: z.object({
     query: z.string().describe("Search query - can be natural language, exact terms, or quoted phrases"),
     topK: z.number().optional().describe("Number of results (default: 5, max: 25)"),
+    tags: z.array(z.string()).optional().describe("Only files with all of these frontmatter tags"),
+    alias: z.string().optional().describe("Only files with this frontmatter alias"),
+    status: z.string().optional().describe("Only files with this frontmatter status, e.g. 'active'"),
+    source: z.string().optional().describe("Only files whose frontmatter source contains this text"),
+    excludeExpired: z.boolean().optional().describe("Skip files whose frontmatter expires date has passed"),
+  }),
+});
+
+export const kbGrepTool = tool({
+  description: `Find EVERY line in the KNOWLEDGE BASE that matches a literal string or regular expression, like grep.
+Returns each match with its file, line number and surrounding lines, grouped by file.
+
+WHEN TO USE (instead of kb_search):
+- Exhaustive lookups: "every file that mentions TODO(alex)", "all notes with an @due date"
+- Exact strings, IDs, URLs or code where ranking doesn't matter
+- Patterns: dates, ticket numbers, checkboxes ("^- \\[ \\]")
+
+kb_search ranks the most relevant chunks by meaning; kb_grep lists all literal matches and misses paraphrases.
+
+Patterns are literal by default - set regex: true for a JavaScript regex (no slashes or flags).
+Regexes longer than 200 characters, or that repeat a group containing a repeat like (a+)+, are rejected.
+Matching is case-sensitive unless ignoreCase is true. Use path to search one folder.
+
+Returns: { grep_results: string (XML), matches: [{path, line, text, before, after}], files, truncated }`,
+  inputSchema: z.object({
+    pattern: z.string().describe("Text to find, or a regex when regex is true"),
+    regex: z.boolean().optional().describe("Treat pattern as a JavaScript regular expression (default: false)"),
+    ignoreCase: z.boolean().optional().describe("Case-insensitive matching (default: false)"),
+    path: z.string().optional().describe("Only search under this folder or file, e.g. 'projects'"),
+    context: z.number().optional().describe("Lines of context around each match (default: 2, max: 10)"),
+    maxMatches: z.number().optional().describe("Maximum matching lines to return (default: 100, max: 500)"),
   }),
 });
 
@@ -167,6 +259,9 @@ RELATIONSHIP TYPES:
 
 Use bidirectional=true when relationship is symmetric (e.g., "relates-to" between similar topics).
 
+[[wiki links]] and relative markdown links in a file's text already create "references" links
+automatically (derived: true) - no kb_link call is needed for those.
+
 Both source and target files must exist in the knowledge base.
 
 Returns: { success: true, link: KnowledgeLink } or { success: false, error: string }`,
@@ -220,17 +315,56 @@ Each node contains: { path, links: { outgoing, incoming } }`,
   }),
 });
 
+export const kbHistoryTool = tool({
+  description: `Show the version history of a file in the knowledge base.
+Every write, append, edit, delete and restore is stored as a revision, newest first.
+
+Without revisionId: lists revisions with their action, time and +added/-removed line counts.
+With revisionId: returns that revision's change as a unified diff.
+
+Use this to check what changed, or before kb_restore to undo a mistake.
+
+Returns: { history: string (XML), revisions: [...] } or { revision, diff }`,
+  inputSchema: z.object({
+    path: z.string().describe("File path, e.g. 'projects/ideas.md'"),
+    revisionId: z.string().optional().describe("Revision to show as a diff"),
+    limit: z.number().optional().describe("Max revisions to list (default: 10)"),
+  }),
+});
+
+export const kbRestoreTool = tool({
+  description: `Restore a file from one of its revisions (see kb_history).
+
+- state="before" undoes the revision: the file goes back to how it was just before it
+  (e.g. undo an accidental overwrite, or bring back a deleted file)
+- state="after" restores the file exactly as that revision left it
+
+The restore itself is recorded as a new revision, so it can be undone too.
+
+Returns: { success: true, path, deleted } or { error: string }`,
+  inputSchema: z.object({
+    revisionId: z.string().describe("Revision ID from kb_history"),
+    state: z.enum(["before", "after"]).optional().default("before").describe("Which side of the revision to restore (default: before = undo)"),
+  }),
+});
+
 export const knowledgeTools = {
   kb_list: kbListTool,
   kb_read: kbReadTool,
   kb_write: kbWriteTool,
   kb_append: kbAppendTool,
+  kb_edit: kbEditTool,
   kb_mkdir: kbMkdirTool,
   kb_delete: kbDeleteTool,
+  kb_move: kbMoveTool,
+  kb_copy: kbCopyTool,
   kb_search: kbSearchTool,
+  kb_grep: kbGrepTool,
   chat_search: chatSearchTool,
   kb_link: kbLinkTool,
   kb_unlink: kbUnlinkTool,
   kb_links: kbLinksTool,
   kb_graph: kbGraphTool,
+  kb_history: kbHistoryTool,
+  kb_restore: kbRestoreTool,
 };
@@ -0,0 +1,240 @@
+/**
+ * Server Knowledge Tools
+ *
+ * Server-executed versions of the core kb_* tools, used when
+ * NEXT_PUBLIC_KNOWLEDGE_STORE=server (see lib/knowledge-mode.ts).
+ *
+ * They share names, descriptions and input schemas with the client-side
+ * tools in knowledge-tools.ts, and return the same output shapes as the
+ * onToolCall switch in ai-chat.tsx, so the model and KnowledgeToolView
+ * can't tell the difference. The only change is that `execute` runs
+ * against a per-user ServerKnowledgeStore inside the agent loop.
+ *
+ * kb_search is lexical-only here (no embeddings on the server). There are
+ * no links on the server, so kb_link, kb_unlink, kb_links and kb_graph are
+ * left out of server mode altogether (see tools/index.ts).
+ */
+
+import { tool } from "ai";
+import type { ServerKnowledgeStore } from "@/knowledge/server/store";
+import { toFileEdit } from "@/knowledge/edit";
+import { formatGrepResults } from "@/knowledge/grep";
+import { diffLines, formatUnifiedDiff, getDiffStats } from "@/knowledge/history/diff";
+import type { FileRevision } from "@/knowledge/history/types";
+import {
+  kbListTool,
+  kbReadTool,
+  kbWriteTool,
+  kbAppendTool,
+  kbEditTool,
+  kbMkdirTool,
+  kbDeleteTool,
+  kbMoveTool,
+  kbCopyTool,
+  kbSearchTool,
+  kbGrepTool,
+  kbHistoryTool,
+  kbRestoreTool,
+} from "./knowledge-tools";
+
+/**
+ * Run a tool body, turning thrown errors into the `{ error }` output the
+ * client-side tools produce.
+ */
+async function run<T>(fn: () => Promise<T>): Promise<T | { error: string }> {
+  try {
+    return await fn();
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Create kb_* tools bound to a user's server store.
+ *
+ * @param store - The store for the authenticated user
+ * @returns Tools with `execute`, keyed by the same names as knowledgeTools
+ */
+export function createServerKnowledgeTools(store: ServerKnowledgeStore) {
+  return {
+    kb_list: tool({
+      description: kbListTool.description,
+      inputSchema: kbListTool.inputSchema,
+      execute: ({ path }) =>
+        run(async () => {
+          const items = await store.listFolder(path);
+          const xmlOutput = `<folder_listing path="${path}">
+${items.map((i) => `<item>${i}</item>`).join("\n")}
+</folder_listing>`;
+          return { listing: xmlOutput, contents: items };
+        }),
+    }),
+
+    kb_read: tool({
+      description: kbReadTool.description,
+      inputSchema: kbReadTool.inputSchema,
+      execute: ({ path }) =>
+        run(async () => {
+          const content = await store.readFile(path);
+          const xmlOutput = `<document source="${path}" type="knowledge_base_file">
+<document_content>
+${content}
+</document_content>
+</document>`;
+          return { document: xmlOutput, content };
+        }),
+    }),
+
+    kb_write: tool({
+      description: kbWriteTool.description,
+      inputSchema: kbWriteTool.inputSchema,
+      execute: ({ path, content }) =>
+        run(async () => {
+          await store.writeFile(path, content);
+          return { success: true };
+        }),
+    }),
+
+    kb_append: tool({
+      description: kbAppendTool.description,
+      inputSchema: kbAppendTool.inputSchema,
+      execute: ({ path, content }) =>
+        run(async () => {
+          await store.appendFile(path, content);
+          return { success: true };
+        }),
+    }),
+
+    kb_edit: tool({
+      description: kbEditTool.description,
+      inputSchema: kbEditTool.inputSchema,
+      execute: ({ path, ...edit }) =>
+        run(async () => {
+          const result = await store.editFile(path, toFileEdit(edit));
+          return { success: true, ...result };
+        }),
+    }),
+
+    kb_mkdir: tool({
+      description: kbMkdirTool.description,
+      inputSchema: kbMkdirTool.inputSchema,
+      execute: ({ path }) =>
+        run(async () => {
+          await store.mkdir(path);
+          return { success: true };
+        }),
+    }),
+
+    kb_delete: tool({
+      description: kbDeleteTool.description,
+      inputSchema: kbDeleteTool.inputSchema,
+      execute: ({ path }) =>
+        run(async () => {
+          await store.deleteNode(path);
+          return { success: true };
+        }),
+    }),
+
+    kb_move: tool({
+      description: kbMoveTool.description,
+      inputSchema: kbMoveTool.inputSchema,
+      execute: ({ from, to }) =>
+        run(async () => {
+          const result = await store.moveNode(from, to);
+          return { success: true, ...result };
+        }),
+    }),
+
+    kb_copy: tool({
+      description: kbCopyTool.description,
+      inputSchema: kbCopyTool.inputSchema,
+      execute: ({ from, to }) =>
+        run(async () => {
+          const result = await store.copyNode(from, to);
+          return { success: true, ...result };
+        }),
+    }),
+
+    kb_search: tool({
+      description: kbSearchTool.description,
+      inputSchema: kbSearchTool.inputSchema,
+      execute: ({ query, topK, ...filter }) =>
+        run(async () => {
+          const results = await store.search(query, Math.min(topK || 5, 25), filter);
+          if (results.length === 0) {
+            return {
+              results: [],
+              message: "No matching content found in knowledge base. Try a different query or check if knowledge base is empty.",
+            };
+          }
+          const xmlOutput = `<search_results source="knowledge_base" query="${query}" mode="${results[0]?.queryType || "mixed"}">
+${results.map((r) => {
+  const matchedTermsAttr = r.matchedTerms.length > 0
+    ? ` matched_terms="${r.matchedTerms.join(", ")}"`
+    : "";
+  return `<result score="${r.score}" file="${r.filePath}" heading="${r.headingPath}"${matchedTermsAttr}>
+<chunk_text>
+${r.chunkText}
+</chunk_text>
+</result>`;
+}).join("\n")}
+</search_results>`;
+          return { search_results: xmlOutput, results };
+        }),
+    }),
+
+    kb_grep: tool({
+      description: kbGrepTool.description,
+      inputSchema: kbGrepTool.inputSchema,
+      execute: ({ pattern, ...options }) =>
+        run(async () => {
+          const result = await store.grep(pattern, options);
+          if (result.matches.length === 0) {
+            return { ...result, message: `No lines match "${pattern}".` };
+          }
+          return { grep_results: formatGrepResults(pattern, result), ...result };
+        }),
+    }),
+
+    kb_history: tool({
+      description: kbHistoryTool.description,
+      inputSchema: kbHistoryTool.inputSchema,
+      execute: ({ path, revisionId, limit }) =>
+        run(async () => {
+          const summarize = (r: FileRevision) => ({
+            id: r.id,
+            action: r.action,
+            createdAt: r.createdAt,
+            ...getDiffStats(diffLines(r.previousContent ?? "", r.content ?? "")),
+          });
+
+          if (revisionId) {
+            const revision = await store.getRevision(revisionId);
+            if (!revision) return { error: `Revision not found: ${revisionId}` };
+            const lines = diffLines(revision.previousContent ?? "", revision.content ?? "");
+            return {
+              revision: summarize(revision),
+              diff: formatUnifiedDiff(lines, revision.path) || "(no changes)",
+            };
+          }
+
+          const history = await store.getFileHistory(path);
+          const revisions = history.slice(0, limit || 10).map(summarize);
+          const xmlOutput = `<file_history path="${path}" total="${history.length}">
+${revisions.map((r) => `<revision id="${r.id}" action="${r.action}" time="${new Date(r.createdAt).toISOString()}" added="${r.added}" removed="${r.removed}" />`).join("\n")}
+</file_history>`;
+          return { history: xmlOutput, revisions, total: history.length };
+        }),
+    }),
+
+    kb_restore: tool({
+      description: kbRestoreTool.description,
+      inputSchema: kbRestoreTool.inputSchema,
+      execute: ({ revisionId, state }) =>
+        run(async () => {
+          const result = await store.restoreRevision(revisionId, state ?? "before");
+          return { success: true, path: result.path, deleted: result.content === null };
+        }),
+    }),
+  };
+}
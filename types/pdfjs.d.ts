@@ -21,6 +21,6 @@ declare module "pdfjs-dist/legacy/build/pdf" {
   }
 
   interface TextContent {
-    items: Array<{ str?: string } | object>;
+    items: Array<{ str?: string; hasEOL?: boolean } | object>;
   }
 }